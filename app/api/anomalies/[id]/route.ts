@@ -0,0 +1,23 @@
+import { NextResponse } from "next/server";
+
+import { invalidJson, notFound, readJson, serverError, validationError } from "@/lib/api/responses";
+import { setAnomalyFeedback, validateAnomalyFeedback } from "@/lib/anomalies";
+
+type Params = { params: Promise<{ id: string }> };
+
+/** `{ expected: true }` marks an expense as normal spending; `false` withdraws that review. */
+export async function PATCH(req: Request, { params }: Params) {
+  const { id } = await params;
+  const body = await readJson(req);
+  if (body === undefined) return invalidJson();
+
+  const result = validateAnomalyFeedback(body);
+  if (!result.ok) return validationError(result.errors);
+
+  try {
+    const expense = await setAnomalyFeedback(id, result.value.expected);
+    return expense ? NextResponse.json(expense) : notFound("Expense not found");
+  } catch (error) {
+    return serverError("Failed to save anomaly feedback", error);
+  }
+}
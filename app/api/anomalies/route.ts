@@ -0,0 +1,15 @@
+import { NextResponse } from "next/server";
+
+import { serverError } from "@/lib/api/responses";
+import { listAnomalies, refreshAnomalies } from "@/lib/anomalies";
+
+/** Flagged expenses with their explanations, newest first; `?all=1` includes ones marked as expected. */
+export async function GET(req: Request) {
+  const all = new URL(req.url).searchParams.get("all");
+  try {
+    await refreshAnomalies();
+    return NextResponse.json({ anomalies: await listAnomalies(all === "1" || all === "true") });
+  } catch (error) {
+    return serverError("Failed to load anomalies", error);
+  }
+}
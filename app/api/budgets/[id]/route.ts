@@ -0,0 +1,47 @@
+import { NextResponse } from "next/server";
+
+import { invalidJson, notFound, readJson, serverError, validationError } from "@/lib/api/responses";
+import { deleteBudget, getBudget, updateBudget, validateBudgetPatch } from "@/lib/budgets";
+
+type Params = { params: Promise<{ id: string }> };
+
+export async function GET(_req: Request, { params }: Params) {
+  const { id } = await params;
+  try {
+    const budget = await getBudget(id);
+    return budget ? NextResponse.json(budget) : notFound("Budget not found");
+  } catch (error) {
+    return serverError("Failed to load budget", error);
+  }
+}
+
+/** Partial update. Changing the period or rollover applies to the current period straight away. */
+export async function PATCH(req: Request, { params }: Params) {
+  const { id } = await params;
+  const body = await readJson(req);
+  if (body === undefined) return invalidJson();
+
+  try {
+    const current = await getBudget(id);
+    if (!current) return notFound("Budget not found");
+
+    const result = validateBudgetPatch(body, current);
+    if (!result.ok) return validationError(result.errors);
+
+    const updated = await updateBudget(id, result.value);
+    if (!updated) return notFound("Budget not found");
+    return updated.ok ? NextResponse.json(updated.value) : validationError(updated.errors);
+  } catch (error) {
+    return serverError("Failed to update budget", error);
+  }
+}
+
+export async function DELETE(_req: Request, { params }: Params) {
+  const { id } = await params;
+  try {
+    const removed = await deleteBudget(id);
+    return removed ? NextResponse.json({ success: true }) : notFound("Budget not found");
+  } catch (error) {
+    return serverError("Failed to delete budget", error);
+  }
+}
@@ -0,0 +1,17 @@
+import { NextResponse } from "next/server";
+
+import { notFound, serverError } from "@/lib/api/responses";
+import { dismissBudgetAlert } from "@/lib/budgets";
+
+type Params = { params: Promise<{ id: string }> };
+
+/** Dismisses an alert. It stays in the history returned by `?all=1`. */
+export async function DELETE(_req: Request, { params }: Params) {
+  const { id } = await params;
+  try {
+    const alert = await dismissBudgetAlert(id);
+    return alert ? NextResponse.json(alert) : notFound("Budget alert not found");
+  } catch (error) {
+    return serverError("Failed to dismiss budget alert", error);
+  }
+}
@@ -0,0 +1,14 @@
+import { NextResponse } from "next/server";
+
+import { serverError } from "@/lib/api/responses";
+import { listBudgetAlerts } from "@/lib/budgets";
+
+/** Open alerts, newest first; `?all=1` includes dismissed ones. */
+export async function GET(req: Request) {
+  const all = new URL(req.url).searchParams.get("all");
+  try {
+    return NextResponse.json({ alerts: await listBudgetAlerts(all === "1" || all === "true") });
+  } catch (error) {
+    return serverError("Failed to load budget alerts", error);
+  }
+}
@@ -0,0 +1,34 @@
+import { NextResponse } from "next/server";
+
+import { invalidJson, readJson, serverError, validationError } from "@/lib/api/responses";
+import { createBudget, listBudgets, validateBudget } from "@/lib/budgets";
+
+/** Budgets with their status for the current period, or the period containing `at` (ISO date). */
+export async function GET(req: Request) {
+  const at = new URL(req.url).searchParams.get("at");
+  const date = at ? new Date(at) : new Date();
+  if (Number.isNaN(date.getTime())) {
+    return validationError([{ field: "at", message: "must be an ISO 8601 date string" }]);
+  }
+
+  try {
+    return NextResponse.json({ budgets: await listBudgets(date) });
+  } catch (error) {
+    return serverError("Failed to load budgets", error);
+  }
+}
+
+export async function POST(req: Request) {
+  const body = await readJson(req);
+  if (body === undefined) return invalidJson();
+
+  const result = validateBudget(body);
+  if (!result.ok) return validationError(result.errors);
+
+  try {
+    const created = await createBudget(result.value);
+    return created.ok ? NextResponse.json(created.value, { status: 201 }) : validationError(created.errors);
+  } catch (error) {
+    return serverError("Failed to save budget", error);
+  }
+}
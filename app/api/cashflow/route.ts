@@ -0,0 +1,25 @@
+import { NextResponse } from "next/server";
+
+import { serverError } from "@/lib/api/responses";
+import { lastMonths, summarizeCashFlow } from "@/lib/expenses/cashflow";
+import { listExpenses } from "@/lib/expenses/repository";
+
+const MAX_MONTHS = 36;
+
+/**
+ * Income, spending and net per month. `months` (default 6, max 36) counts back
+ * from `end` ("YYYY-MM", default this month).
+ */
+export async function GET(req: Request) {
+  const params = new URL(req.url).searchParams;
+  const requested = Number(params.get("months") ?? 6);
+  const count = Number.isFinite(requested) ? Math.min(MAX_MONTHS, Math.max(1, Math.floor(requested))) : 6;
+  const end = params.get("end")?.match(/^\d{4}-(0[1-9]|1[0-2])$/) ? params.get("end")! : undefined;
+
+  try {
+    const months = summarizeCashFlow(await listExpenses(), lastMonths(count, end));
+    return NextResponse.json({ months });
+  } catch (error) {
+    return serverError("Failed to load cash flow", error);
+  }
+}
@@ -0,0 +1,23 @@
+import { NextResponse } from "next/server";
+
+import { invalidJson, readJson, serverError, validationError } from "@/lib/api/responses";
+import { suggestCategory, validateCategorizeRequest } from "@/lib/categorization";
+
+/**
+ * Suggests a category for `{ title, categories?, amount? }`: a learned
+ * merchant rule, else the local model (JSON-constrained to `categories`),
+ * else the keyword map. Returns `{ category, confidence, source }`.
+ */
+export async function POST(req: Request) {
+  const body = await readJson(req);
+  if (body === undefined) return invalidJson();
+
+  const result = validateCategorizeRequest(body);
+  if (!result.ok) return validationError(result.errors);
+
+  try {
+    return NextResponse.json(await suggestCategory(result.value));
+  } catch (error) {
+    return serverError("Failed to suggest a category", error);
+  }
+}
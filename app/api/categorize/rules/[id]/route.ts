@@ -0,0 +1,16 @@
+import { NextResponse } from "next/server";
+
+import { notFound, serverError } from "@/lib/api/responses";
+import { deleteCategoryRule } from "@/lib/categorization";
+
+type Params = { params: Promise<{ id: string }> };
+
+export async function DELETE(_req: Request, { params }: Params) {
+  const { id } = await params;
+  try {
+    const removed = await deleteCategoryRule(id);
+    return removed ? NextResponse.json({ success: true }) : notFound("Category rule not found");
+  } catch (error) {
+    return serverError("Failed to delete category rule", error);
+  }
+}
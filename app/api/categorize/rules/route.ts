@@ -0,0 +1,30 @@
+import { NextResponse } from "next/server";
+
+import { invalidJson, readJson, serverError, validationError } from "@/lib/api/responses";
+import { learnCategoryRule, listCategoryRules, validateCategoryRule } from "@/lib/categorization";
+
+/** Learned merchant → category rules, most confirmed first. */
+export async function GET() {
+  try {
+    return NextResponse.json({ rules: await listCategoryRules() });
+  } catch (error) {
+    return serverError("Failed to load category rules", error);
+  }
+}
+
+/** Teaches a correction: `{ title, category }` files the title's merchant under `category`. */
+export async function POST(req: Request) {
+  const body = await readJson(req);
+  if (body === undefined) return invalidJson();
+
+  const result = validateCategoryRule(body);
+  if (!result.ok) return validationError(result.errors);
+
+  try {
+    const rule = await learnCategoryRule(result.value.title, result.value.category);
+    if (!rule) return validationError([{ field: "title", message: "has no merchant name to learn from" }]);
+    return NextResponse.json(rule, { status: 201 });
+  } catch (error) {
+    return serverError("Failed to save category rule", error);
+  }
+}
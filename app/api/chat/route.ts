@@ -1,58 +1,263 @@
 import { NextResponse } from "next/server";
 
-export async function POST(req: Request) {
-  try {
-    const { message, history } = await req.json();
+import { invalidJson, notFound, readJson, serverError, validationError } from "@/lib/api/responses";
+import {
+  historyBudget,
+  planContext,
+  runAssistant,
+  streamAssistant,
+  summariseTurns,
+  validateChatRequest,
+  type AssistantFrame,
+  type AssistantMetadata,
+  type ChatRequest,
+  type ContextReport,
+} from "@/lib/assistant";
+import {
+  activePath,
+  appendMessages,
+  getChat,
+  saveChatSummary,
+  type ChatMessage,
+  type ChatWithMessages,
+  type NewChatMessage,
+} from "@/lib/chats";
+import type { ValidationResult } from "@/lib/validation";
+import { OllamaError } from "@/lib/ollama";
 
-    if (!message || message.trim().length === 0) {
-      return NextResponse.json(
-        { reply: "⚠️ Please enter a valid message." },
-        { status: 400 }
-      );
-    }
+function modelUnavailable(error: OllamaError) {
+  console.error("Chat model error:", error.message);
+  return NextResponse.json({ error: "The assistant model is unavailable. Is Ollama running?" }, { status: 502 });
+}
+
+type StoredTurn = Required<Pick<ChatRequest, "chatId">> &
+  Pick<ChatRequest, "message" | "messageId" | "replyId" | "regenerateFrom"> & {
+    /** Where the user's message goes in the tree. */
+    parentId: string | null;
+    /** When the message arrived; the reply is stamped when it is stored, so the two sort apart. */
+    sentAt: string;
+  };
+
+/**
+ * Records the user's message and the answer, or only the answer when
+ * regenerating; `metadata` is null for an answer cut short.
+ */
+async function saveTurn(turn: StoredTurn, reply: string, metadata: AssistantMetadata | null) {
+  const answer: NewChatMessage = {
+    id: turn.replyId,
+    role: "assistant",
+    content: reply.trim(),
+    ...(metadata?.citations.length ? { citations: metadata.citations } : {}),
+    ...(metadata?.toolCalls.length ? { toolCalls: metadata.toolCalls } : {}),
+    ...(metadata ? { meta: { model: metadata.model, usage: metadata.usage, timing: metadata.timing } } : {}),
+  };
+  await appendMessages(
+    turn.chatId,
+    turn.regenerateFrom
+      ? [{ ...answer, parentId: turn.regenerateFrom }]
+      : [{ id: turn.messageId, parentId: turn.parentId, role: "user", content: turn.message, createdAt: turn.sentAt }, answer]
+  );
+}
+
+/**
+ * Where in a stored chat's tree this turn goes: after `parentId` (default: the
+ * active leaf), or as another answer to `regenerateFrom`. `path` is the branch
+ * leading up to the new message.
+ */
+function placeTurn(
+  chat: ChatWithMessages,
+  request: ChatRequest,
+  sentAt: string
+): ValidationResult<{ path: ChatMessage[]; stored: StoredTurn }> {
+  const find = (id: string) => chat.messages.find((m) => m.id === id);
+  const branch = (leafId: string | null) => (leafId ? activePath(chat.messages, leafId) : []);
+  const turn = { chatId: chat.id, messageId: request.messageId, replyId: request.replyId, sentAt };
 
-    // Build messages array for multi-turn context
-    const messages = [
-      { role: "system", content: "You are a helpful AI financial assistant." },
-      ...(history || []), // keep past messages if provided
-      { role: "user", content: message },
-    ];
-
-    // Call Ollama's chat API
-    const response = await fetch("http://localhost:11434/api/chat", {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
+  if (request.regenerateFrom) {
+    const source = find(request.regenerateFrom);
+    if (source?.role !== "user") {
+      return { ok: false, errors: [{ field: "regenerateFrom", message: "must be a user message of this chat" }] };
+    }
+    return {
+      ok: true,
+      value: {
+        path: branch(source.parentId),
+        stored: { ...turn, message: source.content, parentId: source.parentId, regenerateFrom: source.id },
       },
-      body: JSON.stringify({
-        model: "llama3", // or "llama3:latest"
-        messages,
-        stream: false, // change to true for word-by-word streaming
-      }),
-    });
-
-    if (!response.ok) {
-      const err = await response.text();
-      console.error("Ollama API error:", err);
-      return NextResponse.json(
-        { reply: "⚠️ Failed to connect to Ollama." },
-        { status: 500 }
-      );
+    };
+  }
+
+  if (request.parentId && !find(request.parentId)) {
+    return { ok: false, errors: [{ field: "parentId", message: "must be a message of this chat" }] };
+  }
+  const parentId = request.parentId ?? chat.activeLeafId;
+  return { ok: true, value: { path: branch(parentId), stored: { ...turn, message: request.message, parentId } } };
+}
+
+/**
+ * Fits a stored chat into the model's context, first folding turns that no
+ * longer fit into its summary. If summarising fails the turn goes ahead
+ * with the previous summary and the overflow left out.
+ */
+async function chatContext(
+  chat: ChatWithMessages,
+  path: ChatMessage[],
+  request: Pick<ChatRequest, "message" | "settings">,
+  signal: AbortSignal
+) {
+  const budget = historyBudget(request);
+  const plan = planContext(path, chat.summary ?? null, budget);
+  let summary = chat.summary ?? null;
+  if (plan.toSummarise.length) {
+    try {
+      const content = await summariseTurns(summary?.content ?? null, plan.toSummarise, signal);
+      const coversUntil = plan.toSummarise[plan.toSummarise.length - 1].createdAt;
+      summary = (await saveChatSummary(chat.id, content, coversUntil)) ?? summary;
+    } catch (error) {
+      if (signal.aborted) throw error;
+      console.error("Failed to summarise chat:", error);
+    }
+  }
+  const context: ContextReport = {
+    budget,
+    tokens: plan.tokens,
+    kept: plan.kept,
+    pinned: plan.pinned,
+    summarised: plan.dropped,
+    summary,
+  };
+  return { history: plan.history, summary: summary?.content, context };
+}
+
+/**
+ * Passes frames through and stores the turn before the final frame goes out.
+ * If the answer stops early (client abort, model error) whatever text
+ * arrived is stored instead.
+ */
+async function* recorded(frames: AsyncGenerator<AssistantFrame>, turn: StoredTurn): AsyncGenerator<AssistantFrame> {
+  let reply = "";
+  let saved = false;
+  try {
+    for await (const frame of frames) {
+      if (frame.type === "delta") reply += frame.content;
+      if (frame.type === "done") {
+        await saveTurn(turn, reply, frame);
+        saved = true;
+      }
+      yield frame;
+    }
+  } finally {
+    if (!saved && reply.trim()) {
+      await saveTurn(turn, reply, null).catch((error) => console.error("Failed to save partial answer:", error));
     }
+  }
+}
+
+/**
+ * Sends frames as NDJSON, one per line. The `leading` frames have already
+ * been read, so connection errors surface as a status code rather than
+ * mid-stream. A client disconnect aborts `upstream`, which cancels the
+ * Ollama request.
+ */
+function ndjson(leading: AssistantFrame[], frames: AsyncGenerator<AssistantFrame>, upstream: AbortController) {
+  const encoder = new TextEncoder();
+  const line = (frame: AssistantFrame) => encoder.encode(`${JSON.stringify(frame)}\n`);
+
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (const frame of leading) controller.enqueue(line(frame));
+    },
+    async pull(controller) {
+      try {
+        const next = await frames.next();
+        if (next.done) controller.close();
+        else controller.enqueue(line(next.value));
+      } catch (error) {
+        if (upstream.signal.aborted) return;
+        console.error("Chat stream failed:", error);
+        const message = error instanceof OllamaError ? error.message : "The answer was interrupted";
+        controller.enqueue(line({ type: "error", error: message }));
+        controller.close();
+      }
+    },
+    async cancel() {
+      upstream.abort();
+      await frames.return(undefined).catch(() => {});
+    },
+  });
 
-    const data = await response.json();
+  return new Response(body, {
+    headers: { "Content-Type": "application/x-ndjson; charset=utf-8", "Cache-Control": "no-cache, no-transform" },
+  });
+}
+
+/**
+ * One assistant turn. Body: `{ message, chatId?, history?, stream?, ... }`
+ * (see validateChatRequest). The model can list and total expenses, check
+ * budgets, add expenses and create goals.
+ *
+ * With a `chatId` the earlier turns come from the stored chat (404 when it
+ * does not exist) and this turn is stored in it; otherwise `history` is used
+ * and nothing is stored. In a stored chat the turn continues the active
+ * branch, or follows `parentId` (a fork, for edit and resend); with
+ * `regenerateFrom` the stored question is answered again as a sibling of its
+ * earlier answers. Either way the history is cut to the model's
+ * context window (pinned and newest turns first); a stored chat's older
+ * turns are folded into its summary, which goes into the system prompt.
+ *
+ * Without `stream` the answer is `{ reply, citations, toolCalls, mutated, model,
+ * usage, timing, context? }`. With `stream: true` it is NDJSON: for a stored
+ * chat `{ type: "context", context }` first, then `{ type: "delta", content }`
+ * as text arrives, `{ type: "tool", call }` per tool run, and finally
+ * `{ type: "done", done: true, ... }` with the same metadata (or
+ * `{ type: "error", error }` if the model fails part-way).
+ */
+export async function POST(req: Request) {
+  const startedAt = Date.now();
+  const body = await readJson(req);
+  if (body === undefined) return invalidJson();
+
+  const result = validateChatRequest(body);
+  if (!result.ok) return validationError(result.errors);
+  const { stream, chatId, settings } = result.value;
+  let message = result.value.message;
 
-    const reply =
-      data?.message?.content ||
-      data?.messages?.[0]?.content ||
-      "⚠️ No response from Llama3 model.";
+  try {
+    let fitted: Awaited<ReturnType<typeof chatContext>> | null = null;
+    let stored: StoredTurn | null = null;
+    if (chatId) {
+      const chat = await getChat(chatId);
+      if (!chat) return notFound("Chat not found");
+      const placed = placeTurn(chat, result.value, new Date(startedAt).toISOString());
+      if (!placed.ok) return validationError(placed.errors);
+      stored = placed.value.stored;
+      message = stored.message;
+      fitted = await chatContext(chat, placed.value.path, { message, settings }, req.signal);
+    }
+    const history =
+      fitted?.history ??
+      planContext(
+        result.value.history.map((t, i) => ({ ...t, id: String(i), createdAt: "" })),
+        null,
+        historyBudget({ message, settings })
+      ).history;
+    const turn = { message, history, summary: fitted?.summary, settings, startedAt };
+
+    if (!stream) {
+      const answer = await runAssistant({ ...turn, signal: req.signal });
+      if (stored) await saveTurn(stored, answer.reply, answer);
+      return NextResponse.json(fitted ? { ...answer, context: fitted.context } : answer);
+    }
 
-    return NextResponse.json({ reply });
+    const upstream = new AbortController();
+    const live = streamAssistant({ ...turn, signal: AbortSignal.any([req.signal, upstream.signal]) });
+    const frames = stored ? recorded(live, stored) : live;
+    const first = await frames.next();
+    if (first.done) throw new Error("The assistant stream ended without a result");
+    const leading: AssistantFrame[] = fitted ? [{ type: "context", context: fitted.context }] : [];
+    return ndjson([...leading, first.value], frames, upstream);
   } catch (error) {
-    console.error("Ollama Chat API Error:", error);
-    return NextResponse.json(
-      { reply: "⚠️ Internal server error in chatbot." },
-      { status: 500 }
-    );
+    if (error instanceof OllamaError) return modelUnavailable(error);
+    return serverError("Failed to answer", error);
   }
 }
@@ -0,0 +1,33 @@
+import { NextResponse } from "next/server";
+
+import { invalidJson, notFound, readJson, serverError, validationError } from "@/lib/api/responses";
+import { deleteMessage, updateMessage, validateChatMessagePatch } from "@/lib/chats";
+
+type Params = { params: Promise<{ id: string; messageId: string }> };
+
+/** Edits or pins a message: `{ content?, pinned? }`. */
+export async function PATCH(req: Request, { params }: Params) {
+  const { id, messageId } = await params;
+  const body = await readJson(req);
+  if (body === undefined) return invalidJson();
+
+  const result = validateChatMessagePatch(body);
+  if (!result.ok) return validationError(result.errors);
+
+  try {
+    const updated = await updateMessage(id, messageId, result.value);
+    return updated ? NextResponse.json(updated) : notFound("Message not found");
+  } catch (error) {
+    return serverError("Failed to update message", error);
+  }
+}
+
+export async function DELETE(_req: Request, { params }: Params) {
+  const { id, messageId } = await params;
+  try {
+    const removed = await deleteMessage(id, messageId);
+    return removed ? NextResponse.json({ success: true }) : notFound("Message not found");
+  } catch (error) {
+    return serverError("Failed to delete message", error);
+  }
+}
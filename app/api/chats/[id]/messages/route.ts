@@ -0,0 +1,36 @@
+import { NextResponse } from "next/server";
+
+import { invalidJson, notFound, readJson, serverError, validationError } from "@/lib/api/responses";
+import { appendMessages, getChat, validateChatMessage } from "@/lib/chats";
+
+type Params = { params: Promise<{ id: string }> };
+
+/**
+ * Adds a message without asking the assistant, e.g. a note or a pasted
+ * answer: `{ id?, parentId?, role, content, pinned? }`. It continues the
+ * active branch unless `parentId` names another message, and becomes the
+ * active leaf. Turns sent to /api/chat with a chatId are stored by that route.
+ */
+export async function POST(req: Request, { params }: Params) {
+  const { id } = await params;
+  const body = await readJson(req);
+  if (body === undefined) return invalidJson();
+
+  const result = validateChatMessage(body);
+  if (!result.ok) return validationError(result.errors);
+
+  try {
+    const { parentId } = result.value;
+    if (parentId) {
+      const chat = await getChat(id);
+      if (!chat) return notFound("Chat not found");
+      if (!chat.messages.some((m) => m.id === parentId)) {
+        return validationError([{ field: "parentId", message: "must be a message of this chat" }]);
+      }
+    }
+    const added = await appendMessages(id, [result.value]);
+    return added ? NextResponse.json(added[0], { status: 201 }) : notFound("Chat not found");
+  } catch (error) {
+    return serverError("Failed to save message", error);
+  }
+}
@@ -0,0 +1,55 @@
+import { NextResponse } from "next/server";
+
+import { invalidJson, notFound, readJson, serverError, validationError } from "@/lib/api/responses";
+import { deleteChat, getChat, updateChat, validateChatPatch } from "@/lib/chats";
+
+type Params = { params: Promise<{ id: string }> };
+
+export async function GET(_req: Request, { params }: Params) {
+  const { id } = await params;
+  try {
+    const chat = await getChat(id);
+    return chat ? NextResponse.json(chat) : notFound("Chat not found");
+  } catch (error) {
+    return serverError("Failed to load chat", error);
+  }
+}
+
+/**
+ * Renames a chat, edits its summary or switches branch:
+ * `{ title?, summary?, activeLeafId? }` (`summary: null` removes the summary).
+ */
+export async function PATCH(req: Request, { params }: Params) {
+  const { id } = await params;
+  const body = await readJson(req);
+  if (body === undefined) return invalidJson();
+
+  const result = validateChatPatch(body);
+  if (!result.ok) return validationError(result.errors);
+
+  try {
+    const { activeLeafId } = result.value;
+    if (activeLeafId) {
+      const chat = await getChat(id);
+      if (!chat) return notFound("Chat not found");
+      if (!chat.messages.some((m) => m.id === activeLeafId)) {
+        return validationError([{ field: "activeLeafId", message: "must be a message of this chat" }]);
+      }
+    }
+    const updated = await updateChat(id, result.value);
+    return updated ? NextResponse.json(updated) : notFound("Chat not found");
+  } catch (error) {
+    return serverError("Failed to update chat", error);
+  }
+}
+
+/** Deletes the chat and its messages. */
+export async function DELETE(_req: Request, { params }: Params) {
+  const { id } = await params;
+  try {
+    const removed = await deleteChat(id);
+    return removed ? NextResponse.json({ success: true }) : notFound("Chat not found");
+  } catch (error) {
+    return serverError("Failed to delete chat", error);
+  }
+}
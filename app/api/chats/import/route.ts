@@ -0,0 +1,25 @@
+import { NextResponse } from "next/server";
+
+import { invalidJson, readJson, serverError, validationError } from "@/lib/api/responses";
+import { importChats, validateChatImport } from "@/lib/chats";
+
+/**
+ * Stores chats kept elsewhere, e.g. the chat page's old localStorage copy or
+ * a JSON chat export:
+ * `{ chats: [{ id?, title, createdAt?, messages: [{ id?, role, content, createdAt?, ... }] }], merge? }`.
+ * Chats whose id is already stored are skipped, so re-sending is harmless;
+ * with `merge: true` they gain the messages they are missing instead.
+ */
+export async function POST(req: Request) {
+  const body = await readJson(req);
+  if (body === undefined) return invalidJson();
+
+  const result = validateChatImport(body);
+  if (!result.ok) return validationError(result.errors);
+
+  try {
+    return NextResponse.json(await importChats(result.value));
+  } catch (error) {
+    return serverError("Failed to import chats", error);
+  }
+}
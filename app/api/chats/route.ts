@@ -0,0 +1,31 @@
+import { NextResponse } from "next/server";
+
+import { invalidJson, readJson, serverError, validationError } from "@/lib/api/responses";
+import { createChat, listChats, validateNewChat } from "@/lib/chats";
+
+/** Every chat with its messages, most recently active first. */
+export async function GET() {
+  try {
+    return NextResponse.json({ chats: await listChats() });
+  } catch (error) {
+    return serverError("Failed to load chats", error);
+  }
+}
+
+/**
+ * Starts a chat: `{ id?, title, createdAt?, messages? }`. Later turns are
+ * stored by /api/chat (given the chatId) or added via .../messages.
+ */
+export async function POST(req: Request) {
+  const body = await readJson(req);
+  if (body === undefined) return invalidJson();
+
+  const result = validateNewChat(body);
+  if (!result.ok) return validationError(result.errors);
+
+  try {
+    return NextResponse.json(await createChat(result.value), { status: 201 });
+  } catch (error) {
+    return serverError("Failed to save chat", error);
+  }
+}
@@ -0,0 +1,17 @@
+import { NextResponse } from "next/server";
+
+import { notFound, serverError } from "@/lib/api/responses";
+import { deleteRate } from "@/lib/currency";
+
+type Params = { params: Promise<{ code: string }> };
+
+/** Removes a rate. Rows already converted keep their stored base amount. */
+export async function DELETE(_req: Request, { params }: Params) {
+  const { code } = await params;
+  try {
+    const removed = await deleteRate(code.toUpperCase());
+    return removed ? NextResponse.json({ success: true }) : notFound("Exchange rate not found");
+  } catch (error) {
+    return serverError("Failed to delete exchange rate", error);
+  }
+}
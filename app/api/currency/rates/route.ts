@@ -0,0 +1,53 @@
+import { NextResponse } from "next/server";
+
+import { invalidJson, readJson, serverError, validationError } from "@/lib/api/responses";
+import { getCurrencySettings, parseRatesCsv, upsertRates, validateRates } from "@/lib/currency";
+import { isPlainObject } from "@/lib/validation";
+
+/** Largest rate CSV accepted, in characters. */
+const MAX_RATES_CSV_SIZE = 100_000;
+
+/** Adds or updates rates: `{ rates: [{ currency: "USD", rate: 83.2 }] }`. */
+export async function PUT(req: Request) {
+  const body = await readJson(req);
+  if (body === undefined) return invalidJson();
+
+  const result = validateRates(body);
+  if (!result.ok) return validationError(result.errors);
+
+  try {
+    return NextResponse.json(await upsertRates(result.value));
+  } catch (error) {
+    return serverError("Failed to save exchange rates", error);
+  }
+}
+
+/**
+ * Imports rates from CSV (`{ csv: "..." }`), as `currency,rate` rows or
+ * `from,to,rate` pairs against the base currency. Unreadable lines are
+ * reported back and skipped.
+ */
+export async function POST(req: Request) {
+  const body = await readJson(req);
+  if (body === undefined) return invalidJson();
+
+  const csv = isPlainObject(body) ? body.csv : undefined;
+  if (typeof csv !== "string" || !csv.trim()) {
+    return validationError([{ field: "csv", message: "must be a non-empty string" }]);
+  }
+  if (csv.length > MAX_RATES_CSV_SIZE) {
+    return validationError([{ field: "csv", message: `must be at most ${MAX_RATES_CSV_SIZE} characters` }]);
+  }
+
+  try {
+    const { baseCurrency } = await getCurrencySettings();
+    const { rates, errors } = parseRatesCsv(csv, baseCurrency);
+    if (!rates.length) {
+      return validationError([{ field: "csv", message: errors[0]?.message ?? "contains no rates" }]);
+    }
+    const settings = await upsertRates(rates);
+    return NextResponse.json({ ...settings, imported: rates.length, errors });
+  } catch (error) {
+    return serverError("Failed to import exchange rates", error);
+  }
+}
@@ -0,0 +1,37 @@
+import { NextResponse } from "next/server";
+
+import { invalidJson, readJson, serverError, validationError } from "@/lib/api/responses";
+import { getCurrencySettings, parseCurrencyCode, setBaseCurrency } from "@/lib/currency";
+import { isPlainObject } from "@/lib/validation";
+
+/** The base currency and the stored exchange-rate table. */
+export async function GET() {
+  try {
+    return NextResponse.json(await getCurrencySettings());
+  } catch (error) {
+    return serverError("Failed to load currency settings", error);
+  }
+}
+
+/**
+ * Changes the base currency (`{ baseCurrency: "USD" }`) and converts every
+ * stored amount. `factor` is what old-base amounts were multiplied by, so
+ * clients can rescale figures they keep locally. Refused, with the missing
+ * pairs listed, while any expense could not be converted.
+ */
+export async function PATCH(req: Request) {
+  const body = await readJson(req);
+  if (body === undefined) return invalidJson();
+
+  const baseCurrency = isPlainObject(body) ? parseCurrencyCode(body.baseCurrency) : null;
+  if (!baseCurrency) {
+    return validationError([{ field: "baseCurrency", message: "must be a 3-letter ISO 4217 code" }]);
+  }
+
+  try {
+    const result = await setBaseCurrency(baseCurrency);
+    return result.ok ? NextResponse.json(result.value) : validationError(result.errors);
+  } catch (error) {
+    return serverError("Failed to change base currency", error);
+  }
+}
@@ -0,0 +1,78 @@
+import { NextResponse } from "next/server";
+
+import { refreshAnomalies } from "@/lib/anomalies";
+import { invalidJson, notFound, readJson, serverError, validationError } from "@/lib/api/responses";
+import { learnFromCorrection } from "@/lib/categorization";
+import { convertExpensePatchToBase, convertExpenseToBase } from "@/lib/currency";
+import { deleteExpense, getExpense, replaceExpense, updateExpense } from "@/lib/expenses/repository";
+import { validateExpense, validateExpensePatch } from "@/lib/expenses/schema";
+
+type Params = { params: Promise<{ id: string }> };
+
+export async function GET(_req: Request, { params }: Params) {
+  const { id } = await params;
+  try {
+    const expense = await getExpense(id);
+    return expense ? NextResponse.json(expense) : notFound("Expense not found");
+  } catch (error) {
+    return serverError("Failed to load expense", error);
+  }
+}
+
+/** Partial update: only the fields present in the body change; `null` clears optional fields. */
+export async function PATCH(req: Request, { params }: Params) {
+  const { id } = await params;
+  const body = await readJson(req);
+  if (body === undefined) return invalidJson();
+
+  const result = validateExpensePatch(body);
+  if (!result.ok) return validationError(result.errors);
+
+  try {
+    const before = await getExpense(id);
+    const converted = await convertExpensePatchToBase(id, result.value);
+    if (!before || !converted) return notFound("Expense not found");
+    if (!converted.ok) return validationError(converted.errors);
+    const updated = await updateExpense(id, converted.value);
+    if (!updated) return notFound("Expense not found");
+    // Re-categorising a row teaches its merchant the new category.
+    await learnFromCorrection(before, updated);
+    return NextResponse.json((await refreshAnomalies()).get(id) ?? updated);
+  } catch (error) {
+    return serverError("Failed to update expense", error);
+  }
+}
+
+/** Full replacement: omitted optional fields are cleared. */
+export async function PUT(req: Request, { params }: Params) {
+  const { id } = await params;
+  const body = await readJson(req);
+  if (body === undefined) return invalidJson();
+
+  const result = validateExpense(body, "replace");
+  if (!result.ok) return validationError(result.errors);
+
+  try {
+    const before = await getExpense(id);
+    if (!before) return notFound("Expense not found");
+    const converted = await convertExpenseToBase(result.value);
+    if (!converted.ok) return validationError(converted.errors);
+    const replaced = await replaceExpense(id, converted.value);
+    if (!replaced) return notFound("Expense not found");
+    await learnFromCorrection(before, replaced);
+    return NextResponse.json((await refreshAnomalies()).get(id) ?? replaced);
+  } catch (error) {
+    return serverError("Failed to update expense", error);
+  }
+}
+
+export async function DELETE(_req: Request, { params }: Params) {
+  const { id } = await params;
+  try {
+    const removed = await deleteExpense(id);
+    if (removed) await refreshAnomalies();
+    return removed ? NextResponse.json({ success: true }) : notFound("Expense not found");
+  } catch (error) {
+    return serverError("Failed to delete expense", error);
+  }
+}
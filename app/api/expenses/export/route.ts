@@ -0,0 +1,35 @@
+import { NextResponse } from "next/server";
+
+import { serverError, validationError } from "@/lib/api/responses";
+import { EXPORT_FORMATS, exportExpenses, isExportFormat } from "@/lib/export";
+import { parseExpenseQuery } from "@/lib/expenses/query";
+import { findExpenses } from "@/lib/expenses/repository";
+
+/**
+ * Downloads every expense matching the collection filters (see GET /api/expenses)
+ * as `format` = csv | json | xlsx. Paging parameters are ignored.
+ */
+export async function GET(req: Request) {
+  const params = new URL(req.url).searchParams;
+  const format = params.get("format") ?? "csv";
+  if (!isExportFormat(format)) {
+    return validationError([{ field: "format", message: `must be one of ${EXPORT_FORMATS.join(", ")}` }]);
+  }
+
+  try {
+    const query = { ...parseExpenseQuery(params), limit: undefined, cursor: undefined };
+    const { expenses } = await findExpenses(query);
+    const file = exportExpenses(expenses, format);
+    const name = `expenses-${query.month ?? new Date().toISOString().slice(0, 10)}.${file.extension}`;
+
+    return new NextResponse(file.body as BodyInit, {
+      headers: {
+        "Content-Type": file.contentType,
+        "Content-Disposition": `attachment; filename="${name}"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error) {
+    return serverError("Failed to export expenses", error);
+  }
+}
@@ -0,0 +1,49 @@
+import { NextResponse } from "next/server";
+
+import { invalidJson, readJson, serverError, validationError } from "@/lib/api/responses";
+import { listCategoryRules } from "@/lib/categorization";
+import { listExpenses } from "@/lib/expenses/repository";
+import {
+  MAX_STATEMENT_SIZE,
+  buildImportPreview,
+  detectStatementFormat,
+  parseStatement,
+  readCsvHeaders,
+  suggestCsvMapping,
+  validateImportPreviewRequest,
+} from "@/lib/import";
+
+/**
+ * Parses an uploaded statement without saving anything.
+ * CSV files sent without a `mapping` return their headers, a few sample rows
+ * and a suggested mapping so the client can ask the user to confirm columns;
+ * every other request returns categorised preview rows plus per-line errors.
+ */
+export async function POST(req: Request) {
+  const body = await readJson(req);
+  if (body === undefined) return invalidJson();
+
+  const result = validateImportPreviewRequest(body, MAX_STATEMENT_SIZE);
+  if (!result.ok) return validationError(result.errors);
+
+  const { fileName, content, mapping, dateOrder, categories } = result.value;
+  const format = result.value.format ?? detectStatementFormat(fileName, content);
+
+  try {
+    if (format === "csv") {
+      const { headers, sample } = readCsvHeaders(content);
+      if (!mapping) {
+        return NextResponse.json({ format, headers, sample, suggestedMapping: suggestCsvMapping(headers) });
+      }
+      const parsed = parseStatement(format, content, { mapping, dateOrder });
+      const rows = buildImportPreview(parsed.transactions, await listExpenses(), categories, await listCategoryRules());
+      return NextResponse.json({ format, headers, rows, errors: parsed.errors });
+    }
+
+    const parsed = parseStatement(format, content, { dateOrder });
+    const rows = buildImportPreview(parsed.transactions, await listExpenses(), categories, await listCategoryRules());
+    return NextResponse.json({ format, rows, errors: parsed.errors });
+  } catch (error) {
+    return serverError("Failed to read statement", error);
+  }
+}
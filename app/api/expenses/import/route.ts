@@ -0,0 +1,54 @@
+import { NextResponse } from "next/server";
+
+import { refreshAnomalies } from "@/lib/anomalies";
+import { invalidJson, readJson, serverError, validationError } from "@/lib/api/responses";
+import { recordBudgetAlerts } from "@/lib/budgets";
+import { applyBaseCurrency, getCurrencySettings } from "@/lib/currency";
+import { createExpenses } from "@/lib/expenses/repository";
+import { validateExpense } from "@/lib/expenses/schema";
+import type { NewExpense } from "@/lib/expenses/types";
+import { isPlainObject, type FieldError } from "@/lib/validation";
+
+/** Upper bound on one import batch. */
+const MAX_IMPORT_ROWS = 5000;
+
+/**
+ * Commits reviewed import rows in one write. Every row is validated first;
+ * if any fails nothing is saved and the errors name the offending index,
+ * e.g. `expenses[3].amount`.
+ */
+export async function POST(req: Request) {
+  const body = await readJson(req);
+  if (body === undefined) return invalidJson();
+
+  const rows = isPlainObject(body) ? body.expenses : undefined;
+  if (!Array.isArray(rows) || rows.length === 0) {
+    return validationError([{ field: "expenses", message: "must be a non-empty array" }]);
+  }
+  if (rows.length > MAX_IMPORT_ROWS) {
+    return validationError([{ field: "expenses", message: `must contain at most ${MAX_IMPORT_ROWS} rows` }]);
+  }
+
+  try {
+    const settings = await getCurrencySettings();
+    const inputs: NewExpense[] = [];
+    const errors: FieldError[] = [];
+    rows.forEach((row, i) => {
+      const validated = validateExpense(row, "create");
+      const result = validated.ok ? applyBaseCurrency(validated.value, settings) : validated;
+      if (result.ok) inputs.push(result.value);
+      else errors.push(...result.errors.map((e) => ({ ...e, field: `expenses[${i}].${e.field}` })));
+    });
+    if (errors.length) return validationError(errors);
+
+    const expenses = await createExpenses(inputs);
+    await recordBudgetAlerts(expenses);
+    const scored = await refreshAnomalies();
+    return NextResponse.json(
+      { imported: expenses.length, expenses: expenses.map((e) => scored.get(e.id) ?? e) },
+      { status: 201 }
+    );
+  } catch (error) {
+    return serverError("Failed to import expenses", error);
+  }
+}
@@ -1,43 +1,64 @@
 import { NextResponse } from "next/server";
 
-let expenses: { id: number; title: string; amount: number; date: string }[] = [];
-let idCounter = 1;
+import { refreshAnomalies } from "@/lib/anomalies";
+import { invalidJson, notFound, readJson, serverError, validationError } from "@/lib/api/responses";
+import { recordBudgetAlerts } from "@/lib/budgets";
+import { convertExpenseToBase } from "@/lib/currency";
+import { parseExpenseQuery } from "@/lib/expenses/query";
+import { createExpense, deleteExpense, findExpenses } from "@/lib/expenses/repository";
+import { validateExpense } from "@/lib/expenses/schema";
+import { materializeDueRules } from "@/lib/recurring";
 
-export async function GET() {
-  return NextResponse.json(expenses);
+/**
+ * Lists expenses. Supports type (comma-separated, e.g. "income,refund"), category,
+ * month (YYYY-MM), from/to, minAmount/maxAmount, q (text search), tag, mood,
+ * sort (e.g. "-date", "amount"), limit and cursor.
+ */
+export async function GET(req: Request) {
+  try {
+    // Recurring rules have no background worker; catch them up before every listing.
+    await recordBudgetAlerts(await materializeDueRules());
+    await refreshAnomalies();
+    const query = parseExpenseQuery(new URL(req.url).searchParams);
+    return NextResponse.json(await findExpenses(query));
+  } catch (error) {
+    return serverError("Failed to load expenses", error);
+  }
 }
 
 export async function POST(req: Request) {
-  try {
-    const { title, amount, date } = await req.json();
+  const body = await readJson(req);
+  if (body === undefined) return invalidJson();
 
-    const newExpense = {
-      id: idCounter++,
-      title,
-      amount,
-      date: date || new Date().toISOString(),
-    };
+  const result = validateExpense(body, "create");
+  if (!result.ok) return validationError(result.errors);
 
-    expenses.push(newExpense);
-
-    return NextResponse.json(newExpense, { status: 201 });
+  try {
+    const converted = await convertExpenseToBase(result.value);
+    if (!converted.ok) return validationError(converted.errors);
+    const newExpense = await createExpense(converted.value);
+    // Alerts are stored; the dashboard picks them up from /api/budgets/alerts.
+    await recordBudgetAlerts([newExpense]);
+    const scored = await refreshAnomalies();
+    return NextResponse.json(scored.get(newExpense.id) ?? newExpense, { status: 201 });
   } catch (error) {
-    return NextResponse.json(
-      { error: "Invalid expense format" },
-      { status: 400 }
-    );
+    return serverError("Failed to save expense", error);
   }
 }
 
+/** Legacy delete-by-body-id; prefer DELETE /api/expenses/:id. */
 export async function DELETE(req: Request) {
+  const body = await readJson(req);
+  const id = (body as { id?: unknown } | undefined)?.id;
+  if (typeof id !== "string" && typeof id !== "number") {
+    return validationError([{ field: "id", message: "is required" }]);
+  }
+
   try {
-    const { id } = await req.json();
-    expenses = expenses.filter((expense) => expense.id !== id);
-    return NextResponse.json({ success: true });
+    const removed = await deleteExpense(String(id));
+    if (removed) await refreshAnomalies();
+    return removed ? NextResponse.json({ success: true }) : notFound("Expense not found");
   } catch (error) {
-    return NextResponse.json(
-      { error: "Invalid delete request" },
-      { status: 400 }
-    );
+    return serverError("Failed to delete expense", error);
   }
 }
@@ -0,0 +1,30 @@
+import { NextResponse } from "next/server";
+
+import { serverError } from "@/lib/api/responses";
+import { listExpenses } from "@/lib/expenses/repository";
+import { MAX_FORECAST_DAYS, MAX_HISTORY_DAYS, buildSpendingForecast } from "@/lib/forecast";
+
+function clampInt(raw: string | null, fallback: number, min: number, max: number): number {
+  const n = Number(raw ?? fallback);
+  return Number.isFinite(n) ? Math.min(max, Math.max(min, Math.floor(n))) : fallback;
+}
+
+/**
+ * Spending forecast. `days` (default 7) daily points with 80%/95% intervals,
+ * for all spending or one `category`; per-category totals over the next
+ * `period` days (default 30); fitted on `history` days (default 56, min 14).
+ */
+export async function GET(req: Request) {
+  const params = new URL(req.url).searchParams;
+  const days = clampInt(params.get("days"), 7, 1, MAX_FORECAST_DAYS);
+  const periodDays = clampInt(params.get("period"), 30, 1, MAX_FORECAST_DAYS);
+  const historyDays = clampInt(params.get("history"), 56, 14, MAX_HISTORY_DAYS);
+  const category = params.get("category")?.trim() || undefined;
+
+  try {
+    const forecast = buildSpendingForecast(await listExpenses(), { days, periodDays, historyDays, category });
+    return NextResponse.json(forecast);
+  } catch (error) {
+    return serverError("Failed to build forecast", error);
+  }
+}
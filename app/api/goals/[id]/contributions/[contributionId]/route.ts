@@ -0,0 +1,17 @@
+import { NextResponse } from "next/server";
+
+import { notFound, serverError } from "@/lib/api/responses";
+import { deleteContribution } from "@/lib/goals";
+
+type Params = { params: Promise<{ id: string; contributionId: string }> };
+
+/** Removes a contribution entered by mistake; returns the goal's updated progress. */
+export async function DELETE(_req: Request, { params }: Params) {
+  const { id, contributionId } = await params;
+  try {
+    const goal = await deleteContribution(id, contributionId);
+    return goal ? NextResponse.json(goal) : notFound("Contribution not found");
+  } catch (error) {
+    return serverError("Failed to delete contribution", error);
+  }
+}
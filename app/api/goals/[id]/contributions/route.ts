@@ -0,0 +1,38 @@
+import { NextResponse } from "next/server";
+
+import { invalidJson, notFound, readJson, serverError, validationError } from "@/lib/api/responses";
+import { addContribution, listContributions, validateContribution } from "@/lib/goals";
+
+type Params = { params: Promise<{ id: string }> };
+
+export async function GET(_req: Request, { params }: Params) {
+  const { id } = await params;
+  try {
+    const contributions = await listContributions(id);
+    return contributions ? NextResponse.json({ contributions }) : notFound("Goal not found");
+  } catch (error) {
+    return serverError("Failed to load contributions", error);
+  }
+}
+
+/**
+ * Records a deposit or withdrawal: `{ kind: "deposit" | "withdrawal", amount,
+ * date?, note? }`. Returns the contribution and the goal's updated progress.
+ */
+export async function POST(req: Request, { params }: Params) {
+  const { id } = await params;
+  const body = await readJson(req);
+  if (body === undefined) return invalidJson();
+
+  const result = validateContribution(body);
+  if (!result.ok) return validationError(result.errors);
+
+  try {
+    const added = await addContribution(id, result.value);
+    if (!added) return notFound("Goal not found");
+    if (!added.ok) return validationError(added.errors);
+    return NextResponse.json(added.value, { status: 201 });
+  } catch (error) {
+    return serverError("Failed to save contribution", error);
+  }
+}
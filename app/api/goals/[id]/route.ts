@@ -0,0 +1,43 @@
+import { NextResponse } from "next/server";
+
+import { invalidJson, notFound, readJson, serverError, validationError } from "@/lib/api/responses";
+import { deleteGoal, getGoal, updateGoal, validateGoalPatch } from "@/lib/goals";
+
+type Params = { params: Promise<{ id: string }> };
+
+export async function GET(_req: Request, { params }: Params) {
+  const { id } = await params;
+  try {
+    const goal = await getGoal(id);
+    return goal ? NextResponse.json(goal) : notFound("Goal not found");
+  } catch (error) {
+    return serverError("Failed to load goal", error);
+  }
+}
+
+export async function PATCH(req: Request, { params }: Params) {
+  const { id } = await params;
+  const body = await readJson(req);
+  if (body === undefined) return invalidJson();
+
+  const result = validateGoalPatch(body);
+  if (!result.ok) return validationError(result.errors);
+
+  try {
+    const updated = await updateGoal(id, result.value);
+    return updated ? NextResponse.json(updated) : notFound("Goal not found");
+  } catch (error) {
+    return serverError("Failed to update goal", error);
+  }
+}
+
+/** Deletes the goal and its contribution history. */
+export async function DELETE(_req: Request, { params }: Params) {
+  const { id } = await params;
+  try {
+    const removed = await deleteGoal(id);
+    return removed ? NextResponse.json({ success: true }) : notFound("Goal not found");
+  } catch (error) {
+    return serverError("Failed to delete goal", error);
+  }
+}
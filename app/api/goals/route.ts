@@ -0,0 +1,27 @@
+import { NextResponse } from "next/server";
+
+import { invalidJson, readJson, serverError, validationError } from "@/lib/api/responses";
+import { createGoal, listGoals, validateGoal } from "@/lib/goals";
+
+/** Goals with their progress, required monthly contribution and projected completion. */
+export async function GET() {
+  try {
+    return NextResponse.json({ goals: await listGoals() });
+  } catch (error) {
+    return serverError("Failed to load goals", error);
+  }
+}
+
+export async function POST(req: Request) {
+  const body = await readJson(req);
+  if (body === undefined) return invalidJson();
+
+  const result = validateGoal(body);
+  if (!result.ok) return validationError(result.errors);
+
+  try {
+    return NextResponse.json(await createGoal(result.value), { status: 201 });
+  } catch (error) {
+    return serverError("Failed to save goal", error);
+  }
+}
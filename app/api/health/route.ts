@@ -0,0 +1,17 @@
+import { NextResponse } from "next/server";
+
+import { serverError } from "@/lib/api/responses";
+import { recordHealthReport } from "@/lib/health";
+
+/**
+ * The current health score with its sub-scores, the last 90 days of daily
+ * snapshots and what changed since the previous one. Each call stores
+ * today's snapshot.
+ */
+export async function GET() {
+  try {
+    return NextResponse.json(await recordHealthReport());
+  } catch (error) {
+    return serverError("Failed to compute health score", error);
+  }
+}
@@ -0,0 +1,30 @@
+import { NextResponse } from "next/server";
+
+import { invalidJson, readJson, serverError, validationError } from "@/lib/api/responses";
+import { resetHealthWeights, updateHealthWeights, validateHealthWeights } from "@/lib/health";
+
+/** Changes some sub-score weights; the result is normalised to sum to 1. */
+export async function PATCH(req: Request) {
+  const body = await readJson(req);
+  if (body === undefined) return invalidJson();
+
+  const result = validateHealthWeights(body);
+  if (!result.ok) return validationError(result.errors);
+
+  try {
+    const weights = await updateHealthWeights(result.value);
+    if (!weights) return validationError([{ field: "weights", message: "must not all be zero" }]);
+    return NextResponse.json({ weights });
+  } catch (error) {
+    return serverError("Failed to save health weights", error);
+  }
+}
+
+/** Restores the default weights. */
+export async function DELETE() {
+  try {
+    return NextResponse.json({ weights: await resetHealthWeights() });
+  } catch (error) {
+    return serverError("Failed to reset health weights", error);
+  }
+}
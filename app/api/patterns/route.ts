@@ -0,0 +1,31 @@
+import { NextResponse } from "next/server";
+
+import { serverError } from "@/lib/api/responses";
+import { getCurrencySettings } from "@/lib/currency";
+import { listExpenses } from "@/lib/expenses/repository";
+import { DEFAULT_PATTERN_OPTIONS, mineSpendingPatterns } from "@/lib/patterns";
+
+const MAX_HISTORY_DAYS = 365;
+
+/**
+ * Spending patterns mined from the ledger, most confident first.
+ * `history` (days, default 90, min 28) sets the window for the weekday,
+ * timing and mood findings; `min` (0-99, default 60) the confidence cut-off.
+ */
+export async function GET(req: Request) {
+  const params = new URL(req.url).searchParams;
+  const history = Number(params.get("history") ?? DEFAULT_PATTERN_OPTIONS.historyDays);
+  const min = Number(params.get("min") ?? DEFAULT_PATTERN_OPTIONS.minConfidence);
+
+  try {
+    const { baseCurrency } = await getCurrencySettings();
+    const patterns = mineSpendingPatterns(await listExpenses(), {
+      currency: baseCurrency,
+      historyDays: Number.isFinite(history) ? Math.min(MAX_HISTORY_DAYS, Math.max(28, Math.floor(history))) : undefined,
+      minConfidence: Number.isFinite(min) ? Math.min(99, Math.max(0, min)) : undefined,
+    });
+    return NextResponse.json({ generatedAt: new Date().toISOString(), patterns });
+  } catch (error) {
+    return serverError("Failed to mine spending patterns", error);
+  }
+}
@@ -0,0 +1,43 @@
+import { NextResponse } from "next/server";
+
+import { invalidJson, notFound, readJson, serverError, validationError } from "@/lib/api/responses";
+import { deletePromptTemplate, getPromptTemplate, updatePromptTemplate, validatePromptTemplatePatch } from "@/lib/prompts";
+
+type Params = { params: Promise<{ id: string }> };
+
+export async function GET(_req: Request, { params }: Params) {
+  const { id } = await params;
+  try {
+    const template = await getPromptTemplate(id);
+    return template ? NextResponse.json(template) : notFound("Prompt template not found");
+  } catch (error) {
+    return serverError("Failed to load prompt template", error);
+  }
+}
+
+export async function PATCH(req: Request, { params }: Params) {
+  const { id } = await params;
+  const body = await readJson(req);
+  if (body === undefined) return invalidJson();
+
+  const result = validatePromptTemplatePatch(body);
+  if (!result.ok) return validationError(result.errors);
+
+  try {
+    const updated = await updatePromptTemplate(id, result.value);
+    if (!updated) return notFound("Prompt template not found");
+    return updated.ok ? NextResponse.json(updated.value) : validationError(updated.errors);
+  } catch (error) {
+    return serverError("Failed to update prompt template", error);
+  }
+}
+
+export async function DELETE(_req: Request, { params }: Params) {
+  const { id } = await params;
+  try {
+    const removed = await deletePromptTemplate(id);
+    return removed ? NextResponse.json({ success: true }) : notFound("Prompt template not found");
+  } catch (error) {
+    return serverError("Failed to delete prompt template", error);
+  }
+}
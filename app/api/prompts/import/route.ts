@@ -0,0 +1,23 @@
+import { NextResponse } from "next/server";
+
+import { invalidJson, readJson, serverError, validationError } from "@/lib/api/responses";
+import { importPromptTemplates, validatePromptImport } from "@/lib/prompts";
+
+/**
+ * Adds templates from a prompt library export (or any
+ * `{ templates: [{ id?, title, body, ... }] }`). Templates already in the
+ * library are skipped, so re-sending is harmless.
+ */
+export async function POST(req: Request) {
+  const body = await readJson(req);
+  if (body === undefined) return invalidJson();
+
+  const result = validatePromptImport(body);
+  if (!result.ok) return validationError(result.errors);
+
+  try {
+    return NextResponse.json(await importPromptTemplates(result.value));
+  } catch (error) {
+    return serverError("Failed to import prompt templates", error);
+  }
+}
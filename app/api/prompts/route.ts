@@ -0,0 +1,29 @@
+import { NextResponse } from "next/server";
+
+import { invalidJson, readJson, serverError, validationError } from "@/lib/api/responses";
+import { createPromptTemplate, listPromptTemplates, validatePromptTemplate } from "@/lib/prompts";
+
+/** The prompt library, by folder then title. */
+export async function GET() {
+  try {
+    return NextResponse.json({ templates: await listPromptTemplates() });
+  } catch (error) {
+    return serverError("Failed to load prompt templates", error);
+  }
+}
+
+/** Adds a template: `{ title, body, folder?, tags?, command?, favorite? }`. */
+export async function POST(req: Request) {
+  const body = await readJson(req);
+  if (body === undefined) return invalidJson();
+
+  const result = validatePromptTemplate(body);
+  if (!result.ok) return validationError(result.errors);
+
+  try {
+    const created = await createPromptTemplate(result.value);
+    return created.ok ? NextResponse.json(created.value, { status: 201 }) : validationError(created.errors);
+  } catch (error) {
+    return serverError("Failed to save prompt template", error);
+  }
+}
@@ -0,0 +1,54 @@
+import { NextResponse } from "next/server";
+
+import { invalidJson, notFound, readJson, serverError, validationError } from "@/lib/api/responses";
+import {
+  deleteRecurringRule,
+  getRecurringRule,
+  updateRecurringRule,
+  validateRecurringRulePatch,
+} from "@/lib/recurring";
+
+type Params = { params: Promise<{ id: string }> };
+
+export async function GET(_req: Request, { params }: Params) {
+  const { id } = await params;
+  try {
+    const rule = await getRecurringRule(id);
+    return rule ? NextResponse.json(rule) : notFound("Recurring rule not found");
+  } catch (error) {
+    return serverError("Failed to load recurring rule", error);
+  }
+}
+
+/** Partial update, e.g. `{ active: false }` to pause or `{ endDate }` to stop after a date. */
+export async function PATCH(req: Request, { params }: Params) {
+  const { id } = await params;
+  const body = await readJson(req);
+  if (body === undefined) return invalidJson();
+
+  try {
+    const current = await getRecurringRule(id);
+    if (!current) return notFound("Recurring rule not found");
+
+    const result = validateRecurringRulePatch(body, current);
+    if (!result.ok) return validationError(result.errors);
+
+    const updated = await updateRecurringRule(id, result.value);
+    return updated
+      ? NextResponse.json({ rule: updated.rule, created: updated.expenses })
+      : notFound("Recurring rule not found");
+  } catch (error) {
+    return serverError("Failed to update recurring rule", error);
+  }
+}
+
+/** Deletes the rule; expenses it already generated are kept. */
+export async function DELETE(_req: Request, { params }: Params) {
+  const { id } = await params;
+  try {
+    const removed = await deleteRecurringRule(id);
+    return removed ? NextResponse.json({ success: true }) : notFound("Recurring rule not found");
+  } catch (error) {
+    return serverError("Failed to delete recurring rule", error);
+  }
+}
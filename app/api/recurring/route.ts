@@ -0,0 +1,28 @@
+import { NextResponse } from "next/server";
+
+import { invalidJson, readJson, serverError, validationError } from "@/lib/api/responses";
+import { createRecurringRule, listRecurringRules, validateRecurringRule } from "@/lib/recurring";
+
+export async function GET() {
+  try {
+    return NextResponse.json({ rules: await listRecurringRules() });
+  } catch (error) {
+    return serverError("Failed to load recurring rules", error);
+  }
+}
+
+/** Creates a rule and returns it with any expenses it back-filled. */
+export async function POST(req: Request) {
+  const body = await readJson(req);
+  if (body === undefined) return invalidJson();
+
+  const result = validateRecurringRule(body);
+  if (!result.ok) return validationError(result.errors);
+
+  try {
+    const { rule, expenses } = await createRecurringRule(result.value);
+    return NextResponse.json({ rule, created: expenses }, { status: 201 });
+  } catch (error) {
+    return serverError("Failed to save recurring rule", error);
+  }
+}
@@ -0,0 +1,17 @@
+import { NextResponse } from "next/server";
+
+import { serverError } from "@/lib/api/responses";
+import { materializeDueRules } from "@/lib/recurring";
+
+/**
+ * Writes every occurrence that has come due. Listing expenses does this too;
+ * this endpoint is for an external scheduler (e.g. a daily cron).
+ */
+export async function POST() {
+  try {
+    const created = await materializeDueRules();
+    return NextResponse.json({ created });
+  } catch (error) {
+    return serverError("Failed to run recurring rules", error);
+  }
+}
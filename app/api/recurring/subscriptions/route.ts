@@ -0,0 +1,17 @@
+import { NextResponse } from "next/server";
+
+import { serverError } from "@/lib/api/responses";
+import { listExpenses } from "@/lib/expenses/repository";
+import { committedMonthlySpend, detectSubscriptions, listRecurringRules, materializeDueRules } from "@/lib/recurring";
+
+/** Subscription suggestions from expense history, and the monthly committed spend. */
+export async function GET() {
+  try {
+    await materializeDueRules();
+    const [expenses, rules] = await Promise.all([listExpenses(), listRecurringRules()]);
+    const candidates = detectSubscriptions(expenses, rules);
+    return NextResponse.json({ candidates, committed: committedMonthlySpend(rules, candidates) });
+  } catch (error) {
+    return serverError("Failed to analyse subscriptions", error);
+  }
+}
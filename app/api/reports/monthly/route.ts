@@ -0,0 +1,41 @@
+import { NextResponse } from "next/server";
+
+import { invalidJson, readJson, serverError, validationError } from "@/lib/api/responses";
+import { listBudgets } from "@/lib/budgets";
+import { getCurrencySettings } from "@/lib/currency";
+import { findExpenses } from "@/lib/expenses/repository";
+import { buildMonthlyReport, renderMonthlyReportPdf, validateMonthlyReportRequest } from "@/lib/reports";
+
+/**
+ * Renders the monthly PDF statement. Body: `{ month: "YYYY-MM", category?, q? }`;
+ * the filters match the dashboard's. The budget table uses the stored monthly
+ * budgets, so it agrees with the budgets page.
+ */
+export async function POST(req: Request) {
+  const body = await readJson(req);
+  if (body === undefined) return invalidJson();
+
+  const result = validateMonthlyReportRequest(body);
+  if (!result.ok) return validationError(result.errors);
+  const { month, category, q } = result.value;
+
+  try {
+    const { expenses } = await findExpenses({ month, category, q: q?.toLowerCase(), sort: "date", order: "asc" });
+    const budgets = (await listBudgets())
+      .filter((b) => b.period === "monthly")
+      .map(({ category, limit }) => ({ category, limit }));
+    const { baseCurrency } = await getCurrencySettings();
+    const report = buildMonthlyReport(expenses, month, budgets, { category, q }, baseCurrency);
+    const pdf = renderMonthlyReportPdf(report);
+
+    return new NextResponse(pdf as BodyInit, {
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `attachment; filename="statement-${month}.pdf"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error) {
+    return serverError("Failed to generate report", error);
+  }
+}
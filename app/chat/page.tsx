@@ -17,13 +17,15 @@
  * All original features preserved:
  * - Sidebar with New Chat, Search, Chat History, profile/settings
  * - Main chat panel with message list, streaming-aware responses, quick prompts
+ * - Prompt library (/api/prompts): templates with {{variables}} filled from a form or the
+ *   ledger, folders and tags, JSON import/export, and a "/" picker in the composer
  * - Right panel with analytics (expense charts), assistant settings, export tools
- * - LocalStorage-backed multi-chat history (each chat has messages)
+ * - Multi-chat history stored by /api/chats (localStorage keeps a cache for instant load)
  * - Themes, palettes, tones, system prompt editor
  * - Many small UX niceties and accessibility touches
  */
 
-import React, { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import React, { useCallback, useDeferredValue, useEffect, useMemo, useRef, useState } from "react";
 import Link from "next/link";
 import { motion, AnimatePresence } from "framer-motion";
 import {
@@ -44,10 +46,40 @@ import {
   Line,
 } from "recharts";
 
+import { estimateTokens } from "@/lib/assistant/context";
+import {
+  CHAT_TONES,
+  type AssistantFrame,
+  type AssistantMetadata,
+  type ChatTone,
+  type Citation,
+  type ContextReport,
+  type ConversationSummary,
+  type ToolCallRecord,
+} from "@/lib/assistant/types";
+import { buildSearchIndex, searchChats, SEARCH_LIMITS, type SearchHit } from "@/lib/chats/search";
+import { exportChats } from "@/lib/chats/transfer";
+import { activePath, newestLeaf, siblingsOf } from "@/lib/chats/tree";
+import type { ChatExportFormat, ChatImportResult, ChatWithMessages as StoredChat } from "@/lib/chats/types";
+import { DEFAULT_BASE_CURRENCY } from "@/lib/currency/types";
+import { spendAmount } from "@/lib/expenses/cashflow";
+import { TRANSACTION_TYPES, type TransactionType } from "@/lib/expenses/types";
+import {
+  fillTemplate,
+  matchTemplates,
+  promptFolders,
+  resolveAutoVariables,
+  templateVariables,
+} from "@/lib/prompts/template";
+import { exportPromptTemplates } from "@/lib/prompts/transfer";
+import type { NewPromptTemplate, PromptImportResult, PromptTemplate, PromptTemplateFields } from "@/lib/prompts/types";
+import { describeErrors, isPlainObject } from "@/lib/validation";
+
 // Use shadcn components if present; otherwise they are simple wrappers
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { Markdown } from "@/components/markdown";
 
 // lucide-react icons
 import {
@@ -59,6 +91,7 @@ import {
   Plus,
   Trash2,
   Download,
+  Upload,
   Copy,
   Loader2,
   Bot,
@@ -92,6 +125,7 @@ import {
   Smile,
   Calendar,
   Clock,
+  Wrench,
   Globe,
   Shield,
   Lock,
@@ -100,6 +134,9 @@ import {
   AlertCircle,
   Info,
   HelpCircle,
+  BookOpen,
+  Folder,
+  Tag,
 } from "lucide-react";
 
 /* ============================
@@ -107,12 +144,44 @@ import {
    ============================ */
 
 type Role = "user" | "assistant" | "system";
-type Message = { id: string; role: Role; content: string; ts: string; pinned?: boolean };
-type Chat = { id: string; title: string; createdAt: string; messages: Message[] };
+type Message = {
+  id: string;
+  role: Role;
+  content: string;
+  ts: string;
+  /** The message this one follows; regenerated answers and edited questions share a parent. */
+  parentId?: string | null;
+  pinned?: boolean;
+  /** Transactions the assistant's answer is based on. */
+  citations?: Citation[];
+  /** Ledger tools the assistant ran while answering. */
+  toolCalls?: ToolCallRecord[];
+  /** Model, token counts and timing reported with the answer. */
+  meta?: Pick<AssistantMetadata, "model" | "usage" | "timing">;
+};
+type Chat = {
+  id: string;
+  title: string;
+  createdAt: string;
+  /** Every branch, oldest first; the one showing ends at `activeLeafId`. */
+  messages: Message[];
+  activeLeafId?: string | null;
+  /** The server's rolling summary of turns too old to send verbatim. */
+  summary?: ConversationSummary | null;
+  /** How the history was fitted into the model's context on the last turn. */
+  context?: ContextReport;
+};
+
+type Expense = { id: string | number; category: string; amount: number; date: string; type: TransactionType };
 
-type Expense = { id: string | number; category: string; amount: number; date: string };
+/** A template edit as sent to /api/prompts; `null` clears `command` or `favorite`. */
+type PromptTemplateChanges = { [K in keyof PromptTemplateFields]?: PromptTemplateFields[K] | null };
 
 const STORAGE_CHATS = "pa_chats_v1";
+/** Set once the chats kept only in this browser have been uploaded to /api/chats. */
+const STORAGE_CHATS_MIGRATED = "pa_chats_migrated_v1";
+/** Set once this browser has had chats (its own or the demo ones), so an emptied list stays empty. */
+const STORAGE_CHATS_SEEDED = "pa_chats_seeded_v1";
 const STORAGE_SETTINGS = "pa_settings_v1";
 const STORAGE_UI = "pa_ui_v1";
 
@@ -139,15 +208,71 @@ const COLOR_PALETTES: string[][] = [
   ["#00f5ff", "#00d9ff", "#a8e6cf", "#dcedc8", "#f8bbd9"],
 ];
 
-const QUICK_PROMPTS = [
-  "What's my total spending this month?",
-  "Give me 3 ways to reduce food expenses.",
-  "Suggest a 50/30/20 plan for monthly income ₹50,000",
-  "Which category should I cut back on?",
-  "Give a one-month savings plan to save ₹5,000",
-  "How can I build an emergency fund?",
-  "Best investment options for beginners?",
-  "Create a budget for ₹30,000 salary",
+/** The prompt library's first contents; favourites show as quick prompts under the composer. */
+const STARTER_PROMPTS: NewPromptTemplate[] = [
+  {
+    title: "Monthly spending",
+    body: "What's my total spending in {{month}}? My ledger shows {{total_spend}} across {{transaction_count}} transactions.",
+    folder: "Spending",
+    tags: ["monthly"],
+    command: "spend",
+    favorite: true,
+  },
+  {
+    title: "Reduce a category",
+    body: "Give me 3 ways to reduce my {{category}} expenses.",
+    folder: "Spending",
+    tags: ["saving"],
+    command: "reduce",
+    favorite: true,
+  },
+  {
+    title: "50/30/20 plan",
+    body: "Suggest a 50/30/20 plan for a monthly income of {{income}}.",
+    folder: "Budgeting",
+    tags: ["budget"],
+    command: "503020",
+    favorite: true,
+  },
+  {
+    title: "Where to cut back",
+    body: "Which category should I cut back on? I've spent {{total_spend}} in {{month}}, most of it on {{top_category}}.",
+    folder: "Spending",
+    tags: ["saving"],
+    command: "cutback",
+    favorite: true,
+  },
+  {
+    title: "Savings plan",
+    body: "Give a one-month savings plan to save {{goal_amount}}.",
+    folder: "Saving",
+    tags: ["saving", "goals"],
+    command: "save",
+    favorite: true,
+  },
+  {
+    title: "Compare months",
+    body: "Compare my spending in {{month}} ({{total_spend}}) with {{last_month}} ({{last_month_spend}}). What changed?",
+    folder: "Spending",
+    tags: ["monthly"],
+    command: "compare",
+    favorite: true,
+  },
+  { title: "Emergency fund", body: "How can I build an emergency fund?", folder: "Saving", tags: ["goals"], command: "emergency" },
+  {
+    title: "Beginner investing",
+    body: "Best investment options for beginners?",
+    folder: "Investing",
+    tags: [],
+    command: "invest",
+  },
+  {
+    title: "Salary budget",
+    body: "Create a budget for a monthly salary of {{salary}}.",
+    folder: "Budgeting",
+    tags: ["budget"],
+    command: "budget",
+  },
 ];
 
 const ANIMATION_VARIANTS = {
@@ -175,8 +300,21 @@ const ANIMATION_VARIANTS = {
 
 const GEN_ID = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 9)}`;
 const nowISO = () => new Date().toISOString();
-const fmtINR = (n = 0) =>
-  new Intl.NumberFormat("en-IN", { style: "currency", currency: "INR", maximumFractionDigits: 0 }).format(n);
+/** Whole amounts in `currency`, grouped the Indian way for rupees. */
+const formatMoney = (n: number, currency: string) =>
+  new Intl.NumberFormat(currency === "INR" ? "en-IN" : "en-US", { style: "currency", currency, maximumFractionDigits: 0 }).format(n);
+
+/** Saves a text export through the browser's download prompt. */
+function downloadFile(name: string, file: { body: string; contentType: string; extension: string }) {
+  const url = URL.createObjectURL(new Blob([file.body], { type: file.contentType }));
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = `${name}-${new Date().toISOString().slice(0, 10)}.${file.extension}`;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  URL.revokeObjectURL(url);
+}
 
 /* ============================
    Enhanced UI helper components
@@ -274,7 +412,7 @@ function FloatingActionButton({ onClick, children, className = "" }: { onClick?:
 }
 
 /* ============================
-   LocalStorage helpers (unchanged)
+   LocalStorage helpers (chats are a cache of /api/chats)
    ============================ */
 
 function loadChatsFromStorage(): Chat[] {
@@ -295,6 +433,64 @@ function saveChatsToStorage(chats: Chat[]) {
   } catch {}
 }
 
+/** The server's copy of a chat in the page's shape (`ts` is the message's createdAt). */
+function fromStoredChat(c: StoredChat): Chat {
+  return {
+    id: c.id,
+    title: c.title,
+    createdAt: c.createdAt,
+    summary: c.summary ?? null,
+    activeLeafId: c.activeLeafId,
+    messages: c.messages.map(({ id, parentId, role, content, createdAt, pinned, citations, toolCalls, meta }) => ({
+      id,
+      parentId,
+      role,
+      content,
+      ts: createdAt,
+      pinned,
+      citations,
+      toolCalls,
+      meta,
+    })),
+  };
+}
+
+/** A chat as /api/chats accepts it, leaving out placeholders of answers that never arrived. */
+function toStoredChat(c: Chat) {
+  return {
+    id: c.id,
+    title: c.title?.trim() || "Untitled chat",
+    createdAt: c.createdAt,
+    activeLeafId: c.activeLeafId ?? undefined,
+    messages: c.messages
+      .filter((m) => !m.content.startsWith("⏳"))
+      .map(({ id, parentId, role, content, ts, pinned, citations, toolCalls, meta }) => ({
+        id,
+        parentId,
+        role,
+        content,
+        createdAt: ts,
+        pinned,
+        citations,
+        toolCalls,
+        meta,
+      })),
+  };
+}
+
+/** Fire-and-forget write to the chat store; the UI has already applied the change. */
+function persistChat(url: string, method: "POST" | "PATCH" | "DELETE", body?: unknown) {
+  return fetch(url, {
+    method,
+    headers: body === undefined ? undefined : { "Content-Type": "application/json" },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  })
+    .then((res) => {
+      if (!res.ok) console.warn(`Chat store ${method} ${url} failed: ${res.status}`);
+    })
+    .catch((err) => console.warn(`Chat store ${method} ${url} failed:`, err));
+}
+
 function loadSettingsFromStorage() {
   try {
     const raw = localStorage.getItem(STORAGE_SETTINGS);
@@ -362,13 +558,18 @@ function createSeedChats(): Chat[] {
 }
 
 /* ============================
-   Streaming helper (unchanged)
+   Streaming helper
    ============================ */
 
+/**
+ * Reads a streamed answer. NDJSON lines contribute their text field and are
+ * also handed to `onFrame`; lines that are not JSON are passed through as text.
+ */
 async function streamTextFromResponse(
   res: Response,
   onChunk: (t: string) => void,
-  onComplete?: () => void
+  onComplete?: () => void,
+  onFrame?: (frame: AssistantFrame) => void
 ): Promise<void> {
   if (!res.body) {
     const text = await res.text();
@@ -380,41 +581,84 @@ async function streamTextFromResponse(
   const dec = new TextDecoder();
   let done = false;
   let buffer = "";
-  while (!done) {
-    const { value, done: d } = await reader.read();
-    done = !!d;
-    if (value) {
-      const chunk = dec.decode(value, { stream: true });
-      buffer += chunk;
-      onChunk(chunk);
+  const handleLine = (line: string) => {
+    if (!line.trim()) return;
+    let parsed: { reply?: unknown; content?: unknown; message?: { content?: unknown }; response?: unknown } | null;
+    try {
+      parsed = JSON.parse(line);
+    } catch {
+      onChunk(`${line}\n`);
+      return;
+    }
+    const candidate = parsed?.reply ?? parsed?.content ?? parsed?.message?.content ?? parsed?.response;
+    if (typeof candidate === "string") onChunk(candidate);
+    if (parsed && typeof parsed === "object") onFrame?.(parsed as AssistantFrame);
+  };
+  try {
+    while (!done) {
+      const { value, done: d } = await reader.read();
+      done = !!d;
+      buffer += dec.decode(value, { stream: !done });
       const lines = buffer.split("\n");
-      buffer = lines.pop() ?? "";
-      for (const line of lines) {
-        if (!line.trim()) continue;
-        try {
-          const parsed = JSON.parse(line);
-          const candidate = parsed?.reply ?? parsed?.content ?? parsed?.message?.content ?? parsed?.response;
-          if (typeof candidate === "string") onChunk(candidate);
-        } catch {}
-      }
+      buffer = done ? "" : (lines.pop() ?? "");
+      lines.forEach(handleLine);
     }
+  } finally {
+    if (onComplete) onComplete();
   }
-  if (onComplete) onComplete();
 }
 
 /* ============================
    Main Component: Enhanced ChatCenter
    ============================ */
 
+// The sync in flight, shared so StrictMode's second effect run neither uploads nor seeds twice.
+let chatSync: Promise<StoredChat[]> | null = null;
+
+/**
+ * Uploads the chats kept only in this browser (once), seeds the demo chats
+ * the first time the store is empty, and returns the stored chats.
+ */
+function syncStoredChats(): Promise<StoredChat[]> {
+  chatSync ??= (async () => {
+    if (!localStorage.getItem(STORAGE_CHATS_MIGRATED)) {
+      const local = loadChatsFromStorage();
+      if (local.length) {
+        const res = await fetch("/api/chats/import", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ chats: local.map(toStoredChat) }),
+        });
+        if (!res.ok) throw new Error(`Chat import failed: ${res.status}`);
+      }
+      localStorage.setItem(STORAGE_CHATS_MIGRATED, "1");
+    }
+
+    let res = await fetch("/api/chats");
+    if (!res.ok) throw new Error(`Loading chats failed: ${res.status}`);
+    let stored: StoredChat[] = (await res.json()).chats ?? [];
+    if (!stored.length && !localStorage.getItem(STORAGE_CHATS_SEEDED)) {
+      const seeded = await fetch("/api/chats/import", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ chats: createSeedChats().map(toStoredChat) }),
+      });
+      if (!seeded.ok) throw new Error(`Seeding chats failed: ${seeded.status}`);
+      res = await fetch("/api/chats");
+      if (res.ok) stored = (await res.json()).chats ?? [];
+    }
+    localStorage.setItem(STORAGE_CHATS_SEEDED, "1");
+    return stored;
+  })().finally(() => {
+    chatSync = null;
+  });
+  return chatSync;
+}
+
 export default function ChatCenter(): JSX.Element {
   /* ----------------------- state: chats + UI ----------------------- */
-  const [chats, setChats] = useState<Chat[]>(() => {
-    const loaded = loadChatsFromStorage();
-    if (loaded.length > 0) return loaded;
-    const seeds = createSeedChats();
-    saveChatsToStorage(seeds);
-    return seeds;
-  });
+  // The cached copy shows at once; the sync effect below replaces it with the server's.
+  const [chats, setChats] = useState<Chat[]>(() => loadChatsFromStorage());
 
   const [activeChatId, setActiveChatId] = useState<string | null>(() => {
     try {
@@ -425,8 +669,9 @@ export default function ChatCenter(): JSX.Element {
     }
   });
 
-  const [filterText, setFilterText] = useState("");
   const [searchChatsQuery, setSearchChatsQuery] = useState("");
+  /** The message a search result jumped to, outlined until the highlight fades. */
+  const [jumpTarget, setJumpTarget] = useState<string | null>(null);
   const [darkMode, setDarkMode] = useState<boolean>(() => {
     const s = loadSettingsFromStorage();
     return s?.dark ?? true;
@@ -436,9 +681,9 @@ export default function ChatCenter(): JSX.Element {
     const s = loadSettingsFromStorage();
     return s?.systemPrompt ?? DEFAULT_SYSTEM_PROMPT;
   });
-  const [tone, setTone] = useState<"concise" | "friendly" | "formal">(() => {
+  const [tone, setTone] = useState<ChatTone>(() => {
     const s = loadSettingsFromStorage();
-    return s?.tone ?? "concise";
+    return CHAT_TONES.includes(s?.tone) ? s.tone : "concise";
   });
   const [paletteIndex, setPaletteIndex] = useState<number>(() => {
     const s = loadSettingsFromStorage();
@@ -452,6 +697,10 @@ export default function ChatCenter(): JSX.Element {
     const s = loadSettingsFromStorage();
     return typeof s?.maxTokens === "number" ? s.maxTokens : 512;
   });
+  const [temperature, setTemperature] = useState<number>(() => {
+    const s = loadSettingsFromStorage();
+    return typeof s?.temperature === "number" ? s.temperature : 0.7;
+  });
 
   // Enhanced UI state
   const [showNewChatDrawer, setShowNewChatDrawer] = useState(false);
@@ -469,7 +718,18 @@ export default function ChatCenter(): JSX.Element {
 
   // composing message
   const [composerText, setComposerText] = useState("");
+  const [promptTemplates, setPromptTemplates] = useState<PromptTemplate[]>([]);
+  // The template whose variables are being filled in before it is used.
+  const [promptForm, setPromptForm] = useState<{ template: PromptTemplate; values: Record<string, string> } | null>(null);
+  const [slashIndex, setSlashIndex] = useState(0);
+  // Composer text the slash picker was dismissed for with Escape; typing reopens it.
+  const [slashDismissedFor, setSlashDismissedFor] = useState<string | null>(null);
+  // A question being edited in place before it is resent as a new branch.
+  const [editingMessageId, setEditingMessageId] = useState<string | null>(null);
+  const [editDraft, setEditDraft] = useState("");
   const [sending, setSending] = useState(false);
+  // Aborting cancels the request, and the server stops the model in turn.
+  const sendAbortRef = useRef<AbortController | null>(null);
   const [streamedTextTemp, setStreamedTextTemp] = useState<Record<string, string>>({}); 
 
   const palette = COLOR_PALETTES[paletteIndex % COLOR_PALETTES.length];
@@ -478,6 +738,9 @@ export default function ChatCenter(): JSX.Element {
   const chatsRef = useRef<Chat[]>(chats);
   chatsRef.current = chats;
 
+  // Chats created here whose POST /api/chats has not finished; sending waits for it.
+  const pendingChatsRef = useRef<Map<string, Promise<void>>>(new Map());
+
   const activeChatRef = useRef<Chat | null>(null);
   useEffect(() => {
     activeChatRef.current = chats.find((c) => c.id === activeChatId) ?? null;
@@ -485,12 +748,49 @@ export default function ChatCenter(): JSX.Element {
 
   const composerRef = useRef<HTMLTextAreaElement | null>(null);
   const messagesEndRef = useRef<HTMLDivElement | null>(null);
+  const importInputRef = useRef<HTMLInputElement | null>(null);
+
+  /* ----------------------- effects: sync chats, persist settings ----------------------- */
+
+  // Replaces the cached copy with the stored chats once the sync is done.
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      try {
+        const stored = await syncStoredChats();
+        if (cancelled) return;
+        const loaded = stored.map(fromStoredChat);
+        setChats(loaded);
+        setActiveChatId((current) =>
+          current && loaded.some((c) => c.id === current) ? current : loaded[0]?.id ?? null
+        );
+      } catch (err) {
+        // Keep working from the cached copy.
+        console.warn("Chat sync failed:", err);
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
 
-  /* ----------------------- effects: persist settings & chats ----------------------- */
   useEffect(() => {
     saveChatsToStorage(chats);
   }, [chats]);
 
+  // Waits for the jumped-to message to render (switching chat or branch takes a render), then scrolls to it.
+  useEffect(() => {
+    if (!jumpTarget) return;
+    const frame = requestAnimationFrame(() =>
+      document.getElementById(`message-${jumpTarget}`)?.scrollIntoView({ behavior: "smooth", block: "center" })
+    );
+    const timer = setTimeout(() => setJumpTarget(null), 2500);
+    return () => {
+      cancelAnimationFrame(frame);
+      clearTimeout(timer);
+    };
+  }, [jumpTarget, activeChatId]);
+
   useEffect(() => {
     saveSettingsToStorage({ 
       dark: darkMode, 
@@ -499,9 +799,10 @@ export default function ChatCenter(): JSX.Element {
       paletteIndex, 
       streamEnabled, 
       maxTokens,
+      temperature,
       animationsEnabled 
     });
-  }, [darkMode, systemPrompt, tone, paletteIndex, streamEnabled, maxTokens, animationsEnabled]);
+  }, [darkMode, systemPrompt, tone, paletteIndex, streamEnabled, maxTokens, temperature, animationsEnabled]);
 
   useEffect(() => {
     try {
@@ -536,11 +837,15 @@ export default function ChatCenter(): JSX.Element {
     };
     setChats((p) => [c, ...p]);
     setActiveChatId(c.id);
+    const saved = persistChat("/api/chats", "POST", toStoredChat(c)).finally(() => pendingChatsRef.current.delete(c.id));
+    pendingChatsRef.current.set(c.id, saved);
+    return c;
   }
 
   function deleteChat(id: string) {
     if (!confirm("Delete this chat and its history?")) return;
     setChats((prev) => prev.filter((c) => c.id !== id));
+    persistChat(`/api/chats/${encodeURIComponent(id)}`, "DELETE");
     if (activeChatId === id) {
       const remaining = chats.filter((c) => c.id !== id);
       setActiveChatId(remaining.length ? remaining[0].id : null);
@@ -549,13 +854,50 @@ export default function ChatCenter(): JSX.Element {
 
   function renameChat(id: string, title: string) {
     setChats((prev) => prev.map((c) => (c.id === id ? { ...c, title } : c)));
+    if (title.trim()) persistChat(`/api/chats/${encodeURIComponent(id)}`, "PATCH", { title });
+  }
+
+  function updateChatContext(chatId: string, context: ContextReport) {
+    setChats((prev) => prev.map((c) => (c.id === chatId ? { ...c, context, summary: context.summary } : c)));
+  }
+
+  /** Saves a hand-edited summary; an empty one removes it. */
+  async function saveSummary(chatId: string, text: string) {
+    const content = text.trim();
+    setChats((prev) =>
+      prev.map((c) =>
+        c.id === chatId
+          ? {
+              ...c,
+              summary: content
+                ? { content, coversUntil: c.summary?.coversUntil ?? null, updatedAt: nowISO() }
+                : null,
+            }
+          : c
+      )
+    );
+    try {
+      const res = await fetch(`/api/chats/${encodeURIComponent(chatId)}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ summary: content || null }),
+      });
+      if (!res.ok) throw new Error(`Saving the summary failed: ${res.status}`);
+      const stored: StoredChat = await res.json();
+      setChats((prev) => prev.map((c) => (c.id === chatId ? { ...c, summary: stored.summary ?? null } : c)));
+    } catch (err) {
+      alert(String((err as Error)?.message ?? err));
+    }
   }
 
   /* ----------------------- message CRUD ----------------------- */
 
-  function addMessageToChat(chatId: string, role: Role, content: string) {
-    const m: Message = { id: GEN_ID(), role, content, ts: nowISO() };
-    setChats((prev) => prev.map((c) => (c.id === chatId ? { ...c, messages: [...c.messages, m] } : c)));
+  /** Adds a message after `parentId` (undefined: after the newest message) and shows its branch. */
+  function addMessageToChat(chatId: string, role: Role, content: string, parentId?: string | null) {
+    const m: Message = { id: GEN_ID(), role, content, ts: nowISO(), parentId };
+    setChats((prev) =>
+      prev.map((c) => (c.id === chatId ? { ...c, messages: [...c.messages, m], activeLeafId: m.id } : c))
+    );
     return m;
   }
 
@@ -567,79 +909,198 @@ export default function ChatCenter(): JSX.Element {
     );
   }
 
+  // Mirrors the server: replies move up to the deleted message's parent.
   function deleteMessageFromChat(chatId: string, messageId: string) {
-    setChats((prev) => prev.map((c) => (c.id === chatId ? { ...c, messages: c.messages.filter((m) => m.id !== messageId) } : c)));
+    setChats((prev) =>
+      prev.map((c) => {
+        if (c.id !== chatId) return c;
+        const parentId = activePath(c.messages, messageId).at(-2)?.id ?? null;
+        const messages = c.messages
+          .filter((m) => m.id !== messageId)
+          .map((m) => (m.parentId === messageId ? { ...m, parentId } : m));
+        const activeLeafId =
+          c.activeLeafId === messageId
+            ? ((parentId ? newestLeaf(messages, parentId) : messages.at(-1))?.id ?? null)
+            : c.activeLeafId;
+        return { ...c, messages, activeLeafId };
+      })
+    );
+    persistChat(`/api/chats/${encodeURIComponent(chatId)}/messages/${encodeURIComponent(messageId)}`, "DELETE");
+  }
+
+  function togglePinned(chatId: string, message: Message) {
+    updateMessageInChat(chatId, message.id, { pinned: !message.pinned });
+    persistChat(`/api/chats/${encodeURIComponent(chatId)}/messages/${encodeURIComponent(message.id)}`, "PATCH", {
+      pinned: !message.pinned,
+    });
+  }
+
+  /** Shows another branch: the newest conversation below `messageId`. */
+  function selectBranch(chatId: string, messageId: string) {
+    const chat = chatsRef.current.find((c) => c.id === chatId);
+    const leaf = chat && newestLeaf(chat.messages, messageId);
+    if (!leaf) return;
+    setChats((prev) => prev.map((c) => (c.id === chatId ? { ...c, activeLeafId: leaf.id } : c)));
+    persistChat(`/api/chats/${encodeURIComponent(chatId)}`, "PATCH", { activeLeafId: leaf.id });
+  }
+
+  /** Opens a search result's chat, on the branch holding the message, and scrolls to it. */
+  function openSearchHit(hit: SearchHit) {
+    setActiveChat(hit.chatId);
+    if (!hit.messageId) return;
+    const chat = chatsRef.current.find((c) => c.id === hit.chatId);
+    if (chat && !activePath(chat.messages, chat.activeLeafId).some((m) => m.id === hit.messageId)) {
+      selectBranch(hit.chatId, hit.messageId);
+    }
+    setJumpTarget(hit.messageId);
   }
 
   /* ----------------------- chat sending logic ----------------------- */
 
-  async function sendChatMessage(chatId: string, userText: string) {
+  /**
+   * Sends a question after `parentId`: by default the end of the branch
+   * showing; an edited question passes its original's parent and so forks.
+   */
+  async function sendChatMessage(chatId: string, userText: string, parentId?: string | null) {
     if (!userText.trim()) return;
     const trimmed = userText.trim();
+    const chat = chatsRef.current.find((c) => c.id === chatId);
+    const parent = parentId !== undefined ? parentId : chat ? (activePath(chat.messages, chat.activeLeafId).at(-1)?.id ?? null) : undefined;
+    const userMsg = addMessageToChat(chatId, "user", trimmed, parent);
+    const assistantMsg = addMessageToChat(chatId, "assistant", "⏳ Assistant is thinking...", userMsg.id);
+    setComposerText("");
 
-    const userMsg = addMessageToChat(chatId, "user", trimmed);
-    const assistantMsg = addMessageToChat(chatId, "assistant", "⏳ Assistant is thinking...");
+    // The server loads earlier turns from the stored chat and stores this one under our ids.
+    await requestAnswer(chatId, assistantMsg.id, {
+      message: trimmed,
+      messageId: userMsg.id,
+      ...(parent ? { parentId: parent } : {}),
+    });
+  }
 
-    setComposerText("");
+  /** Answers a stored question again; the new answer becomes a sibling of the earlier ones. */
+  async function regenerateAnswer(chatId: string, answer: Message) {
+    const chat = chatsRef.current.find((c) => c.id === chatId);
+    const question = chat && activePath(chat.messages, answer.id).at(-2);
+    if (!question || question.role !== "user") return;
+    const assistantMsg = addMessageToChat(chatId, "assistant", "⏳ Assistant is thinking...", question.id);
+    await requestAnswer(chatId, assistantMsg.id, { regenerateFrom: question.id });
+  }
+
+  /** Edit and resend: the edited question forks the chat next to the original. */
+  function resendEdited(chatId: string, original: Message, text: string) {
+    const chat = chatsRef.current.find((c) => c.id === chatId);
+    const parentId = chat ? (activePath(chat.messages, original.id).at(-2)?.id ?? null) : null;
+    setEditingMessageId(null);
+    sendChatMessage(chatId, text, parentId);
+  }
+
+  /** Asks /api/chat for an answer and fills in the placeholder message `replyId`. */
+  async function requestAnswer(chatId: string, replyId: string, turn: Record<string, string>) {
     setSending(true);
-    setStreamedTextTemp((s) => ({ ...s, [assistantMsg.id]: "" }));
+    const abort = new AbortController();
+    sendAbortRef.current = abort;
+    setStreamedTextTemp((s) => ({ ...s, [replyId]: "" }));
 
     const payload = {
-      message: trimmed,
+      ...turn,
       chatId,
+      replyId,
       systemPrompt,
       tone,
       stream: streamEnabled,
       maxTokens,
+      temperature,
     };
 
     try {
+      await pendingChatsRef.current.get(chatId);
       const res = await fetch("/api/chat", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify(payload),
+        signal: abort.signal,
       });
 
       if (!res.ok) {
         let errorText = `Error ${res.status}`;
         try {
           const j = await res.json();
-          errorText = j?.error ?? j?.message ?? JSON.stringify(j);
+          errorText = Array.isArray(j?.errors)
+            ? `${j.error}: ${describeErrors(j.errors)}`
+            : j?.error ?? j?.message ?? JSON.stringify(j);
         } catch {
           try {
             errorText = await res.text();
           } catch {}
         }
-        updateMessageInChat(chatId, assistantMsg.id, { content: `⚠️ ${errorText}` });
+        updateMessageInChat(chatId, replyId, { content: `⚠️ ${errorText}` });
         setSending(false);
         return;
       }
 
-      if (res.body && streamEnabled) {
+      // Citations, tool runs and usage arrive in the JSON reply or the stream's final frame.
+      const applyMetadata = (j: Partial<AssistantMetadata> | null) => {
+        updateMessageInChat(chatId, replyId, {
+          citations: Array.isArray(j?.citations) && j.citations.length ? j.citations : undefined,
+          toolCalls: Array.isArray(j?.toolCalls) && j.toolCalls.length ? j.toolCalls : undefined,
+          meta: j?.usage && j?.timing ? { model: j.model ?? "", usage: j.usage, timing: j.timing } : undefined,
+        });
+        // The assistant added an expense or a goal: reload the analytics panel.
+        if (j?.mutated) setLedgerVersion((v) => v + 1);
+      };
+
+      const isJson = res.headers.get("content-type")?.includes("application/json");
+      if (res.body && streamEnabled && !isJson) {
         let accumulated = "";
-        await streamTextFromResponse(
-          res,
-          (chunk) => {
-            accumulated += chunk;
-            updateMessageInChat(chatId, assistantMsg.id, { content: accumulated });
-            setStreamedTextTemp((s) => ({ ...s, [assistantMsg.id]: accumulated }));
-          },
-          () => {
-            setStreamedTextTemp((s) => {
-              const cp = { ...s };
-              delete cp[assistantMsg.id];
-              return cp;
-            });
-          }
-        );
+        const toolCalls: ToolCallRecord[] = [];
+        try {
+          await streamTextFromResponse(
+            res,
+            (chunk) => {
+              accumulated += chunk;
+              updateMessageInChat(chatId, replyId, { content: accumulated });
+              setStreamedTextTemp((s) => ({ ...s, [replyId]: accumulated }));
+            },
+            () => {
+              setStreamedTextTemp((s) => {
+                const cp = { ...s };
+                delete cp[replyId];
+                return cp;
+              });
+            },
+            (frame) => {
+              if (frame.type === "context") {
+                updateChatContext(chatId, frame.context);
+              } else if (frame.type === "tool") {
+                toolCalls.push(frame.call);
+                updateMessageInChat(chatId, replyId, { toolCalls: [...toolCalls] });
+              } else if (frame.type === "done") {
+                applyMetadata(frame);
+              } else if (frame.type === "error") {
+                accumulated += `${accumulated ? "\n\n" : ""}⚠️ ${frame.error}`;
+                updateMessageInChat(chatId, replyId, { content: accumulated });
+              }
+            }
+          );
+        } catch (err) {
+          // Keep whatever arrived before the user pressed Stop.
+          if ((err as Error)?.name !== "AbortError" || !accumulated) throw err;
+          updateMessageInChat(chatId, replyId, { content: `${accumulated}\n\n⏹️ Stopped` });
+        }
       } else {
         const j = await res.json();
         const reply = j?.reply ?? j?.response ?? j?.message?.content ?? String(j);
-        updateMessageInChat(chatId, assistantMsg.id, { content: String(reply) });
+        updateMessageInChat(chatId, replyId, { content: String(reply) });
+        applyMetadata(j);
+        if (j?.context) updateChatContext(chatId, j.context);
       }
     } catch (err: any) {
-      updateMessageInChat(chatId, assistantMsg.id, { content: `⚠️ Network error: ${String(err?.message ?? err)}` });
+      updateMessageInChat(chatId, replyId, {
+        content: err?.name === "AbortError" ? "⏹️ Stopped" : `⚠️ Network error: ${String(err?.message ?? err)}`,
+      });
     } finally {
+      sendAbortRef.current = null;
       setSending(false);
       setTimeout(() => messagesEndRef.current?.scrollIntoView({ behavior: "smooth" }), 80);
     }
@@ -647,18 +1108,38 @@ export default function ChatCenter(): JSX.Element {
 
   /* ----------------------- UI: derived data ----------------------- */
 
-  const filteredChats = useMemo(() => {
-    if (!searchChatsQuery.trim()) return chats;
-    const q = searchChatsQuery.toLowerCase();
-    return chats.filter((c) => c.title.toLowerCase().includes(q) || c.messages.some((m) => m.content.toLowerCase().includes(q)));
-  }, [chats, searchChatsQuery]);
+  // Indexed only while searching, and deferred so streaming answers do not re-index on every chunk.
+  const searching = searchChatsQuery.trim() !== "";
+  const deferredChats = useDeferredValue(chats);
+  const deferredQuery = useDeferredValue(searchChatsQuery);
+  const searchIndex = useMemo(() => (searching ? buildSearchIndex(deferredChats) : null), [searching, deferredChats]);
+  const searchHits = useMemo(
+    () => (searchIndex ? searchChats(searchIndex, deferredQuery) : []),
+    [searchIndex, deferredQuery]
+  );
 
   const activeChat = getActiveChat();
+  const visibleMessages = activeChat ? activePath(activeChat.messages, activeChat.activeLeafId) : [];
 
   // Enhanced expense data with trends
   const [expenses, setExpenses] = useState<Expense[] | null>(null);
   const [expenseTrends, setExpenseTrends] = useState<any[]>([]);
-  
+  const [ledgerVersion, setLedgerVersion] = useState(0);
+  // Stored amounts are all in the base currency (see /api/currency).
+  const [baseCurrency, setBaseCurrency] = useState(DEFAULT_BASE_CURRENCY);
+  const fmtMoney = useCallback((n = 0) => formatMoney(n, baseCurrency), [baseCurrency]);
+
+  useEffect(() => {
+    (async () => {
+      try {
+        const r = await fetch("/api/currency");
+        if (r.ok) setBaseCurrency((await r.json()).baseCurrency ?? DEFAULT_BASE_CURRENCY);
+      } catch {
+        // Keep the default until the server is reachable.
+      }
+    })();
+  }, [ledgerVersion]);
+
   useEffect(() => {
     (async () => {
       try {
@@ -671,17 +1152,20 @@ export default function ChatCenter(): JSX.Element {
           category: e.category ?? "Other",
           amount: Number(e.amount ?? 0),
           date: e.date ?? nowISO(),
+          type: TRANSACTION_TYPES.includes(e.type) ? (e.type as TransactionType) : "expense",
         }));
         setExpenses(expenseData);
         
-        // Generate trend data
+        // Generate trend data (refunds subtract, income and transfers are not spending)
         const trends = expenseData.reduce((acc: any, expense) => {
+          const spent = spendAmount(expense);
+          if (!spent) return acc;
           const month = new Date(expense.date).toLocaleString('default', { month: 'short' });
           const existing = acc.find((item: any) => item.month === month);
           if (existing) {
-            existing.amount += expense.amount;
+            existing.amount += spent;
           } else {
-            acc.push({ month, amount: expense.amount });
+            acc.push({ month, amount: spent });
           }
           return acc;
         }, []);
@@ -691,38 +1175,182 @@ export default function ChatCenter(): JSX.Element {
         setExpenses(null);
       }
     })();
-  }, []);
+  }, [ledgerVersion]);
 
   const totalsByCategory = useMemo(() => {
     if (!expenses) return [];
     const map: Record<string, number> = {};
     expenses.forEach((e) => {
-      map[e.category] = (map[e.category] || 0) + e.amount;
+      const spent = spendAmount(e);
+      if (spent) map[e.category] = (map[e.category] || 0) + spent;
     });
-    return Object.entries(map).map(([name, value]) => ({ name, value }));
+    return Object.entries(map)
+      .filter(([, value]) => value > 0)
+      .map(([name, value]) => ({ name, value }));
   }, [expenses]);
 
   /* ----------------------- export & utilities ----------------------- */
 
-  function exportChatToText(chatId: string) {
-    const c = chats.find((x) => x.id === chatId);
-    if (!c) return;
-    const txt = c.messages.map((m) => `[${m.role}] ${new Date(m.ts).toLocaleString()}\n${m.content}`).join("\n\n");
-    const blob = new Blob([txt], { type: "text/plain" });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement("a");
-    a.href = url;
-    a.download = `${c.title.replace(/\s+/g, "-").toLowerCase()}-${new Date().toISOString().slice(0, 10)}.txt`;
-    document.body.appendChild(a);
-    a.click();
-    a.remove();
-    URL.revokeObjectURL(url);
+  /** Downloads chats as Markdown, HTML or JSON; only JSON keeps every branch and imports back. */
+  function exportChatsAs(chatIds: string[], format: ChatExportFormat) {
+    const selected = chats
+      .filter((c) => chatIds.includes(c.id))
+      .map((c) => ({ ...toStoredChat(c), summary: c.summary ?? undefined }));
+    if (!selected.length) return;
+    const file = exportChats(selected, format, { systemPrompt: systemPrompt.trim() || undefined, tone, maxTokens, temperature });
+    downloadFile(selected.length === 1 ? selected[0].title.replace(/\s+/g, "-").toLowerCase() : "chats", file);
+  }
+
+  /**
+   * Merges a JSON export into the stored chats: new chats are added (ids
+   * that are taken get fresh ones) and chats already here gain the messages
+   * they lack. The list is then reloaded from the store.
+   */
+  async function importChatsFile(file: File) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(await file.text());
+    } catch {
+      alert("That file is not a JSON chat export.");
+      return;
+    }
+    if (!isPlainObject(parsed)) {
+      alert("That file is not a JSON chat export.");
+      return;
+    }
+    try {
+      const res = await fetch("/api/chats/import", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ...parsed, merge: true }),
+      });
+      const j = await res.json().catch(() => null);
+      if (!res.ok) {
+        alert(`Import failed: ${Array.isArray(j?.errors) ? describeErrors(j.errors) : j?.error ?? res.status}`);
+        return;
+      }
+      const { imported, merged, skipped } = j as ChatImportResult;
+      const list = await fetch("/api/chats");
+      if (list.ok) {
+        const stored: StoredChat[] = (await list.json()).chats ?? [];
+        setChats(stored.map(fromStoredChat));
+      }
+      alert(`Imported ${imported} new chat(s); ${merged} gained messages; ${skipped} already up to date.`);
+    } catch (err) {
+      alert(`Import failed: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }
+
+  /* ----------------------- prompt library ----------------------- */
+
+  const loadPromptTemplates = useCallback(async () => {
+    const res = await fetch("/api/prompts");
+    if (!res.ok) throw new Error(`Loading prompt templates failed: ${res.status}`);
+    const templates: PromptTemplate[] = (await res.json()).templates ?? [];
+    setPromptTemplates(templates);
+    return templates;
+  }, []);
+
+  // Loads the library, starting it with STARTER_PROMPTS while it is empty.
+  useEffect(() => {
+    (async () => {
+      try {
+        if ((await loadPromptTemplates()).length) return;
+        await fetch("/api/prompts/import", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ templates: STARTER_PROMPTS }),
+        });
+        await loadPromptTemplates();
+      } catch (err) {
+        console.warn("Prompt library sync failed:", err);
+      }
+    })();
+  }, [loadPromptTemplates]);
+
+  // Favourites, or the first few templates while none are marked.
+  const quickPrompts = useMemo(() => {
+    const favorites = promptTemplates.filter((t) => t.favorite);
+    return (favorites.length ? favorites : promptTemplates).slice(0, 6);
+  }, [promptTemplates]);
+
+  // What {{month}}, {{total_spend}} and the other automatic variables say right now.
+  const autoPromptValues = useMemo(() => resolveAutoVariables(expenses ?? [], new Date(), fmtMoney), [expenses, fmtMoney]);
+
+  /** Creates (no id) or updates a template; resolves to the server's complaint, or null once saved. */
+  async function savePromptTemplate(id: string | null, changes: PromptTemplateChanges): Promise<string | null> {
+    try {
+      const res = await fetch(id ? `/api/prompts/${encodeURIComponent(id)}` : "/api/prompts", {
+        method: id ? "PATCH" : "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(changes),
+      });
+      const j = await res.json().catch(() => null);
+      if (!res.ok) return Array.isArray(j?.errors) ? describeErrors(j.errors) : j?.error ?? `Saving failed: ${res.status}`;
+      await loadPromptTemplates();
+      return null;
+    } catch (err) {
+      return err instanceof Error ? err.message : String(err);
+    }
+  }
+
+  async function deletePromptTemplate(template: PromptTemplate) {
+    if (!confirm(`Delete the "${template.title}" template?`)) return;
+    const res = await fetch(`/api/prompts/${encodeURIComponent(template.id)}`, { method: "DELETE" });
+    if (!res.ok && res.status !== 404) alert(`Delete failed: ${res.status}`);
+    await loadPromptTemplates().catch(() => undefined);
+  }
+
+  /** Adds the templates from a library export; ones already in the library are skipped. */
+  async function importPromptFile(file: File) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(await file.text());
+    } catch {
+      alert("That file is not a JSON prompt library export.");
+      return;
+    }
+    try {
+      const res = await fetch("/api/prompts/import", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(parsed),
+      });
+      const j = await res.json().catch(() => null);
+      if (!res.ok) {
+        alert(`Import failed: ${Array.isArray(j?.errors) ? describeErrors(j.errors) : j?.error ?? res.status}`);
+        return;
+      }
+      const { imported, skipped } = j as PromptImportResult;
+      await loadPromptTemplates();
+      alert(`Imported ${imported} template(s); ${skipped} already in the library.`);
+    } catch (err) {
+      alert(`Import failed: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }
+
+  /**
+   * Uses a template: one without variables is sent as it is (or put in the
+   * composer when `insert` is set); otherwise the variable form opens with
+   * what the ledger can fill in already.
+   */
+  function applyPromptTemplate(template: PromptTemplate, insert = false) {
+    const variables = templateVariables(template.body);
+    if (!variables.length) {
+      if (insert) {
+        setComposerText(template.body);
+        composerRef.current?.focus();
+      } else quickSend(template.body);
+      return;
+    }
+    const auto: Record<string, string> = autoPromptValues;
+    setPromptForm({ template, values: Object.fromEntries(variables.map((v) => [v, auto[v] ?? ""])) });
   }
 
   function copyChatToClipboard(chatId: string) {
     const c = chats.find((x) => x.id === chatId);
     if (!c) return;
-    const txt = c.messages.map((m) => `[${m.role}] ${m.content}`).join("\n\n");
+    const txt = activePath(c.messages, c.activeLeafId).map((m) => `[${m.role}] ${m.content}`).join("\n\n");
     navigator.clipboard.writeText(txt).then(() => alert("Chat copied to clipboard"), () => alert("Failed to copy"));
   }
 
@@ -735,25 +1363,48 @@ export default function ChatCenter(): JSX.Element {
 
   const quickSend = (prompt: string) => {
     if (!activeChatId) {
-      createNewChat("Quick Chat");
-      setTimeout(() => {
-        const newActive = loadChatsFromStorage()[0]?.id;
-        if (newActive) sendChatMessage(newActive, prompt);
-      }, 100);
+      sendChatMessage(createNewChat("Quick Chat").id, prompt);
       return;
     }
     sendChatMessage(activeChatId, prompt);
   };
 
+  // "/bud" in an otherwise empty composer lists the templates it matches.
+  const slashQuery = composerText === slashDismissedFor ? undefined : /^\/(\S*)$/.exec(composerText)?.[1];
+  const slashMatches = useMemo(
+    () => (slashQuery === undefined ? [] : matchTemplates(promptTemplates, slashQuery).slice(0, 8)),
+    [promptTemplates, slashQuery]
+  );
+
+  const pickSlashTemplate = (template: PromptTemplate) => {
+    setComposerText("");
+    applyPromptTemplate(template, true);
+  };
+
   const handleComposerKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (slashMatches.length) {
+      const step = e.key === "ArrowDown" ? 1 : e.key === "ArrowUp" ? -1 : 0;
+      if (step) {
+        e.preventDefault();
+        setSlashIndex((i) => (i + step + slashMatches.length) % slashMatches.length);
+        return;
+      }
+      if ((e.key === "Enter" && !e.shiftKey) || e.key === "Tab") {
+        e.preventDefault();
+        pickSlashTemplate(slashMatches[Math.min(slashIndex, slashMatches.length - 1)]);
+        return;
+      }
+      if (e.key === "Escape") {
+        e.preventDefault();
+        setSlashDismissedFor(composerText);
+        return;
+      }
+    }
     if (e.key === "Enter" && !e.shiftKey) {
       e.preventDefault();
+      if (sending) return;
       if (!activeChatId) {
-        createNewChat();
-        setTimeout(() => {
-          const newest = loadChatsFromStorage()[0]?.id;
-          if (newest) sendChatMessage(newest, composerText);
-        }, 80);
+        sendChatMessage(createNewChat().id, composerText);
       } else {
         sendChatMessage(activeChatId, composerText);
       }
@@ -897,100 +1548,131 @@ export default function ChatCenter(): JSX.Element {
 
             {/* Enhanced chats list */}
             <div className="space-y-3 max-h-96 overflow-y-auto scrollbar-thin scrollbar-track-transparent scrollbar-thumb-slate-300 dark:scrollbar-thumb-gray-600">
-              <AnimatePresence>
-                {filteredChats.length === 0 ? (
-                  <motion.div 
-                    className="text-center text-slate-500 dark:text-slate-400 py-12"
-                    {...ANIMATION_VARIANTS.fadeIn}
-                  >
-                    {!sidebarCollapsed && "No chats yet. Click New Chat to start."}
-                  </motion.div>
+              {searching && !sidebarCollapsed ? (
+                searchHits.length === 0 ? (
+                  <div className="text-center text-slate-500 dark:text-slate-400 py-12 text-sm">No matches.</div>
                 ) : (
-                  filteredChats.map((c, index) => {
-                    const lastMsg = c.messages[c.messages.length - 1];
-                    const isActive = c.id === activeChatId;
-                    return (
-                      <motion.div
-                        key={c.id}
-                        onClick={() => setActiveChat(c.id)}
-                        className={`p-4 rounded-2xl cursor-pointer flex items-start gap-3 transition-all duration-300 ${
-                          isActive 
-                            ? "bg-gradient-to-r from-blue-50 to-purple-50 dark:from-blue-900/20 dark:to-purple-900/20 border-2 border-blue-200 dark:border-blue-700 shadow-lg" 
-                            : "hover:bg-white/60 dark:hover:bg-gray-800/60 backdrop-blur border border-white/20 dark:border-gray-700/20"
-                        }`}
-                        role="button"
-                        aria-pressed={isActive}
-                        initial={{ opacity: 0, y: 20 }}
-                        animate={{ opacity: 1, y: 0 }}
-                        transition={{ delay: index * 0.1 }}
-                        whileHover={{ scale: sidebarCollapsed ? 1.1 : 1.02 }}
-                        whileTap={{ scale: 0.98 }}
+                  <div className="space-y-2">
+                    <div className="text-xs text-slate-500 dark:text-slate-400 px-1">
+                      {searchHits.length === SEARCH_LIMITS.results ? `Top ${searchHits.length}` : searchHits.length} result{searchHits.length === 1 ? "" : "s"}
+                    </div>
+                    {searchHits.map((hit) => (
+                      <button
+                        key={`${hit.chatId}:${hit.messageId ?? "title"}`}
+                        onClick={() => openSearchHit(hit)}
+                        className="w-full text-left p-3 rounded-xl hover:bg-white/60 dark:hover:bg-gray-800/60 border border-white/20 dark:border-gray-700/20 transition-colors"
                       >
-                        <div className="w-12 h-12 rounded-2xl bg-gradient-to-tr from-indigo-500 via-purple-500 to-pink-500 flex items-center justify-center text-white font-bold shadow-lg">
-                          <Bot className="w-5 h-5" />
+                        <div className="flex items-center justify-between gap-2 mb-1">
+                          <span className="font-semibold text-xs truncate text-slate-800 dark:text-slate-200">
+                            {chats.find((c) => c.id === hit.chatId)?.title ?? "Chat"}
+                          </span>
+                          <span className="text-[10px] uppercase tracking-wide text-slate-400">{hit.role}</span>
                         </div>
-                        {!sidebarCollapsed && (
-                          <div className="flex-1 min-w-0">
-                            <div className="flex items-center justify-between gap-2 mb-1">
-                              <div className="font-semibold text-sm truncate text-slate-800 dark:text-slate-200">{c.title}</div>
-                              <div className="text-xs text-slate-400 flex items-center gap-1">
-                                <Clock className="w-3 h-3" />
-                                {new Date(c.createdAt).toLocaleDateString()}
+                        <HighlightedText
+                          text={hit.snippet}
+                          ranges={hit.highlights}
+                          className="text-xs text-slate-600 dark:text-slate-300 line-clamp-3"
+                        />
+                      </button>
+                    ))}
+                  </div>
+                )
+              ) : (
+                <AnimatePresence>
+                  {chats.length === 0 ? (
+                    <motion.div 
+                      className="text-center text-slate-500 dark:text-slate-400 py-12"
+                      {...ANIMATION_VARIANTS.fadeIn}
+                    >
+                      {!sidebarCollapsed && "No chats yet. Click New Chat to start."}
+                    </motion.div>
+                  ) : (
+                    chats.map((c, index) => {
+                      const lastMsg = activePath(c.messages, c.activeLeafId).at(-1);
+                      const isActive = c.id === activeChatId;
+                      return (
+                        <motion.div
+                          key={c.id}
+                          onClick={() => setActiveChat(c.id)}
+                          className={`p-4 rounded-2xl cursor-pointer flex items-start gap-3 transition-all duration-300 ${
+                            isActive 
+                              ? "bg-gradient-to-r from-blue-50 to-purple-50 dark:from-blue-900/20 dark:to-purple-900/20 border-2 border-blue-200 dark:border-blue-700 shadow-lg" 
+                              : "hover:bg-white/60 dark:hover:bg-gray-800/60 backdrop-blur border border-white/20 dark:border-gray-700/20"
+                          }`}
+                          role="button"
+                          aria-pressed={isActive}
+                          initial={{ opacity: 0, y: 20 }}
+                          animate={{ opacity: 1, y: 0 }}
+                          transition={{ delay: index * 0.1 }}
+                          whileHover={{ scale: sidebarCollapsed ? 1.1 : 1.02 }}
+                          whileTap={{ scale: 0.98 }}
+                        >
+                          <div className="w-12 h-12 rounded-2xl bg-gradient-to-tr from-indigo-500 via-purple-500 to-pink-500 flex items-center justify-center text-white font-bold shadow-lg">
+                            <Bot className="w-5 h-5" />
+                          </div>
+                          {!sidebarCollapsed && (
+                            <div className="flex-1 min-w-0">
+                              <div className="flex items-center justify-between gap-2 mb-1">
+                                <div className="font-semibold text-sm truncate text-slate-800 dark:text-slate-200">{c.title}</div>
+                                <div className="text-xs text-slate-400 flex items-center gap-1">
+                                  <Clock className="w-3 h-3" />
+                                  {new Date(c.createdAt).toLocaleDateString()}
+                                </div>
+                              </div>
+                              <div className="text-xs text-slate-500 dark:text-slate-400 truncate mb-2">
+                                {lastMsg ? lastMsg.content.slice(0, 80) + "..." : "No messages yet..."}
+                              </div>
+                              <div className="flex items-center gap-1">
+                                <GradientBadge variant="info">{c.messages.length} msgs</GradientBadge>
+                                {c.messages.some(m => m.pinned) && (
+                                  <GradientBadge variant="warning">
+                                    <Star className="w-3 h-3" />
+                                  </GradientBadge>
+                                )}
                               </div>
                             </div>
-                            <div className="text-xs text-slate-500 dark:text-slate-400 truncate mb-2">
-                              {lastMsg ? lastMsg.content.slice(0, 80) + "..." : "No messages yet..."}
-                            </div>
-                            <div className="flex items-center gap-1">
-                              <GradientBadge variant="info">{c.messages.length} msgs</GradientBadge>
-                              {c.messages.some(m => m.pinned) && (
-                                <GradientBadge variant="warning">
-                                  <Star className="w-3 h-3" />
-                                </GradientBadge>
-                              )}
-                            </div>
+                          )}
+                          <div className={`flex ${sidebarCollapsed ? "flex-col" : "flex-row"} gap-1 items-center`}>
+                            <IconButton
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                copyChatToClipboard(c.id);
+                              }}
+                              title="Copy"
+                              size="sm"
+                              variant="default"
+                            >
+                              <Copy className="w-3 h-3" />
+                            </IconButton>
+                            <IconButton
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                exportChatsAs([c.id], "markdown");
+                              }}
+                              title="Download"
+                              size="sm"
+                              variant="success"
+                            >
+                              <Download className="w-3 h-3" />
+                            </IconButton>
+                            <IconButton
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                deleteChat(c.id);
+                              }}
+                              title="Delete"
+                              size="sm"
+                              variant="danger"
+                            >
+                              <Trash2 className="w-3 h-3" />
+                            </IconButton>
                           </div>
-                        )}
-                        <div className={`flex ${sidebarCollapsed ? "flex-col" : "flex-row"} gap-1 items-center`}>
-                          <IconButton
-                            onClick={(e) => {
-                              e.stopPropagation();
-                              copyChatToClipboard(c.id);
-                            }}
-                            title="Copy"
-                            size="sm"
-                            variant="default"
-                          >
-                            <Copy className="w-3 h-3" />
-                          </IconButton>
-                          <IconButton
-                            onClick={(e) => {
-                              e.stopPropagation();
-                              exportChatToText(c.id);
-                            }}
-                            title="Download"
-                            size="sm"
-                            variant="success"
-                          >
-                            <Download className="w-3 h-3" />
-                          </IconButton>
-                          <IconButton
-                            onClick={(e) => {
-                              e.stopPropagation();
-                              deleteChat(c.id);
-                            }}
-                            title="Delete"
-                            size="sm"
-                            variant="danger"
-                          >
-                            <Trash2 className="w-3 h-3" />
-                          </IconButton>
-                        </div>
-                      </motion.div>
-                    );
-                  })
-                )}
-              </AnimatePresence>
+                        </motion.div>
+                      );
+                    })
+                  )}
+                </AnimatePresence>
+              )}
             </div>
 
             {/* Enhanced small footer */}
@@ -1034,7 +1716,7 @@ export default function ChatCenter(): JSX.Element {
                   </div>
                   {activeChat && (
                     <div className="flex items-center gap-2">
-                      <GradientBadge variant="info">{activeChat.messages.length} messages</GradientBadge>
+                      <GradientBadge variant="info">{visibleMessages.length} messages</GradientBadge>
                       <GradientBadge variant="success">
                         <TrendingUp className="w-3 h-3 mr-1" />
                         Active
@@ -1054,7 +1736,7 @@ export default function ChatCenter(): JSX.Element {
                 <IconButton title="Copy chat" onClick={() => activeChat && copyChatToClipboard(activeChat.id)} variant="default">
                   <Copy className="w-5 h-5" />
                 </IconButton>
-                <IconButton title="Export chat" onClick={() => activeChat && exportChatToText(activeChat.id)} variant="success">
+                <IconButton title="Export chat (Markdown)" onClick={() => activeChat && exportChatsAs([activeChat.id], "markdown")} variant="success">
                   <Download className="w-5 h-5" />
                 </IconButton>
                 <IconButton title="Delete chat" onClick={() => activeChat && deleteChat(activeChat.id)} variant="danger">
@@ -1064,12 +1746,21 @@ export default function ChatCenter(): JSX.Element {
             </div>
           </GlassmorphismCard>
 
+          {activeChat && (activeChat.summary || activeChat.context) && (
+            <ContextSummaryCard
+              key={activeChat.id}
+              summary={activeChat.summary ?? null}
+              context={activeChat.context}
+              onSave={(text) => saveSummary(activeChat.id, text)}
+            />
+          )}
+
           {/* Enhanced messages panel */}
           <GlassmorphismCard className="flex-1 flex flex-col overflow-hidden min-h-[500px]">
             <div className="flex-1 overflow-y-auto p-6 space-y-4 bg-gradient-to-b from-transparent to-white/5">
               {activeChat ? (
                 <>
-                  {activeChat.messages.length === 0 ? (
+                  {visibleMessages.length === 0 ? (
                     <motion.div 
                       className="text-center text-slate-500 dark:text-slate-400 py-12"
                       {...ANIMATION_VARIANTS.fadeIn}
@@ -1080,9 +1771,10 @@ export default function ChatCenter(): JSX.Element {
                     </motion.div>
                   ) : (
                     <AnimatePresence>
-                      {activeChat.messages.map((m, index) => (
+                      {visibleMessages.map((m, index) => (
                         <motion.div 
                           key={m.id} 
+                          id={`message-${m.id}`}
                           className={`flex ${m.role === "user" ? "justify-end" : "justify-start"} group`}
                           initial={{ opacity: 0, y: 10 }}
                           animate={{ opacity: 1, y: 0 }}
@@ -1091,21 +1783,129 @@ export default function ChatCenter(): JSX.Element {
                           <div className={`max-w-[85%] ${m.role === "user" ? "order-2" : "order-1"}`}>
                             <motion.div
                               className={`px-6 py-4 rounded-3xl shadow-lg backdrop-blur-sm border transition-all duration-300 ${
+                                jumpTarget === m.id ? "ring-4 ring-amber-400/70 " : ""
+                              }${
                                 m.role === "user" 
                                   ? "bg-gradient-to-r from-blue-500 to-purple-600 text-white border-blue-300/30 shadow-blue-500/25" 
                                   : "bg-white/80 dark:bg-gray-800/80 border-white/30 dark:border-gray-700/30 text-slate-800 dark:text-slate-200"
                               }`}
                               whileHover={{ scale: 1.01 }}
                             >
-                              <div className="whitespace-pre-wrap text-sm leading-relaxed font-medium">{m.content}</div>
+                              {editingMessageId === m.id ? (
+                                <div className="space-y-2">
+                                  <textarea
+                                    value={editDraft}
+                                    onChange={(e) => setEditDraft(e.target.value)}
+                                    rows={3}
+                                    autoFocus
+                                    className="w-full min-w-[16rem] p-2 rounded-xl bg-white/90 text-slate-800 text-sm"
+                                  />
+                                  <div className="flex justify-end gap-2 text-xs">
+                                    <button onClick={() => setEditingMessageId(null)} className="px-3 py-1 rounded-lg bg-white/20">
+                                      Cancel
+                                    </button>
+                                    <button
+                                      onClick={() => resendEdited(activeChat.id, m, editDraft)}
+                                      disabled={sending || !editDraft.trim()}
+                                      className="px-3 py-1 rounded-lg bg-white text-blue-600 font-semibold disabled:opacity-50"
+                                    >
+                                      Save &amp; resend
+                                    </button>
+                                  </div>
+                                </div>
+                              ) : (
+                                m.role === "assistant" ? (
+                                  <Markdown content={m.content} />
+                                ) : (
+                                  <div className="whitespace-pre-wrap text-sm leading-relaxed font-medium">{m.content}</div>
+                                )
+                              )}
+                              {m.toolCalls && (
+                                <div className="mt-3 flex flex-wrap gap-1.5">
+                                  {m.toolCalls.map((call, i) => (
+                                    <span
+                                      key={i}
+                                      title={`${call.name}(${JSON.stringify(call.arguments)})`}
+                                      className={`inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-[11px] ${
+                                        call.ok
+                                          ? "bg-blue-50 text-blue-700 dark:bg-blue-900/30 dark:text-blue-300"
+                                          : "bg-red-50 text-red-700 dark:bg-red-900/30 dark:text-red-300"
+                                      }`}
+                                    >
+                                      <Wrench className="w-3 h-3" />
+                                      {call.summary}
+                                    </span>
+                                  ))}
+                                </div>
+                              )}
+                              {m.citations && (
+                                <div className="mt-3 pt-3 border-t border-slate-200/60 dark:border-gray-700/60">
+                                  <div className="text-[11px] font-semibold uppercase tracking-wide opacity-60 mb-1">Sources</div>
+                                  <ul className="space-y-0.5 text-xs">
+                                    {m.citations.map((c) => (
+                                      <li key={c.expenseId} className="flex items-center gap-2">
+                                        <span className="font-mono opacity-60">[{c.ref}]</span>
+                                        <span className="truncate">{c.title}</span>
+                                        <span className="opacity-60">
+                                          {c.category} · {new Date(c.date).toLocaleDateString()}
+                                        </span>
+                                        <span className="ml-auto font-semibold">{fmtMoney(c.amount)}</span>
+                                      </li>
+                                    ))}
+                                  </ul>
+                                </div>
+                              )}
                               <div className="mt-3 flex items-center justify-between text-xs opacity-70">
                                 <span className="flex items-center gap-1">
                                   <Clock className="w-3 h-3" />
                                   {new Date(m.ts).toLocaleTimeString()}
+                                  {m.role !== "system" && (
+                                    <span title="Estimated size of this message in the model's context">
+                                      {" "}· ~{estimateTokens(m.content)} tok
+                                    </span>
+                                  )}
+                                  {m.meta && (
+                                    <span title={`${m.meta.model} · ${m.meta.usage.promptTokens} prompt + ${m.meta.usage.completionTokens} answer tokens`}>
+                                      {" "}· {m.meta.usage.totalTokens} tokens · {(m.meta.timing.totalMs / 1000).toFixed(1)}s
+                                    </span>
+                                  )}
+                                  {!m.pinned && m.role !== "system" && activeChat.summary?.coversUntil && m.ts <= activeChat.summary.coversUntil && (
+                                    <span title="Too old to send verbatim; the model sees it through the summary">
+                                      {" "}· in summary
+                                    </span>
+                                  )}
                                 </span>
+                                <BranchSwitcher
+                                  siblings={siblingsOf(activeChat.messages, m.id)}
+                                  current={m.id}
+                                  onSelect={(id) => selectBranch(activeChat.id, id)}
+                                />
                                 <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                                  {m.role === "user" && (
+                                    <IconButton
+                                      onClick={() => {
+                                        setEditDraft(m.content);
+                                        setEditingMessageId(m.id);
+                                      }}
+                                      title="Edit and resend"
+                                      size="sm"
+                                      variant="default"
+                                    >
+                                      <Edit3 className="w-3 h-3" />
+                                    </IconButton>
+                                  )}
+                                  {m.role === "assistant" && visibleMessages[index - 1]?.role === "user" && (
+                                    <IconButton
+                                      onClick={() => !sending && regenerateAnswer(activeChat.id, m)}
+                                      title="Regenerate"
+                                      size="sm"
+                                      variant="default"
+                                    >
+                                      <RefreshCw className="w-3 h-3" />
+                                    </IconButton>
+                                  )}
                                   <IconButton
-                                    onClick={() => updateMessageInChat(activeChat.id, m.id, { pinned: !m.pinned })}
+                                    onClick={() => togglePinned(activeChat.id, m)}
                                     title={m.pinned ? "Unpin" : "Pin"}
                                     size="sm"
                                     variant="default"
@@ -1190,13 +1990,47 @@ export default function ChatCenter(): JSX.Element {
             {/* Enhanced composer */}
             <div className="border-t border-white/20 dark:border-gray-700/30 p-6 bg-white/50 dark:bg-gray-900/50 backdrop-blur">
               <div className="flex gap-4">
-                <div className="flex-1">
+                <div className="flex-1 relative">
+                  {slashMatches.length > 0 && (
+                    <div
+                      role="listbox"
+                      aria-label="Prompt templates"
+                      className="absolute bottom-full left-0 right-0 mb-2 z-20 max-h-72 overflow-y-auto rounded-2xl border border-white/30 dark:border-gray-700/30 bg-white/95 dark:bg-gray-900/95 backdrop-blur shadow-xl p-1"
+                    >
+                      {slashMatches.map((t, i) => (
+                        <button
+                          key={t.id}
+                          role="option"
+                          aria-selected={i === slashIndex}
+                          onMouseDown={(e) => {
+                            // Keep the composer focused.
+                            e.preventDefault();
+                            pickSlashTemplate(t);
+                          }}
+                          onMouseEnter={() => setSlashIndex(i)}
+                          className={`w-full text-left px-3 py-2 rounded-xl text-sm flex items-center gap-3 ${
+                            i === slashIndex ? "bg-blue-50 dark:bg-blue-900/30" : ""
+                          }`}
+                        >
+                          <span className="font-mono text-xs text-blue-600 dark:text-blue-400 w-24 truncate">
+                            {t.command ? `/${t.command}` : "—"}
+                          </span>
+                          <span className="flex-1 truncate text-slate-800 dark:text-slate-200">{t.title}</span>
+                          {t.folder && <span className="text-xs text-slate-500 dark:text-slate-400 truncate">{t.folder}</span>}
+                        </button>
+                      ))}
+                      <div className="px-3 pt-1 pb-0.5 text-[11px] text-slate-400">↑↓ to choose · Enter or Tab to use · Esc to close</div>
+                    </div>
+                  )}
                   <textarea
                     ref={composerRef}
                     value={composerText}
-                    onChange={(e) => setComposerText(e.target.value)}
+                    onChange={(e) => {
+                      setComposerText(e.target.value);
+                      setSlashIndex(0);
+                    }}
                     onKeyDown={handleComposerKeyDown}
-                    placeholder="Ask about your finances... (Enter to send, Shift+Enter for new line)"
+                    placeholder="Ask about your finances... (Enter to send, Shift+Enter for new line, / for saved prompts)"
                     className="w-full p-4 rounded-2xl border border-white/30 dark:border-gray-700/30 bg-white/80 dark:bg-gray-800/80 backdrop-blur text-slate-800 dark:text-slate-200 resize-none focus:outline-none focus:ring-2 focus:ring-blue-500/50 transition-all duration-200"
                     rows={2}
                   />
@@ -1204,29 +2038,30 @@ export default function ChatCenter(): JSX.Element {
                 <div className="flex flex-col gap-2">
                   <motion.button
                     onClick={() => {
-                      if (!activeChatId) {
-                        createNewChat();
-                        setTimeout(() => {
-                          const newest = loadChatsFromStorage()[0]?.id;
-                          if (newest) sendChatMessage(newest, composerText);
-                        }, 80);
+                      if (sending) {
+                        sendAbortRef.current?.abort();
+                      } else if (!activeChatId) {
+                        sendChatMessage(createNewChat().id, composerText);
                       } else {
                         sendChatMessage(activeChatId, composerText);
                       }
                     }}
-                    disabled={sending || !composerText.trim()}
+                    disabled={!sending && !composerText.trim()}
+                    title={sending ? "Stop generating" : undefined}
                     className={`px-6 py-3 rounded-2xl font-medium shadow-lg transition-all duration-300 flex items-center gap-2 ${
-                      sending || !composerText.trim()
+                      sending
+                        ? "bg-gradient-to-r from-rose-500 to-red-600 text-white hover:shadow-red-500/25"
+                        : !composerText.trim()
                         ? "bg-gray-300 dark:bg-gray-600 text-gray-500 cursor-not-allowed"
                         : "bg-gradient-to-r from-blue-500 to-purple-600 text-white hover:shadow-blue-500/25"
                     }`}
-                    whileHover={!sending && composerText.trim() ? { scale: 1.05 } : {}}
-                    whileTap={!sending && composerText.trim() ? { scale: 0.95 } : {}}
+                    whileHover={sending || composerText.trim() ? { scale: 1.05 } : {}}
+                    whileTap={sending || composerText.trim() ? { scale: 0.95 } : {}}
                   >
                     {sending ? (
                       <>
                         <Loader2 className="animate-spin w-4 h-4" />
-                        Sending
+                        Stop
                       </>
                     ) : (
                       <>
@@ -1241,22 +2076,40 @@ export default function ChatCenter(): JSX.Element {
                 </div>
               </div>
 
-              {/* Enhanced quick prompts */}
+              {promptForm && (
+                <PromptVariablesForm
+                  template={promptForm.template}
+                  values={promptForm.values}
+                  autoValues={autoPromptValues}
+                  onChange={(values) => setPromptForm({ ...promptForm, values })}
+                  onCancel={() => setPromptForm(null)}
+                  onSubmit={(text, send) => {
+                    setPromptForm(null);
+                    if (send) quickSend(text);
+                    else {
+                      setComposerText(text);
+                      composerRef.current?.focus();
+                    }
+                  }}
+                />
+              )}
+
+              {/* Quick prompts: the library's favourites */}
               <div className="mt-4 flex flex-wrap gap-2">
                 <AnimatePresence>
-                  {QUICK_PROMPTS.slice(0, 6).map((q, index) => (
+                  {quickPrompts.map((t, index) => (
                     <motion.button
-                      key={q}
-                      onClick={() => quickSend(q)}
+                      key={t.id}
+                      onClick={() => applyPromptTemplate(t)}
                       className="px-4 py-2 rounded-full text-xs font-medium bg-gradient-to-r from-emerald-50 to-blue-50 dark:from-emerald-900/20 dark:to-blue-900/20 text-emerald-700 dark:text-emerald-300 border border-emerald-200/50 dark:border-emerald-700/50 hover:shadow-lg transition-all duration-200"
-                      title={q}
+                      title={t.body}
                       initial={{ opacity: 0, scale: 0.8 }}
                       animate={{ opacity: 1, scale: 1 }}
                       whileHover={{ scale: 1.05 }}
                       whileTap={{ scale: 0.95 }}
                       transition={{ delay: index * 0.05 }}
                     >
-                      {q.length > 35 ? q.slice(0, 35) + "…" : q}
+                      {t.title.length > 35 ? t.title.slice(0, 35) + "…" : t.title}
                     </motion.button>
                   ))}
                 </AnimatePresence>
@@ -1290,7 +2143,7 @@ export default function ChatCenter(): JSX.Element {
                   <div>
                     <div className="text-sm text-green-600 dark:text-green-400 font-medium">Total Spending</div>
                     <div className="text-2xl font-bold text-green-800 dark:text-green-200">
-                      {fmtINR(expenses ? expenses.reduce((s, e) => s + e.amount, 0) : 0)}
+                      {fmtMoney(expenses ? Math.max(0, expenses.reduce((s, e) => s + spendAmount(e), 0)) : 0)}
                     </div>
                   </div>
                   <div className="w-12 h-12 rounded-2xl bg-gradient-to-tr from-green-400 to-emerald-500 flex items-center justify-center">
@@ -1317,7 +2170,7 @@ export default function ChatCenter(): JSX.Element {
                             <Cell key={i} fill={palette[i % palette.length]} />
                           ))}
                         </Pie>
-                        <ReTooltip formatter={(v) => fmtINR(Number(v))} />
+                        <ReTooltip formatter={(v) => fmtMoney(Number(v))} />
                       </PieChart>
                     </ResponsiveContainer>
                   </div>
@@ -1328,7 +2181,7 @@ export default function ChatCenter(): JSX.Element {
                         <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
                         <XAxis dataKey="name" tick={{ fontSize: 10 }} />
                         <YAxis tick={{ fontSize: 10 }} />
-                        <ReTooltip formatter={(v) => fmtINR(Number(v))} />
+                        <ReTooltip formatter={(v) => fmtMoney(Number(v))} />
                         <Bar dataKey="value" radius={[4, 4, 0, 0]}>
                           {totalsByCategory.slice(0, 4).map((_, i) => (
                             <Cell key={i} fill={palette[i % palette.length]} />
@@ -1345,7 +2198,7 @@ export default function ChatCenter(): JSX.Element {
                           <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
                           <XAxis dataKey="month" tick={{ fontSize: 10 }} />
                           <YAxis tick={{ fontSize: 10 }} />
-                          <ReTooltip formatter={(v) => fmtINR(Number(v))} />
+                          <ReTooltip formatter={(v) => fmtMoney(Number(v))} />
                           <Line 
                             type="monotone" 
                             dataKey="amount" 
@@ -1384,7 +2237,7 @@ export default function ChatCenter(): JSX.Element {
               <div>
                 <label className="text-sm font-medium text-slate-700 dark:text-slate-300 mb-3 block">Conversation Tone</label>
                 <div className="grid grid-cols-3 gap-2">
-                  {["concise", "friendly", "formal"].map((t) => (
+                  {CHAT_TONES.map((t) => (
                     <motion.button
                       key={t}
                       className={`px-3 py-2 rounded-xl text-xs font-medium transition-all duration-200 ${
@@ -1392,7 +2245,7 @@ export default function ChatCenter(): JSX.Element {
                           ? "bg-gradient-to-r from-purple-500 to-pink-500 text-white shadow-lg" 
                           : "bg-white/60 dark:bg-gray-800/60 text-slate-700 dark:text-slate-300 border border-white/30 dark:border-gray-700/30"
                       }`}
-                      onClick={() => setTone(t as any)}
+                      onClick={() => setTone(t)}
                       whileHover={{ scale: 1.05 }}
                       whileTap={{ scale: 0.95 }}
                     >
@@ -1498,9 +2351,40 @@ export default function ChatCenter(): JSX.Element {
                   <span>Long</span>
                 </div>
               </div>
+
+              <div>
+                <label className="text-sm font-medium text-slate-700 dark:text-slate-300 mb-3 block flex items-center gap-2">
+                  <Sparkles className="w-4 h-4" />
+                  Creativity ({temperature.toFixed(1)})
+                </label>
+                <input 
+                  type="range" 
+                  min="0" 
+                  max="1.5" 
+                  step="0.1"
+                  value={temperature} 
+                  onChange={(e) => setTemperature(Number(e.target.value))} 
+                  className="w-full h-2 bg-slate-200 dark:bg-gray-700 rounded-lg appearance-none cursor-pointer slider"
+                />
+                <div className="flex justify-between text-xs text-slate-500 dark:text-slate-400 mt-1">
+                  <span>Precise</span>
+                  <span>Balanced</span>
+                  <span>Creative</span>
+                </div>
+              </div>
             </div>
           </GlassmorphismCard>
 
+          <PromptLibraryCard
+            templates={promptTemplates}
+            autoValues={autoPromptValues}
+            onUse={(t) => applyPromptTemplate(t)}
+            onSave={savePromptTemplate}
+            onDelete={deletePromptTemplate}
+            onExport={() => downloadFile("prompt-library", exportPromptTemplates(promptTemplates))}
+            onImport={importPromptFile}
+          />
+
           {/* Enhanced utilities card */}
           <GlassmorphismCard className="p-6">
             <div className="flex items-center justify-between mb-6">
@@ -1516,7 +2400,7 @@ export default function ChatCenter(): JSX.Element {
             <div className="space-y-3">
               <motion.button 
                 onClick={() => { 
-                  if (activeChat) exportChatToText(activeChat.id); 
+                  if (activeChat) exportChatsAs([activeChat.id], "markdown"); 
                   else alert("Select a chat to export") 
                 }} 
                 className="w-full px-4 py-3 bg-gradient-to-r from-blue-500 to-purple-600 text-white rounded-xl font-medium shadow-lg hover:shadow-blue-500/25 transition-all duration-300 flex items-center justify-center gap-2"
@@ -1527,6 +2411,23 @@ export default function ChatCenter(): JSX.Element {
                 Export Active Chat
               </motion.button>
 
+              <div className="grid grid-cols-3 gap-2">
+                {([
+                  ["markdown", "Markdown"],
+                  ["html", "HTML"],
+                  ["json", "JSON"],
+                ] as const).map(([format, label]) => (
+                  <button
+                    key={format}
+                    onClick={() => (activeChat ? exportChatsAs([activeChat.id], format) : alert("Select a chat to export"))}
+                    className="px-2 py-2 text-xs font-medium rounded-lg bg-white/70 dark:bg-gray-800/70 border border-white/30 dark:border-gray-700/30 hover:bg-white dark:hover:bg-gray-700 transition-colors"
+                    title={`Export the active chat as ${label}`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+
               <motion.button 
                 onClick={() => { 
                   if (activeChat) copyChatToClipboard(activeChat.id); 
@@ -1541,11 +2442,7 @@ export default function ChatCenter(): JSX.Element {
               </motion.button>
 
               <motion.button 
-                onClick={() => { 
-                  navigator.clipboard.writeText(JSON.stringify(chats, null, 2))
-                    .then(() => alert("All chats exported to clipboard"))
-                    .catch(() => alert("Export failed")) 
-                }} 
+                onClick={() => exportChatsAs(chats.map((c) => c.id), "json")} 
                 className="w-full px-4 py-3 bg-white/80 dark:bg-gray-800/80 backdrop-blur border border-white/30 dark:border-gray-700/30 text-slate-800 dark:text-slate-200 rounded-xl font-medium shadow-lg transition-all duration-300 flex items-center justify-center gap-2"
                 whileHover={{ scale: 1.02 }}
                 whileTap={{ scale: 0.98 }}
@@ -1554,12 +2451,37 @@ export default function ChatCenter(): JSX.Element {
                 Export All (JSON)
               </motion.button>
 
+              <motion.button 
+                onClick={() => importInputRef.current?.click()} 
+                className="w-full px-4 py-3 bg-white/80 dark:bg-gray-800/80 backdrop-blur border border-white/30 dark:border-gray-700/30 text-slate-800 dark:text-slate-200 rounded-xl font-medium shadow-lg transition-all duration-300 flex items-center justify-center gap-2"
+                whileHover={{ scale: 1.02 }}
+                whileTap={{ scale: 0.98 }}
+              >
+                <Upload className="w-4 h-4" />
+                Import Chats (JSON)
+              </motion.button>
+              <input
+                ref={importInputRef}
+                type="file"
+                accept="application/json,.json"
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  e.target.value = "";
+                  if (file) importChatsFile(file);
+                }}
+              />
+
               <motion.button 
                 onClick={() => { 
                   if (confirm("Reset to demo chats? This will overwrite your current chats.")) { 
                     const seeds = createSeedChats(); 
+                    const replaced = chats;
                     setChats(seeds); 
                     setActiveChatId(seeds[0].id); 
+                    Promise.all(replaced.map((c) => persistChat(`/api/chats/${encodeURIComponent(c.id)}`, "DELETE"))).then(() =>
+                      persistChat("/api/chats/import", "POST", { chats: seeds.map(toStoredChat) })
+                    );
                   }
                 }} 
                 className="w-full px-4 py-3 bg-gradient-to-r from-red-500 to-pink-500 text-white rounded-xl font-medium shadow-lg hover:shadow-red-500/25 transition-all duration-300 flex items-center justify-center gap-2"
@@ -1580,7 +2502,7 @@ export default function ChatCenter(): JSX.Element {
                 <div>• Use Shift+Enter for multi-line messages</div>
                 <div>• Pin important messages with the star icon</div>
                 <div>• Try different color palettes for personalization</div>
-                <div>• Export chats to save your conversations</div>
+                <div>• Export chats to save your conversations; JSON exports import back</div>
               </div>
             </div>
           </GlassmorphismCard>
@@ -1789,6 +2711,458 @@ export default function ChatCenter(): JSX.Element {
    Enhanced Pin Icon Component
    ============================ */
 
+/** `text` with the given [start, end) ranges marked, as search results show their matches. */
+function HighlightedText({ text, ranges, className }: { text: string; ranges: [number, number][]; className?: string }) {
+  const parts: React.ReactNode[] = [];
+  let last = 0;
+  for (const [start, end] of ranges) {
+    if (start < last) continue;
+    parts.push(text.slice(last, start));
+    parts.push(
+      <mark key={start} className="bg-amber-200/80 dark:bg-amber-500/40 text-inherit rounded px-0.5">
+        {text.slice(start, end)}
+      </mark>
+    );
+    last = end;
+  }
+  parts.push(text.slice(last));
+  return <p className={className}>{parts}</p>;
+}
+
+/** "‹ 2 / 3 ›" between alternative versions of a message; hidden when there is only one. */
+function BranchSwitcher({
+  siblings,
+  current,
+  onSelect,
+}: {
+  siblings: { id: string }[];
+  current: string;
+  onSelect: (id: string) => void;
+}) {
+  if (siblings.length < 2) return null;
+  const index = siblings.findIndex((s) => s.id === current);
+  return (
+    <span className="flex items-center gap-1">
+      <button
+        onClick={() => onSelect(siblings[index - 1].id)}
+        disabled={index <= 0}
+        title="Previous version"
+        className="disabled:opacity-30"
+      >
+        <ChevronLeft className="w-3 h-3" />
+      </button>
+      <span className="tabular-nums">
+        {index + 1} / {siblings.length}
+      </span>
+      <button
+        onClick={() => onSelect(siblings[index + 1].id)}
+        disabled={index >= siblings.length - 1}
+        title="Next version"
+        className="disabled:opacity-30"
+      >
+        <ChevronRight className="w-3 h-3" />
+      </button>
+    </span>
+  );
+}
+
+/**
+ * The chat's rolling summary of older turns, editable in place, with how the
+ * last turn's history fitted into the model's context.
+ */
+function ContextSummaryCard({
+  summary,
+  context,
+  onSave,
+}: {
+  summary: ConversationSummary | null;
+  context?: ContextReport;
+  onSave: (text: string) => void;
+}) {
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState("");
+
+  return (
+    <GlassmorphismCard className="p-4">
+      <div className="flex items-center justify-between gap-3">
+        <div className="flex items-center gap-2 text-sm font-semibold text-slate-700 dark:text-slate-200">
+          <FileText className="w-4 h-4" />
+          Earlier conversation summary
+        </div>
+        {!editing && (
+          <IconButton
+            title={summary ? "Edit summary" : "Write a summary"}
+            size="sm"
+            onClick={() => {
+              setDraft(summary?.content ?? "");
+              setEditing(true);
+            }}
+          >
+            <Edit3 className="w-3 h-3" />
+          </IconButton>
+        )}
+      </div>
+
+      {editing ? (
+        <div className="mt-3 space-y-2">
+          <textarea
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            rows={4}
+            className="w-full p-3 rounded-xl bg-white/70 dark:bg-gray-800/70 border border-slate-200 dark:border-gray-700 text-sm"
+            placeholder="What the assistant should remember from earlier in this chat"
+          />
+          <div className="flex justify-end gap-2 text-sm">
+            <Button variant="ghost" onClick={() => setEditing(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => {
+                onSave(draft);
+                setEditing(false);
+              }}
+            >
+              Save
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <div className="mt-2 text-sm whitespace-pre-wrap text-slate-600 dark:text-slate-300">
+          {summary?.content || "Nothing summarised yet — the whole chat still fits the model's context."}
+        </div>
+      )}
+
+      {context && (
+        <div className="mt-2 text-xs text-slate-500 dark:text-slate-400">
+          Last turn: ~{context.tokens} of {context.budget} history tokens · {context.kept} messages sent verbatim
+          {context.pinned > 0 && ` (${context.pinned} pinned)`}
+          {context.summarised > 0 && ` · ${context.summarised} in the summary`}
+        </div>
+      )}
+    </GlassmorphismCard>
+  );
+}
+
+/**
+ * Fills in a template's {{variables}} before it is used. Values the ledger
+ * supplies are prefilled and can be changed; the preview shows the prompt as
+ * it will be sent.
+ */
+function PromptVariablesForm({
+  template,
+  values,
+  autoValues,
+  onChange,
+  onCancel,
+  onSubmit,
+}: {
+  template: PromptTemplate;
+  values: Record<string, string>;
+  autoValues: Record<string, string>;
+  onChange: (values: Record<string, string>) => void;
+  onCancel: () => void;
+  onSubmit: (text: string, send: boolean) => void;
+}) {
+  const { text, missing } = fillTemplate(template.body, values);
+
+  return (
+    <form
+      className="mt-4 p-4 rounded-2xl border border-blue-200/50 dark:border-blue-700/50 bg-blue-50/60 dark:bg-blue-900/20 space-y-3"
+      onSubmit={(e) => {
+        e.preventDefault();
+        if (!missing.length) onSubmit(text, true);
+      }}
+    >
+      <div className="flex items-center justify-between gap-3">
+        <div className="text-sm font-semibold text-slate-700 dark:text-slate-200">{template.title}</div>
+        {template.command && <span className="font-mono text-xs text-blue-600 dark:text-blue-400">/{template.command}</span>}
+      </div>
+      <div className="grid sm:grid-cols-2 gap-2">
+        {Object.keys(values).map((name, i) => (
+          <label key={name} className="text-xs text-slate-600 dark:text-slate-300 space-y-1">
+            <span className="flex items-center gap-2">
+              {name.replace(/_/g, " ")}
+              {name in autoValues && <GradientBadge variant="success">from ledger</GradientBadge>}
+            </span>
+            <Input
+              autoFocus={i === 0}
+              value={values[name]}
+              onChange={(e) => onChange({ ...values, [name]: e.target.value })}
+            />
+          </label>
+        ))}
+      </div>
+      <div className="text-sm p-3 rounded-xl bg-white/70 dark:bg-gray-800/70 text-slate-700 dark:text-slate-200 whitespace-pre-wrap">
+        {text}
+      </div>
+      {missing.length > 0 && (
+        <div className="text-xs text-amber-700 dark:text-amber-300">Fill in: {missing.join(", ")}</div>
+      )}
+      <div className="flex justify-end gap-2 text-sm">
+        <Button type="button" variant="ghost" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button type="button" variant="ghost" onClick={() => onSubmit(text, false)}>
+          Edit in composer
+        </Button>
+        <Button type="submit" disabled={missing.length > 0}>
+          Send
+        </Button>
+      </div>
+    </form>
+  );
+}
+
+type PromptDraft = { id: string | null; title: string; command: string; folder: string; tags: string; body: string; favorite: boolean };
+
+const emptyPromptDraft = (folder = ""): PromptDraft => ({ id: null, title: "", command: "", folder, tags: "", body: "", favorite: false });
+
+/**
+ * The prompt library: browse by folder and tag, search, edit templates in
+ * place, and move the library between browsers as a JSON file.
+ */
+function PromptLibraryCard({
+  templates,
+  autoValues,
+  onUse,
+  onSave,
+  onDelete,
+  onExport,
+  onImport,
+}: {
+  templates: PromptTemplate[];
+  autoValues: Record<string, string>;
+  onUse: (template: PromptTemplate) => void;
+  onSave: (id: string | null, changes: PromptTemplateChanges) => Promise<string | null>;
+  onDelete: (template: PromptTemplate) => void;
+  onExport: () => void;
+  onImport: (file: File) => void;
+}) {
+  const [query, setQuery] = useState("");
+  const [folder, setFolder] = useState("");
+  const [tag, setTag] = useState("");
+  const [draft, setDraft] = useState<PromptDraft | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const fileRef = useRef<HTMLInputElement | null>(null);
+
+  const folders = useMemo(() => promptFolders(templates), [templates]);
+  const tags = useMemo(() => [...new Set(templates.flatMap((t) => t.tags))].sort((a, b) => a.localeCompare(b)), [templates]);
+  const shown = useMemo(
+    () =>
+      matchTemplates(templates, query).filter(
+        (t) =>
+          (!folder || t.folder === folder || t.folder.startsWith(`${folder}/`)) && (!tag || t.tags.includes(tag))
+      ),
+    [templates, query, folder, tag]
+  );
+
+  const edit = (next: PromptDraft) => {
+    setDraft(next);
+    setError(null);
+  };
+
+  async function save() {
+    if (!draft) return;
+    setSaving(true);
+    const message = await onSave(draft.id, {
+      title: draft.title,
+      body: draft.body,
+      folder: draft.folder,
+      tags: draft.tags.split(",").map((t) => t.trim()).filter(Boolean),
+      command: draft.command.trim() || null,
+      favorite: draft.favorite || null,
+    });
+    setSaving(false);
+    if (message) setError(message);
+    else setDraft(null);
+  }
+
+  const selectClass =
+    "flex-1 min-w-0 px-2 py-1.5 text-xs rounded-lg bg-white/70 dark:bg-gray-800/70 border border-white/30 dark:border-gray-700/30";
+
+  return (
+    <GlassmorphismCard className="p-6">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-2">
+          <BookOpen className="w-5 h-5 text-indigo-500" />
+          <div className="text-lg font-bold bg-gradient-to-r from-indigo-600 to-purple-600 bg-clip-text text-transparent">
+            Prompt Library
+          </div>
+        </div>
+        <div className="flex items-center gap-1">
+          <IconButton title="New template" size="sm" onClick={() => edit(emptyPromptDraft(folder))}>
+            <Plus className="w-3 h-3" />
+          </IconButton>
+          <IconButton title="Export the library (JSON)" size="sm" onClick={onExport}>
+            <Download className="w-3 h-3" />
+          </IconButton>
+          <IconButton title="Import templates (JSON)" size="sm" onClick={() => fileRef.current?.click()}>
+            <Upload className="w-3 h-3" />
+          </IconButton>
+          <input
+            ref={fileRef}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              e.target.value = "";
+              if (file) onImport(file);
+            }}
+          />
+        </div>
+      </div>
+
+      {draft ? (
+        <div className="space-y-2 text-sm">
+          <Input placeholder="Title" value={draft.title} onChange={(e) => edit({ ...draft, title: e.target.value })} />
+          <div className="flex gap-2">
+            <Input
+              placeholder="/command"
+              value={draft.command}
+              onChange={(e) => edit({ ...draft, command: e.target.value })}
+            />
+            <Input
+              placeholder="Folder, e.g. Budgeting/Monthly"
+              value={draft.folder}
+              onChange={(e) => edit({ ...draft, folder: e.target.value })}
+            />
+          </div>
+          <Input
+            placeholder="Tags, comma separated"
+            value={draft.tags}
+            onChange={(e) => edit({ ...draft, tags: e.target.value })}
+          />
+          <textarea
+            value={draft.body}
+            onChange={(e) => edit({ ...draft, body: e.target.value })}
+            rows={4}
+            className="w-full p-3 rounded-xl bg-white/70 dark:bg-gray-800/70 border border-slate-200 dark:border-gray-700 text-sm"
+            placeholder="Prompt, with {{variables}} such as {{month}} or {{total_spend}}"
+          />
+          {templateVariables(draft.body).length > 0 && (
+            <div className="flex flex-wrap gap-1 text-xs">
+              {templateVariables(draft.body).map((v) => (
+                <span
+                  key={v}
+                  title={v in autoValues ? `Filled from your ledger: ${autoValues[v] || "nothing yet"}` : "Asked for when used"}
+                  className={`px-2 py-0.5 rounded-full font-mono ${
+                    v in autoValues
+                      ? "bg-emerald-100 text-emerald-700 dark:bg-emerald-900/30 dark:text-emerald-300"
+                      : "bg-slate-100 text-slate-600 dark:bg-gray-800 dark:text-slate-300"
+                  }`}
+                >
+                  {`{{${v}}}`}
+                </span>
+              ))}
+            </div>
+          )}
+          <label className="flex items-center gap-2 text-xs text-slate-600 dark:text-slate-300">
+            <input type="checkbox" checked={draft.favorite} onChange={(e) => edit({ ...draft, favorite: e.target.checked })} />
+            Show as a quick prompt
+          </label>
+          {error && <div className="text-xs text-red-600 dark:text-red-400">{error}</div>}
+          <div className="flex justify-end gap-2">
+            <Button variant="ghost" onClick={() => setDraft(null)}>
+              Cancel
+            </Button>
+            <Button onClick={save} disabled={saving}>
+              {saving ? "Saving…" : "Save"}
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <>
+          <Input placeholder="Search templates" value={query} onChange={(e) => setQuery(e.target.value)} />
+          <div className="flex gap-2 mt-2">
+            <select value={folder} onChange={(e) => setFolder(e.target.value)} className={selectClass} title="Folder">
+              <option value="">All folders</option>
+              {folders.map((f) => (
+                <option key={f} value={f}>
+                  {f}
+                </option>
+              ))}
+            </select>
+            <select value={tag} onChange={(e) => setTag(e.target.value)} className={selectClass} title="Tag">
+              <option value="">All tags</option>
+              {tags.map((t) => (
+                <option key={t} value={t}>
+                  #{t}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div className="mt-3 space-y-1 max-h-80 overflow-y-auto">
+            {shown.map((t) => (
+              <div
+                key={t.id}
+                className="group p-2 rounded-xl hover:bg-white/70 dark:hover:bg-gray-800/70 transition-colors"
+              >
+                <div className="flex items-center gap-2">
+                  <button
+                    onClick={() => onUse(t)}
+                    className="flex-1 min-w-0 text-left text-sm font-medium text-slate-800 dark:text-slate-200 truncate"
+                    title={t.body}
+                  >
+                    {t.title}
+                  </button>
+                  <button
+                    onClick={() => onSave(t.id, { favorite: t.favorite ? null : true })}
+                    title={t.favorite ? "Remove from quick prompts" : "Show as a quick prompt"}
+                  >
+                    <Star className={`w-3 h-3 ${t.favorite ? "fill-amber-400 text-amber-400" : "text-slate-400"}`} />
+                  </button>
+                  <button
+                    onClick={() =>
+                      edit({
+                        id: t.id,
+                        title: t.title,
+                        command: t.command ?? "",
+                        folder: t.folder,
+                        tags: t.tags.join(", "),
+                        body: t.body,
+                        favorite: !!t.favorite,
+                      })
+                    }
+                    title="Edit template"
+                  >
+                    <Edit3 className="w-3 h-3 text-slate-400" />
+                  </button>
+                  <button onClick={() => onDelete(t)} title="Delete template">
+                    <Trash2 className="w-3 h-3 text-slate-400 hover:text-red-500" />
+                  </button>
+                </div>
+                <div className="flex flex-wrap items-center gap-2 mt-0.5 text-[11px] text-slate-500 dark:text-slate-400">
+                  {t.command && <span className="font-mono text-blue-600 dark:text-blue-400">/{t.command}</span>}
+                  {t.folder && (
+                    <span className="flex items-center gap-0.5">
+                      <Folder className="w-3 h-3" />
+                      {t.folder}
+                    </span>
+                  )}
+                  {t.tags.map((name) => (
+                    <span key={name} className="flex items-center gap-0.5">
+                      <Tag className="w-3 h-3" />
+                      {name}
+                    </span>
+                  ))}
+                </div>
+              </div>
+            ))}
+            {!shown.length && (
+              <div className="text-xs text-slate-500 dark:text-slate-400 p-2">
+                {templates.length ? "No templates match." : "No templates yet — add one with +."}
+              </div>
+            )}
+          </div>
+        </>
+      )}
+    </GlassmorphismCard>
+  );
+}
+
 function PinIcon({ className }: { className?: string }) {
   return (
     <svg className={className} width="16" height="16" viewBox="0 0 24 24" fill="none" aria-hidden>
@@ -34,6 +34,7 @@ import {
   CartesianGrid,
   LineChart,
   Line,
+  ComposedChart,
   BarChart,
   Bar,
   RadialBarChart,
@@ -44,66 +45,56 @@ import {
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { Markdown } from "@/components/markdown";
+
+// Shared expense schema (also enforced by /api/expenses)
+import { INCOME_CATEGORIES, TRANSACTION_TYPES, type Expense, type ExpenseMood, type TransactionType } from "@/lib/expenses/types";
+import { validateExpense } from "@/lib/expenses/schema";
+import type { CategorySuggestion } from "@/lib/categorization/types";
+import { matchCategoryKeyword } from "@/lib/expenses/categorize";
+import { lastMonths, spendAmount, summarizeCashFlow, transactionType } from "@/lib/expenses/cashflow";
+import type { CsvColumnMapping, ImportPreviewRow } from "@/lib/import/types";
+import {
+  RECURRENCE_FREQUENCIES,
+  type RecurrenceFrequency,
+  type RecurringRule,
+  type SubscriptionCandidate,
+} from "@/lib/recurring/types";
+import { budgetStatus } from "@/lib/budgets/period";
+import {
+  BUDGET_PERIODS,
+  BUDGET_PRIORITIES,
+  type Budget as StoredBudget,
+  type BudgetAlert,
+  type BudgetFields,
+  type BudgetPriority,
+  type BudgetStatus,
+} from "@/lib/budgets/types";
+import { applyBaseCurrency, CURRENCY_CODE } from "@/lib/currency/rates";
+import { COMMON_CURRENCIES, DEFAULT_BASE_CURRENCY, type CurrencySettings } from "@/lib/currency/types";
+import type { CategoryForecast, ForecastPattern, SpendingForecast } from "@/lib/forecast/types";
+import type { ContributionKind, GoalWithProgress } from "@/lib/goals/types";
+import type { HealthReport } from "@/lib/health/types";
+import type { SpendingPattern } from "@/lib/patterns/types";
+import { describeErrors, type FieldError } from "@/lib/validation";
 
 // Enhanced icon set
 import {
   Wallet, PieChart as PieIcon, TrendingUp, Bot, Trash2, Settings, Search, Filter, Calendar,
-  Sparkles, ChevronRight, Bell, Plus, Star, Target, Brain, Zap, Eye, EyeOff, Lock, Unlock,
+  Sparkles, ChevronRight, Bell, Plus, Minus, Star, Target, Brain, Zap, Eye, EyeOff, Lock, Unlock,
   Heart, Shield, Award, Compass, Lightbulb, Rocket, Diamond, Crown, Flame, Wind,
   Sun, Moon, Cloud, Rainbow, Palette, Brush, Camera, Video, Mic, Headphones,
   Activity, BarChart3, DollarSign, CreditCard, Banknote, Coins, PiggyBank,
   Calculator, ChartArea, TrendingDown, AlertTriangle, CheckCircle, XCircle,
   Clock, MapPin, Globe, Smartphone, Laptop, Monitor, Tablet, Watch,
   Gift, ShoppingCart, Car, Home, Utensils, Coffee, Gamepad2, Book,
-  Music, Film, Dumbbell, Plane, Umbrella, Shirt, Scissors,
+  Music, Film, Dumbbell, Plane, Umbrella, Shirt, Scissors, Download,
 } from "lucide-react";
 
 // Enhanced types
-type Expense = { 
-  id: string | number; 
-  amount: number; 
-  category: string; 
-  date: string; 
-  title?: string;
-  tags?: string[];
-  mood?: "happy" | "neutral" | "stressed" | "regret";
-  confidence?: number;
-  predicted?: boolean;
-  anomaly?: boolean;
-};
-
-type Budget = { 
-  category: string; 
-  limit: number; 
-  rollover?: boolean;
-  smartLimit?: number;
-  priority?: "high" | "medium" | "low";
-};
-
-type FinancialGoal = {
-  id: string;
-  title: string;
-  target: number;
-  current: number;
-  deadline: string;
-  category: string;
-  priority: number;
-};
-
-type FinancialHealthScore = {
-  overall: number;
-  spending: number;
-  saving: number;
-  budgeting: number;
-  planning: number;
-};
 
-type SpendingPattern = {
-  pattern: string;
-  confidence: number;
-  description: string;
-  suggestion: string;
-};
+// Stored budget (see /api/budgets) plus the client-side optimizer suggestion
+type Budget = StoredBudget & { smartLimit?: number };
 
 // Enhanced color palettes with psychological associations
 const COLOR_PALETTES = {
@@ -179,15 +170,62 @@ const CATEGORY_ICONS: Record<string, React.ComponentType<any>> = {
 const DEFAULT_CATEGORIES = ["Food", "Transport", "Shopping", "Bills", "Entertainment", "Health", "Other"];
 
 // Utility functions
-const fmtCurrency = (n = 0) =>
-  new Intl.NumberFormat("en-IN", { 
+// Amounts in the base currency are shown whole; amounts in other currencies keep their cents
+const formatCurrency = (n: number, currency: string, baseCurrency: string) =>
+  new Intl.NumberFormat(currency === "INR" ? "en-IN" : "en-US", { 
     style: "currency", 
-    currency: "INR", 
-    maximumFractionDigits: 0 
+    currency, 
+    maximumFractionDigits: currency === baseCurrency ? 0 : 2 
   }).format(n);
 
+/** Formats an amount, in the base currency unless another one is given. */
+type CurrencyFormatter = (n?: number, currency?: string) => string;
+
 const generateId = () => crypto?.randomUUID?.() ?? Date.now().toString();
 
+// Save a server-generated file through a temporary link
+const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  URL.revokeObjectURL(url);
+};
+
+// Coerce an /api/expenses row into the dashboard's Expense shape
+const normalizeExpense = (e: any, i: number): Expense => ({
+  id: String(e.id ?? i),
+  type: e.type ?? "expense",
+  amount: Number(e.amount ?? 0),
+  category: e.category ?? DEFAULT_CATEGORIES[i % DEFAULT_CATEGORIES.length],
+  date: e.date ?? new Date().toISOString(),
+  createdAt: e.createdAt ?? e.date ?? new Date().toISOString(),
+  updatedAt: e.updatedAt ?? e.date ?? new Date().toISOString(),
+  title: e.title,
+  tags: Array.isArray(e.tags) ? e.tags : undefined,
+  mood: e.mood ?? "neutral",
+  confidence: e.confidence ?? 100,
+  predicted: e.predicted ?? false,
+  anomaly: e.anomaly ?? false,
+  anomalyExplanation: e.anomalyExplanation,
+  anomalyExpected: e.anomalyExpected,
+  recurringId: e.recurringId,
+  currency: e.currency,
+  originalAmount: e.originalAmount === undefined ? undefined : Number(e.originalAmount)
+});
+
+const PAGE_SIZE = 20;
+
+const SUGGESTION_SOURCE_LABELS: Record<CategorySuggestion["source"], string> = {
+  rule: "learned from your edits",
+  model: "local AI model",
+  keyword: "keyword match",
+  default: "no match",
+};
+
 // Animation variants
 const ANIMATION_VARIANTS = {
   fadeIn: {
@@ -315,19 +353,19 @@ const SmartKPICard = ({
   );
 };
 
-const FinancialHealthMeter = ({ score }: { score: FinancialHealthScore }) => {
-  const getHealthColor = (score: number) => {
-    if (score >= 80) return "#10B981";
-    if (score >= 60) return "#F59E0B";
-    return "#EF4444";
-  };
+const getHealthColor = (score: number) => {
+  if (score >= 80) return "#10B981";
+  if (score >= 60) return "#F59E0B";
+  return "#EF4444";
+};
 
-  const data = [
-    { name: "Spending", value: score.spending, fill: getHealthColor(score.spending) },
-    { name: "Saving", value: score.saving, fill: getHealthColor(score.saving) },
-    { name: "Budgeting", value: score.budgeting, fill: getHealthColor(score.budgeting) },
-    { name: "Planning", value: score.planning, fill: getHealthColor(score.planning) },
-  ];
+const FinancialHealthMeter = ({ report }: { report: HealthReport | null }) => {
+  const [showBreakdown, setShowBreakdown] = useState(false);
+  const components = report?.score.components ?? [];
+  const data = components
+    .filter((c) => c.score !== null)
+    .map((c) => ({ name: c.label, value: c.score as number, fill: getHealthColor(c.score as number) }));
+  const overall = report?.score.overall;
 
   return (
     <GlassmorphismCard className="p-6" depth={2}>
@@ -336,11 +374,11 @@ const FinancialHealthMeter = ({ score }: { score: FinancialHealthScore }) => {
           <Shield className="w-5 h-5 text-blue-500" />
           <span className="font-bold text-lg">Financial Health</span>
         </div>
-        <div className={`text-3xl font-bold`} style={{ color: getHealthColor(score.overall) }}>
-          {score.overall}%
+        <div className={`text-3xl font-bold`} style={{ color: overall === undefined ? undefined : getHealthColor(overall) }}>
+          {overall === undefined ? "—" : `${overall}%`}
         </div>
       </div>
-      
+
       <div className="h-48">
         <ResponsiveContainer width="100%" height="100%">
           <RadialBarChart data={data} innerRadius="30%" outerRadius="90%">
@@ -349,36 +387,105 @@ const FinancialHealthMeter = ({ score }: { score: FinancialHealthScore }) => {
           </RadialBarChart>
         </ResponsiveContainer>
       </div>
-      
+
       <div className="grid grid-cols-2 gap-3 mt-4">
-        {data.map((item) => (
-          <div key={item.name} className="flex items-center gap-2">
-            <div 
-              className="w-3 h-3 rounded-full" 
-              style={{ backgroundColor: item.fill }}
+        {components.map((item) => (
+          <div key={item.component} className="flex items-center gap-2" title={item.detail}>
+            <div
+              className="w-3 h-3 rounded-full"
+              style={{ backgroundColor: item.score === null ? "#D1D5DB" : getHealthColor(item.score) }}
             ></div>
-            <span className="text-sm">{item.name}: {item.value}%</span>
+            <span className="text-sm">{item.label}: {item.score === null ? "—" : `${item.score}%`}</span>
           </div>
         ))}
       </div>
+
+      {/* What moved the score since the last snapshot from an earlier day */}
+      {report?.previous && report.changes.length > 0 && (
+        <div className="mt-4 text-xs text-gray-600 dark:text-gray-400">
+          <div className="font-medium mb-1">
+            Since {new Date(`${report.previous.date}T00:00:00Z`).toLocaleDateString(undefined, { day: "numeric", month: "short", timeZone: "UTC" })}
+            {" "}({report.previous.overall}% → {report.score.overall}%)
+          </div>
+          {report.changes.slice(0, 3).map((change) => (
+            <div key={change.component} className={change.delta > 0 ? "text-green-600" : "text-red-600"}>
+              {change.delta > 0 ? "▲" : "▼"} {change.label} {change.delta > 0 ? "+" : ""}{change.delta}
+              {" "}({change.impact > 0 ? "+" : ""}{change.impact} overall)
+            </div>
+          ))}
+        </div>
+      )}
+
+      {report && (
+        <div className="mt-4">
+          <button
+            type="button"
+            onClick={() => setShowBreakdown((v) => !v)}
+            className="text-xs text-blue-600 hover:underline"
+          >
+            {showBreakdown ? "Hide breakdown" : "How is this calculated?"}
+          </button>
+          {showBreakdown && (
+            <div className="mt-3 space-y-3">
+              {components.map((c) => (
+                <div key={c.component}>
+                  <div className="flex items-center justify-between text-sm">
+                    <span className="font-medium">{c.label}</span>
+                    <span className="text-xs text-gray-500">
+                      {c.score === null ? "no data" : `${c.score}/100`} · weight {Math.round(c.weight * 100)}%
+                    </span>
+                  </div>
+                  <div className="h-1.5 bg-gray-200 rounded-full mt-1 overflow-hidden">
+                    <div
+                      className="h-full rounded-full"
+                      style={{ width: `${c.score ?? 0}%`, backgroundColor: c.score === null ? "#D1D5DB" : getHealthColor(c.score) }}
+                    />
+                  </div>
+                  <p className="text-xs text-gray-600 dark:text-gray-400 mt-1">{c.detail}</p>
+                </div>
+              ))}
+              {report.history.length > 1 && (
+                <div className="h-16">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <LineChart data={report.history}>
+                      <XAxis dataKey="date" hide />
+                      <YAxis domain={[0, 100]} hide />
+                      <Tooltip formatter={(value) => [`${value}%`, "Overall"]} />
+                      <Line type="monotone" dataKey="overall" stroke="#3B82F6" strokeWidth={2} dot={false} />
+                    </LineChart>
+                  </ResponsiveContainer>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      )}
     </GlassmorphismCard>
   );
 };
 
+const periodLabel = (status: BudgetStatus) => {
+  const fmt = (d: string) => new Date(`${d}T00:00:00Z`).toLocaleDateString(undefined, { day: "numeric", month: "short", timeZone: "UTC" });
+  const last = new Date(new Date(`${status.period.end}T00:00:00Z`).getTime() - 86400000).toISOString().slice(0, 10);
+  return `${fmt(status.period.start)} – ${fmt(last)}`;
+};
+
 const SmartBudgetCard = ({ 
   budget, 
-  spent, 
+  status, 
   palette, 
-  onOptimize 
+  onOptimize,
+  fmtCurrency,
 }: { 
   budget: Budget; 
-  spent: number; 
+  status: BudgetStatus; 
   palette: any;
   onOptimize: () => void;
+  fmtCurrency: CurrencyFormatter;
 }) => {
-  const percentage = budget.limit ? Math.round((spent / budget.limit) * 100) : 0;
-  const isOverBudget = percentage > 100;
-  const isWarning = percentage > 80;
+  const { spent, percentage } = status;
+  const isOverBudget = status.state === "over";
+  const isWarning = status.state === "warning";
   const Icon = CATEGORY_ICONS[budget.category] || Sparkles;
 
   return (
@@ -398,7 +505,13 @@ const SmartBudgetCard = ({
           <div className={`p-2 rounded-xl bg-gradient-to-br ${palette.gradient}`}>
             <Icon className="w-4 h-4 text-white" />
           </div>
-          <span className="font-semibold">{budget.category}</span>
+          <div>
+            <div className="font-semibold">{budget.category}</div>
+            <div className="text-xs text-gray-500 capitalize">
+              {budget.period} • {periodLabel(status)}
+              {budget.priority === "high" && <span className="ml-1 text-rose-600">• high priority</span>}
+            </div>
+          </div>
         </div>
         <Button 
           variant="ghost" 
@@ -413,8 +526,13 @@ const SmartBudgetCard = ({
       <div className="space-y-2">
         <div className="flex justify-between text-sm">
           <span>{fmtCurrency(spent)} spent</span>
-          <span>{fmtCurrency(budget.limit)} limit</span>
+          <span>{fmtCurrency(status.available)} available</span>
         </div>
+        {status.carriedOver > 0 && (
+          <div className="text-xs text-emerald-700">
+            {fmtCurrency(budget.limit)} limit + {fmtCurrency(status.carriedOver)} rolled over
+          </div>
+        )}
         
         <div className="w-full bg-gray-200 rounded-full h-3 overflow-hidden">
           <motion.div
@@ -433,7 +551,7 @@ const SmartBudgetCard = ({
         
         <div className="flex items-center justify-between text-xs">
           <span className={isOverBudget ? "text-red-600 font-semibold" : "text-gray-600"}>
-            {percentage}% used
+            {percentage}% used • {status.remaining < 0 ? `${fmtCurrency(-status.remaining)} over` : `${fmtCurrency(status.remaining)} left`}
           </span>
           {budget.smartLimit && (
             <span className="text-blue-600">
@@ -446,21 +564,115 @@ const SmartBudgetCard = ({
   );
 };
 
-const ExpensePredictionCard = ({ predictions }: { predictions: any[] }) => {
+// Open over-budget / near-limit alerts raised by the server when expenses are saved
+const BudgetAlertsPanel = ({
+  alerts,
+  onDismiss,
+  fmtCurrency,
+}: {
+  alerts: BudgetAlert[];
+  onDismiss: (id: string) => void;
+  fmtCurrency: CurrencyFormatter;
+}) => (
+  <GlassmorphismCard className="p-6" depth={2}>
+    <div className="flex items-center gap-2 mb-4">
+      <Bell className="w-5 h-5 text-rose-500" />
+      <span className="font-bold text-lg">Budget Alerts</span>
+      <span className="ml-auto text-xs bg-rose-100 text-rose-700 px-2 py-1 rounded-full">{alerts.length} open</span>
+    </div>
+    <div className="space-y-2">
+      <AnimatePresence initial={false}>
+        {alerts.map((alert) => (
+          <motion.div
+            key={alert.id}
+            layout
+            {...ANIMATION_VARIANTS.fadeIn}
+            className={`flex items-start gap-3 p-3 rounded-xl border ${
+              alert.level === "over" ? "border-red-200 bg-red-50/60" : "border-yellow-200 bg-yellow-50/60"
+            }`}
+          >
+            <AlertTriangle className={`w-4 h-4 mt-0.5 shrink-0 ${alert.level === "over" ? "text-red-600" : "text-yellow-600"}`} />
+            <div className="flex-1 text-sm">
+              <div className="font-medium">
+                {alert.category} {alert.level === "over" ? "is over budget" : "is close to its limit"}
+              </div>
+              <div className="text-xs text-gray-600">
+                {fmtCurrency(alert.spent)} of {fmtCurrency(alert.available)} • {new Date(alert.createdAt).toLocaleDateString()}
+              </div>
+            </div>
+            <button className="text-gray-400 hover:text-gray-700" onClick={() => onDismiss(alert.id)} title="Dismiss">
+              <XCircle className="w-4 h-4" />
+            </button>
+          </motion.div>
+        ))}
+      </AnimatePresence>
+    </div>
+  </GlassmorphismCard>
+);
+
+type Toast = { id: string; message: string; tone: "warning" | "danger" };
+
+// Transient notifications, stacked bottom-left so they never cover the FAB
+const ToastStack = ({ toasts, onClose }: { toasts: Toast[]; onClose: (id: string) => void }) => (
+  <div className="fixed bottom-6 left-6 z-50 flex flex-col gap-2 w-80" aria-live="polite">
+    <AnimatePresence>
+      {toasts.map((toast) => (
+        <motion.div
+          key={toast.id}
+          initial={{ opacity: 0, y: 20, scale: 0.95 }}
+          animate={{ opacity: 1, y: 0, scale: 1 }}
+          exit={{ opacity: 0, x: -40 }}
+          className={`flex items-start gap-3 p-4 rounded-2xl shadow-2xl text-white ${
+            toast.tone === "danger" ? "bg-gradient-to-r from-red-500 to-rose-600" : "bg-gradient-to-r from-amber-500 to-orange-500"
+          }`}
+          role="status"
+        >
+          <AlertTriangle className="w-5 h-5 shrink-0" />
+          <span className="flex-1 text-sm">{toast.message}</span>
+          <button onClick={() => onClose(toast.id)} className="text-white/80 hover:text-white" title="Close">
+            <XCircle className="w-4 h-4" />
+          </button>
+        </motion.div>
+      ))}
+    </AnimatePresence>
+  </div>
+);
+
+const PATTERN_LABELS: Record<ForecastPattern, string> = {
+  "weekend-heavy": "weekend-heavy",
+  "weekday-heavy": "weekday-heavy",
+  rising: "rising",
+  falling: "falling",
+  steady: "steady weekly",
+  sparse: "sparse",
+};
+
+const ExpensePredictionCard = ({
+  predictions,
+  periodDays,
+  fmtCurrency,
+}: {
+  predictions: CategoryForecast[];
+  periodDays: number;
+  fmtCurrency: CurrencyFormatter;
+}) => {
   return (
     <GlassmorphismCard className="p-6" depth={2}>
       <div className="flex items-center gap-2 mb-4">
         <Brain className="w-5 h-5 text-purple-500" />
         <span className="font-bold text-lg">Smart Predictions</span>
         <div className="ml-auto bg-purple-100 text-purple-700 text-xs px-2 py-1 rounded-full">
-          AI Powered
+          Next {periodDays} days
         </div>
       </div>
       
       <div className="space-y-3">
+        {predictions.length === 0 && (
+          <p className="text-sm text-gray-500">Predictions appear once there are a few weeks of spending to learn from.</p>
+        )}
         {predictions.map((pred, index) => (
           <motion.div
-            key={index}
+            key={pred.category}
             className="p-3 bg-gradient-to-r from-purple-50 to-pink-50 rounded-xl border border-purple-100"
             initial={{ opacity: 0, x: -20 }}
             animate={{ opacity: 1, x: 0 }}
@@ -473,10 +685,10 @@ const ExpensePredictionCard = ({ predictions }: { predictions: any[] }) => {
               </span>
             </div>
             <div className="text-lg font-bold text-purple-800">
-              {fmtCurrency(pred.predicted_amount)}
+              {fmtCurrency(pred.expected)}
             </div>
             <div className="text-xs text-gray-600 mt-1">
-              Based on {pred.pattern} pattern
+              Likely {fmtCurrency(pred.lower80)} – {fmtCurrency(pred.upper80)} • based on {PATTERN_LABELS[pred.pattern]} pattern
             </div>
           </motion.div>
         ))}
@@ -494,9 +706,12 @@ const SpendingPatternInsights = ({ patterns }: { patterns: SpendingPattern[] })
       </div>
       
       <div className="space-y-4">
+        {patterns.length === 0 && (
+          <p className="text-sm text-gray-500">No clear habits yet. Insights appear once a pattern is backed by enough history.</p>
+        )}
         {patterns.map((pattern, index) => (
           <motion.div
-            key={index}
+            key={pattern.id}
             className="border-l-4 border-blue-500 pl-4 py-2"
             initial={{ opacity: 0, y: 10 }}
             animate={{ opacity: 1, y: 0 }}
@@ -504,7 +719,7 @@ const SpendingPatternInsights = ({ patterns }: { patterns: SpendingPattern[] })
           >
             <div className="flex items-center justify-between mb-2">
               <span className="font-semibold text-blue-800">{pattern.pattern}</span>
-              <div className="flex items-center gap-1">
+              <div className="flex items-center gap-1" title="Confidence from the statistical test behind this finding">
                 <Star className="w-3 h-3 text-yellow-500 fill-current" />
                 <span className="text-xs text-gray-600">{pattern.confidence}%</span>
               </div>
@@ -520,6 +735,921 @@ const SpendingPatternInsights = ({ patterns }: { patterns: SpendingPattern[] })
   );
 };
 
+// Bank statement import: upload → (CSV) map columns → review rows → commit in one request
+type CsvMapping = Omit<CsvColumnMapping, "dateOrder">;
+
+const StatementImportModal = ({
+  open,
+  categories,
+  onClose,
+  onImported,
+  fmtCurrency,
+}: {
+  open: boolean;
+  categories: string[];
+  onClose: () => void;
+  onImported: (expenses: Expense[]) => void;
+  fmtCurrency: CurrencyFormatter;
+}) => {
+  const [file, setFile] = useState<{ name: string; content: string } | null>(null);
+  const [headers, setHeaders] = useState<string[] | null>(null);
+  const [mapping, setMapping] = useState<CsvMapping>({ date: "", description: "" });
+  const [dateOrder, setDateOrder] = useState("auto");
+  const [rows, setRows] = useState<ImportPreviewRow[] | null>(null);
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  const [lineErrors, setLineErrors] = useState<{ line: number; message: string }[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const reset = () => {
+    setFile(null);
+    setHeaders(null);
+    setMapping({ date: "", description: "" });
+    setRows(null);
+    setSelected(new Set());
+    setLineErrors([]);
+    setError(null);
+  };
+
+  const close = () => {
+    reset();
+    onClose();
+  };
+
+  const requestPreview = async (source: { name: string; content: string }, withMapping?: CsvMapping) => {
+    setBusy(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/expenses/import/preview", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ fileName: source.name, content: source.content, mapping: withMapping, dateOrder, categories }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setError(Array.isArray(data?.errors) ? describeErrors(data.errors) : data?.error ?? "Could not read statement");
+        return;
+      }
+      if (data.headers) setHeaders(data.headers);
+      if (data.suggestedMapping) {
+        setMapping({ date: "", description: "", ...data.suggestedMapping });
+        return;
+      }
+      const preview: ImportPreviewRow[] = data.rows ?? [];
+      setRows(preview);
+      setLineErrors(data.errors ?? []);
+      // Pre-select new outflows; duplicates and credits stay opt-in
+      setSelected(new Set(preview.filter((r) => !r.duplicateOf).map((r) => r.line)));
+    } catch {
+      setError("Could not reach the import service");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const onFile = async (picked: File | undefined) => {
+    if (!picked) return;
+    reset();
+    const source = { name: picked.name, content: await picked.text() };
+    setFile(source);
+    await requestPreview(source);
+  };
+
+  const updateRow = (line: number, category: string) =>
+    setRows((p) => p && p.map((r) => (r.line === line ? { ...r, category, confidence: 100 } : r)));
+
+  const toggle = (line: number) =>
+    setSelected((p) => {
+      const next = new Set(p);
+      if (next.has(line)) next.delete(line);
+      else next.add(line);
+      return next;
+    });
+
+  const commit = async () => {
+    if (!rows) return;
+    const picked = rows.filter((r) => selected.has(r.line));
+    if (!picked.length) return;
+    setBusy(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/expenses/import", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          expenses: picked.map((r) => ({
+            type: r.type,
+            title: r.title,
+            amount: r.amount,
+            category: r.category,
+            date: r.date,
+            confidence: r.confidence,
+            tags: ["imported"],
+          })),
+        }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setError(Array.isArray(data?.errors) ? describeErrors(data.errors) : data?.error ?? "Import failed");
+        return;
+      }
+      onImported(data.expenses ?? []);
+      close();
+    } catch {
+      setError("Could not reach the import service");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const mappingSelect = (key: keyof Omit<CsvMapping, "invertAmount">, label: string) => (
+    <label className="text-sm space-y-1" key={key}>
+      <span className="text-gray-600 dark:text-gray-400">{label}</span>
+      <select
+        value={mapping[key] ?? ""}
+        onChange={(e) => setMapping((m) => ({ ...m, [key]: e.target.value || undefined }))}
+        className="w-full px-3 py-2 rounded-xl border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800"
+      >
+        <option value="">—</option>
+        {(headers ?? []).map((h) => (
+          <option key={h} value={h}>{h}</option>
+        ))}
+      </select>
+    </label>
+  );
+
+  return (
+    <AnimatePresence>
+      {open && (
+        <motion.div
+          className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm p-4"
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          onClick={close}
+        >
+          <motion.div
+            className="bg-white dark:bg-gray-900 rounded-3xl w-full max-w-4xl max-h-[90vh] overflow-y-auto shadow-2xl"
+            initial={{ scale: 0.9, opacity: 0 }}
+            animate={{ scale: 1, opacity: 1 }}
+            exit={{ scale: 0.9, opacity: 0 }}
+            onClick={(e) => e.stopPropagation()}
+          >
+            <div className="p-8 space-y-6">
+              <div className="flex items-center justify-between">
+                <div>
+                  <h2 className="text-2xl font-bold">Import Statement</h2>
+                  <p className="text-gray-600 dark:text-gray-400">CSV, OFX/QFX or QIF exports from your bank</p>
+                </div>
+                <Button variant="ghost" onClick={close} className="rounded-xl">
+                  <XCircle className="w-5 h-5" />
+                </Button>
+              </div>
+
+              <div className="flex flex-wrap items-end gap-4">
+                <label className="text-sm space-y-1">
+                  <span className="text-gray-600 dark:text-gray-400">Statement file</span>
+                  <input
+                    type="file"
+                    accept=".csv,.ofx,.qfx,.qif,text/csv"
+                    onChange={(e) => onFile(e.target.files?.[0])}
+                    className="block text-sm"
+                  />
+                </label>
+                <label className="text-sm space-y-1">
+                  <span className="text-gray-600 dark:text-gray-400">Date format</span>
+                  <select
+                    value={dateOrder}
+                    onChange={(e) => setDateOrder(e.target.value)}
+                    className="block px-3 py-2 rounded-xl border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800"
+                  >
+                    <option value="auto">Auto-detect</option>
+                    <option value="dmy">Day / Month / Year</option>
+                    <option value="mdy">Month / Day / Year</option>
+                    <option value="ymd">Year / Month / Day</option>
+                  </select>
+                </label>
+              </div>
+
+              {file && headers && (
+                <div className="space-y-4 p-4 rounded-2xl bg-gray-50 dark:bg-gray-800/50">
+                  <h3 className="font-semibold">Map columns</h3>
+                  <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+                    {mappingSelect("date", "Date")}
+                    {mappingSelect("description", "Description")}
+                    {mappingSelect("amount", "Amount")}
+                    {mappingSelect("debit", "Debit / out")}
+                    {mappingSelect("credit", "Credit / in")}
+                  </div>
+                  <div className="flex items-center justify-between">
+                    <label className="flex items-center gap-2 text-sm">
+                      <input
+                        type="checkbox"
+                        checked={!!mapping.invertAmount}
+                        onChange={(e) => setMapping((m) => ({ ...m, invertAmount: e.target.checked }))}
+                      />
+                      Spending is shown as positive amounts
+                    </label>
+                    <Button onClick={() => requestPreview(file, mapping)} disabled={busy} className="rounded-xl">
+                      Preview
+                    </Button>
+                  </div>
+                </div>
+              )}
+
+              {error && (
+                <div className="flex items-start gap-2 p-3 rounded-xl bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-300 text-sm">
+                  <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0" />
+                  <span>{error}</span>
+                </div>
+              )}
+
+              {lineErrors.length > 0 && (
+                <details className="text-sm text-amber-700 dark:text-amber-300">
+                  <summary>{lineErrors.length} line(s) could not be read</summary>
+                  <ul className="mt-2 space-y-1">
+                    {lineErrors.slice(0, 20).map((e) => (
+                      <li key={`${e.line}-${e.message}`}>Line {e.line}: {e.message}</li>
+                    ))}
+                  </ul>
+                </details>
+              )}
+
+              {rows && (
+                <div className="space-y-4">
+                  <div className="max-h-96 overflow-y-auto rounded-2xl border border-gray-200 dark:border-gray-700">
+                    <table className="w-full text-sm">
+                      <thead className="bg-gray-50 dark:bg-gray-800 sticky top-0">
+                        <tr className="text-left">
+                          <th className="p-2" />
+                          <th className="p-2">Date</th>
+                          <th className="p-2">Description</th>
+                          <th className="p-2 text-right">Amount</th>
+                          <th className="p-2">Category</th>
+                          <th className="p-2" />
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-gray-100 dark:divide-gray-700">
+                        {rows.map((r) => (
+                          <tr key={r.line}>
+                            <td className="p-2">
+                              <input
+                                type="checkbox"
+                                checked={selected.has(r.line)}
+                                onChange={() => toggle(r.line)}
+                              />
+                            </td>
+                            <td className="p-2 whitespace-nowrap">{new Date(r.date).toLocaleDateString()}</td>
+                            <td className="p-2">{r.title}</td>
+                            <td className={`p-2 text-right whitespace-nowrap ${r.type === "expense" ? "" : "text-green-600"}`}>
+                              {r.type === "expense" ? "" : "+"}{fmtCurrency(r.amount)}
+                            </td>
+                            <td className="p-2">
+                              <select
+                                value={r.category}
+                                onChange={(e) => updateRow(r.line, e.target.value)}
+                                className="px-2 py-1 rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800"
+                              >
+                                {Array.from(new Set([...(r.type === "income" ? INCOME_CATEGORIES : categories), r.category])).map((c) => (
+                                  <option key={c} value={c}>{c}</option>
+                                ))}
+                              </select>
+                            </td>
+                            <td className="p-2 whitespace-nowrap text-xs space-x-1">
+                              {r.type !== "expense" && (
+                                <span className="px-2 py-0.5 rounded-full bg-green-100 text-green-800 capitalize">{r.type}</span>
+                              )}
+                              {r.duplicateOf && (
+                                <span className="px-2 py-0.5 rounded-full bg-amber-100 text-amber-800">Possible duplicate</span>
+                              )}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                  <div className="flex items-center justify-between">
+                    <span className="text-sm text-gray-600 dark:text-gray-400">
+                      {selected.size} of {rows.length} transactions selected
+                    </span>
+                    <Button onClick={commit} disabled={busy || selected.size === 0} className="rounded-xl">
+                      Import {selected.size}
+                    </Button>
+                  </div>
+                </div>
+              )}
+            </div>
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+};
+
+// Recurring rules + detected subscriptions, with the monthly committed spend they add up to
+const frequencyLabel = (frequency: RecurrenceFrequency, interval = 1) => {
+  const unit = { daily: "day", weekly: "week", monthly: "month", yearly: "year" }[frequency];
+  return interval === 1 ? `Every ${unit}` : `Every ${interval} ${unit}s`;
+};
+
+// Savings goals: progress over time, the monthly amount needed and a projected finish
+const GoalsPanel = ({
+  goals,
+  onChanged,
+  fmtCurrency,
+}: {
+  goals: GoalWithProgress[];
+  onChanged: () => void;
+  fmtCurrency: CurrencyFormatter;
+}) => {
+  const [showForm, setShowForm] = useState(false);
+  const [form, setForm] = useState({ title: "", target: "", deadline: "", priority: "3" });
+  const [amounts, setAmounts] = useState<Record<string, string>>({});
+  const [errors, setErrors] = useState<FieldError[]>([]);
+
+  const send = async (url: string, method: string, body?: unknown): Promise<boolean> => {
+    try {
+      const res = await fetch(url, {
+        method,
+        headers: { "Content-Type": "application/json" },
+        body: body === undefined ? undefined : JSON.stringify(body),
+      });
+      if (res.status === 400) {
+        const data = await res.json().catch(() => null);
+        setErrors(Array.isArray(data?.errors) ? data.errors : [{ field: "goal", message: "was rejected" }]);
+        return false;
+      }
+      if (!res.ok) throw new Error(`Request failed: ${res.status}`);
+      setErrors([]);
+      onChanged();
+      return true;
+    } catch {
+      setErrors([{ field: "server", message: "is unreachable" }]);
+      return false;
+    }
+  };
+
+  const addGoal = async () => {
+    const saved = await send("/api/goals", "POST", {
+      title: form.title,
+      target: Number(form.target),
+      deadline: form.deadline || undefined,
+      priority: Number(form.priority),
+    });
+    if (saved) {
+      setForm({ title: "", target: "", deadline: "", priority: "3" });
+      setShowForm(false);
+    }
+  };
+
+  const contribute = async (goal: GoalWithProgress, kind: ContributionKind) => {
+    const amount = Number(amounts[goal.id]);
+    if (!(amount > 0)) return;
+    if (await send(`/api/goals/${encodeURIComponent(goal.id)}/contributions`, "POST", { kind, amount })) {
+      setAmounts((a) => ({ ...a, [goal.id]: "" }));
+    }
+  };
+
+  return (
+    <GlassmorphismCard className="p-6" depth={2}>
+      <div className="flex items-center justify-between mb-6">
+        <div className="flex items-center gap-2">
+          <PiggyBank className="w-6 h-6 text-emerald-500" />
+          <div>
+            <h3 className="font-bold text-lg">Savings Goals</h3>
+            <p className="text-sm text-gray-600 dark:text-gray-400">Projected from how fast you are actually saving</p>
+          </div>
+        </div>
+        <Button variant="ghost" onClick={() => setShowForm((v) => !v)} className="rounded-xl">
+          <Plus className="w-4 h-4 mr-2" />
+          New goal
+        </Button>
+      </div>
+
+      {showForm && (
+        <div className="mb-6 p-4 rounded-2xl bg-gray-50 dark:bg-gray-800/50 space-y-3">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+            <Input placeholder="Goal (e.g. Emergency fund)" value={form.title} onChange={(e) => setForm({ ...form, title: e.target.value })} className="rounded-xl md:col-span-2" />
+            <Input placeholder="Target" type="number" value={form.target} onChange={(e) => setForm({ ...form, target: e.target.value })} className="rounded-xl" />
+            <select
+              value={form.priority}
+              onChange={(e) => setForm({ ...form, priority: e.target.value })}
+              className="rounded-xl border border-gray-200 dark:border-gray-700 px-3 py-2 bg-white dark:bg-gray-800"
+            >
+              {[1, 2, 3, 4, 5].map((p) => <option key={p} value={p}>Priority {p}</option>)}
+            </select>
+            <label className="text-xs text-gray-500 md:col-span-2">
+              Deadline (optional)
+              <Input type="date" value={form.deadline} onChange={(e) => setForm({ ...form, deadline: e.target.value })} className="rounded-xl" />
+            </label>
+          </div>
+          <div className="flex justify-end">
+            <Button onClick={addGoal} disabled={!form.title || !form.target} className="rounded-xl">
+              Save goal
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {errors.length > 0 && (
+        <div className="mb-4 flex items-start gap-2 p-3 rounded-xl bg-red-50 text-red-700 text-xs border border-red-200" role="alert">
+          <AlertTriangle className="w-4 h-4 shrink-0" />
+          <span>{describeErrors(errors)}</span>
+        </div>
+      )}
+
+      <div className="space-y-4">
+        {goals.length === 0 && (
+          <p className="text-sm text-gray-500">No goals yet. Add one and record deposits to see when you will get there.</p>
+        )}
+        {goals.map((goal) => {
+          const { progress } = goal;
+          const reached = progress.remaining === 0;
+          return (
+            <div key={goal.id} className="p-4 rounded-2xl border border-gray-100 dark:border-gray-700">
+              <div className="flex items-start gap-3">
+                <div className="flex-1 min-w-0">
+                  <div className="font-semibold truncate">{goal.title}</div>
+                  <div className="text-xs text-gray-500">
+                    {fmtCurrency(progress.current)} of {fmtCurrency(goal.target)}
+                    {goal.deadline ? ` • due ${new Date(goal.deadline).toLocaleDateString()}` : ""}
+                  </div>
+                </div>
+                <span
+                  className={`text-xs px-2 py-1 rounded-full ${
+                    reached
+                      ? "bg-emerald-100 text-emerald-700"
+                      : progress.onTrack
+                      ? "bg-blue-100 text-blue-700"
+                      : "bg-amber-100 text-amber-700"
+                  }`}
+                >
+                  {reached ? "Reached" : progress.onTrack ? "On track" : "Behind"}
+                </span>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => send(`/api/goals/${encodeURIComponent(goal.id)}`, "DELETE")}
+                  className="rounded-xl hover:text-red-600"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+
+              <div className="w-full bg-gray-200 rounded-full h-2 my-3 overflow-hidden">
+                <motion.div
+                  className="h-2 rounded-full bg-gradient-to-r from-emerald-400 to-teal-500"
+                  initial={{ width: 0 }}
+                  animate={{ width: `${progress.percentage}%` }}
+                  transition={{ duration: 0.8, ease: "easeOut" }}
+                />
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-center">
+                <div className="h-16 md:col-span-1">
+                  {progress.history.length > 1 ? (
+                    <ResponsiveContainer width="100%" height="100%">
+                      <AreaChart data={progress.history}>
+                        <Area type="monotone" dataKey="balance" stroke="#10b981" fill="#10b98133" strokeWidth={2} />
+                        <Tooltip formatter={(v) => fmtCurrency(Number(v))} labelFormatter={(m) => String(m)} />
+                      </AreaChart>
+                    </ResponsiveContainer>
+                  ) : (
+                    <div className="h-full flex items-center text-xs text-gray-400">History appears after a month of deposits</div>
+                  )}
+                </div>
+                <div className="text-xs space-y-1">
+                  <div>
+                    <span className="text-gray-500">Needed per month: </span>
+                    <span className="font-semibold">
+                      {progress.requiredMonthly === null ? (reached ? "—" : "no deadline") : fmtCurrency(progress.requiredMonthly)}
+                    </span>
+                  </div>
+                  <div>
+                    <span className="text-gray-500">Saving per month: </span>
+                    <span className="font-semibold">{fmtCurrency(progress.monthlyVelocity)}</span>
+                  </div>
+                  <div>
+                    <span className="text-gray-500">Projected: </span>
+                    <span className="font-semibold">
+                      {progress.projectedCompletion ? new Date(progress.projectedCompletion).toLocaleDateString() : "not at this pace"}
+                    </span>
+                  </div>
+                </div>
+                <div className="flex gap-2">
+                  <Input
+                    type="number"
+                    placeholder="Amount"
+                    value={amounts[goal.id] ?? ""}
+                    onChange={(e) => setAmounts((a) => ({ ...a, [goal.id]: e.target.value }))}
+                    className="rounded-xl min-w-0"
+                  />
+                  <Button size="sm" className="rounded-xl" onClick={() => contribute(goal, "deposit")} title="Deposit">
+                    <Plus className="w-4 h-4" />
+                  </Button>
+                  <Button size="sm" variant="ghost" className="rounded-xl" onClick={() => contribute(goal, "withdrawal")} title="Withdraw">
+                    <Minus className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </GlassmorphismCard>
+  );
+};
+
+// Base currency picker and the local exchange-rate table, shown in the settings modal
+const CurrencySettingsSection = ({
+  settings,
+  onRatesChange,
+  onBaseCurrencyChange,
+}: {
+  settings: CurrencySettings;
+  onRatesChange: (settings: CurrencySettings) => void;
+  onBaseCurrencyChange: (settings: CurrencySettings, factor: number) => void;
+}) => {
+  const [newRate, setNewRate] = useState({ currency: "", rate: "" });
+  const [message, setMessage] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const send = async (url: string, init: RequestInit): Promise<Record<string, unknown> | null> => {
+    setBusy(true);
+    setMessage(null);
+    try {
+      const res = await fetch(url, { headers: { "Content-Type": "application/json" }, ...init });
+      const body = await res.json().catch(() => null);
+      if (!res.ok) {
+        setMessage(Array.isArray(body?.errors) ? describeErrors(body.errors) : body?.error ?? "Request failed");
+        return null;
+      }
+      return body;
+    } catch {
+      setMessage("Could not reach the server");
+      return null;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const saveRates = async (rates: { currency: string; rate: number }[]) => {
+    const body = await send("/api/currency/rates", { method: "PUT", body: JSON.stringify({ rates }) });
+    if (body) onRatesChange(body as CurrencySettings);
+  };
+
+  const removeRate = async (currency: string) => {
+    if (await send(`/api/currency/rates/${currency}`, { method: "DELETE" })) {
+      onRatesChange({ ...settings, rates: settings.rates.filter((r) => r.currency !== currency) });
+    }
+  };
+
+  const changeBase = async (baseCurrency: string) => {
+    if (baseCurrency === settings.baseCurrency) return;
+    if (!window.confirm(`Convert every stored amount to ${baseCurrency}?`)) return;
+    const body = await send("/api/currency", { method: "PATCH", body: JSON.stringify({ baseCurrency }) });
+    if (body) onBaseCurrencyChange(body.settings as CurrencySettings, Number(body.factor) || 1);
+  };
+
+  const importCsv = async (file: File) => {
+    const body = await send("/api/currency/rates", { method: "POST", body: JSON.stringify({ csv: await file.text() }) });
+    if (!body) return;
+    onRatesChange({ baseCurrency: body.baseCurrency as string, rates: body.rates as CurrencySettings["rates"] });
+    const skipped = (body.errors as unknown[]).length;
+    setMessage(`Imported ${body.imported} rates${skipped ? `, skipped ${skipped} lines` : ""}`);
+  };
+
+  const addRate = () => {
+    const currency = newRate.currency.trim().toUpperCase();
+    const rate = Number(newRate.rate);
+    if (!CURRENCY_CODE.test(currency) || !(rate > 0)) {
+      setMessage("Enter a 3-letter currency code and a rate above 0");
+      return;
+    }
+    saveRates([{ currency, rate }]);
+    setNewRate({ currency: "", rate: "" });
+  };
+
+  return (
+    <div className="space-y-4 lg:col-span-2">
+      <h3 className="text-lg font-semibold flex items-center gap-2">
+        <Globe className="w-5 h-5" />
+        Currency & Exchange Rates
+      </h3>
+      <div className="flex flex-wrap items-center gap-3">
+        <label className="text-sm font-medium">Base currency</label>
+        <select
+          className="rounded-xl border border-gray-200 dark:border-gray-700 px-3 py-2 bg-white dark:bg-gray-800"
+          value={settings.baseCurrency}
+          disabled={busy}
+          onChange={(e) => changeBase(e.target.value)}
+        >
+          {[settings.baseCurrency, ...settings.rates.map((r) => r.currency)].map((c) => (
+            <option key={c}>{c}</option>
+          ))}
+        </select>
+        <span className="text-xs text-gray-500">Every total is shown in this currency. Add a rate before switching.</span>
+      </div>
+
+      <div className="space-y-2">
+        {settings.rates.length === 0 && (
+          <div className="text-sm text-gray-500">No exchange rates yet. Expenses can only be entered in {settings.baseCurrency}.</div>
+        )}
+        {settings.rates.map((r) => (
+          <div key={r.currency} className="flex items-center gap-3">
+            <div className="w-24 text-sm font-medium">1 {r.currency} =</div>
+            <Input
+              type="number"
+              step="any"
+              defaultValue={r.rate}
+              disabled={busy}
+              onBlur={(e) => {
+                const rate = Number(e.target.value);
+                if (rate > 0 && rate !== r.rate) saveRates([{ currency: r.currency, rate }]);
+              }}
+              className="flex-1 rounded-xl"
+            />
+            <div className="w-12 text-xs text-gray-500">{settings.baseCurrency}</div>
+            <div className="hidden sm:block text-xs text-gray-400">{new Date(r.updatedAt).toLocaleDateString()}</div>
+            <button className="text-gray-400 hover:text-red-500" onClick={() => removeRate(r.currency)} title="Remove rate">
+              <XCircle className="w-4 h-4" />
+            </button>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <Input
+          list="currency-codes"
+          placeholder="Code (e.g. USD)"
+          value={newRate.currency}
+          onChange={(e) => setNewRate((p) => ({ ...p, currency: e.target.value }))}
+          className="w-36 rounded-xl"
+        />
+        <datalist id="currency-codes">
+          {COMMON_CURRENCIES.filter((c) => c !== settings.baseCurrency).map((c) => <option key={c} value={c} />)}
+        </datalist>
+        <Input
+          type="number"
+          step="any"
+          placeholder={`Rate in ${settings.baseCurrency}`}
+          value={newRate.rate}
+          onChange={(e) => setNewRate((p) => ({ ...p, rate: e.target.value }))}
+          className="w-40 rounded-xl"
+        />
+        <Button className="rounded-xl" onClick={addRate} disabled={busy}>
+          <Plus className="w-4 h-4" />
+        </Button>
+        <label className="text-sm text-indigo-600 cursor-pointer ml-auto">
+          Import CSV
+          <input
+            type="file"
+            accept=".csv,text/csv"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) importCsv(file);
+              e.target.value = "";
+            }}
+          />
+        </label>
+      </div>
+      {message && <div className="text-xs text-gray-600 dark:text-gray-400">{message}</div>}
+    </div>
+  );
+};
+
+const RecurringPanel = ({
+  categories,
+  refreshKey,
+  onExpensesCreated,
+  fmtCurrency,
+}: {
+  categories: string[];
+  refreshKey: number;
+  onExpensesCreated: (expenses: Expense[]) => void;
+  fmtCurrency: CurrencyFormatter;
+}) => {
+  const [rules, setRules] = useState<RecurringRule[]>([]);
+  const [candidates, setCandidates] = useState<SubscriptionCandidate[]>([]);
+  const [committed, setCommitted] = useState<{ monthly: number; fromRules: number; fromSubscriptions: number } | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [form, setForm] = useState({
+    title: "",
+    amount: "",
+    category: categories[0] ?? "Other",
+    frequency: "monthly" as RecurrenceFrequency,
+    startDate: new Date().toISOString().slice(0, 10),
+    endDate: "",
+  });
+  const [errors, setErrors] = useState<FieldError[]>([]);
+
+  const refresh = useCallback(async () => {
+    try {
+      const [rulesRes, subsRes] = await Promise.all([fetch("/api/recurring"), fetch("/api/recurring/subscriptions")]);
+      if (rulesRes.ok) setRules((await rulesRes.json()).rules ?? []);
+      if (subsRes.ok) {
+        const data = await subsRes.json();
+        setCandidates(data.candidates ?? []);
+        setCommitted(data.committed ?? null);
+      }
+    } catch {
+      // Offline: the panel simply stays empty
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh, refreshKey]);
+
+  const saveRule = async (body: Record<string, unknown>) => {
+    const res = await fetch("/api/recurring", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    });
+    const data = await res.json().catch(() => null);
+    if (!res.ok) {
+      setErrors(Array.isArray(data?.errors) ? data.errors : [{ field: "rule", message: "could not be saved" }]);
+      return false;
+    }
+    setErrors([]);
+    if (data?.created?.length) onExpensesCreated(data.created);
+    await refresh();
+    return true;
+  };
+
+  const addRule = async () => {
+    const saved = await saveRule({
+      title: form.title,
+      amount: Number(form.amount),
+      category: form.category,
+      frequency: form.frequency,
+      startDate: form.startDate,
+      endDate: form.endDate || undefined,
+    });
+    if (saved) {
+      setForm((f) => ({ ...f, title: "", amount: "", endDate: "" }));
+      setShowForm(false);
+    }
+  };
+
+  const trackCandidate = (c: SubscriptionCandidate) =>
+    saveRule({
+      title: c.title,
+      amount: c.amount,
+      category: c.category,
+      frequency: c.frequency,
+      // Start at the next expected payment so past ones are not duplicated
+      startDate: c.nextExpectedDate,
+      source: "detected",
+    });
+
+  const updateRule = async (rule: RecurringRule, patch: Record<string, unknown>) => {
+    const res = await fetch(`/api/recurring/${encodeURIComponent(rule.id)}`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(patch),
+    });
+    const data = await res.json().catch(() => null);
+    if (data?.created?.length) onExpensesCreated(data.created);
+    await refresh();
+  };
+
+  const removeRule = async (rule: RecurringRule) => {
+    await fetch(`/api/recurring/${encodeURIComponent(rule.id)}`, { method: "DELETE" });
+    await refresh();
+  };
+
+  const suggestions = candidates.filter((c) => !c.ruleId);
+
+  return (
+    <GlassmorphismCard className="p-6" depth={2}>
+      <div className="flex items-center justify-between mb-6">
+        <div className="flex items-center gap-2">
+          <Clock className="w-6 h-6 text-indigo-500" />
+          <div>
+            <h3 className="font-bold text-lg">Recurring & Subscriptions</h3>
+            <p className="text-sm text-gray-600 dark:text-gray-400">Bills and subscriptions added automatically</p>
+          </div>
+        </div>
+        <Button variant="ghost" onClick={() => setShowForm((v) => !v)} className="rounded-xl">
+          <Plus className="w-4 h-4 mr-2" />
+          New rule
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+        <div className="p-4 rounded-2xl bg-indigo-50 dark:bg-indigo-900/20 md:col-span-1">
+          <div className="text-xs text-gray-500">Monthly committed spend</div>
+          <div className="text-2xl font-bold text-indigo-700 dark:text-indigo-300">{fmtCurrency(committed?.monthly ?? 0)}</div>
+        </div>
+        <div className="p-4 rounded-2xl bg-gray-50 dark:bg-gray-800/50">
+          <div className="text-xs text-gray-500">From recurring rules</div>
+          <div className="text-xl font-bold">{fmtCurrency(committed?.fromRules ?? 0)}</div>
+        </div>
+        <div className="p-4 rounded-2xl bg-gray-50 dark:bg-gray-800/50">
+          <div className="text-xs text-gray-500">Detected, not yet tracked</div>
+          <div className="text-xl font-bold">{fmtCurrency(committed?.fromSubscriptions ?? 0)}</div>
+        </div>
+      </div>
+
+      {showForm && (
+        <div className="mb-6 p-4 rounded-2xl bg-gray-50 dark:bg-gray-800/50 space-y-3">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            <Input placeholder="Title (e.g. Rent)" value={form.title} onChange={(e) => setForm({ ...form, title: e.target.value })} className="rounded-xl" />
+            <Input placeholder="Amount" type="number" value={form.amount} onChange={(e) => setForm({ ...form, amount: e.target.value })} className="rounded-xl" />
+            <select
+              value={form.category}
+              onChange={(e) => setForm({ ...form, category: e.target.value })}
+              className="rounded-xl border border-gray-200 dark:border-gray-700 px-3 py-2 bg-white dark:bg-gray-800"
+            >
+              {categories.map((c) => <option key={c}>{c}</option>)}
+            </select>
+            <select
+              value={form.frequency}
+              onChange={(e) => setForm({ ...form, frequency: e.target.value as RecurrenceFrequency })}
+              className="rounded-xl border border-gray-200 dark:border-gray-700 px-3 py-2 bg-white dark:bg-gray-800"
+            >
+              {RECURRENCE_FREQUENCIES.map((f) => <option key={f} value={f}>{frequencyLabel(f)}</option>)}
+            </select>
+            <label className="text-xs text-gray-500">
+              Starts
+              <Input type="date" value={form.startDate} onChange={(e) => setForm({ ...form, startDate: e.target.value })} className="rounded-xl" />
+            </label>
+            <label className="text-xs text-gray-500">
+              Ends (optional)
+              <Input type="date" value={form.endDate} onChange={(e) => setForm({ ...form, endDate: e.target.value })} className="rounded-xl" />
+            </label>
+          </div>
+          {errors.length > 0 && (
+            <div className="flex items-start gap-2 p-3 rounded-xl bg-red-50 text-red-700 text-xs border border-red-200" role="alert">
+              <AlertTriangle className="w-4 h-4 shrink-0" />
+              <span>{describeErrors(errors)}</span>
+            </div>
+          )}
+          <div className="flex justify-end">
+            <Button onClick={addRule} disabled={!form.title || !form.amount} className="rounded-xl">
+              Save rule
+            </Button>
+          </div>
+        </div>
+      )}
+
+      <div className="space-y-2">
+        {rules.length === 0 && (
+          <p className="text-sm text-gray-500">No recurring rules yet. Add rent, SIPs or subscriptions so they are recorded for you.</p>
+        )}
+        {rules.map((rule) => (
+          <div key={rule.id} className={`flex items-center gap-3 p-3 rounded-xl border border-gray-100 dark:border-gray-700 ${rule.active ? "" : "opacity-60"}`}>
+            <div className="flex-1 min-w-0">
+              <div className="font-semibold truncate">{rule.title}</div>
+              <div className="text-xs text-gray-500">
+                {frequencyLabel(rule.frequency, rule.interval)} • {rule.category}
+                {" • "}
+                {rule.nextDate ? `next ${new Date(rule.nextDate).toLocaleDateString()}` : "ended"}
+                {rule.endDate && rule.nextDate ? ` • until ${new Date(rule.endDate).toLocaleDateString()}` : ""}
+              </div>
+            </div>
+            <div className="font-bold">{fmtCurrency(rule.amount)}</div>
+            <Button variant="ghost" size="sm" onClick={() => updateRule(rule, { active: !rule.active })} className="rounded-xl text-xs">
+              {rule.active ? "Pause" : "Resume"}
+            </Button>
+            <Button variant="ghost" size="sm" onClick={() => removeRule(rule)} className="rounded-xl hover:text-red-600">
+              <Trash2 className="w-4 h-4" />
+            </Button>
+          </div>
+        ))}
+      </div>
+
+      {suggestions.length > 0 && (
+        <div className="mt-6">
+          <h4 className="text-sm font-semibold mb-2 flex items-center gap-2">
+            <Sparkles className="w-4 h-4 text-purple-500" />
+            Looks like a subscription
+          </h4>
+          <div className="space-y-2">
+            {suggestions.map((c) => (
+              <div key={c.key} className="flex items-center gap-3 p-3 rounded-xl bg-purple-50/60 dark:bg-purple-900/10">
+                <div className="flex-1 min-w-0">
+                  <div className="font-medium truncate">{c.title}</div>
+                  <div className="text-xs text-gray-500">
+                    {frequencyLabel(c.frequency)} • seen {c.occurrences}× • {c.confidence}% confidence
+                  </div>
+                </div>
+                <div className="text-sm font-semibold">{fmtCurrency(c.amount)}</div>
+                <Button size="sm" variant="outline" onClick={() => trackCandidate(c)} className="rounded-xl text-xs">
+                  Track
+                </Button>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </GlassmorphismCard>
+  );
+};
+
 // Main Dashboard Component
 export default function EnhancedDashboardPage() {
   // State management
@@ -529,6 +1659,10 @@ export default function EnhancedDashboardPage() {
   const [search, setSearch] = useState("");
   const [catFilter, setCatFilter] = useState<string | "All">("All");
   const [monthFilter, setMonthFilter] = useState<string>(new Date().toISOString().slice(0, 7));
+  // Server-filtered slice for the current filters; null until loaded or when the API is unreachable
+  const [serverFiltered, setServerFiltered] = useState<Expense[] | null>(null);
+  const [ledgerVersion, setLedgerVersion] = useState(0);
+  const [visibleCount, setVisibleCount] = useState(PAGE_SIZE);
   
   // Enhanced UI state
   const [currentPalette, setCurrentPalette] = useState("prosperity");
@@ -536,66 +1670,157 @@ export default function EnhancedDashboardPage() {
   const [showSettings, setShowSettings] = useState(false);
   const [showDrawer, setShowDrawer] = useState(false);
   const [showInsights, setShowInsights] = useState(false);
+  const [showImport, setShowImport] = useState(false);
+  const [showExportMenu, setShowExportMenu] = useState(false);
+  const [exporting, setExporting] = useState(false);
   const [animationsEnabled, setAnimationsEnabled] = useState(true);
   
   // Quick add form
   const [titleQuick, setTitleQuick] = useState("");
   const [amountQuick, setAmountQuick] = useState("");
   const [categoryQuick, setCategoryQuick] = useState(DEFAULT_CATEGORIES[0]);
-  const [moodQuick, setMoodQuick] = useState<"happy" | "neutral" | "stressed" | "regret">("neutral");
+  const [moodQuick, setMoodQuick] = useState<ExpenseMood>("neutral");
+  const [typeQuick, setTypeQuick] = useState<TransactionType>("expense");
+  const [currencyQuick, setCurrencyQuick] = useState(DEFAULT_BASE_CURRENCY);
+  const [quickAddErrors, setQuickAddErrors] = useState<FieldError[]>([]);
+  const [categorySuggestion, setCategorySuggestion] = useState<CategorySuggestion | null>(null);
+  // Once the user picks a category themselves, suggestions stop overwriting it
+  const categoryTouched = useRef(false);
 
   // Enhanced features state
-  const [budgets, setBudgets] = useState<Budget[]>([
-    { category: "Food", limit: 8000, priority: "high" },
-    { category: "Transport", limit: 3000, priority: "medium" },
-    { category: "Shopping", limit: 6000, priority: "low" },
-  ]);
-
-  const [financialGoals, setFinancialGoals] = useState<FinancialGoal[]>([
-    {
-      id: generateId(),
-      title: "Emergency Fund",
-      target: 100000,
-      current: 25000,
-      deadline: "2024-12-31",
-      category: "Savings",
-      priority: 1
-    }
-  ]);
+  const [budgets, setBudgets] = useState<Budget[]>([]);
+  const [budgetAlerts, setBudgetAlerts] = useState<BudgetAlert[]>([]);
+  const [toasts, setToasts] = useState<Toast[]>([]);
+  const [newBudget, setNewBudget] = useState({ category: "", limit: "" });
+
+  const [financialGoals, setFinancialGoals] = useState<GoalWithProgress[]>([]);
 
   const [aiSuggestion, setAiSuggestion] = useState<string | null>(null);
   const [suggestionLoading, setSuggestionLoading] = useState(false);
-  const [financialHealth, setFinancialHealth] = useState<FinancialHealthScore>({
-    overall: 75,
-    spending: 70,
-    saving: 80,
-    budgeting: 75,
-    planning: 75
+  const [healthReport, setHealthReport] = useState<HealthReport | null>(null);
+
+  // Habits mined from the ledger by /api/patterns
+  const [spendingPatterns, setSpendingPatterns] = useState<SpendingPattern[]>([]);
+
+  const [forecast, setForecast] = useState<SpendingForecast | null>(null);
+
+  const [currencySettings, setCurrencySettings] = useState<CurrencySettings>({
+    baseCurrency: DEFAULT_BASE_CURRENCY,
+    rates: [],
   });
+  const { baseCurrency } = currencySettings;
+  const fmtCurrency = useCallback<CurrencyFormatter>(
+    (n = 0, currency = baseCurrency) => formatCurrency(n, currency, baseCurrency),
+    [baseCurrency]
+  );
+
+  const palette = COLOR_PALETTES[currentPalette as keyof typeof COLOR_PALETTES];
 
-  // AI-generated insights
-  const [spendingPatterns, setSpendingPatterns] = useState<SpendingPattern[]>([
-    {
-      pattern: "Weekend Splurging",
-      confidence: 85,
-      description: "You tend to spend 40% more on weekends, especially on entertainment and dining.",
-      suggestion: "Consider setting a specific weekend budget to maintain consistent spending habits."
-    },
-    {
-      pattern: "Stress-induced Shopping",
-      confidence: 72,
-      description: "Shopping expenses spike during stressful periods, particularly mid-month.",
-      suggestion: "Try alternative stress-relief activities like exercise or meditation instead of retail therapy."
+  // Base currency and exchange rates
+  useEffect(() => {
+    fetch("/api/currency")
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data: CurrencySettings | null) => {
+        if (!data) return;
+        setCurrencySettings(data);
+        setCurrencyQuick(data.baseCurrency);
+      })
+      .catch(() => {
+        // Offline: keep showing rupees
+      });
+  }, []);
+
+  // Budgets and their open alerts
+  const loadBudgets = useCallback(async () => {
+    try {
+      const res = await fetch("/api/budgets");
+      if (res.ok) setBudgets((await res.json()).budgets ?? []);
+    } catch {
+      // Offline: no budgets to show
+    }
+  }, []);
+
+  // Fetches open alerts; with `announce`, alerts not seen before also pop up as toasts
+  const refreshBudgetAlerts = useCallback(async (announce = false) => {
+    try {
+      const res = await fetch("/api/budgets/alerts");
+      if (!res.ok) return;
+      const alerts: BudgetAlert[] = (await res.json()).alerts ?? [];
+      setBudgetAlerts((prev) => {
+        if (announce) {
+          const seen = new Set(prev.map((a) => a.id));
+          const fresh = alerts.filter((a) => !seen.has(a.id));
+          setToasts((t) => [
+            ...t,
+            ...fresh.map((a): Toast => ({
+              id: a.id,
+              tone: a.level === "over" ? "danger" : "warning",
+              message: a.level === "over"
+                ? `${a.category} is over budget: ${fmtCurrency(a.spent)} of ${fmtCurrency(a.available)}`
+                : `${a.category} has used ${Math.round((a.spent / a.available) * 100)}% of its budget`,
+            })),
+          ]);
+        }
+        return alerts;
+      });
+    } catch {
+      // Offline: keep the alerts already shown
     }
-  ]);
+  }, [fmtCurrency]);
 
-  const [expensePredictions] = useState([
-    { category: "Food", predicted_amount: 7500, confidence: 88, pattern: "seasonal increase" },
-    { category: "Transport", predicted_amount: 2800, confidence: 92, pattern: "consistent monthly" },
-    { category: "Shopping", predicted_amount: 4200, confidence: 76, pattern: "festival surge" }
-  ]);
+  useEffect(() => {
+    loadBudgets();
+    refreshBudgetAlerts();
+  }, [loadBudgets, refreshBudgetAlerts]);
 
-  const palette = COLOR_PALETTES[currentPalette as keyof typeof COLOR_PALETTES];
+  // Toasts close themselves after a few seconds
+  useEffect(() => {
+    if (!toasts.length) return;
+    const timer = setTimeout(() => setToasts((t) => t.slice(1)), 6000);
+    return () => clearTimeout(timer);
+  }, [toasts]);
+
+  const dismissBudgetAlert = async (id: string) => {
+    setBudgetAlerts((p) => p.filter((a) => a.id !== id));
+    try {
+      await fetch(`/api/budgets/alerts/${id}`, { method: "DELETE" });
+    } catch {
+      // Dismissed locally; it will come back on the next load if the server missed it
+    }
+  };
+
+  const loadGoals = useCallback(async () => {
+    try {
+      const res = await fetch("/api/goals");
+      if (res.ok) setFinancialGoals((await res.json()).goals ?? []);
+    } catch {
+      // Offline: no goals to show
+    }
+  }, []);
+
+  useEffect(() => {
+    loadGoals();
+  }, [loadGoals]);
+
+  // Status for the current period, computed from the loaded ledger so it follows local edits
+  const budgetsWithStatus = useMemo(
+    () => budgets.map((budget) => ({ budget, status: budgetStatus(budget, expenses) })),
+    [budgets, expenses]
+  );
+
+  // The server rebases every stored amount; reload what the dashboard shows
+  const applyBaseCurrencyChange = (settings: CurrencySettings) => {
+    setCurrencySettings(settings);
+    setCurrencyQuick(settings.baseCurrency);
+    loadBudgets();
+    refreshBudgetAlerts();
+    loadGoals();
+    setServerFiltered(null);
+    fetch("/api/expenses")
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => data && setExpenses((data.expenses ?? data).map(normalizeExpense)))
+      .catch(() => {});
+  };
 
   // Load expenses
   useEffect(() => {
@@ -607,24 +1832,12 @@ export default function EnhancedDashboardPage() {
         if (!res.ok) throw new Error("Failed to fetch");
         const data = await res.json();
         const arr: any[] = Array.isArray(data) ? data : data.expenses ?? [];
-        const normalized: Expense[] = arr.map((e: any, i: number) => ({
-          id: e.id ?? i,
-          amount: Number(e.amount ?? 0),
-          category: e.category ?? DEFAULT_CATEGORIES[i % DEFAULT_CATEGORIES.length],
-          date: e.date ?? new Date().toISOString(),
-          title: e.title,
-          mood: e.mood ?? "neutral",
-          confidence: e.confidence ?? 100,
-          predicted: e.predicted ?? false,
-          anomaly: e.anomaly ?? false
-        }));
-        if (!cancelled) setExpenses(normalized);
+        if (!cancelled) setExpenses(arr.map(normalizeExpense));
       } catch (err) {
         if (!cancelled) setExpenses(seedExpenses());
       } finally {
         if (!cancelled) {
           setTimeout(() => setLoading(false), 300);
-          calculateFinancialHealth();
         }
       }
     };
@@ -635,7 +1848,7 @@ export default function EnhancedDashboardPage() {
   // Seed data with enhanced properties
   function seedExpenses(): Expense[] {
     const now = new Date();
-    return [
+    const seeds: Omit<Expense, "createdAt" | "updatedAt">[] = [
       { id: "1", amount: 1200, category: "Food", date: now.toISOString(), mood: "happy", confidence: 95 },
       { id: "2", amount: 450, category: "Transport", date: new Date(now.getTime() - 86400000).toISOString(), mood: "neutral" },
       { id: "3", amount: 2800, category: "Bills", date: new Date(now.getTime() - 3 * 86400000).toISOString(), mood: "stressed" },
@@ -643,31 +1856,46 @@ export default function EnhancedDashboardPage() {
       { id: "5", amount: 3500, category: "Shopping", date: new Date(now.getTime() - 7 * 86400000).toISOString(), mood: "regret", anomaly: true },
       { id: "6", amount: 650, category: "Food", date: new Date(now.getTime() - 10 * 86400000).toISOString(), mood: "neutral" },
     ];
+    return seeds.map((e) => ({ ...e, createdAt: e.date, updatedAt: e.date }));
   }
 
-  // Calculate financial health score
-  const calculateFinancialHealth = useCallback(() => {
-    const totalSpent = expenses.reduce((s, e) => s + e.amount, 0);
-    const totalBudget = budgets.reduce((s, b) => s + b.limit, 0);
-    
-    const spendingScore = totalBudget > 0 ? Math.max(0, 100 - (totalSpent / totalBudget) * 100) : 50;
-    const savingScore = Math.min(100, (financialGoals[0]?.current / financialGoals[0]?.target) * 100 || 0);
-    const budgetingScore = budgets.length > 0 ? 80 : 20;
-    const planningScore = financialGoals.length > 0 ? 75 : 25;
-    
-    const overall = Math.round((spendingScore + savingScore + budgetingScore + planningScore) / 4);
-    
-    setFinancialHealth({
-      overall,
-      spending: Math.round(spendingScore),
-      saving: Math.round(savingScore),
-      budgeting: Math.round(budgetingScore),
-      planning: Math.round(planningScore)
-    });
-  }, [expenses, budgets, financialGoals]);
+  // Health score from /api/health, which also stores today's snapshot; rescored whenever the ledger, budgets or goals change
+  useEffect(() => {
+    const controller = new AbortController();
+    fetch("/api/health", { signal: controller.signal })
+      .then((res) => (res.ok ? res.json() : null))
+      .then((report: HealthReport | null) => report && setHealthReport(report))
+      .catch(() => {
+        // Offline or superseded: keep the last score
+      });
+    return () => controller.abort();
+  }, [ledgerVersion, budgets, financialGoals]);
+
+  // Ask the server for exactly the slice the dashboard renders
+  useEffect(() => {
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
+      const params = new URLSearchParams({ month: monthFilter, sort: "-date" });
+      if (catFilter !== "All") params.set("category", catFilter);
+      if (search.trim()) params.set("q", search.trim());
+      try {
+        const res = await fetch(`/api/expenses?${params}`, { signal: controller.signal });
+        if (!res.ok) throw new Error("Failed to fetch");
+        const data = await res.json();
+        setServerFiltered((Array.isArray(data) ? data : data.expenses ?? []).map(normalizeExpense));
+      } catch {
+        if (!controller.signal.aborted) setServerFiltered(null);
+      }
+    }, 250);
+    setVisibleCount(PAGE_SIZE);
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [catFilter, monthFilter, search, ledgerVersion]);
 
   // Derived data
-  const filtered = useMemo(() => {
+  const localFiltered = useMemo(() => {
     return expenses
       .filter((e) => (catFilter === "All" ? true : e.category === catFilter))
       .filter((e) => e.date.startsWith(monthFilter))
@@ -679,113 +1907,255 @@ export default function EnhancedDashboardPage() {
       .sort((a, b) => +new Date(b.date) - +new Date(a.date));
   }, [expenses, catFilter, monthFilter, search]);
 
+  // Fall back to filtering locally (seed data, or while an edit is in flight)
+  const filtered = serverFiltered ?? localFiltered;
+
+  // Spending views ignore income and transfers; refunds net off their category
   const totalsByCategory = useMemo(() => {
     const map: Record<string, number> = {};
-    filtered.forEach((t) => (map[t.category] = (map[t.category] ?? 0) + t.amount));
-    return Object.entries(map).map(([name, value]) => ({ name, value }));
+    filtered.forEach((t) => {
+      if (spendAmount(t) !== 0) map[t.category] = (map[t.category] ?? 0) + spendAmount(t);
+    });
+    return Object.entries(map)
+      .filter(([, value]) => value > 0)
+      .map(([name, value]) => ({ name, value }));
   }, [filtered]);
 
-  const totalSpend = useMemo(() => filtered.reduce((s, t) => s + t.amount, 0), [filtered]);
+  const totalSpend = useMemo(() => Math.max(0, filtered.reduce((s, t) => s + spendAmount(t), 0)), [filtered]);
+
+  // Income vs. spending for the six months up to the selected one (category/search filters don't apply)
+  const cashFlow = useMemo(() => summarizeCashFlow(expenses, lastMonths(6, monthFilter)), [expenses, monthFilter]);
+  const currentFlow = cashFlow[cashFlow.length - 1];
+
+  // Re-mine spending patterns whenever the ledger changes
+  useEffect(() => {
+    const controller = new AbortController();
+    fetch("/api/patterns", { signal: controller.signal })
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data: { patterns?: SpendingPattern[] } | null) => data?.patterns && setSpendingPatterns(data.patterns))
+      .catch(() => {
+        // Offline or superseded: keep the last findings
+      });
+    return () => controller.abort();
+  }, [ledgerVersion]);
+
+  // Server-side forecast: daily points for the trend chart (current category filter) and 30-day category totals
+  useEffect(() => {
+    const controller = new AbortController();
+    const params = new URLSearchParams({ days: "5", period: "30" });
+    if (catFilter !== "All") params.set("category", catFilter);
+    fetch(`/api/forecast?${params}`, { signal: controller.signal })
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data: SpendingForecast | null) => data && setForecast(data))
+      .catch(() => {
+        // Offline or superseded: the chart just shows actuals
+      });
+    return () => controller.abort();
+  }, [catFilter, ledgerVersion]);
 
   const trendData = useMemo(() => {
-    const days: { date: string; spend: number; predicted?: boolean }[] = [];
+    const days: { date: string; spend?: number; forecast?: number; band?: [number, number]; predicted?: boolean }[] = [];
     for (let i = 11; i >= 0; i--) {
       const d = new Date();
       d.setDate(d.getDate() - i);
       const key = d.toISOString().slice(5, 10);
       const spend = filtered.filter((t) => 
         new Date(t.date).toDateString() === d.toDateString()
-      ).reduce((s, t) => s + t.amount, 0);
+      ).reduce((s, t) => s + spendAmount(t), 0);
       days.push({ date: key, spend });
     }
     
-    // Add predicted future days
-    for (let i = 1; i <= 5; i++) {
-      const d = new Date();
-      d.setDate(d.getDate() + i);
-      const key = d.toISOString().slice(5, 10);
-      const avgSpend = days.reduce((s, day) => s + day.spend, 0) / days.length;
-      const predictedSpend = Math.round(avgSpend * (0.8 + Math.random() * 0.4));
-      days.push({ date: key, spend: predictedSpend, predicted: true });
+    // Forecast days with their 80% interval; today's actual anchors the forecast line
+    if (forecast?.daily.length) {
+      const today = days[days.length - 1];
+      today.forecast = today.spend;
+      today.band = [today.spend ?? 0, today.spend ?? 0];
+      for (const point of forecast.daily) {
+        days.push({ date: point.date.slice(5), forecast: point.expected, band: [point.lower80, point.upper80], predicted: true });
+      }
     }
     return days;
-  }, [filtered]);
+  }, [filtered, forecast]);
 
-  // Anomaly detection
-  const anomalousExpenses = useMemo(() => {
-    const avgByCategory = totalsByCategory.reduce((acc, cat) => {
-      acc[cat.name] = cat.value / filtered.filter(e => e.category === cat.name).length;
-      return acc;
-    }, {} as Record<string, number>);
-    
-    return filtered.filter(expense => {
-      const categoryAvg = avgByCategory[expense.category] || 0;
-      return expense.amount > categoryAvg * 2; // 2x above average
-    });
-  }, [filtered, totalsByCategory]);
+  // Anomaly flags come from the server, which scores each row against its category and merchant history
+  const anomalousExpenses = useMemo(() => filtered.filter((e) => e.anomaly), [filtered]);
+
+  // Suggest a category as the user types: learned rules, then the local model, then keywords (see /api/categorize)
+  useEffect(() => {
+    const title = titleQuick.trim();
+    if (typeQuick !== "expense" || title.length < 3) {
+      setCategorySuggestion(null);
+      return;
+    }
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
+      let suggestion: CategorySuggestion | null = null;
+      try {
+        const res = await fetch("/api/categorize", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ title, categories }),
+          signal: controller.signal,
+        });
+        if (res.ok) suggestion = await res.json();
+      } catch {
+        if (controller.signal.aborted) return;
+      }
+      // Server unreachable: the shared keyword map still helps
+      const keyword = matchCategoryKeyword(title);
+      if (!suggestion && keyword && categories.includes(keyword)) {
+        suggestion = { category: keyword, confidence: 85, source: "keyword" };
+      }
+      if (controller.signal.aborted) return;
+      setCategorySuggestion(suggestion);
+      if (suggestion && !categoryTouched.current) setCategoryQuick(suggestion.category);
+    }, 400);
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [titleQuick, typeQuick, categories]);
 
   // Actions
   const addQuickExpense = async () => {
     if (!amountQuick || !categoryQuick) return;
-    
-    // AI-powered category suggestion (mock)
-    const suggestedCategory = titleQuick ? 
-      await suggestCategoryFromTitle(titleQuick) : categoryQuick;
-    
-    const newExpense: Expense = {
+
+    // A kept suggestion carries its real confidence; a category the user picked is certain
+    const suggested = typeQuick === "expense" && titleQuick.trim() ? categorySuggestion : null;
+    const keptSuggestion = suggested?.category === categoryQuick;
+    const corrected = suggested && !keptSuggestion ? { title: titleQuick.trim(), category: categoryQuick } : null;
+
+    // Same checks the API runs, so bad input never leaves the form
+    const foreign = currencyQuick !== currencySettings.baseCurrency;
+    const validated = validateExpense({
       id: generateId(),
-      amount: Number(amountQuick),
-      category: suggestedCategory,
+      type: typeQuick,
+      ...(foreign
+        ? { currency: currencyQuick, originalAmount: Number(amountQuick) }
+        : { amount: Number(amountQuick) }),
+      category: categoryQuick,
       date: new Date().toISOString(),
       title: titleQuick || undefined,
       mood: moodQuick,
-      confidence: titleQuick ? 85 : 100, // Lower confidence for auto-categorized
-    };
+      confidence: keptSuggestion && suggested ? suggested.confidence : 100,
+    });
+    const checked = validated.ok ? applyBaseCurrency(validated.value, currencySettings) : validated;
+    if (!checked.ok) {
+      setQuickAddErrors(checked.errors);
+      return;
+    }
+    setQuickAddErrors([]);
+
+    const now = new Date().toISOString();
+    const newExpense: Expense = { ...checked.value, id: checked.value.id ?? generateId(), createdAt: now, updatedAt: now };
 
     setExpenses((p) => [newExpense, ...p]);
+    setServerFiltered(null);
     setTitleQuick("");
     setAmountQuick("");
-    setCategoryQuick(DEFAULT_CATEGORIES[0]);
+    setCategoryQuick(typeQuick === "income" ? INCOME_CATEGORIES[0] : DEFAULT_CATEGORIES[0]);
     setMoodQuick("neutral");
+    setCategorySuggestion(null);
+    categoryTouched.current = false;
+
+    // Not saved: roll back the optimistic row and say why
+    const discard = (message: string) => {
+      setExpenses((p) => p.filter((x) => x.id !== newExpense.id));
+      setToasts((t) => [...t, { id: generateId(), tone: "danger", message: `Expense not saved: ${message}` }]);
+    };
 
     // Persist to API
     try {
-      await fetch("/api/expenses", {
+      const res = await fetch("/api/expenses", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify(newExpense),
       });
+      if (res.ok) {
+        // The server may assign its own id (and converts foreign amounts); keep the local copy in sync
+        const saved = await res.json();
+        if (saved?.id !== undefined) {
+          setExpenses((p) => p.map((x) => (x.id === newExpense.id ? normalizeExpense(saved, 0) : x)));
+        }
+        if (saved?.anomaly && saved.anomalyExplanation) {
+          setToasts((t) => [...t, { id: `anomaly-${saved.id}`, tone: "warning", message: `Unusual expense: ${saved.anomalyExplanation}` }]);
+        }
+        setLedgerVersion((v) => v + 1);
+        refreshBudgetAlerts(true);
+        // Overriding a suggestion teaches the categoriser this merchant's category
+        if (corrected) {
+          fetch("/api/categorize/rules", {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify(corrected),
+          }).catch(() => {});
+        }
+      } else if (res.status === 400) {
+        // Rejected by the server: roll back the optimistic row and surface why
+        const body = await res.json().catch(() => null);
+        setExpenses((p) => p.filter((x) => x.id !== newExpense.id));
+        setQuickAddErrors(Array.isArray(body?.errors) ? body.errors : [{ field: "expense", message: "was rejected" }]);
+      } else {
+        const body = await res.json().catch(() => null);
+        discard(body?.error ?? res.statusText);
+      }
     } catch {
-      // Silent fail for demo
+      discard("the server could not be reached");
     }
+  };
 
-    // Recalculate health score
-    setTimeout(calculateFinancialHealth, 100);
+  // Export exactly what the transactions list shows (category, month and search filters)
+  const exportFiltered = async (format: "csv" | "json" | "xlsx" | "pdf") => {
+    setShowExportMenu(false);
+    setExporting(true);
+    try {
+      const filters = { month: monthFilter, category: catFilter, q: search.trim() };
+      const res =
+        format === "pdf"
+          ? await fetch("/api/reports/monthly", {
+              method: "POST",
+              headers: { "Content-Type": "application/json" },
+              body: JSON.stringify(filters),
+            })
+          : await fetch(`/api/expenses/export?${new URLSearchParams({ ...filters, format, sort: "-date" })}`);
+      if (!res.ok) throw new Error(`Export failed (${res.status})`);
+      const fileName = format === "pdf" ? `statement-${monthFilter}.pdf` : `expenses-${monthFilter}.${format}`;
+      downloadBlob(await res.blob(), fileName);
+    } catch {
+      alert("Export failed. Please try again.");
+    } finally {
+      setExporting(false);
+    }
   };
 
-  // AI category suggestion (mock implementation)
-  const suggestCategoryFromTitle = async (title: string): Promise<string> => {
-    const keywords = {
-      Food: ["restaurant", "food", "lunch", "dinner", "cafe", "pizza", "burger"],
-      Transport: ["uber", "taxi", "bus", "train", "fuel", "petrol", "gas"],
-      Shopping: ["amazon", "flipkart", "mall", "store", "buy", "purchase"],
-      Entertainment: ["movie", "cinema", "game", "netflix", "spotify", "concert"],
-      Bills: ["electricity", "water", "rent", "internet", "phone", "utility"],
-      Health: ["doctor", "medicine", "pharmacy", "hospital", "gym", "fitness"]
-    };
-    
-    const lowerTitle = title.toLowerCase();
-    for (const [category, words] of Object.entries(keywords)) {
-      if (words.some(word => lowerTitle.includes(word))) {
-        return category;
-      }
+  // Tell the detector this amount is normal; it stops flagging the row and similar ones
+  const markAnomalyExpected = async (id: string) => {
+    try {
+      const res = await fetch(`/api/anomalies/${encodeURIComponent(id)}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ expected: true }),
+      });
+      if (!res.ok) return;
+      const reviewed = normalizeExpense(await res.json(), 0);
+      setExpenses((p) => p.map((x) => (x.id === id ? reviewed : x)));
+      setServerFiltered((p) => p && p.map((x) => (x.id === id ? reviewed : x)));
+      setLedgerVersion((v) => v + 1);
+    } catch {
+      // Offline: the flag stays until the next successful review
     }
-    return categoryQuick;
   };
 
-  const deleteExpense = async (id: string | number) => {
+  const deleteExpense = async (id: string) => {
     setExpenses((p) => p.filter((x) => x.id !== id));
-    setTimeout(calculateFinancialHealth, 100);
+    setServerFiltered((p) => p && p.filter((x) => x.id !== id));
+
+    try {
+      await fetch(`/api/expenses/${encodeURIComponent(String(id))}`, { method: "DELETE" });
+      setLedgerVersion((v) => v + 1);
+    } catch {
+      // Silent fail for demo
+    }
   };
 
   const askAiForSavings = async () => {
@@ -796,7 +2166,7 @@ export default function EnhancedDashboardPage() {
         totalsByCategory.map((t) => `${t.name}: ₹${t.value}`).join(", ") : 
         "no expenses recorded";
       
-      const healthContext = `Financial Health Score: ${financialHealth.overall}%. `;
+      const healthContext = healthReport ? `Financial Health Score: ${healthReport.score.overall}%. ` : "";
       const anomalyContext = anomalousExpenses.length > 0 ? 
         `Detected ${anomalousExpenses.length} unusual expenses. ` : "";
       const moodContext = expenses.filter(e => e.mood === "regret").length > 0 ?
@@ -834,23 +2204,62 @@ export default function EnhancedDashboardPage() {
     
     // Show insight
     setAiSuggestion(`Smart Budget Optimization for ${category}: 
-      Based on your spending pattern, suggested limit is ₹${optimizedAmount.toLocaleString()} 
-      (current: ₹${currentBudget.toLocaleString()})`);
+      Based on your spending pattern, suggested limit is ${fmtCurrency(optimizedAmount)} 
+      (current: ${fmtCurrency(currentBudget)})`);
+  };
+
+  // Creates the category's budget on first save, then patches it; the server's copy replaces the local one
+  const saveBudget = async (category: string, changes: Partial<BudgetFields>) => {
+    const existing = budgets.find((b) => b.category === category);
+    if (existing) setBudgets((prev) => prev.map((b) => (b.id === existing.id ? { ...b, ...changes } : b)));
+    try {
+      const res = await fetch(existing ? `/api/budgets/${existing.id}` : "/api/budgets", {
+        method: existing ? "PATCH" : "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(existing ? changes : { category, ...changes }),
+      });
+      const body = await res.json().catch(() => null);
+      if (!res.ok) {
+        setToasts((t) => [
+          ...t,
+          { id: generateId(), tone: "danger", message: `Budget not saved: ${body?.errors ? describeErrors(body.errors) : body?.error ?? res.statusText}` },
+        ]);
+        loadBudgets();
+        return;
+      }
+      // Status is recomputed locally from the ledger
+      const saved: Budget & { status?: BudgetStatus } = body;
+      delete saved.status;
+      setBudgets((prev) => (existing ? prev.map((b) => (b.id === saved.id ? { ...b, ...saved } : b)) : [...prev, saved]));
+    } catch {
+      // Offline: the local edit stays until the next load
+    }
+  };
+
+  const removeBudget = async (id: string) => {
+    setBudgets((prev) => prev.filter((b) => b.id !== id));
+    setBudgetAlerts((prev) => prev.filter((a) => a.budgetId !== id));
+    try {
+      await fetch(`/api/budgets/${id}`, { method: "DELETE" });
+    } catch {
+      loadBudgets();
+    }
   };
 
+  // A limit of 0 removes the category's budget
   const setBudgetLimit = (category: string, limit: number) => {
-    setBudgets((prev) => {
-      const exists = prev.find((b) => b.category === category);
-      if (exists) return prev.map((b) => (b.category === category ? { ...b, limit } : b));
-      return [...prev, { category, limit, priority: "medium" }];
-    });
+    const existing = budgets.find((b) => b.category === category);
+    if (limit > 0 && limit !== existing?.limit) saveBudget(category, { limit });
+    else if (limit <= 0 && existing) removeBudget(existing.id);
   };
 
   // Enhanced KPI calculations
+  const healthOverall = healthReport?.score.overall ?? null;
   const kpiData = useMemo(() => {
     const avgDaily = totalSpend / new Date().getDate();
     const projectedMonthly = avgDaily * 30;
-    const savingsRate = financialGoals.reduce((s, g) => s + g.current, 0) / totalSpend || 0;
+    // Share of this month's income left after spending; null until income is recorded
+    const savingsRate = currentFlow.savingsRate;
     
     return {
       monthlySpend: {
@@ -867,11 +2276,15 @@ export default function EnhancedDashboardPage() {
         trend: "up" as const
       },
       healthScore: {
-        value: `${financialHealth.overall}%`,
-        trend: financialHealth.overall > 70 ? "up" : financialHealth.overall < 50 ? "down" : "stable" as const
+        value: healthOverall === null ? "—" : `${healthOverall}%`,
+        trend: healthOverall === null ? "stable" : healthOverall > 70 ? "up" : healthOverall < 50 ? "down" : "stable" as const
+      },
+      savingsRate: {
+        value: savingsRate === null ? "—" : `${Math.round(savingsRate * 100)}%`,
+        trend: savingsRate === null ? "stable" : savingsRate > 0 ? "up" : "down" as const
       }
     };
-  }, [totalSpend, totalsByCategory, filtered, financialHealth]);
+  }, [totalSpend, totalsByCategory, filtered, healthOverall, currentFlow, fmtCurrency]);
 
   return (
     <div className={`min-h-screen transition-all duration-500 ${darkMode ? 'dark' : ''}`}>
@@ -1039,30 +2452,71 @@ export default function EnhancedDashboardPage() {
               </div>
               
               <div className="space-y-4">
+                <div className="grid grid-cols-4 gap-1 p-1 rounded-xl bg-gray-100 dark:bg-gray-800">
+                  {TRANSACTION_TYPES.map((type) => (
+                    <button
+                      key={type}
+                      onClick={() => {
+                        setTypeQuick(type);
+                        setCategoryQuick(type === "income" ? INCOME_CATEGORIES[0] : DEFAULT_CATEGORIES[0]);
+                      }}
+                      className={`py-1.5 rounded-lg text-xs font-medium capitalize transition-all ${
+                        typeQuick === type
+                          ? "bg-white dark:bg-gray-700 shadow text-gray-900 dark:text-gray-100"
+                          : "text-gray-600 dark:text-gray-400"
+                      }`}
+                    >
+                      {type}
+                    </button>
+                  ))}
+                </div>
+
                 <Input 
-                  placeholder="What did you buy? (AI will categorize)" 
+                  placeholder={typeQuick === "expense" ? "What did you buy? (AI will categorize)" : "Description (e.g. March salary)"} 
                   value={titleQuick} 
                   onChange={(e) => setTitleQuick(e.target.value)}
                   className="rounded-xl border-gray-200 dark:border-gray-700"
                 />
                 
                 <div className="grid grid-cols-2 gap-3">
-                  <Input 
-                    id="quick-add-amount"
-                    placeholder="Amount" 
-                    type="number" 
-                    value={amountQuick} 
-                    onChange={(e) => setAmountQuick(e.target.value)}
-                    className="rounded-xl"
-                  />
+                  <div className="flex gap-1">
+                    <Input 
+                      id="quick-add-amount"
+                      placeholder="Amount" 
+                      type="number" 
+                      value={amountQuick} 
+                      onChange={(e) => setAmountQuick(e.target.value)}
+                      className="rounded-xl min-w-0"
+                    />
+                    <select
+                      aria-label="Currency"
+                      className="rounded-xl border border-gray-200 dark:border-gray-700 px-1 py-2 text-xs bg-white dark:bg-gray-800"
+                      value={currencyQuick}
+                      onChange={(e) => setCurrencyQuick(e.target.value)}
+                    >
+                      {[currencySettings.baseCurrency, ...currencySettings.rates.map((r) => r.currency)].map((c) => (
+                        <option key={c}>{c}</option>
+                      ))}
+                    </select>
+                  </div>
                   <select 
                     className="rounded-xl border border-gray-200 dark:border-gray-700 px-3 py-2 bg-white dark:bg-gray-800" 
                     value={categoryQuick} 
-                    onChange={(e) => setCategoryQuick(e.target.value)}
+                    onChange={(e) => {
+                      setCategoryQuick(e.target.value);
+                      categoryTouched.current = true;
+                    }}
                   >
-                    {categories.map((c) => <option key={c}>{c}</option>)}
+                    {(typeQuick === "income" ? INCOME_CATEGORIES : categories).map((c) => <option key={c}>{c}</option>)}
                   </select>
                 </div>
+                {categorySuggestion && typeQuick === "expense" && (
+                  <p className="text-xs text-gray-500 dark:text-gray-400 -mt-2">
+                    Suggested: {categorySuggestion.category} · {categorySuggestion.confidence}%{" "}
+                    ({SUGGESTION_SOURCE_LABELS[categorySuggestion.source]})
+                    {categorySuggestion.category !== categoryQuick && " — your choice will be remembered"}
+                  </p>
+                )}
 
                 {/* Mood Selector */}
                 <div>
@@ -1088,19 +2542,26 @@ export default function EnhancedDashboardPage() {
                   </div>
                 </div>
 
+                {quickAddErrors.length > 0 && (
+                  <div className="flex items-start gap-2 p-3 rounded-xl bg-red-50 text-red-700 text-xs border border-red-200" role="alert">
+                    <AlertTriangle className="w-4 h-4 shrink-0" />
+                    <span>{describeErrors(quickAddErrors)}</span>
+                  </div>
+                )}
+
                 <Button 
                   onClick={addQuickExpense} 
                   className={`w-full rounded-xl bg-gradient-to-r ${palette.gradient} text-white shadow-lg hover:shadow-xl transition-all`}
                   disabled={!amountQuick}
                 >
                   <Plus className="w-4 h-4 mr-2" />
-                  Add Expense
+                  {typeQuick === "expense" ? "Add Expense" : `Add ${typeQuick[0].toUpperCase()}${typeQuick.slice(1)}`}
                 </Button>
               </div>
             </GlassmorphismCard>
 
             {/* Financial Health Meter */}
-            <FinancialHealthMeter score={financialHealth} />
+            <FinancialHealthMeter report={healthReport} />
 
             {/* AI Insights CTA */}
             <GlassmorphismCard className={`p-6 bg-gradient-to-br ${palette.gradient} text-white`} depth={3}>
@@ -1145,7 +2606,7 @@ export default function EnhancedDashboardPage() {
                     animate={{ opacity: 1, height: "auto" }}
                     exit={{ opacity: 0, height: 0 }}
                   >
-                    <div className="text-sm leading-relaxed">{aiSuggestion}</div>
+                    <Markdown content={aiSuggestion} />
                   </motion.div>
                 )}
               </AnimatePresence>
@@ -1164,7 +2625,7 @@ export default function EnhancedDashboardPage() {
                     value={catFilter} 
                     onChange={(e) => setCatFilter(e.target.value as any)}
                   >
-                    <option>All Categories</option>
+                    <option value="All">All Categories</option>
                     {categories.map((c) => <option key={c}>{c}</option>)}
                   </select>
                 </div>
@@ -1243,7 +2704,7 @@ export default function EnhancedDashboardPage() {
                 <div className="flex items-center justify-between mb-6">
                   <div>
                     <h3 className="font-bold text-lg">Spending Trend</h3>
-                    <p className="text-sm text-gray-600 dark:text-gray-400">Last 12 days + 5 day prediction</p>
+                    <p className="text-sm text-gray-600 dark:text-gray-400">Last 12 days + 5 day forecast with 80% range</p>
                   </div>
                   <div className="flex items-center gap-2">
                     <div className="flex items-center gap-1">
@@ -1258,7 +2719,7 @@ export default function EnhancedDashboardPage() {
                 </div>
                 <div className="h-80">
                   <ResponsiveContainer width="100%" height="100%">
-                    <LineChart data={trendData}>
+                    <ComposedChart data={trendData}>
                       <defs>
                         <linearGradient id="actualGradient" x1="0" x2="0" y1="0" y2="1">
                           <stop offset="0%" stopColor={palette.colors[0]} stopOpacity={0.3} />
@@ -1273,12 +2734,21 @@ export default function EnhancedDashboardPage() {
                       <XAxis dataKey="date" tick={{ fontSize: 12 }} />
                       <YAxis tick={{ fontSize: 12 }} />
                       <Tooltip 
-                        formatter={(value: any, name: string, props: any) => [
-                          fmtCurrency(Number(value)), 
-                          props.payload.predicted ? "Predicted Spend" : "Actual Spend"
+                        formatter={(value, name) => [
+                          Array.isArray(value)
+                            ? `${fmtCurrency(Number(value[0]))} – ${fmtCurrency(Number(value[1]))}`
+                            : fmtCurrency(Number(value)),
+                          name === "band" ? "80% range" : name === "forecast" ? "Forecast" : "Actual Spend"
                         ]}
                         labelFormatter={(date) => `Date: ${date}`}
                       />
+                      <Area
+                        type="monotone"
+                        dataKey="band"
+                        stroke="none"
+                        fill="url(#predictedGradient)"
+                        isAnimationActive={false}
+                      />
                       <Area 
                         type="monotone" 
                         dataKey="spend" 
@@ -1287,12 +2757,83 @@ export default function EnhancedDashboardPage() {
                         strokeWidth={3}
                         dot={{ fill: palette.colors[0], strokeWidth: 2, r: 4 }}
                       />
-                    </LineChart>
+                      <Line
+                        type="monotone"
+                        dataKey="forecast"
+                        stroke="#8B5CF6"
+                        strokeWidth={2}
+                        strokeDasharray="6 4"
+                        dot={{ fill: "#8B5CF6", r: 3 }}
+                      />
+                    </ComposedChart>
                   </ResponsiveContainer>
                 </div>
               </GlassmorphismCard>
             </div>
 
+            {/* Cash Flow Section */}
+            <GlassmorphismCard className="p-6" depth={2}>
+              <div className="flex items-center justify-between mb-6">
+                <div className="flex items-center gap-2">
+                  <Banknote className="w-6 h-6 text-emerald-500" />
+                  <div>
+                    <h3 className="font-bold text-lg">Cash Flow</h3>
+                    <p className="text-sm text-gray-600 dark:text-gray-400">Income vs. spending, last 6 months</p>
+                  </div>
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+                {[
+                  { label: "Income", value: fmtCurrency(currentFlow.income), tone: "text-emerald-600" },
+                  { label: "Spending", value: fmtCurrency(currentFlow.spending), tone: "text-rose-600" },
+                  {
+                    label: "Net",
+                    value: `${currentFlow.net < 0 ? "-" : ""}${fmtCurrency(Math.abs(currentFlow.net))}`,
+                    tone: currentFlow.net < 0 ? "text-rose-600" : "text-emerald-600",
+                  },
+                  { label: "Savings rate", value: kpiData.savingsRate.value, tone: "text-blue-600" },
+                ].map((stat) => (
+                  <div key={stat.label} className="p-4 rounded-2xl bg-gray-50 dark:bg-gray-800/50">
+                    <div className="text-xs text-gray-500">{stat.label}</div>
+                    <div className={`text-xl font-bold ${stat.tone}`}>{stat.value}</div>
+                  </div>
+                ))}
+              </div>
+
+              <div className="h-72">
+                <ResponsiveContainer width="100%" height="100%">
+                  <BarChart data={cashFlow}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="#E5E7EB" />
+                    <XAxis dataKey="month" tick={{ fontSize: 12 }} />
+                    <YAxis tick={{ fontSize: 12 }} />
+                    <Tooltip formatter={(v) => fmtCurrency(Number(v))} />
+                    <Legend />
+                    <Bar dataKey="income" name="Income" fill="#10B981" radius={[6, 6, 0, 0]} />
+                    <Bar dataKey="spending" name="Spending" fill="#F43F5E" radius={[6, 6, 0, 0]} />
+                    <Bar dataKey="net" name="Net" fill="#3B82F6" radius={[6, 6, 0, 0]} />
+                  </BarChart>
+                </ResponsiveContainer>
+              </div>
+            </GlassmorphismCard>
+
+            {/* Recurring Rules & Subscriptions */}
+            <RecurringPanel
+              categories={categories}
+              refreshKey={ledgerVersion}
+              onExpensesCreated={(created) => {
+                setExpenses((p) => [...created.map(normalizeExpense), ...p]);
+                setLedgerVersion((v) => v + 1);
+              }}
+              fmtCurrency={fmtCurrency}
+            />
+
+            <GoalsPanel goals={financialGoals} onChanged={loadGoals} fmtCurrency={fmtCurrency} />
+
+            {budgetAlerts.length > 0 && (
+              <BudgetAlertsPanel alerts={budgetAlerts} onDismiss={dismissBudgetAlert} fmtCurrency={fmtCurrency} />
+            )}
+
             {/* Smart Budgets Section */}
             <GlassmorphismCard className="p-6" depth={2}>
               <div className="flex items-center justify-between mb-6">
@@ -1314,25 +2855,32 @@ export default function EnhancedDashboardPage() {
               </div>
               
               <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-                {budgets.map((budget) => {
-                  const spent = totalsByCategory.find(t => t.name === budget.category)?.value || 0;
-                  return (
-                    <SmartBudgetCard
-                      key={budget.category}
-                      budget={budget}
-                      spent={spent}
-                      palette={palette}
-                      onOptimize={() => optimizeBudget(budget.category)}
-                    />
-                  );
-                })}
+                {budgetsWithStatus.map(({ budget, status }) => (
+                  <SmartBudgetCard
+                    key={budget.id}
+                    budget={budget}
+                    status={status}
+                    palette={palette}
+                    onOptimize={() => optimizeBudget(budget.category)}
+                    fmtCurrency={fmtCurrency}
+                  />
+                ))}
+                {budgets.length === 0 && (
+                  <div className="col-span-full text-sm text-gray-500">
+                    No budgets yet. Use Manage to set a monthly, weekly or custom limit per category.
+                  </div>
+                )}
               </div>
             </GlassmorphismCard>
 
             {/* Advanced Analytics Row */}
             <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-              <ExpensePredictionCard predictions={expensePredictions} />
-              <SpendingPatternInsights patterns={spendingPatterns} />
+              <ExpensePredictionCard
+                predictions={forecast?.categories.slice(0, 4) ?? []}
+                periodDays={forecast?.periodDays ?? 30}
+                fmtCurrency={fmtCurrency}
+              />
+              <SpendingPatternInsights patterns={spendingPatterns.slice(0, 4)} />
             </div>
 
             {/* Enhanced Transactions List */}
@@ -1345,12 +2893,48 @@ export default function EnhancedDashboardPage() {
                       {filtered.length} transactions • {fmtCurrency(totalSpend)} total
                     </p>
                   </div>
-                  {anomalousExpenses.length > 0 && (
-                    <div className="flex items-center gap-2 px-3 py-1 bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-300 rounded-full text-sm">
-                      <AlertTriangle className="w-4 h-4" />
-                      {anomalousExpenses.length} anomalies detected
+                  <div className="flex items-center gap-2">
+                    <div className="relative">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setShowExportMenu((v) => !v)}
+                        disabled={exporting || filtered.length === 0}
+                        className="rounded-xl"
+                      >
+                        <Download className="w-4 h-4 mr-1" />
+                        {exporting ? "Exporting..." : "Export"}
+                      </Button>
+                      {showExportMenu && (
+                        <div className="absolute right-0 mt-2 w-48 z-20 rounded-xl border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-900 shadow-lg py-1 text-sm">
+                          {([
+                            ["csv", "CSV spreadsheet"],
+                            ["xlsx", "Excel workbook"],
+                            ["json", "JSON data"],
+                            ["pdf", "Monthly PDF statement"],
+                          ] as const).map(([format, label]) => (
+                            <button
+                              key={format}
+                              onClick={() => exportFiltered(format)}
+                              className="w-full text-left px-4 py-2 hover:bg-gray-100 dark:hover:bg-gray-800"
+                            >
+                              {label}
+                            </button>
+                          ))}
+                        </div>
+                      )}
                     </div>
-                  )}
+                    <Button variant="outline" size="sm" onClick={() => setShowImport(true)} className="rounded-xl">
+                      <Banknote className="w-4 h-4 mr-1" />
+                      Import
+                    </Button>
+                    {anomalousExpenses.length > 0 && (
+                      <div className="flex items-center gap-2 px-3 py-1 bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-300 rounded-full text-sm">
+                        <AlertTriangle className="w-4 h-4" />
+                        {anomalousExpenses.length} anomalies detected
+                      </div>
+                    )}
+                  </div>
                 </div>
               </div>
               
@@ -1377,9 +2961,9 @@ export default function EnhancedDashboardPage() {
                       <div className="text-sm">Try adjusting your filters or add a new expense</div>
                     </motion.div>
                   ) : (
-                    filtered.slice(0, 20).map((expense, index) => {
+                    filtered.slice(0, visibleCount).map((expense, index) => {
                       const Icon = CATEGORY_ICONS[expense.category] || Sparkles;
-                      const isAnomaly = anomalousExpenses.some(a => a.id === expense.id);
+                      const isAnomaly = Boolean(expense.anomaly);
                       const moodColors = {
                         happy: "bg-green-50 text-green-700 border-green-200",
                         neutral: "bg-gray-50 text-gray-700 border-gray-200",
@@ -1419,8 +3003,16 @@ export default function EnhancedDashboardPage() {
                                      expense.mood === "stressed" ? "😰" : "😞"}
                                   </span>
                                 )}
+                                {transactionType(expense) !== "expense" && (
+                                  <span className="px-2 py-0.5 bg-green-100 text-green-700 rounded-full text-xs font-medium capitalize">
+                                    {transactionType(expense)}
+                                  </span>
+                                )}
                                 {isAnomaly && (
-                                  <span className="px-2 py-0.5 bg-red-100 text-red-700 rounded-full text-xs font-medium">
+                                  <span
+                                    className="px-2 py-0.5 bg-red-100 text-red-700 rounded-full text-xs font-medium"
+                                    title={expense.anomalyExplanation}
+                                  >
                                     <AlertTriangle className="w-3 h-3 inline mr-1" />
                                     Unusual
                                   </span>
@@ -1445,14 +3037,41 @@ export default function EnhancedDashboardPage() {
                                   </>
                                 )}
                               </div>
+                              {isAnomaly && expense.anomalyExplanation && (
+                                <div className="flex items-center gap-2 mt-1 text-xs text-red-600 dark:text-red-400">
+                                  <span className="truncate">{expense.anomalyExplanation}</span>
+                                  <button
+                                    type="button"
+                                    onClick={() => markAnomalyExpected(expense.id)}
+                                    className="shrink-0 underline hover:text-red-800"
+                                  >
+                                    This is expected
+                                  </button>
+                                </div>
+                              )}
                             </div>
                             
                             {/* Amount and Actions */}
                             <div className="flex items-center gap-3">
                               <div className="text-right">
-                                <div className="text-lg font-bold text-gray-900 dark:text-gray-100">
+                                <div className={`text-lg font-bold ${
+                                  transactionType(expense) === "income" || transactionType(expense) === "refund"
+                                    ? "text-green-600 dark:text-green-400"
+                                    : transactionType(expense) === "transfer"
+                                    ? "text-gray-500"
+                                    : "text-gray-900 dark:text-gray-100"
+                                }`}>
+                                  {transactionType(expense) === "income" || transactionType(expense) === "refund" ? "+" : ""}
                                   {fmtCurrency(expense.amount)}
                                 </div>
+                                {expense.currency && expense.originalAmount !== undefined && (
+                                  <div
+                                    className="text-xs text-gray-500"
+                                    title={`Entered as ${fmtCurrency(expense.originalAmount, expense.currency)}, converted at the stored rate`}
+                                  >
+                                    {fmtCurrency(expense.originalAmount, expense.currency)}
+                                  </div>
+                                )}
                                 <div className="text-xs text-gray-500">
                                   {new Date(expense.date).toLocaleTimeString([], {
                                     hour: '2-digit',
@@ -1476,11 +3095,11 @@ export default function EnhancedDashboardPage() {
                   )}
                 </AnimatePresence>
                 
-                {filtered.length > 20 && (
+                {filtered.length > visibleCount && (
                   <div className="p-4 text-center">
-                    <Button variant="ghost" className="rounded-xl">
+                    <Button variant="ghost" className="rounded-xl" onClick={() => setVisibleCount((n) => n + PAGE_SIZE)}>
                       <ChevronRight className="w-4 h-4 mr-2" />
-                      Load More ({filtered.length - 20} remaining)
+                      Load More ({filtered.length - visibleCount} remaining)
                     </Button>
                   </div>
                 )}
@@ -1673,6 +3292,13 @@ export default function EnhancedDashboardPage() {
                       </div>
                     </div>
                   </div>
+
+                  {/* Currency & exchange rates */}
+                  <CurrencySettingsSection
+                    settings={currencySettings}
+                    onRatesChange={setCurrencySettings}
+                    onBaseCurrencyChange={applyBaseCurrencyChange}
+                  />
                 </div>
 
                 <div className="flex justify-end gap-3 mt-8 pt-6 border-t border-gray-200 dark:border-gray-700">
@@ -1731,7 +3357,7 @@ export default function EnhancedDashboardPage() {
                   {budgets.map((budget) => {
                     const Icon = CATEGORY_ICONS[budget.category] || Sparkles;
                     return (
-                      <div key={budget.category} className="p-4 border border-gray-200 dark:border-gray-700 rounded-2xl">
+                      <div key={budget.id} className="p-4 border border-gray-200 dark:border-gray-700 rounded-2xl">
                         <div className="flex items-center gap-3 mb-3">
                           <div className={`p-2 rounded-xl bg-gradient-to-br ${palette.gradient}`}>
                             <Icon className="w-4 h-4 text-white" />
@@ -1742,6 +3368,13 @@ export default function EnhancedDashboardPage() {
                               Current limit: {fmtCurrency(budget.limit)}
                             </div>
                           </div>
+                          <button
+                            className="text-gray-400 hover:text-red-500"
+                            onClick={() => removeBudget(budget.id)}
+                            title="Delete budget"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </button>
                         </div>
                         
                         <div className="space-y-3">
@@ -1752,22 +3385,56 @@ export default function EnhancedDashboardPage() {
                             className="rounded-xl"
                           />
                           
+                          <div className="flex items-center justify-between text-sm">
+                            <span>Period:</span>
+                            <div className="flex items-center gap-2">
+                              {budget.period === "custom" && (
+                                <Input
+                                  type="number"
+                                  min={1}
+                                  defaultValue={budget.periodDays ?? 14}
+                                  onBlur={(e) => {
+                                    const days = Math.round(Number(e.target.value));
+                                    if (days >= 1 && days !== budget.periodDays) saveBudget(budget.category, { periodDays: days });
+                                  }}
+                                  className="w-20 h-8 rounded-lg text-sm"
+                                  title="Days per period"
+                                />
+                              )}
+                              <select 
+                                className="rounded-lg border border-gray-200 dark:border-gray-700 px-2 py-1 text-sm capitalize"
+                                value={budget.period}
+                                onChange={(e) => {
+                                  const period = e.target.value as BudgetFields["period"];
+                                  saveBudget(budget.category, period === "custom"
+                                    ? { period, periodDays: budget.periodDays ?? 14 }
+                                    : { period });
+                                }}
+                              >
+                                {BUDGET_PERIODS.map((p) => <option key={p} value={p}>{p}</option>)}
+                              </select>
+                            </div>
+                          </div>
+
+                          <label className="flex items-center justify-between text-sm">
+                            <span>Roll unspent money into the next period</span>
+                            <input
+                              type="checkbox"
+                              checked={budget.rollover}
+                              onChange={(e) => saveBudget(budget.category, { rollover: e.target.checked })}
+                            />
+                          </label>
+
                           <div className="flex items-center justify-between text-sm">
                             <span>Priority:</span>
                             <select 
                               className="rounded-lg border border-gray-200 dark:border-gray-700 px-2 py-1 text-sm"
-                              defaultValue={budget.priority}
-                              onChange={(e) => {
-                                setBudgets(prev => prev.map(b => 
-                                  b.category === budget.category 
-                                    ? { ...b, priority: e.target.value as any }
-                                    : b
-                                ));
-                              }}
+                              value={budget.priority}
+                              onChange={(e) => saveBudget(budget.category, { priority: e.target.value as BudgetPriority })}
                             >
-                              <option value="high">High</option>
-                              <option value="medium">Medium</option>
-                              <option value="low">Low</option>
+                              {BUDGET_PRIORITIES.map((p) => (
+                                <option key={p} value={p}>{p[0].toUpperCase()}{p.slice(1)}</option>
+                              ))}
                             </select>
                           </div>
                           
@@ -1782,6 +3449,41 @@ export default function EnhancedDashboardPage() {
                       </div>
                     );
                   })}
+
+                  {/* New budget for a category that has none */}
+                  <div className="p-4 border border-dashed border-gray-300 dark:border-gray-700 rounded-2xl space-y-3">
+                    <div className="font-medium text-sm">Add a budget</div>
+                    <div className="flex gap-2">
+                      <select
+                        className="flex-1 rounded-xl border border-gray-200 dark:border-gray-700 px-2 py-2 text-sm bg-white dark:bg-gray-800"
+                        value={newBudget.category}
+                        onChange={(e) => setNewBudget((p) => ({ ...p, category: e.target.value }))}
+                      >
+                        <option value="">Category…</option>
+                        {categories.filter((c) => !budgets.some((b) => b.category === c)).map((c) => (
+                          <option key={c}>{c}</option>
+                        ))}
+                      </select>
+                      <Input
+                        type="number"
+                        placeholder="Limit"
+                        value={newBudget.limit}
+                        onChange={(e) => setNewBudget((p) => ({ ...p, limit: e.target.value }))}
+                        className="w-28 rounded-xl"
+                      />
+                    </div>
+                    <Button
+                      className="w-full rounded-xl"
+                      disabled={!newBudget.category || !(Number(newBudget.limit) > 0)}
+                      onClick={() => {
+                        saveBudget(newBudget.category, { limit: Number(newBudget.limit) });
+                        setNewBudget({ category: "", limit: "" });
+                      }}
+                    >
+                      <Plus className="w-4 h-4 mr-2" />
+                      Add Budget
+                    </Button>
+                  </div>
                 </div>
               </div>
             </motion.div>
@@ -1789,6 +3491,20 @@ export default function EnhancedDashboardPage() {
         )}
       </AnimatePresence>
 
+      <StatementImportModal
+        open={showImport}
+        categories={categories}
+        onClose={() => setShowImport(false)}
+        onImported={(imported) => {
+          setExpenses((p) => [...imported.map(normalizeExpense), ...p]);
+          setLedgerVersion((v) => v + 1);
+          refreshBudgetAlerts(true);
+        }}
+        fmtCurrency={fmtCurrency}
+      />
+
+      <ToastStack toasts={toasts} onClose={(id) => setToasts((t) => t.filter((x) => x.id !== id))} />
+
       {/* Floating Action Button */}
       <motion.button
         onClick={() => document.getElementById('quick-add-amount')?.focus()}
@@ -0,0 +1,289 @@
+"use client";
+
+/**
+ * components/markdown.tsx
+ * Renders model output as Markdown. Everything goes through React elements
+ * built from the parsed tree (never dangerouslySetInnerHTML), so a reply
+ * containing HTML or script shows up as text.
+ */
+
+import React, { useEffect, useMemo, useState } from "react";
+import { Check, Copy } from "lucide-react";
+
+import { cn } from "@/lib/utils";
+import {
+  grammarName,
+  highlight,
+  parseMarkdown,
+  parseTex,
+  type Block,
+  type HighlightTokenType,
+  type Inline,
+  type MathNode,
+} from "@/lib/markdown";
+
+const TOKEN_CLASSES: Record<HighlightTokenType, string> = {
+  plain: "",
+  keyword: "text-purple-600 dark:text-purple-400",
+  string: "text-emerald-700 dark:text-emerald-400",
+  number: "text-amber-700 dark:text-amber-400",
+  comment: "text-gray-500 italic",
+  literal: "text-sky-700 dark:text-sky-400",
+};
+
+const HEADING_CLASSES = ["text-lg font-bold", "text-base font-bold", "text-base font-semibold", "font-semibold", "font-semibold", "font-semibold"];
+
+function MathNodes({ nodes }: { nodes: MathNode[] }) {
+  return (
+    <>
+      {nodes.map((node, i) => {
+        switch (node.type) {
+          case "text":
+            return node.variable ? <i key={i}>{node.text}</i> : <span key={i}>{node.text}</span>;
+          case "sup":
+            return (
+              <sup key={i} className="text-[0.75em]">
+                <MathNodes nodes={node.children} />
+              </sup>
+            );
+          case "sub":
+            return (
+              <sub key={i} className="text-[0.75em]">
+                <MathNodes nodes={node.children} />
+              </sub>
+            );
+          case "sqrt":
+            return (
+              <span key={i} className="inline-flex items-baseline">
+                √<span className="border-t border-current px-0.5">
+                  <MathNodes nodes={node.children} />
+                </span>
+              </span>
+            );
+          case "frac":
+            return (
+              <span key={i} className="inline-flex flex-col items-center align-middle text-[0.9em] leading-tight mx-0.5">
+                <span className="px-0.5">
+                  <MathNodes nodes={node.num} />
+                </span>
+                <span className="border-t border-current w-full text-center px-0.5">
+                  <MathNodes nodes={node.den} />
+                </span>
+              </span>
+            );
+        }
+      })}
+    </>
+  );
+}
+
+function MathFormula({ tex, display }: { tex: string; display?: boolean }) {
+  const nodes = useMemo(() => parseTex(tex), [tex]);
+  return (
+    <span
+      className={cn("font-serif whitespace-nowrap", display && "block text-center text-base my-2 overflow-x-auto")}
+      title={tex}
+      role="math"
+      aria-label={tex}
+    >
+      <MathNodes nodes={nodes} />
+    </span>
+  );
+}
+
+function Inlines({ nodes }: { nodes: Inline[] }) {
+  return (
+    <>
+      {nodes.map((node, i) => {
+        switch (node.type) {
+          case "text":
+            return <React.Fragment key={i}>{node.text}</React.Fragment>;
+          case "strong":
+            return (
+              <strong key={i} className="font-semibold">
+                <Inlines nodes={node.children} />
+              </strong>
+            );
+          case "em":
+            return (
+              <em key={i}>
+                <Inlines nodes={node.children} />
+              </em>
+            );
+          case "strike":
+            return (
+              <s key={i}>
+                <Inlines nodes={node.children} />
+              </s>
+            );
+          case "code":
+            return (
+              <code key={i} className="px-1 py-0.5 rounded bg-black/5 dark:bg-white/10 font-mono text-[0.85em]">
+                {node.text}
+              </code>
+            );
+          case "math":
+            return <MathFormula key={i} tex={node.tex} />;
+          case "link":
+            return (
+              <a
+                key={i}
+                href={node.href}
+                target="_blank"
+                rel="noopener noreferrer nofollow"
+                className="text-blue-600 dark:text-blue-400 underline underline-offset-2 break-words"
+              >
+                <Inlines nodes={node.children} />
+              </a>
+            );
+          case "break":
+            return <br key={i} />;
+        }
+      })}
+    </>
+  );
+}
+
+function CodeBlock({ lang, text }: { lang: string; text: string }) {
+  const [copied, setCopied] = useState(false);
+  const tokens = useMemo(() => highlight(text, lang), [text, lang]);
+
+  useEffect(() => {
+    if (!copied) return;
+    const timer = setTimeout(() => setCopied(false), 1500);
+    return () => clearTimeout(timer);
+  }, [copied]);
+
+  return (
+    <div className="my-2 rounded-lg border border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-900/60 overflow-hidden">
+      <div className="flex items-center justify-between px-3 py-1 text-xs text-gray-500 border-b border-gray-200 dark:border-gray-700">
+        <span className="font-mono">{grammarName(lang) ? lang : lang || "text"}</span>
+        <button
+          type="button"
+          onClick={() => navigator.clipboard.writeText(text).then(() => setCopied(true), () => setCopied(false))}
+          className="inline-flex items-center gap-1 hover:text-gray-900 dark:hover:text-gray-100"
+          title="Copy code"
+        >
+          {copied ? <Check className="w-3 h-3" /> : <Copy className="w-3 h-3" />}
+          {copied ? "Copied" : "Copy"}
+        </button>
+      </div>
+      <pre className="p-3 overflow-x-auto text-xs leading-relaxed font-mono">
+        <code>
+          {tokens.map((token, i) => (
+            <span key={i} className={TOKEN_CLASSES[token.type] || undefined}>
+              {token.text}
+            </span>
+          ))}
+        </code>
+      </pre>
+    </div>
+  );
+}
+
+function Blocks({ blocks, tight }: { blocks: Block[]; tight?: boolean }) {
+  return (
+    <>
+      {blocks.map((block, i) => {
+        switch (block.type) {
+          case "paragraph":
+            return tight ? (
+              <span key={i} className="block">
+                <Inlines nodes={block.children} />
+              </span>
+            ) : (
+              <p key={i} className="my-2 first:mt-0 last:mb-0">
+                <Inlines nodes={block.children} />
+              </p>
+            );
+          case "heading": {
+            const Tag = `h${block.level}` as const;
+            return (
+              <Tag key={i} className={cn("mt-3 mb-1 first:mt-0", HEADING_CLASSES[block.level - 1])}>
+                <Inlines nodes={block.children} />
+              </Tag>
+            );
+          }
+          case "code":
+            return <CodeBlock key={i} lang={block.lang} text={block.text} />;
+          case "math":
+            return <MathFormula key={i} tex={block.tex} display />;
+          case "list": {
+            const items = block.items.map((item, j) => (
+              <li key={j} className={cn(item.checked !== null && "list-none -ml-5 flex gap-2 items-start")}>
+                {item.checked !== null && (
+                  <input type="checkbox" checked={item.checked} readOnly disabled className="mt-1" aria-label={item.checked ? "Done" : "Not done"} />
+                )}
+                <div className="min-w-0">
+                  <Blocks blocks={item.children} tight={block.tight} />
+                </div>
+              </li>
+            ));
+            const listClass = cn("my-2 pl-5 space-y-1 first:mt-0 last:mb-0", block.ordered ? "list-decimal" : "list-disc");
+            return block.ordered ? (
+              <ol key={i} start={block.start} className={listClass}>
+                {items}
+              </ol>
+            ) : (
+              <ul key={i} className={listClass}>
+                {items}
+              </ul>
+            );
+          }
+          case "blockquote":
+            return (
+              <blockquote key={i} className="my-2 pl-3 border-l-4 border-gray-300 dark:border-gray-600 text-gray-600 dark:text-gray-300">
+                <Blocks blocks={block.children} />
+              </blockquote>
+            );
+          case "table":
+            return (
+              <div key={i} className="my-2 overflow-x-auto">
+                <table className="min-w-full text-xs border-collapse">
+                  <thead>
+                    <tr>
+                      {block.header.map((cell, c) => (
+                        <th
+                          key={c}
+                          className="border border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-800 px-2 py-1 font-semibold"
+                          style={{ textAlign: block.align[c] ?? "left" }}
+                        >
+                          <Inlines nodes={cell} />
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {block.rows.map((row, r) => (
+                      <tr key={r}>
+                        {row.map((cell, c) => (
+                          <td
+                            key={c}
+                            className="border border-gray-200 dark:border-gray-700 px-2 py-1 tabular-nums"
+                            style={{ textAlign: block.align[c] ?? undefined }}
+                          >
+                            <Inlines nodes={cell} />
+                          </td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            );
+          case "hr":
+            return <hr key={i} className="my-3 border-gray-200 dark:border-gray-700" />;
+        }
+      })}
+    </>
+  );
+}
+
+export function Markdown({ content, className }: { content: string; className?: string }) {
+  const blocks = useMemo(() => parseMarkdown(content), [content]);
+  return (
+    <div className={cn("text-sm leading-relaxed break-words", className)}>
+      <Blocks blocks={blocks} />
+    </div>
+  );
+}
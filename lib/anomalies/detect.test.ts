@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest";
+import type { Expense } from "@/lib/expenses/types";
+import { detectAnomalies } from "./detect";
+
+let seq = 0;
+const row = (amount: number, day: number, overrides: Partial<Expense> = {}) =>
+  ({
+    id: `r${String(++seq).padStart(3, "0")}`,
+    type: "expense",
+    title: "Swiggy order",
+    amount,
+    category: "Food",
+    date: new Date(Date.UTC(2025, 0, day)).toISOString(),
+    ...overrides,
+  }) as Expense;
+
+/** Ten ordinary food orders on days 1-10. */
+const usual = () => [310, 290, 300, 305, 295, 320, 280, 300, 315, 285].map((amount, i) => row(amount, i + 1));
+
+describe("detectAnomalies", () => {
+  it("flags an amount far above its category and merchant history, with an explanation", () => {
+    const spike = row(1500, 12);
+    const verdict = detectAnomalies([...usual(), spike]).get(spike.id)!;
+    expect(verdict.anomaly).toBe(true);
+    expect(verdict.scores.map((s) => s.basis)).toEqual(["category", "merchant"]);
+    expect(verdict.explanation).toMatch(/5× the median Food expense/);
+    expect(verdict.explanation).toMatch(/payment to "swiggy order"/);
+  });
+
+  it("leaves ordinary amounts alone", () => {
+    const normal = row(330, 12);
+    expect(detectAnomalies([...usual(), normal]).get(normal.id)).toMatchObject({ anomaly: false, explanation: undefined });
+  });
+
+  it("is not thrown off by one earlier outlier", () => {
+    const history = [...usual(), row(5000, 11)];
+    const second = row(1500, 12);
+    expect(detectAnomalies([...history, second]).get(second.id)?.anomaly).toBe(true);
+  });
+
+  it("needs enough history before scoring", () => {
+    const rows = [row(300, 1), row(300, 2), row(2000, 3)];
+    expect(detectAnomalies(rows).get(rows[2].id)).toMatchObject({ anomaly: false, scores: [] });
+  });
+
+  it("lets a row marked as expected excuse later amounts of its size", () => {
+    const expected = row(1500, 11, { anomalyExpected: true });
+    const later = row(1400, 12);
+    const verdicts = detectAnomalies([...usual(), expected, later]);
+    expect(verdicts.get(expected.id)?.anomaly).toBe(false);
+    expect(verdicts.get(later.id)?.anomaly).toBe(false);
+  });
+
+  it("only compares within the window and skips income", () => {
+    const old = usual();
+    const late = row(1500, 200);
+    const salary = row(90000, 12, { type: "income", category: "Food" });
+    const verdicts = detectAnomalies([...old, salary, late]);
+    expect(verdicts.has(salary.id)).toBe(false);
+    expect(verdicts.get(late.id)?.anomaly).toBe(false);
+  });
+});
@@ -0,0 +1,130 @@
+/**
+ * lib/anomalies/detect.ts
+ * Robust outlier scoring for spending. Each expense is compared with the
+ * earlier expenses of its category and of its merchant inside a rolling
+ * window, using the median and the median absolute deviation (MAD) so one
+ * huge purchase cannot hide the next. Rows the user marked as expected are
+ * never flagged, and they excuse later amounts up to their size from the
+ * same group.
+ */
+
+import { transactionType } from "@/lib/expenses/cashflow";
+import type { Expense } from "@/lib/expenses/types";
+import { normalizeTitle } from "@/lib/recurring/detect";
+import { DEFAULT_ANOMALY_OPTIONS, type AnomalyBasis, type AnomalyOptions, type AnomalyScore, type AnomalyVerdict } from "./types";
+
+const DAY_MS = 86_400_000;
+/** Scales the MAD to a standard deviation for normally distributed data. */
+const MAD_SCALE = 1.4826;
+/** Same, for the mean absolute deviation used when the MAD is zero. */
+const MEAN_AD_SCALE = 1.2533;
+/** An expected row excuses later amounts down to this fraction of its own. */
+const EXPECTED_COVERAGE = 0.8;
+
+const round1 = (n: number) => Math.round(n * 10) / 10;
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+/** Robust spread of `values` around `center`, or 0 when every value is identical. */
+function robustScale(values: number[], center: number): number {
+  const deviations = values.map((v) => Math.abs(v - center));
+  const mad = median(deviations);
+  if (mad > 0) return mad * MAD_SCALE;
+  return (deviations.reduce((s, d) => s + d, 0) / deviations.length) * MEAN_AD_SCALE;
+}
+
+export function merchantKey(e: Pick<Expense, "title">): string {
+  return e.title ? normalizeTitle(e.title) : "";
+}
+
+const groupKey = (basis: AnomalyBasis, e: Expense) => (basis === "category" ? e.category : merchantKey(e));
+
+/** Oldest first; ties broken by id so scoring is deterministic. */
+const chronological = (a: Expense, b: Expense) => +new Date(a.date) - +new Date(b.date) || a.id.localeCompare(b.id);
+
+/** Scores `expense` against `history`, the earlier rows of its group inside the window. */
+export function scoreAgainst(
+  basis: AnomalyBasis,
+  key: string,
+  expense: Expense,
+  history: Expense[],
+  options: AnomalyOptions = DEFAULT_ANOMALY_OPTIONS
+): AnomalyScore | null {
+  if (history.length < options.minSamples[basis]) return null;
+  const amounts = history.map((e) => e.amount);
+  const center = median(amounts);
+  if (center <= 0) return null;
+
+  const scale = robustScale(amounts, center);
+  const ratio = expense.amount / center;
+  const score = scale > 0 ? (expense.amount - center) / scale : null;
+  // With no spread at all, fall back to a plain "twice the usual" rule.
+  const outlier = score === null ? ratio >= 2 : score > options.threshold && ratio >= options.minRatio;
+  const excused = history.some((e) => e.anomalyExpected && e.amount >= expense.amount * EXPECTED_COVERAGE);
+
+  return {
+    basis,
+    key,
+    median: Math.round(center * 100) / 100,
+    ratio: round1(ratio),
+    score: score === null ? null : round1(score),
+    samples: history.length,
+    unusual: outlier && !excused,
+  };
+}
+
+export function explainScores(scores: AnomalyScore[], currency: string): string | undefined {
+  const unusual = scores.filter((s) => s.unusual);
+  if (!unusual.length) return undefined;
+  const money = new Intl.NumberFormat("en", { style: "currency", currency, maximumFractionDigits: 0 });
+  return unusual
+    .map((s) => {
+      const subject = s.basis === "category" ? `${s.key} expense` : `payment to "${s.key}"`;
+      return `${s.ratio}× the median ${subject} (${money.format(s.median)} across ${s.samples} earlier)`;
+    })
+    .join("; ");
+}
+
+/**
+ * Scores every spending row (income, refunds and transfers are skipped)
+ * against its category and merchant history. Returns a verdict per
+ * expense id.
+ */
+export function detectAnomalies(
+  expenses: Expense[],
+  options: Partial<AnomalyOptions> = {}
+): Map<string, AnomalyVerdict> {
+  const opts: AnomalyOptions = { ...DEFAULT_ANOMALY_OPTIONS, ...options };
+  const spending = expenses.filter((e) => transactionType(e) === "expense").sort(chronological);
+  const scores = new Map<string, AnomalyScore[]>(spending.map((e) => [e.id, []]));
+
+  for (const basis of ["category", "merchant"] as const) {
+    const groups = new Map<string, Expense[]>();
+    for (const e of spending) {
+      const key = groupKey(basis, e);
+      if (key) groups.set(key, [...(groups.get(key) ?? []), e]);
+    }
+
+    for (const [key, rows] of groups) {
+      let start = 0;
+      rows.forEach((e, i) => {
+        const from = +new Date(e.date) - opts.windowDays * DAY_MS;
+        while (+new Date(rows[start].date) < from) start++;
+        const score = scoreAgainst(basis, key, e, rows.slice(start, i), opts);
+        if (score) scores.get(e.id)!.push(score);
+      });
+    }
+  }
+
+  const verdicts = new Map<string, AnomalyVerdict>();
+  for (const e of spending) {
+    const own = scores.get(e.id)!;
+    const explanation = explainScores(own, opts.currency);
+    verdicts.set(e.id, { anomaly: Boolean(explanation) && !e.anomalyExpected, explanation, scores: own });
+  }
+  return verdicts;
+}
@@ -0,0 +1,10 @@
+/**
+ * lib/anomalies
+ * Server-side anomaly detection: robust per-category and per-merchant
+ * scoring with stored explanations and "expected" feedback from the user.
+ */
+
+export * from "./types";
+export * from "./repository";
+export { detectAnomalies, explainScores, merchantKey, scoreAgainst } from "./detect";
+export { validateAnomalyFeedback, type AnomalyFeedback } from "./schema";
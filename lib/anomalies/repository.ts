@@ -0,0 +1,68 @@
+import { getDatabase, type Database, type DatabaseState } from "@/lib/db";
+import type { Expense } from "@/lib/expenses/types";
+import { detectAnomalies } from "./detect";
+import type { AnomalousExpense } from "./types";
+
+type Change = { index: number; anomaly: boolean; explanation?: string };
+
+/** Rows whose stored flag or explanation no longer matches a fresh scoring. */
+function pendingChanges(state: DatabaseState): Change[] {
+  const verdicts = detectAnomalies(state.expenses, { currency: state.settings.baseCurrency });
+  const changes: Change[] = [];
+  state.expenses.forEach((e, index) => {
+    const verdict = verdicts.get(e.id);
+    const anomaly = verdict?.anomaly ?? false;
+    const explanation = verdict?.explanation;
+    if ((e.anomaly ?? false) !== anomaly || e.anomalyExplanation !== explanation) {
+      changes.push({ index, anomaly, explanation });
+    }
+  });
+  return changes;
+}
+
+/** Scoring is derived data, so `updatedAt` is left alone. */
+function applyChanges(state: DatabaseState, changes: Change[]): Expense[] {
+  return changes.map(({ index, anomaly, explanation }) => {
+    const updated: Expense = { ...state.expenses[index], anomaly, anomalyExplanation: explanation };
+    if (explanation === undefined) delete updated.anomalyExplanation;
+    state.expenses[index] = updated;
+    return updated;
+  });
+}
+
+/**
+ * Re-scores the whole ledger and stores the flags and explanations that
+ * changed. Called after every expense write; nothing is saved when the
+ * scores are already current. Returns the changed rows by id.
+ */
+export async function refreshAnomalies(db: Database = getDatabase()): Promise<Map<string, Expense>> {
+  const stale = await db.read((state) => pendingChanges(state).length > 0);
+  if (!stale) return new Map();
+  return db.write((state) => new Map(applyChanges(state, pendingChanges(state)).map((e) => [e.id, e])));
+}
+
+/** Flagged expenses, newest first; `includeExpected` adds rows the user has already reviewed. */
+export async function listAnomalies(includeExpected = false, db: Database = getDatabase()): Promise<AnomalousExpense[]> {
+  return db.read((state) =>
+    state.expenses
+      .filter((e): e is AnomalousExpense => Boolean(e.anomalyExplanation) && (e.anomaly || (includeExpected && !!e.anomalyExpected)))
+      .sort((a, b) => +new Date(b.date) - +new Date(a.date))
+  );
+}
+
+/**
+ * Records the user's review of a flag. Marking a row as expected clears its
+ * flag and, from then on, excuses similar amounts from the same category or
+ * merchant. Returns null when the id is unknown.
+ */
+export async function setAnomalyFeedback(id: string, expected: boolean, db: Database = getDatabase()): Promise<Expense | null> {
+  return db.write((state) => {
+    const index = state.expenses.findIndex((e) => e.id === id);
+    if (index === -1) return null;
+    const reviewed: Expense = { ...state.expenses[index], anomalyExpected: expected };
+    if (!expected) delete reviewed.anomalyExpected;
+    state.expenses[index] = reviewed;
+    applyChanges(state, pendingChanges(state));
+    return state.expenses[index];
+  });
+}
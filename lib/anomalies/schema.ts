@@ -0,0 +1,18 @@
+/**
+ * lib/anomalies/schema.ts
+ * Validation for anomaly feedback.
+ */
+
+import { isPlainObject, type ValidationResult } from "@/lib/validation";
+
+export type AnomalyFeedback = { expected: boolean };
+
+export function validateAnomalyFeedback(body: unknown): ValidationResult<AnomalyFeedback> {
+  if (!isPlainObject(body)) {
+    return { ok: false, errors: [{ field: "body", message: "must be a JSON object" }] };
+  }
+  if (typeof body.expected !== "boolean") {
+    return { ok: false, errors: [{ field: "expected", message: "must be a boolean" }] };
+  }
+  return { ok: true, value: { expected: body.expected } };
+}
@@ -0,0 +1,56 @@
+/**
+ * lib/anomalies/types.ts
+ * Shapes shared by the anomaly detector, its API routes and the dashboard.
+ */
+
+import type { Expense } from "@/lib/expenses/types";
+
+/** What an expense is compared against: its category, or its merchant (normalised title). */
+export const ANOMALY_BASES = ["category", "merchant"] as const;
+
+export type AnomalyBasis = (typeof ANOMALY_BASES)[number];
+
+export type AnomalyOptions = {
+  /** Days of earlier spending each expense is compared with. */
+  windowDays: number;
+  /** Earlier expenses a group needs before it is scored at all. */
+  minSamples: Record<AnomalyBasis, number>;
+  /** Robust z-score above which an amount is unusual. */
+  threshold: number;
+  /** An unusual amount must also be at least this multiple of the median. */
+  minRatio: number;
+  /** ISO 4217 code used when formatting explanations. */
+  currency: string;
+};
+
+export const DEFAULT_ANOMALY_OPTIONS: AnomalyOptions = {
+  windowDays: 90,
+  minSamples: { category: 5, merchant: 4 },
+  threshold: 3.5,
+  minRatio: 1.5,
+  currency: "INR",
+};
+
+/** How one expense compares with one group's recent history. */
+export type AnomalyScore = {
+  basis: AnomalyBasis;
+  /** The category name, or the normalised merchant. */
+  key: string;
+  median: number;
+  /** amount ÷ median. */
+  ratio: number;
+  /** Robust z-score; null when the history has no spread at all. */
+  score: number | null;
+  samples: number;
+  unusual: boolean;
+};
+
+export type AnomalyVerdict = {
+  anomaly: boolean;
+  /** Present whenever a score was unusual, even if the user marked the row as expected. */
+  explanation?: string;
+  scores: AnomalyScore[];
+};
+
+/** A flagged (or reviewed) expense as listed by GET /api/anomalies. */
+export type AnomalousExpense = Expense & { anomalyExplanation: string };
@@ -0,0 +1,37 @@
+import { NextResponse } from "next/server";
+
+import type { FieldError } from "@/lib/validation";
+
+/**
+ * 400 with field-level details. `error` keeps a one-line summary for clients
+ * that only read that key.
+ */
+export function validationError(errors: FieldError[]) {
+  return NextResponse.json({ error: "Validation failed", errors }, { status: 400 });
+}
+
+export function notFound(message = "Not found") {
+  return NextResponse.json({ error: message }, { status: 404 });
+}
+
+/** Logs the underlying error and returns a 500 that does not leak it. */
+export function serverError(message: string, error: unknown) {
+  console.error(`${message}:`, error);
+  return NextResponse.json({ error: message }, { status: 500 });
+}
+
+/**
+ * Parses a JSON request body. Returns `undefined` when the body is missing or
+ * not valid JSON so the caller can answer with a 400.
+ */
+export async function readJson(req: Request): Promise<unknown> {
+  try {
+    return await req.json();
+  } catch {
+    return undefined;
+  }
+}
+
+export function invalidJson() {
+  return validationError([{ field: "body", message: "must be valid JSON" }]);
+}
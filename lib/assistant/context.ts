@@ -0,0 +1,100 @@
+/**
+ * lib/assistant/context.ts
+ * Fits a chat's history into the model's context window. Pinned messages and
+ * the newest turns go verbatim; older turns are left to the chat's rolling
+ * summary. Pure functions only, so the chat page can count tokens the same way.
+ */
+
+import type { ChatTurn, ConversationSummary } from "./types";
+
+/** Tokens reserved for the summary once a chat needs one; also the summariser's answer limit. */
+export const SUMMARY_TOKENS = 400;
+/** The newest messages are always sent, even when they alone exceed the budget. */
+const MIN_RECENT_MESSAGES = 2;
+/** Role markers and separators the chat template adds around every message. */
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+/**
+ * A rough token count. There is no tokenizer for the local model here, and
+ * llama-style tokenizers average about four characters per token on English
+ * text, so this errs slightly high on prose and low on long numbers.
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+export function messageTokens(message: { content: string }): number {
+  return estimateTokens(message.content) + MESSAGE_OVERHEAD_TOKENS;
+}
+
+export type ContextMessage = {
+  id: string;
+  role: "user" | "assistant" | "system";
+  content: string;
+  createdAt: string;
+  pinned?: boolean;
+};
+
+export type ContextPlan<T extends ContextMessage> = {
+  /** What to send, oldest first: pinned messages and the newest turns. */
+  history: ChatTurn[];
+  /** Dropped messages the summary does not cover yet, oldest first. */
+  toSummarise: T[];
+  /** Every dropped message, covered or not. */
+  dropped: number;
+  kept: number;
+  /** Pinned messages kept from before the verbatim window. */
+  pinned: number;
+  /** Estimated tokens of `history` plus the summary's allowance. */
+  tokens: number;
+};
+
+const isTurn = <T extends ContextMessage>(m: T): m is T & ChatTurn => m.role === "user" || m.role === "assistant";
+
+/**
+ * Chooses which earlier messages to send within `budget` tokens. System
+ * messages are left out (the prompt is composed server-side). Pinned messages
+ * are always kept; of the rest, the newest are kept while they fit. The
+ * window stays contiguous, so no turn goes missing from the middle of it.
+ */
+export function planContext<T extends ContextMessage>(
+  messages: T[],
+  summary: Pick<ConversationSummary, "content" | "coversUntil"> | null,
+  budget: number
+): ContextPlan<T> {
+  const turns = messages.filter(isTurn);
+  const summaryTokens = summary ? estimateTokens(summary.content) : 0;
+  const total = turns.reduce((sum, m) => sum + messageTokens(m), 0);
+
+  let keep: Set<T>;
+  let tokens: number;
+  if (total + summaryTokens <= budget) {
+    keep = new Set(turns);
+    tokens = total + summaryTokens;
+  } else {
+    const reserve = Math.max(summaryTokens, SUMMARY_TOKENS);
+    keep = new Set(turns.filter((m) => m.pinned));
+    tokens = reserve + [...keep].reduce((sum, m) => sum + messageTokens(m), 0);
+    let recent = 0;
+    for (let i = turns.length - 1; i >= 0; i--) {
+      const m = turns[i];
+      if (m.pinned) continue;
+      const cost = messageTokens(m);
+      if (tokens + cost > budget && recent >= MIN_RECENT_MESSAGES) break;
+      keep.add(m);
+      tokens += cost;
+      recent++;
+    }
+  }
+
+  const dropped = turns.filter((m) => !keep.has(m));
+  const oldestKept = turns.findIndex((m) => keep.has(m) && !m.pinned);
+  return {
+    history: turns.filter((m) => keep.has(m)).map((m) => ({ role: m.role, content: m.content })),
+    toSummarise: dropped.filter((m) => !summary?.coversUntil || m.createdAt > summary.coversUntil),
+    dropped: dropped.length,
+    kept: keep.size,
+    pinned: turns.filter((m, i) => m.pinned && (oldestKept === -1 || i < oldestKept)).length,
+    tokens,
+  };
+}
@@ -0,0 +1,11 @@
+/**
+ * lib/assistant
+ * The tool-calling finance assistant behind /api/chat.
+ */
+
+export * from "./types";
+export { historyBudget, MAX_TOOL_ROUNDS, runAssistant, streamAssistant, type AssistantRequest } from "./run";
+export { estimateTokens, messageTokens, planContext, SUMMARY_TOKENS, type ContextMessage, type ContextPlan } from "./context";
+export { summariseTurns } from "./summarise";
+export { TOOL_DEFINITIONS } from "./tools";
+export { CHAT_LIMITS, validateChatRequest, type ChatRequest } from "./schema";
@@ -0,0 +1,188 @@
+/**
+ * lib/assistant/run.ts
+ * One assistant turn: the model either answers or asks for tools, which run
+ * here against the store and go back to it as "tool" messages, for up to
+ * MAX_TOOL_ROUNDS rounds. The reply's "[n]" references become citations.
+ *
+ * streamAssistant yields the answer as it is generated, then a metadata
+ * frame; runAssistant collects the same frames into one reply.
+ * historyBudget says how much room is left for earlier turns (see context.ts).
+ */
+
+import { ollamaChatStream, ollamaConfig, type OllamaMessage, type OllamaToolCall } from "@/lib/ollama";
+import { estimateTokens, messageTokens } from "./context";
+import { createCitationIndex, runTool, TOOL_DEFINITIONS } from "./tools";
+import {
+  TONE_INSTRUCTIONS,
+  type AssistantFrame,
+  type AssistantReply,
+  type AssistantSettings,
+  type ChatTurn,
+  type Citation,
+  type ToolCallRecord,
+} from "./types";
+
+/** Model calls per turn that may still ask for tools; the last one must answer. */
+export const MAX_TOOL_ROUNDS = 4;
+/** Citations returned when the reply cites nothing itself. */
+const MAX_UNCITED = 10;
+/** Room kept for the answer when the request sets no maxTokens. */
+const DEFAULT_REPLY_TOKENS = 512;
+/** Room kept for tool results and the tool-call messages of later rounds. */
+const TOOL_RESULT_TOKENS = 1024;
+
+const SYSTEM_PROMPT = [
+  "You are a personal finance assistant with access to the user's own ledger, budgets and savings goals.",
+  "Use the tools to look up real figures instead of guessing, and never invent transactions.",
+  "Transactions returned by the tools carry a ref number; when your answer relies on one, cite it as [ref], e.g. [3].",
+  "Only add expenses or create goals when the user explicitly asks you to.",
+  "Amounts are in the user's base currency.",
+].join(" ");
+
+export type AssistantRequest = {
+  message: string;
+  history?: ChatTurn[];
+  settings?: AssistantSettings;
+  /** The chat's summary of turns left out of `history`. */
+  summary?: string;
+  signal?: AbortSignal;
+  now?: Date;
+  /** When the request arrived (ms since epoch), for the timing metadata. */
+  startedAt?: number;
+};
+
+/** The refs a reply mentions, as in "[2]" or "[2, 5]", in order of first mention. */
+function citedRefs(reply: string): number[] {
+  const refs: number[] = [];
+  for (const match of reply.matchAll(/\[(\d+(?:\s*,\s*\d+)*)\]/g)) {
+    for (const ref of match[1].split(",").map(Number)) if (!refs.includes(ref)) refs.push(ref);
+  }
+  return refs;
+}
+
+/**
+ * The built-in instructions come first so the tools and citations keep
+ * working whatever the user writes; their own instructions, the tone preset
+ * and the summary of earlier turns follow.
+ */
+function composeSystemPrompt(settings: AssistantSettings, today: string, summary?: string): string {
+  return [
+    SYSTEM_PROMPT,
+    TONE_INSTRUCTIONS[settings.tone],
+    settings.systemPrompt && `Instructions from the user:\n${settings.systemPrompt}`,
+    summary && `Summary of the earlier conversation:\n${summary}`,
+    `Today is ${today}.`,
+  ]
+    .filter(Boolean)
+    .join("\n\n");
+}
+
+function selectCitations(reply: string, all: Citation[]): Citation[] {
+  const byRef = new Map(all.map((c) => [c.ref, c]));
+  const cited = citedRefs(reply)
+    .map((ref) => byRef.get(ref))
+    .filter((c): c is Citation => c !== undefined);
+  return cited.length ? cited : all.slice(0, MAX_UNCITED);
+}
+
+/**
+ * Tokens left in the model's context for earlier turns and their summary,
+ * after the system prompt, tool definitions, the new message, the answer and
+ * tool results have been set aside.
+ */
+export function historyBudget(request: Pick<AssistantRequest, "message" | "settings" | "now">): number {
+  const settings: AssistantSettings = request.settings ?? { tone: "concise" };
+  const today = (request.now ?? new Date()).toISOString().slice(0, 10);
+  const fixed =
+    estimateTokens(composeSystemPrompt(settings, today)) +
+    estimateTokens(JSON.stringify(TOOL_DEFINITIONS)) +
+    messageTokens({ content: request.message }) +
+    (settings.maxTokens ?? DEFAULT_REPLY_TOKENS) +
+    TOOL_RESULT_TOKENS;
+  return Math.max(0, ollamaConfig().contextWindow - fixed);
+}
+
+export async function* streamAssistant(request: AssistantRequest): AsyncGenerator<AssistantFrame> {
+  const startedAt = request.startedAt ?? Date.now();
+  const today = (request.now ?? new Date()).toISOString().slice(0, 10);
+  const settings: AssistantSettings = request.settings ?? { tone: "concise" };
+  const options = {
+    num_predict: settings.maxTokens,
+    temperature: settings.temperature,
+    num_ctx: ollamaConfig().contextWindow,
+  };
+  const messages: OllamaMessage[] = [
+    { role: "system", content: composeSystemPrompt(settings, today, request.summary) },
+    ...(request.history ?? []),
+    { role: "user", content: request.message },
+  ];
+  const citations = createCitationIndex();
+  const toolCalls: ToolCallRecord[] = [];
+  const usage = { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+  let modelMs = 0;
+  let firstTokenMs: number | null = null;
+  let reply = "";
+  let mutated = false;
+
+  for (let round = 0; round <= MAX_TOOL_ROUNDS; round++) {
+    const calls: OllamaToolCall[] = [];
+    let content = "";
+    const chunks = ollamaChatStream({
+      messages,
+      tools: round < MAX_TOOL_ROUNDS ? TOOL_DEFINITIONS : undefined,
+      options,
+      signal: request.signal,
+    });
+    for await (const chunk of chunks) {
+      if (chunk.tool_calls) calls.push(...chunk.tool_calls);
+      if (chunk.content) {
+        firstTokenMs ??= Date.now() - startedAt;
+        content += chunk.content;
+        yield { type: "delta", content: chunk.content };
+      }
+      if (chunk.stats) {
+        usage.promptTokens += chunk.stats.promptTokens;
+        usage.completionTokens += chunk.stats.completionTokens;
+        modelMs += chunk.stats.durationMs;
+      }
+    }
+    reply += content;
+    if (!calls.length || round === MAX_TOOL_ROUNDS) break;
+
+    messages.push({ role: "assistant", content, tool_calls: calls });
+    for (const call of calls) {
+      const { name } = call.function;
+      const args = call.function.arguments ?? {};
+      const outcome = await runTool(name, args, citations);
+      const record = { name, arguments: args, ok: outcome.ok, summary: outcome.summary };
+      toolCalls.push(record);
+      mutated ||= outcome.mutated;
+      messages.push({ role: "tool", tool_name: name, content: JSON.stringify(outcome.result) });
+      yield { type: "tool", call: record };
+    }
+  }
+
+  usage.totalTokens = usage.promptTokens + usage.completionTokens;
+  yield {
+    type: "done",
+    done: true,
+    citations: selectCitations(reply, citations.all()),
+    toolCalls,
+    mutated,
+    model: ollamaConfig().model,
+    usage,
+    timing: { totalMs: Date.now() - startedAt, firstTokenMs, modelMs },
+  };
+}
+
+export async function runAssistant(request: AssistantRequest): Promise<AssistantReply> {
+  let reply = "";
+  for await (const frame of streamAssistant(request)) {
+    if (frame.type === "delta") reply += frame.content;
+    if (frame.type === "done") {
+      const { citations, toolCalls, mutated, model, usage, timing } = frame;
+      return { reply: reply.trim(), citations, toolCalls, mutated, model, usage, timing };
+    }
+  }
+  throw new Error("The assistant stream ended without a result");
+}
@@ -0,0 +1,127 @@
+/**
+ * lib/assistant/schema.ts
+ * Validation for chat requests. Unknown fields are ignored so older chat
+ * pages keep working.
+ */
+
+import { isPlainObject, type FieldError, type ValidationResult } from "@/lib/validation";
+import { CHAT_TONES, type AssistantSettings, type ChatTone, type ChatTurn } from "./types";
+
+export const CHAT_LIMITS = {
+  messageLength: 8000,
+  historyTurns: 100,
+  systemPromptLength: 4000,
+  minTokens: 16,
+  maxTokens: 4096,
+  maxTemperature: 2,
+  idLength: 100,
+} as const;
+
+export type ChatRequest = {
+  message: string;
+  history: ChatTurn[];
+  /** Answer as an NDJSON stream of frames instead of one JSON object. */
+  stream: boolean;
+  settings: AssistantSettings;
+  /** The stored chat to load earlier turns from and record this one in; `history` is ignored when set. */
+  chatId?: string;
+  /** Ids for the stored user message and reply, so the client's optimistic copies keep theirs. */
+  messageId?: string;
+  replyId?: string;
+  /** The stored message this one follows; a sibling's parent forks the chat (edit and resend). */
+  parentId?: string;
+  /** A stored user message to answer again; its text replaces `message` and only the reply is stored. */
+  regenerateFrom?: string;
+};
+
+function parseSettings(body: Record<string, unknown>, errors: FieldError[]): AssistantSettings {
+  const settings: AssistantSettings = { tone: "concise" };
+
+  if (body.systemPrompt !== undefined && body.systemPrompt !== null) {
+    if (typeof body.systemPrompt !== "string") errors.push({ field: "systemPrompt", message: "must be a string" });
+    else if (body.systemPrompt.trim().length > CHAT_LIMITS.systemPromptLength) {
+      errors.push({ field: "systemPrompt", message: `must be at most ${CHAT_LIMITS.systemPromptLength} characters` });
+    } else settings.systemPrompt = body.systemPrompt.trim() || undefined;
+  }
+
+  if (body.tone !== undefined && body.tone !== null) {
+    if (CHAT_TONES.includes(body.tone as ChatTone)) settings.tone = body.tone as ChatTone;
+    else errors.push({ field: "tone", message: `must be one of ${CHAT_TONES.join(", ")}` });
+  }
+
+  if (body.maxTokens !== undefined && body.maxTokens !== null) {
+    const n = body.maxTokens;
+    if (typeof n !== "number" || !Number.isInteger(n) || n < CHAT_LIMITS.minTokens || n > CHAT_LIMITS.maxTokens) {
+      errors.push({
+        field: "maxTokens",
+        message: `must be a whole number from ${CHAT_LIMITS.minTokens} to ${CHAT_LIMITS.maxTokens}`,
+      });
+    } else settings.maxTokens = n;
+  }
+
+  if (body.temperature !== undefined && body.temperature !== null) {
+    const t = body.temperature;
+    if (typeof t !== "number" || !Number.isFinite(t) || t < 0 || t > CHAT_LIMITS.maxTemperature) {
+      errors.push({ field: "temperature", message: `must be a number from 0 to ${CHAT_LIMITS.maxTemperature}` });
+    } else settings.temperature = t;
+  }
+
+  return settings;
+}
+
+/**
+ * `{ message, chatId?, messageId?, replyId?, parentId?, regenerateFrom?,
+ * history?, stream?, systemPrompt?, tone?, maxTokens?, temperature? }`, where
+ * history is `[{ role: "user" | "assistant", content }]`, oldest first.
+ * `message` may be left out when regenerating; `parentId` and
+ * `regenerateFrom` need a `chatId`.
+ */
+export function validateChatRequest(body: unknown): ValidationResult<ChatRequest> {
+  if (!isPlainObject(body)) {
+    return { ok: false, errors: [{ field: "body", message: "must be a JSON object" }] };
+  }
+
+  const errors: FieldError[] = [];
+  const message = typeof body.message === "string" ? body.message.trim() : "";
+  const regenerating = body.regenerateFrom !== undefined && body.regenerateFrom !== null;
+  if (!message && !regenerating) errors.push({ field: "message", message: "is required" });
+  else if (message.length > CHAT_LIMITS.messageLength) {
+    errors.push({ field: "message", message: `must be at most ${CHAT_LIMITS.messageLength} characters` });
+  }
+
+  let history: ChatTurn[] = [];
+  if (body.history !== undefined && body.history !== null) {
+    const list = Array.isArray(body.history) ? body.history : null;
+    const valid = list?.every(
+      (t) => isPlainObject(t) && (t.role === "user" || t.role === "assistant") && typeof t.content === "string"
+    );
+    if (!list || !valid || list.length > CHAT_LIMITS.historyTurns) {
+      errors.push({
+        field: "history",
+        message: `must be a list of at most ${CHAT_LIMITS.historyTurns} { role: "user" | "assistant", content } turns`,
+      });
+    } else {
+      history = list.map((t) => ({ role: t.role, content: t.content }) as ChatTurn);
+    }
+  }
+
+  if (body.stream !== undefined && typeof body.stream !== "boolean") {
+    errors.push({ field: "stream", message: "must be true or false" });
+  }
+
+  const settings = parseSettings(body, errors);
+  const ids: Pick<ChatRequest, "chatId" | "messageId" | "replyId" | "parentId" | "regenerateFrom"> = {};
+  for (const field of ["chatId", "messageId", "replyId", "parentId", "regenerateFrom"] as const) {
+    const raw = body[field];
+    if (raw === undefined || raw === null) continue;
+    if (typeof raw === "string" && raw.trim() && raw.trim().length <= CHAT_LIMITS.idLength) ids[field] = raw.trim();
+    else errors.push({ field, message: `must be a non-empty string of at most ${CHAT_LIMITS.idLength} characters` });
+  }
+  for (const field of ["parentId", "regenerateFrom"] as const) {
+    if (ids[field] && !ids.chatId) errors.push({ field, message: "needs a chatId" });
+  }
+
+  return errors.length
+    ? { ok: false, errors }
+    : { ok: true, value: { message, history, stream: body.stream === true, settings, ...ids } };
+}
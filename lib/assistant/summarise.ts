@@ -0,0 +1,60 @@
+/**
+ * lib/assistant/summarise.ts
+ * Folds turns that no longer fit the context window into a chat's rolling
+ * summary with one model call per batch.
+ */
+
+import { ollamaChat, ollamaConfig } from "@/lib/ollama";
+import { messageTokens, SUMMARY_TOKENS, type ContextMessage } from "./context";
+
+const SUMMARY_PROMPT = [
+  "You keep a running summary of a conversation between a user and their personal finance assistant.",
+  "Merge the existing summary and the new messages into one updated summary of at most 200 words.",
+  "Keep amounts, dates, categories, goals, decisions and the user's stated preferences; drop greetings and small talk.",
+  "Write in the third person and answer with the summary only.",
+].join(" ");
+
+/** Splits messages into batches that leave room in the window for the prompt and the answer. */
+function batches<T extends ContextMessage>(messages: T[], limit: number): T[][] {
+  const out: T[][] = [];
+  let current: T[] = [];
+  let tokens = 0;
+  for (const m of messages) {
+    const cost = messageTokens(m);
+    if (current.length && tokens + cost > limit) {
+      out.push(current);
+      current = [];
+      tokens = 0;
+    }
+    current.push(m);
+    tokens += cost;
+  }
+  if (current.length) out.push(current);
+  return out;
+}
+
+/**
+ * Returns `previous` extended with `messages` (oldest first). Messages too
+ * long for one call are summarised in batches, each building on the last.
+ */
+export async function summariseTurns(
+  previous: string | null,
+  messages: ContextMessage[],
+  signal?: AbortSignal
+): Promise<string> {
+  const { contextWindow } = ollamaConfig();
+  let summary = previous?.trim() ?? "";
+  for (const batch of batches(messages, Math.max(contextWindow - 3 * SUMMARY_TOKENS, SUMMARY_TOKENS))) {
+    const transcript = batch.map((m) => `${m.role === "user" ? "User" : "Assistant"}: ${m.content}`).join("\n\n");
+    const reply = await ollamaChat({
+      messages: [
+        { role: "system", content: SUMMARY_PROMPT },
+        { role: "user", content: `Existing summary:\n${summary || "(none yet)"}\n\nNew messages:\n${transcript}` },
+      ],
+      options: { temperature: 0.2, num_predict: SUMMARY_TOKENS, num_ctx: contextWindow },
+      signal,
+    });
+    summary = reply.content.trim() || summary;
+  }
+  return summary;
+}
@@ -0,0 +1,66 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { Database, MemoryBackend, setDatabase } from "@/lib/db";
+import { createExpenses } from "@/lib/expenses/repository";
+import type { NewExpense } from "@/lib/expenses/types";
+import { createCitationIndex, runTool } from "./tools";
+
+const rows: NewExpense[] = [
+  { type: "expense", title: "Groceries", amount: 300, category: "Food", date: "2025-03-02T00:00:00.000Z" },
+  { type: "expense", title: "Dinner", amount: 200, category: "Food", date: "2025-03-10T00:00:00.000Z" },
+  { type: "refund", title: "Returned order", amount: 50, category: "Food", date: "2025-03-12T00:00:00.000Z" },
+  { type: "expense", title: "Train", amount: 120, category: "Transport", date: "2025-04-01T00:00:00.000Z" },
+  { type: "income", title: "Salary", amount: 5000, category: "Salary", date: "2025-03-01T00:00:00.000Z" },
+];
+
+beforeEach(async () => {
+  setDatabase(new Database(new MemoryBackend()));
+  await createExpenses(rows);
+});
+
+describe("sum_expenses", () => {
+  it("sums spending only by default", async () => {
+    const { result } = await runTool("sum_expenses", {}, createCitationIndex());
+    expect(result).toMatchObject({ total: 620, count: 3, byType: { expense: 620 } });
+  });
+
+  it("subtracts refunds when they are asked for alongside expenses", async () => {
+    const { result } = await runTool("sum_expenses", { type: "expense,refund", groupBy: "category" }, createCitationIndex());
+    expect(result).toMatchObject({
+      total: 570,
+      byType: { expense: 620, refund: 50 },
+      groups: [
+        { key: "Food", total: 450, count: 3 },
+        { key: "Transport", total: 120, count: 1 },
+      ],
+    });
+  });
+
+  it("leaves income out of a spending total but reports it per type", async () => {
+    const { result } = await runTool("sum_expenses", { type: "expense,income", month: "2025-03" }, createCitationIndex());
+    expect(result).toMatchObject({ total: 500, byType: { expense: 500, income: 5000 } });
+  });
+
+  it("totals income on its own", async () => {
+    const { result } = await runTool("sum_expenses", { type: "income" }, createCitationIndex());
+    expect(result).toMatchObject({ total: 5000, count: 1 });
+  });
+});
+
+describe("runTool", () => {
+  it("numbers cited rows once per turn", async () => {
+    const citations = createCitationIndex();
+    await runTool("list_expenses", { category: "Food" }, citations);
+    await runTool("sum_expenses", { category: "Food" }, citations);
+    expect(citations.all().map((c) => c.ref)).toEqual([1, 2]);
+  });
+
+  it("hands validation errors back instead of throwing", async () => {
+    const outcome = await runTool("add_expense", { amount: "-5", category: "Food", date: "2025-03-01" }, createCitationIndex());
+    expect(outcome).toMatchObject({ ok: false, mutated: false });
+    expect(outcome.summary).toMatch(/amount/);
+  });
+
+  it("refuses unknown tools", async () => {
+    expect(await runTool("drop_tables", {}, createCitationIndex())).toMatchObject({ ok: false });
+  });
+});
@@ -0,0 +1,321 @@
+/**
+ * lib/assistant/tools.ts
+ * The functions the assistant may call, and their server-side execution.
+ * Reads reuse the collection filters of GET /api/expenses; writes go through
+ * the same validation and side effects (currency conversion, budget alerts,
+ * anomaly scoring) as the expense and goal routes, and validation errors are
+ * handed back to the model so it can correct itself or ask the user.
+ *
+ * Every transaction a tool returns is numbered once per conversation turn;
+ * the model cites those numbers and ./run.ts turns them into citations.
+ */
+
+import { refreshAnomalies } from "@/lib/anomalies";
+import { listBudgets, recordBudgetAlerts } from "@/lib/budgets";
+import { convertExpenseToBase } from "@/lib/currency";
+import { spendAmount, transactionType } from "@/lib/expenses/cashflow";
+import { parseExpenseQuery, queryExpenses } from "@/lib/expenses/query";
+import { createExpense, listExpenses } from "@/lib/expenses/repository";
+import { validateExpense } from "@/lib/expenses/schema";
+import type { Expense, TransactionType } from "@/lib/expenses/types";
+import { createGoal, validateGoal } from "@/lib/goals";
+import type { OllamaTool } from "@/lib/ollama";
+import { describeErrors, type FieldError } from "@/lib/validation";
+import { ASSISTANT_TOOLS, type AssistantTool, type Citation } from "./types";
+
+/** Rows list_expenses returns when the model does not ask for a number. */
+const DEFAULT_LIST_LIMIT = 20;
+const MAX_LIST_LIMIT = 50;
+/** Largest rows sum_expenses shows alongside its totals. */
+const SUM_EXAMPLES = 5;
+
+const FILTER_PROPERTIES = {
+  category: { type: "string", description: "Exact category name, e.g. Food" },
+  month: { type: "string", description: "Calendar month as YYYY-MM" },
+  from: { type: "string", description: "First day to include, YYYY-MM-DD" },
+  to: { type: "string", description: "Last day to include, YYYY-MM-DD" },
+  q: { type: "string", description: "Text to look for in the title, category or tags" },
+  type: {
+    type: "string",
+    description: "Comma-separated transaction types: expense, income, refund, transfer. Defaults to expense",
+  },
+  minAmount: { type: "number" },
+  maxAmount: { type: "number" },
+};
+
+export const TOOL_DEFINITIONS: OllamaTool[] = [
+  {
+    type: "function",
+    function: {
+      name: "list_expenses",
+      description: "List individual transactions from the user's ledger, newest first, matching the filters.",
+      parameters: {
+        type: "object",
+        properties: {
+          ...FILTER_PROPERTIES,
+          limit: { type: "number", description: `How many rows to return, at most ${MAX_LIST_LIMIT}` },
+        },
+      },
+    },
+  },
+  {
+    type: "function",
+    function: {
+      name: "sum_expenses",
+      description:
+        "Total the transactions matching the filters, optionally broken down by category or month. " +
+        "When expenses are included the total is net spending (refunds subtracted, income and transfers left out); " +
+        "byType gives the total of each transaction type.",
+      parameters: {
+        type: "object",
+        properties: {
+          ...FILTER_PROPERTIES,
+          groupBy: { type: "string", enum: ["category", "month"] },
+        },
+      },
+    },
+  },
+  {
+    type: "function",
+    function: {
+      name: "get_budget_status",
+      description: "Show each budget's limit, spending and remaining amount in its current period.",
+      parameters: {
+        type: "object",
+        properties: { category: { type: "string", description: "Only the budget for this category" } },
+      },
+    },
+  },
+  {
+    type: "function",
+    function: {
+      name: "add_expense",
+      description: "Record a new transaction in the ledger. Only call this when the user asks to add one.",
+      parameters: {
+        type: "object",
+        properties: {
+          title: { type: "string" },
+          amount: { type: "number", description: "Positive amount in the base currency" },
+          category: { type: "string" },
+          date: { type: "string", description: "YYYY-MM-DD; defaults to today" },
+          type: { type: "string", enum: ["expense", "income", "refund", "transfer"] },
+        },
+        required: ["title", "amount", "category"],
+      },
+    },
+  },
+  {
+    type: "function",
+    function: {
+      name: "create_goal",
+      description: "Create a savings goal. Only call this when the user asks for one.",
+      parameters: {
+        type: "object",
+        properties: {
+          title: { type: "string" },
+          target: { type: "number", description: "Amount to save" },
+          deadline: { type: "string", description: "YYYY-MM-DD" },
+          category: { type: "string" },
+          priority: { type: "number", description: "1 (most important) to 5" },
+        },
+        required: ["title", "target"],
+      },
+    },
+  },
+];
+
+/** Numbers transactions in the order tools first return them. */
+export type CitationIndex = { cite: (e: Expense) => number; all: () => Citation[] };
+
+export function createCitationIndex(): CitationIndex {
+  const byId = new Map<string, Citation>();
+  return {
+    cite(e) {
+      const existing = byId.get(e.id);
+      if (existing) return existing.ref;
+      const citation: Citation = {
+        ref: byId.size + 1,
+        expenseId: e.id,
+        title: e.title || e.category,
+        amount: e.amount,
+        category: e.category,
+        date: e.date,
+      };
+      byId.set(e.id, citation);
+      return citation.ref;
+    },
+    all: () => [...byId.values()],
+  };
+}
+
+export type ToolOutcome = {
+  ok: boolean;
+  /** JSON handed back to the model. */
+  result: unknown;
+  summary: string;
+  mutated: boolean;
+};
+
+type ToolArgs = Record<string, unknown>;
+
+/** Small models often send numbers as strings; accept those rather than failing validation. */
+function withNumbers(args: ToolArgs, fields: string[]): ToolArgs {
+  const out = { ...args };
+  for (const field of fields) {
+    const raw = out[field];
+    if (typeof raw === "string" && raw.trim() && Number.isFinite(Number(raw))) out[field] = Number(raw);
+  }
+  return out;
+}
+
+/** Builds the GET /api/expenses query for the filter arguments, spending only by default. */
+function filterQuery(args: ToolArgs) {
+  const params = new URLSearchParams({ type: "expense" });
+  for (const key of [...Object.keys(FILTER_PROPERTIES), "limit"]) {
+    const value = args[key];
+    if (typeof value === "string" || typeof value === "number") params.set(key, String(value));
+  }
+  return parseExpenseQuery(params);
+}
+
+const row = (e: Expense, citations: CitationIndex) => ({
+  ref: citations.cite(e),
+  date: e.date.slice(0, 10),
+  title: e.title ?? "",
+  category: e.category,
+  amount: e.amount,
+  type: e.type ?? "expense",
+});
+
+const invalid = (errors: FieldError[]): ToolOutcome => ({
+  ok: false,
+  result: { error: "Validation failed", errors },
+  summary: describeErrors(errors),
+  mutated: false,
+});
+
+async function listTool(args: ToolArgs, citations: CitationIndex): Promise<ToolOutcome> {
+  const query = filterQuery(args);
+  const limit = Math.min(MAX_LIST_LIMIT, query.limit ?? DEFAULT_LIST_LIMIT);
+  const page = queryExpenses(await listExpenses(), { ...query, limit });
+  return {
+    ok: true,
+    result: { total: page.total, shown: page.expenses.length, expenses: page.expenses.map((e) => row(e, citations)) },
+    summary: `Found ${page.total} transaction${page.total === 1 ? "" : "s"}`,
+    mutated: false,
+  };
+}
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+/**
+ * Totals the matching rows. With any expense among them the totals are net
+ * spending, as on the dashboard; otherwise (only income, say) plain sums.
+ */
+async function sumTool(args: ToolArgs, citations: CitationIndex): Promise<ToolOutcome> {
+  const { expenses } = queryExpenses(await listExpenses(), { ...filterQuery(args), limit: undefined });
+  const spending = expenses.some((e) => transactionType(e) === "expense");
+  const amountOf = (e: Expense) => (spending ? spendAmount(e) : e.amount);
+  const total = round2(expenses.reduce((s, e) => s + amountOf(e), 0));
+
+  const byType: Partial<Record<TransactionType, number>> = {};
+  for (const e of expenses) {
+    const type = transactionType(e);
+    byType[type] = round2((byType[type] ?? 0) + e.amount);
+  }
+
+  let groups: { key: string; total: number; count: number }[] | undefined;
+  if (args.groupBy === "category" || args.groupBy === "month") {
+    const byKey = new Map<string, { total: number; count: number }>();
+    for (const e of expenses) {
+      const key = args.groupBy === "month" ? e.date.slice(0, 7) : e.category;
+      const group = byKey.get(key) ?? { total: 0, count: 0 };
+      group.total += amountOf(e);
+      group.count++;
+      byKey.set(key, group);
+    }
+    groups = [...byKey.entries()]
+      .map(([key, g]) => ({ key, total: round2(g.total), count: g.count }))
+      .sort((a, b) => (args.groupBy === "month" ? a.key.localeCompare(b.key) : b.total - a.total));
+  }
+
+  const largest = [...expenses].sort((a, b) => b.amount - a.amount).slice(0, SUM_EXAMPLES);
+  return {
+    ok: true,
+    result: { total, count: expenses.length, byType, groups, largest: largest.map((e) => row(e, citations)) },
+    summary: `Summed ${expenses.length} transaction${expenses.length === 1 ? "" : "s"}`,
+    mutated: false,
+  };
+}
+
+async function budgetTool(args: ToolArgs): Promise<ToolOutcome> {
+  const category = typeof args.category === "string" ? args.category.trim().toLowerCase() : "";
+  const budgets = (await listBudgets()).filter((b) => !category || b.category.toLowerCase() === category);
+  return {
+    ok: true,
+    result: {
+      budgets: budgets.map((b) => ({
+        category: b.category,
+        period: b.period,
+        periodStart: b.status.period.start,
+        periodEnd: b.status.period.end,
+        limit: b.limit,
+        available: b.status.available,
+        spent: b.status.spent,
+        remaining: b.status.remaining,
+        percentage: b.status.percentage,
+        state: b.status.state,
+      })),
+    },
+    summary: budgets.length ? `Checked ${budgets.length} budget${budgets.length === 1 ? "" : "s"}` : "No matching budgets",
+    mutated: false,
+  };
+}
+
+async function addExpenseTool(args: ToolArgs, citations: CitationIndex): Promise<ToolOutcome> {
+  const result = validateExpense(withNumbers(args, ["amount"]), "create");
+  if (!result.ok) return invalid(result.errors);
+  const converted = await convertExpenseToBase(result.value);
+  if (!converted.ok) return invalid(converted.errors);
+
+  const created = await createExpense(converted.value);
+  await recordBudgetAlerts([created]);
+  const expense = (await refreshAnomalies()).get(created.id) ?? created;
+  return {
+    ok: true,
+    result: { added: row(expense, citations), anomaly: expense.anomaly ? expense.anomalyExplanation : undefined },
+    summary: `Added ${expense.title || expense.category} (${expense.amount})`,
+    mutated: true,
+  };
+}
+
+async function createGoalTool(args: ToolArgs): Promise<ToolOutcome> {
+  const result = validateGoal(withNumbers(args, ["target", "priority"]));
+  if (!result.ok) return invalid(result.errors);
+  const goal = await createGoal(result.value);
+  return {
+    ok: true,
+    result: {
+      created: { id: goal.id, title: goal.title, target: goal.target, deadline: goal.deadline, category: goal.category },
+      requiredMonthly: goal.progress.requiredMonthly,
+    },
+    summary: `Created goal "${goal.title}" (${goal.target})`,
+    mutated: true,
+  };
+}
+
+const RUNNERS: Record<AssistantTool, (args: ToolArgs, citations: CitationIndex) => Promise<ToolOutcome>> = {
+  list_expenses: listTool,
+  sum_expenses: sumTool,
+  get_budget_status: budgetTool,
+  add_expense: addExpenseTool,
+  create_goal: createGoalTool,
+};
+
+/** Runs one tool call. Unknown tools and bad arguments come back as an unsuccessful outcome, not an exception. */
+export async function runTool(name: string, args: ToolArgs, citations: CitationIndex): Promise<ToolOutcome> {
+  if (!ASSISTANT_TOOLS.includes(name as AssistantTool)) {
+    return { ok: false, result: { error: `Unknown tool "${name}"` }, summary: "Unknown tool", mutated: false };
+  }
+  return RUNNERS[name as AssistantTool](args, citations);
+}
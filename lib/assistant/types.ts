@@ -0,0 +1,125 @@
+/**
+ * lib/assistant/types.ts
+ * The finance assistant behind /api/chat: the conversation it receives, the
+ * tools it may run against the ledger (see ./tools.ts) and what it answers.
+ */
+
+export const ASSISTANT_TOOLS = [
+  "list_expenses",
+  "sum_expenses",
+  "get_budget_status",
+  "add_expense",
+  "create_goal",
+] as const;
+
+export type AssistantTool = (typeof ASSISTANT_TOOLS)[number];
+
+/** Tools that write to the store; clients should reload their data after one of these ran. */
+export const MUTATING_TOOLS: readonly AssistantTool[] = ["add_expense", "create_goal"];
+
+export const CHAT_TONES = ["concise", "friendly", "formal"] as const;
+
+export type ChatTone = (typeof CHAT_TONES)[number];
+
+/** Appended to the system prompt for each tone. */
+export const TONE_INSTRUCTIONS: Record<ChatTone, string> = {
+  concise: "Keep answers short: lead with the figure or the recommendation, then at most a few bullet points.",
+  friendly: "Be warm and encouraging, in plain everyday language, and acknowledge progress before suggesting changes.",
+  formal: "Write in a formal, professional register, as a financial adviser would in a written summary.",
+};
+
+/** How the user has set the assistant up in the chat page. */
+export type AssistantSettings = {
+  /** The user's own instructions, added after the built-in ones. */
+  systemPrompt?: string;
+  tone: ChatTone;
+  /** Upper bound on answer length, sent to Ollama as `num_predict`. */
+  maxTokens?: number;
+  /** Sampling temperature; Ollama's default when unset. */
+  temperature?: number;
+};
+
+/** One earlier message of the conversation, as the client sends it. */
+export type ChatTurn = { role: "user" | "assistant"; content: string };
+
+/** A transaction the assistant looked at, numbered as it was shown to the model. */
+export type Citation = {
+  /** The number the reply refers to, as in "[3]". */
+  ref: number;
+  expenseId: string;
+  title: string;
+  amount: number;
+  category: string;
+  date: string;
+};
+
+/** A tool the assistant ran while answering. */
+export type ToolCallRecord = {
+  name: string;
+  arguments: Record<string, unknown>;
+  ok: boolean;
+  /** One line on what happened, e.g. "Found 12 expenses" or the validation error. */
+  summary: string;
+};
+
+export type AssistantUsage = { promptTokens: number; completionTokens: number; totalTokens: number };
+
+export type AssistantTiming = {
+  /** From the request reaching the server to the end of the answer. */
+  totalMs: number;
+  /** Until the first piece of answer text; null when the answer was empty. */
+  firstTokenMs: number | null;
+  /** Time Ollama reports spending on its calls, summed over tool rounds. */
+  modelMs: number;
+};
+
+export type AssistantReply = {
+  reply: string;
+  /** The transactions the reply cites; every transaction the tools returned (up to a cap) when it cites none. */
+  citations: Citation[];
+  toolCalls: ToolCallRecord[];
+  /** Whether an expense or goal was created, so the client knows to refresh. */
+  mutated: boolean;
+  model: string;
+  /** Summed over every model call of the turn, tool rounds included. */
+  usage: AssistantUsage;
+  timing: AssistantTiming;
+};
+
+/** A model-written digest of the turns of a stored chat that no longer fit the context window. */
+export type ConversationSummary = {
+  content: string;
+  /** createdAt of the newest message folded in; null for a summary written by hand before any was. */
+  coversUntil: string | null;
+  updatedAt: string;
+};
+
+/** How a stored chat's history was fitted into the model's context for one turn. */
+export type ContextReport = {
+  /** Tokens available for earlier turns and the summary. */
+  budget: number;
+  /** Estimated tokens of the turns sent verbatim plus the summary. */
+  tokens: number;
+  /** Earlier messages sent verbatim, pinned ones included. */
+  kept: number;
+  /** Pinned messages that were kept although older than the rest. */
+  pinned: number;
+  /** Earlier messages represented only by the summary. */
+  summarised: number;
+  summary: ConversationSummary | null;
+};
+
+/** Everything in the reply except its text, sent as the last frame of a stream. */
+export type AssistantMetadata = Omit<AssistantReply, "reply">;
+
+/**
+ * One line of the NDJSON stream /api/chat returns with `stream: true`. Only
+ * "delta" frames have a `content` key, so clients that read `content` from
+ * every line see just the answer text.
+ */
+export type AssistantFrame =
+  | { type: "delta"; content: string }
+  | { type: "tool"; call: ToolCallRecord }
+  | { type: "context"; context: ContextReport }
+  | ({ type: "done"; done: true } & AssistantMetadata)
+  | { type: "error"; error: string };
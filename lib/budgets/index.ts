@@ -0,0 +1,10 @@
+/**
+ * lib/budgets
+ * Stored per-category budgets with monthly, weekly or custom periods,
+ * rollover of unspent money, and over-budget alerts.
+ */
+
+export * from "./types";
+export * from "./repository";
+export { alertThreshold, budgetStatus, periodContaining } from "./period";
+export { validateBudget, validateBudgetPatch } from "./schema";
@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+import type { Expense } from "@/lib/expenses/types";
+import { budgetStatus, periodContaining, previousPeriod } from "./period";
+import type { BudgetFields } from "./types";
+
+const budget = (overrides: Partial<BudgetFields> = {}): BudgetFields => ({
+  category: "Food",
+  limit: 1000,
+  period: "monthly",
+  startDate: "2025-01-01",
+  rollover: false,
+  priority: "medium",
+  ...overrides,
+});
+
+const spend = (amount: number, date: string, type: Expense["type"] = "expense") =>
+  ({ id: `${date}-${amount}`, type, amount, category: "Food", date: `${date}T12:00:00.000Z` }) as Expense;
+
+describe("periodContaining", () => {
+  it("follows calendar months", () => {
+    expect(periodContaining(budget(), "2025-02-14")).toEqual({ start: "2025-02-01", end: "2025-03-01" });
+    expect(previousPeriod(budget(), { start: "2025-01-01", end: "2025-02-01" })).toEqual({
+      start: "2024-12-01",
+      end: "2025-01-01",
+    });
+  });
+
+  it("starts weeks on Monday", () => {
+    // 2025-03-16 is a Sunday.
+    expect(periodContaining(budget({ period: "weekly" }), "2025-03-16")).toEqual({ start: "2025-03-10", end: "2025-03-17" });
+  });
+
+  it("counts custom periods from the start date", () => {
+    const rule = budget({ period: "custom", periodDays: 10, startDate: "2025-01-05" });
+    expect(periodContaining(rule, "2025-01-20")).toEqual({ start: "2025-01-15", end: "2025-01-25" });
+    expect(periodContaining(rule, "2025-01-04")).toEqual({ start: "2024-12-26", end: "2025-01-05" });
+  });
+});
+
+describe("budgetStatus", () => {
+  const expenses = [
+    spend(400, "2025-01-10"),
+    spend(700, "2025-02-03"),
+    spend(100, "2025-02-20", "refund"),
+    spend(900, "2025-03-02"),
+    spend(5000, "2025-03-01", "income"),
+  ];
+
+  it("nets refunds and warns at the priority's threshold", () => {
+    expect(budgetStatus(budget(), expenses, "2025-02-15")).toMatchObject({
+      spent: 600,
+      available: 1000,
+      percentage: 60,
+      state: "ok",
+    });
+    expect(budgetStatus(budget({ priority: "high", alertThreshold: 50 }), expenses, "2025-02-15").state).toBe("warning");
+    expect(budgetStatus(budget({ limit: 500 }), expenses, "2025-02-15")).toMatchObject({ remaining: -100, state: "over" });
+  });
+
+  it("carries unspent money forward with rollover", () => {
+    // January leaves 600, February 1000 + 600 - 600 = 1000.
+    expect(budgetStatus(budget({ rollover: true }), expenses, "2025-03-15")).toMatchObject({
+      carriedOver: 1000,
+      available: 2000,
+      spent: 900,
+    });
+  });
+
+  it("never carries a deficit", () => {
+    const status = budgetStatus(budget({ rollover: true, limit: 300 }), expenses, "2025-03-15");
+    expect(status.carriedOver).toBe(0);
+  });
+});
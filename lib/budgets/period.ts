@@ -0,0 +1,113 @@
+/**
+ * lib/budgets/period.ts
+ * Period arithmetic and budget status. Pure, so the dashboard can use the
+ * same rules as the API. All dates are UTC days.
+ */
+
+import { spendAmount } from "@/lib/expenses/cashflow";
+import type { Expense } from "@/lib/expenses/types";
+import {
+  DEFAULT_ALERT_THRESHOLDS,
+  type BudgetFields,
+  type BudgetPeriodRange,
+  type BudgetState,
+  type BudgetStatus,
+} from "./types";
+
+const DAY_MS = 86_400_000;
+
+/** Rollover looks back at most this many finished periods. */
+export const MAX_ROLLOVER_PERIODS = 120;
+
+const day = (d: Date) => d.toISOString().slice(0, 10);
+const utcDay = (iso: string) => new Date(`${iso.slice(0, 10)}T00:00:00Z`);
+
+type PeriodRule = Pick<BudgetFields, "period" | "periodDays" | "startDate">;
+
+/** The period of `rule` that contains `at`. */
+export function periodContaining(rule: PeriodRule, at: Date | string): BudgetPeriodRange {
+  const date = utcDay(typeof at === "string" ? at : at.toISOString());
+
+  if (rule.period === "weekly") {
+    // getUTCDay: 0 = Sunday; weeks start on Monday.
+    const start = new Date(date.getTime() - ((date.getUTCDay() + 6) % 7) * DAY_MS);
+    return { start: day(start), end: day(new Date(start.getTime() + 7 * DAY_MS)) };
+  }
+
+  if (rule.period === "custom") {
+    const length = (rule.periodDays ?? 30) * DAY_MS;
+    const anchor = utcDay(rule.startDate).getTime();
+    const index = Math.floor((date.getTime() - anchor) / length);
+    const start = new Date(anchor + index * length);
+    return { start: day(start), end: day(new Date(start.getTime() + length)) };
+  }
+
+  const start = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1));
+  const end = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1));
+  return { start: day(start), end: day(end) };
+}
+
+export function previousPeriod(rule: PeriodRule, period: BudgetPeriodRange): BudgetPeriodRange {
+  return periodContaining(rule, new Date(utcDay(period.start).getTime() - DAY_MS));
+}
+
+export function inPeriod(date: string, period: BudgetPeriodRange): boolean {
+  const d = date.slice(0, 10);
+  return d >= period.start && d < period.end;
+}
+
+/** Net spending in the budget's category during `period`. */
+export function spentInPeriod(rule: Pick<BudgetFields, "category">, expenses: Expense[], period: BudgetPeriodRange): number {
+  const total = expenses
+    .filter((e) => e.category === rule.category && inPeriod(e.date, period))
+    .reduce((sum, e) => sum + spendAmount(e), 0);
+  return Math.round(total * 100) / 100;
+}
+
+/**
+ * Unspent money carried into `period`: each finished period since the
+ * budget started passes on `limit + carried - spent`, never less than zero.
+ */
+export function carriedInto(budget: BudgetFields, expenses: Expense[], period: BudgetPeriodRange): number {
+  if (!budget.rollover) return 0;
+
+  const firstStart = periodContaining(budget, budget.startDate).start;
+  const finished: BudgetPeriodRange[] = [];
+  let p = period;
+  while (finished.length < MAX_ROLLOVER_PERIODS) {
+    p = previousPeriod(budget, p);
+    if (p.start < firstStart) break;
+    finished.unshift(p);
+  }
+
+  return finished.reduce(
+    (carry, range) => Math.max(0, Math.round((budget.limit + carry - spentInPeriod(budget, expenses, range)) * 100) / 100),
+    0
+  );
+}
+
+export function alertThreshold(budget: Pick<BudgetFields, "alertThreshold" | "priority">): number {
+  return budget.alertThreshold ?? DEFAULT_ALERT_THRESHOLDS[budget.priority];
+}
+
+export function budgetState(budget: BudgetFields, spent: number, available: number): BudgetState {
+  if (spent > available) return "over";
+  return available > 0 && (spent / available) * 100 >= alertThreshold(budget) ? "warning" : "ok";
+}
+
+/** Where `budget` stands in the period containing `at`. */
+export function budgetStatus(budget: BudgetFields, expenses: Expense[], at: Date | string = new Date()): BudgetStatus {
+  const period = periodContaining(budget, at);
+  const spent = spentInPeriod(budget, expenses, period);
+  const carriedOver = carriedInto(budget, expenses, period);
+  const available = Math.round((budget.limit + carriedOver) * 100) / 100;
+  return {
+    period,
+    spent,
+    carriedOver,
+    available,
+    remaining: Math.round((available - spent) * 100) / 100,
+    percentage: available > 0 ? Math.round((spent / available) * 100) : 0,
+    state: budgetState(budget, spent, available),
+  };
+}
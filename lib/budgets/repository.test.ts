@@ -0,0 +1,34 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { Database, MemoryBackend } from "@/lib/db";
+import { createBudget, updateBudget } from "./repository";
+import type { NewBudget } from "./types";
+
+const input = (category: string): NewBudget => ({
+  category,
+  limit: 500,
+  period: "monthly",
+  startDate: "2025-01-01",
+  rollover: false,
+  priority: "medium",
+});
+
+let db: Database;
+beforeEach(() => {
+  db = new Database(new MemoryBackend());
+});
+
+describe("budget category uniqueness", () => {
+  it("creates one budget per category even when requests race", async () => {
+    const results = await Promise.all(Array.from({ length: 5 }, () => createBudget(input("Food"), db)));
+    expect(results.filter((r) => r.ok)).toHaveLength(1);
+  });
+
+  it("refuses to rename a budget onto another category", async () => {
+    await createBudget(input("Food"), db);
+    const travel = await createBudget(input("Travel"), db);
+    if (!travel.ok) throw new Error("setup failed");
+    const renamed = await updateBudget(travel.value.id, { category: "Food" }, db);
+    expect(renamed?.ok).toBe(false);
+    expect((await updateBudget(travel.value.id, { limit: 800 }, db))?.ok).toBe(true);
+  });
+});
@@ -0,0 +1,151 @@
+import { randomUUID } from "crypto";
+
+import { getDatabase, type Database, type DatabaseState } from "@/lib/db";
+import { spendAmount } from "@/lib/expenses/cashflow";
+import type { Expense } from "@/lib/expenses/types";
+import type { ValidationResult } from "@/lib/validation";
+import { budgetState, budgetStatus, periodContaining } from "./period";
+import type { Budget, BudgetAlert, BudgetPatch, BudgetPriority, BudgetWithStatus, NewBudget } from "./types";
+
+const PRIORITY_ORDER: Record<BudgetPriority, number> = { high: 0, medium: 1, low: 2 };
+
+const withStatus = (state: DatabaseState, budget: Budget, at: Date): BudgetWithStatus => ({
+  ...budget,
+  status: budgetStatus(budget, state.expenses, at),
+});
+
+/** Every budget with its status for the period containing `at`, high priority first. */
+export async function listBudgets(at = new Date(), db: Database = getDatabase()): Promise<BudgetWithStatus[]> {
+  return db.read((state) =>
+    state.budgets
+      .map((b) => withStatus(state, b, at))
+      .sort((a, b) => PRIORITY_ORDER[a.priority] - PRIORITY_ORDER[b.priority] || a.category.localeCompare(b.category))
+  );
+}
+
+export async function getBudget(id: string, at = new Date(), db: Database = getDatabase()): Promise<BudgetWithStatus | null> {
+  return db.read((state) => {
+    const budget = state.budgets.find((b) => b.id === id);
+    return budget ? withStatus(state, budget, at) : null;
+  });
+}
+
+/** Each category has at most one budget. */
+const categoryTaken = (state: DatabaseState, category: string | undefined, exceptId?: string) =>
+  !!category && state.budgets.some((b) => b.category === category && b.id !== exceptId);
+
+const categoryConflict: ValidationResult<never> = {
+  ok: false,
+  errors: [{ field: "category", message: "already has a budget" }],
+};
+
+/**
+ * Adds a budget; a validation failure when its category already has one.
+ * The check runs in the same write, so concurrent requests cannot both pass it.
+ */
+export async function createBudget(input: NewBudget, db: Database = getDatabase()): Promise<ValidationResult<BudgetWithStatus>> {
+  return db.write((state) => {
+    if (categoryTaken(state, input.category)) return categoryConflict;
+    const now = new Date().toISOString();
+    const budget: Budget = { ...input, id: randomUUID(), createdAt: now, updatedAt: now };
+    state.budgets.push(budget);
+    return { ok: true, value: withStatus(state, budget, new Date()) };
+  });
+}
+
+/** Null when the budget does not exist; a validation failure when the new category already has one. */
+export async function updateBudget(
+  id: string,
+  patch: BudgetPatch,
+  db: Database = getDatabase()
+): Promise<ValidationResult<BudgetWithStatus> | null> {
+  return db.write((state) => {
+    const budget = state.budgets.find((b) => b.id === id);
+    if (!budget) return null;
+    if (categoryTaken(state, patch.category, id)) return categoryConflict;
+    Object.assign(budget, patch, { updatedAt: new Date().toISOString() });
+    for (const key of Object.keys(patch) as (keyof BudgetPatch)[]) {
+      if (patch[key] === undefined) delete budget[key];
+    }
+    return { ok: true, value: withStatus(state, budget, new Date()) };
+  });
+}
+
+/** Removes a budget together with its alerts. */
+export async function deleteBudget(id: string, db: Database = getDatabase()): Promise<boolean> {
+  return db.write((state) => {
+    const before = state.budgets.length;
+    state.budgets = state.budgets.filter((b) => b.id !== id);
+    state.budgetAlerts = state.budgetAlerts.filter((a) => a.budgetId !== id);
+    return state.budgets.length !== before;
+  });
+}
+
+/**
+ * Raises alerts for budgets that `expenses` (just written) pushed past their
+ * warning threshold or limit, in the period the expenses fall in. A budget
+ * gets at most one alert per level per period.
+ */
+export async function recordBudgetAlerts(expenses: Expense[], db: Database = getDatabase()): Promise<BudgetAlert[]> {
+  const relevant = expenses.filter((e) => spendAmount(e) > 0);
+  if (!relevant.length) return [];
+
+  return db.write((state) => {
+    const raised: BudgetAlert[] = [];
+    for (const budget of state.budgets) {
+      // A batch (import, recurring catch-up) can touch several periods; judge each once.
+      const byPeriod = new Map<string, Expense[]>();
+      for (const e of relevant) {
+        if (e.category !== budget.category || e.date.slice(0, 10) < budget.startDate.slice(0, 10)) continue;
+        const key = periodContaining(budget, e.date).start;
+        byPeriod.set(key, [...(byPeriod.get(key) ?? []), e]);
+      }
+
+      for (const group of byPeriod.values()) {
+        const last = group.reduce((a, b) => (b.date > a.date ? b : a));
+        const status = budgetStatus(budget, state.expenses, last.date);
+        const added = group.reduce((sum, e) => sum + spendAmount(e), 0);
+        const before = budgetState(budget, status.spent - added, status.available);
+        if (status.state === "ok" || status.state === before) continue;
+
+        const exists = state.budgetAlerts.some(
+          (a) => a.budgetId === budget.id && a.level === status.state && a.period.start === status.period.start
+        );
+        if (exists) continue;
+
+        const alert: BudgetAlert = {
+          id: randomUUID(),
+          budgetId: budget.id,
+          category: budget.category,
+          level: status.state,
+          period: status.period,
+          spent: status.spent,
+          available: status.available,
+          expenseId: last.id,
+          createdAt: new Date().toISOString(),
+        };
+        state.budgetAlerts.push(alert);
+        raised.push(alert);
+      }
+    }
+    return raised;
+  });
+}
+
+/** Newest first. Dismissed alerts are left out unless `includeDismissed`. */
+export async function listBudgetAlerts(includeDismissed = false, db: Database = getDatabase()): Promise<BudgetAlert[]> {
+  return db.read((state) =>
+    state.budgetAlerts
+      .filter((a) => includeDismissed || !a.dismissedAt)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+  );
+}
+
+export async function dismissBudgetAlert(id: string, db: Database = getDatabase()): Promise<BudgetAlert | null> {
+  return db.write((state) => {
+    const alert = state.budgetAlerts.find((a) => a.id === id);
+    if (!alert) return null;
+    alert.dismissedAt ??= new Date().toISOString();
+    return alert;
+  });
+}
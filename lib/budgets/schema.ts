@@ -0,0 +1,115 @@
+/**
+ * lib/budgets/schema.ts
+ * Validation for budgets. Category, limit and start date reuse the expense
+ * parsers so limits follow the same amount rules as expenses.
+ */
+
+import { parseExpenseField } from "@/lib/expenses/schema";
+import { isPlainObject, type FieldError, type ValidationResult } from "@/lib/validation";
+import {
+  BUDGET_PERIODS,
+  BUDGET_PRIORITIES,
+  type BudgetFields,
+  type BudgetPatch,
+  type BudgetPeriod,
+  type BudgetPriority,
+  type NewBudget,
+} from "./types";
+
+const MAX_PERIOD_DAYS = 366;
+const READ_ONLY_FIELDS = ["id", "status", "createdAt", "updatedAt"];
+
+type FieldParser = (raw: unknown) => { value: unknown } | { error: string };
+
+const PARSERS: { [K in keyof BudgetFields]-?: FieldParser } = {
+  category: (raw) => parseExpenseField("category", raw),
+  limit: (raw) => parseExpenseField("amount", raw),
+  period: (raw) =>
+    BUDGET_PERIODS.includes(raw as BudgetPeriod)
+      ? { value: raw }
+      : { error: `must be one of ${BUDGET_PERIODS.join(", ")}` },
+  periodDays: (raw) =>
+    typeof raw === "number" && Number.isInteger(raw) && raw >= 1 && raw <= MAX_PERIOD_DAYS
+      ? { value: raw }
+      : { error: `must be a whole number from 1 to ${MAX_PERIOD_DAYS}` },
+  startDate: (raw) => parseExpenseField("date", raw),
+  rollover: (raw) => (typeof raw === "boolean" ? { value: raw } : { error: "must be a boolean" }),
+  priority: (raw) =>
+    BUDGET_PRIORITIES.includes(raw as BudgetPriority)
+      ? { value: raw }
+      : { error: `must be one of ${BUDGET_PRIORITIES.join(", ")}` },
+  alertThreshold: (raw) =>
+    typeof raw === "number" && Number.isFinite(raw) && raw >= 1 && raw <= 100
+      ? { value: Math.round(raw) }
+      : { error: "must be a number from 1 to 100" },
+};
+
+const FIELDS = Object.keys(PARSERS) as (keyof BudgetFields)[];
+
+function parseFields(body: Record<string, unknown>, errors: FieldError[]): Record<string, unknown> {
+  const out: Record<string, unknown> = {};
+  for (const [field, raw] of Object.entries(body)) {
+    if (READ_ONLY_FIELDS.includes(field)) continue;
+    if (!(FIELDS as string[]).includes(field)) {
+      errors.push({ field, message: "is not a recognised budget field" });
+      continue;
+    }
+    if (raw === undefined || raw === null) continue;
+    const parsed = PARSERS[field as keyof BudgetFields](raw);
+    if ("error" in parsed) errors.push({ field, message: parsed.error });
+    else out[field] = parsed.value;
+  }
+  return out;
+}
+
+function checkCustomPeriod(budget: Partial<BudgetFields>, errors: FieldError[]) {
+  if (budget.period === "custom" && budget.periodDays === undefined) {
+    errors.push({ field: "periodDays", message: "is required for custom periods" });
+  }
+}
+
+/**
+ * Validates a new budget. `category` and `limit` are required; `period`
+ * defaults to "monthly", `startDate` to now, `rollover` to false and
+ * `priority` to "medium".
+ */
+export function validateBudget(body: unknown): ValidationResult<NewBudget> {
+  if (!isPlainObject(body)) {
+    return { ok: false, errors: [{ field: "body", message: "must be a JSON object" }] };
+  }
+
+  const errors: FieldError[] = [];
+  const fields = parseFields(body, errors);
+  for (const field of ["category", "limit"] as const) {
+    if (body[field] === undefined || body[field] === null) errors.push({ field, message: "is required" });
+  }
+
+  const budget = {
+    period: "monthly",
+    startDate: new Date().toISOString(),
+    rollover: false,
+    priority: "medium",
+    ...fields,
+  } as NewBudget;
+  checkCustomPeriod(budget, errors);
+
+  return errors.length ? { ok: false, errors } : { ok: true, value: budget };
+}
+
+/** Validates a PATCH body; `null` clears `periodDays` or `alertThreshold`, the rest cannot be cleared. */
+export function validateBudgetPatch(body: unknown, current?: BudgetFields): ValidationResult<BudgetPatch> {
+  if (!isPlainObject(body)) {
+    return { ok: false, errors: [{ field: "body", message: "must be a JSON object" }] };
+  }
+
+  const errors: FieldError[] = [];
+  const patch = parseFields(body, errors);
+  for (const field of FIELDS) {
+    if (body[field] !== null) continue;
+    if (field === "periodDays" || field === "alertThreshold") patch[field] = undefined;
+    else errors.push({ field, message: "cannot be cleared" });
+  }
+  if (current) checkCustomPeriod({ ...current, ...patch }, errors);
+
+  return errors.length ? { ok: false, errors } : { ok: true, value: patch as BudgetPatch };
+}
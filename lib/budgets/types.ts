@@ -0,0 +1,90 @@
+/**
+ * lib/budgets/types.ts
+ * Per-category spending limits, the period each one resets on, and the
+ * alerts raised when spending crosses them.
+ */
+
+export const BUDGET_PERIODS = ["monthly", "weekly", "custom"] as const;
+
+export type BudgetPeriod = (typeof BUDGET_PERIODS)[number];
+
+export const BUDGET_PRIORITIES = ["high", "medium", "low"] as const;
+
+export type BudgetPriority = (typeof BUDGET_PRIORITIES)[number];
+
+/**
+ * Percentage of the available amount at which a warning is raised when the
+ * budget sets no `alertThreshold`. Categories you care most about warn earlier.
+ */
+export const DEFAULT_ALERT_THRESHOLDS: Record<BudgetPriority, number> = {
+  high: 70,
+  medium: 80,
+  low: 90,
+};
+
+/** Everything a client may set on a budget. */
+export type BudgetFields = {
+  category: string;
+  /** Spending allowed per period, in the base currency. */
+  limit: number;
+  /** Monthly budgets follow calendar months, weekly ones start on Monday. */
+  period: BudgetPeriod;
+  /** Length of a custom period in days. */
+  periodDays?: number;
+  /** First day the budget applies (ISO); custom periods are counted from it. */
+  startDate: string;
+  /** Carry unspent money from each finished period into the next. */
+  rollover: boolean;
+  priority: BudgetPriority;
+  /** Warn at this percentage of the available amount (1-100). */
+  alertThreshold?: number;
+};
+
+export type Budget = BudgetFields & {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type NewBudget = BudgetFields;
+
+export type BudgetPatch = Partial<BudgetFields>;
+
+/** A half-open [start, end) range of UTC days, as YYYY-MM-DD. */
+export type BudgetPeriodRange = { start: string; end: string };
+
+export type BudgetState = "ok" | "warning" | "over";
+
+/** How a budget stands in one period. */
+export type BudgetStatus = {
+  period: BudgetPeriodRange;
+  /** Expenses net of refunds in the category during the period. */
+  spent: number;
+  /** Unspent money rolled in from earlier periods (0 without rollover). */
+  carriedOver: number;
+  /** `limit + carriedOver`. */
+  available: number;
+  /** Negative once over budget. */
+  remaining: number;
+  /** `spent` as a share of `available`, rounded. */
+  percentage: number;
+  state: BudgetState;
+};
+
+export type BudgetWithStatus = Budget & { status: BudgetStatus };
+
+/** Raised when an expense pushes a budget past its warning threshold or its limit. */
+export type BudgetAlert = {
+  id: string;
+  budgetId: string;
+  category: string;
+  level: Exclude<BudgetState, "ok">;
+  period: BudgetPeriodRange;
+  spent: number;
+  available: number;
+  /** The expense that crossed the line. */
+  expenseId: string;
+  createdAt: string;
+  /** Set once the user has seen and dismissed the alert. */
+  dismissedAt?: string;
+};
@@ -0,0 +1,17 @@
+/**
+ * lib/categorization
+ * Expense categorisation: learned merchant rules, the local model and the
+ * keyword map, in that order.
+ */
+
+export * from "./types";
+export * from "./repository";
+export { matchCategory, ruleConfidence, ruleForTitle } from "./rules";
+export { MODEL_TIMEOUT_MS } from "./model";
+export {
+  DEFAULT_SUGGESTION_CATEGORIES,
+  validateCategorizeRequest,
+  validateCategoryRule,
+  type CategorizeRequest,
+  type CategoryRuleInput,
+} from "./schema";
@@ -0,0 +1,56 @@
+/**
+ * lib/categorization/model.ts
+ * Asks the local model to pick a category. The answer is constrained by a
+ * JSON schema (the category must be one of the list), and anything that
+ * does not parse is treated as no answer.
+ */
+
+import { ollamaChat } from "@/lib/ollama";
+import { matchCategory } from "./rules";
+
+/** The dashboard waits for this long before falling back to keywords. */
+export const MODEL_TIMEOUT_MS = 8000;
+
+const SYSTEM_PROMPT =
+  "You categorise personal expenses. Pick the single best category for the expense from the given list " +
+  "and say how confident you are, from 0 to 100. Answer with JSON only.";
+
+export async function modelCategory(
+  title: string,
+  categories: string[],
+  amount?: number
+): Promise<{ category: string; confidence: number } | null> {
+  const message = await ollamaChat({
+    messages: [
+      { role: "system", content: SYSTEM_PROMPT },
+      {
+        role: "user",
+        content: `Expense: "${title}"${amount ? ` (amount ${amount})` : ""}\nCategories: ${categories.join(", ")}`,
+      },
+    ],
+    format: {
+      type: "object",
+      properties: {
+        category: { type: "string", enum: categories },
+        confidence: { type: "number", minimum: 0, maximum: 100 },
+      },
+      required: ["category", "confidence"],
+    },
+    options: { temperature: 0 },
+    signal: AbortSignal.timeout(MODEL_TIMEOUT_MS),
+  });
+
+  let answer: unknown;
+  try {
+    answer = JSON.parse(message.content);
+  } catch {
+    return null;
+  }
+  const { category, confidence } = (answer ?? {}) as { category?: unknown; confidence?: unknown };
+  const matched = typeof category === "string" ? matchCategory(category, categories) : null;
+  if (!matched) return null;
+  const score = typeof confidence === "number" && Number.isFinite(confidence) ? confidence : 50;
+  // Small models sometimes answer on a 0-1 scale despite the prompt.
+  const percent = score > 0 && score <= 1 ? score * 100 : score;
+  return { category: matched, confidence: Math.round(Math.min(100, Math.max(0, percent))) };
+}
@@ -0,0 +1,87 @@
+import { randomUUID } from "crypto";
+
+import { getDatabase, type Database } from "@/lib/db";
+import { matchCategoryKeyword } from "@/lib/expenses/categorize";
+import type { Expense } from "@/lib/expenses/types";
+import { normalizeTitle } from "@/lib/recurring/detect";
+import { modelCategory } from "./model";
+import { matchCategory, ruleConfidence, ruleForTitle } from "./rules";
+import { DEFAULT_CONFIDENCE, KEYWORD_CONFIDENCE, type CategoryRule, type CategorySuggestion } from "./types";
+
+/** Most confirmed first. */
+export async function listCategoryRules(db: Database = getDatabase()): Promise<CategoryRule[]> {
+  return db.read((state) => [...state.categoryRules].sort((a, b) => b.hits - a.hits || a.merchant.localeCompare(b.merchant)));
+}
+
+/**
+ * Records that `title`'s merchant belongs in `category`. Confirming the
+ * same category strengthens the rule; a different one replaces it. Returns
+ * null when the title has no usable merchant name.
+ */
+export async function learnCategoryRule(title: string, category: string, db: Database = getDatabase()): Promise<CategoryRule | null> {
+  const merchant = normalizeTitle(title);
+  if (!merchant) return null;
+  return db.write((state) => {
+    const now = new Date().toISOString();
+    const index = state.categoryRules.findIndex((r) => r.merchant === merchant);
+    if (index === -1) {
+      const rule: CategoryRule = { id: randomUUID(), merchant, category, hits: 1, createdAt: now, updatedAt: now };
+      state.categoryRules.push(rule);
+      return rule;
+    }
+    const current = state.categoryRules[index];
+    const hits = current.category === category ? current.hits + 1 : 1;
+    const updated: CategoryRule = { ...current, category, hits, updatedAt: now };
+    state.categoryRules[index] = updated;
+    return updated;
+  });
+}
+
+/** Learns from an edit: a spending row whose category changed teaches its merchant the new one. */
+export async function learnFromCorrection(before: Expense, after: Expense, db: Database = getDatabase()): Promise<void> {
+  if ((after.type ?? "expense") !== "expense" || !after.title || before.category === after.category) return;
+  await learnCategoryRule(after.title, after.category, db);
+}
+
+export async function deleteCategoryRule(id: string, db: Database = getDatabase()): Promise<boolean> {
+  return db.write((state) => {
+    const before = state.categoryRules.length;
+    state.categoryRules = state.categoryRules.filter((r) => r.id !== id);
+    return state.categoryRules.length < before;
+  });
+}
+
+/**
+ * Suggests a category from `categories` for an expense title: a learned
+ * merchant rule first, then the local model, then the keyword map, then the
+ * first of `fallbacks` that is in the list ("Other" by default). The model
+ * step is skipped, not fatal, when Ollama is down or slow.
+ */
+export async function suggestCategory(
+  input: { title: string; categories: string[]; amount?: number },
+  db: Database = getDatabase()
+): Promise<CategorySuggestion> {
+  const { title, categories, amount } = input;
+
+  const rule = ruleForTitle(await listCategoryRules(db), title, categories);
+  if (rule) {
+    return { category: matchCategory(rule.category, categories)!, confidence: ruleConfidence(rule), source: "rule" };
+  }
+
+  try {
+    const answer = await modelCategory(title, categories, amount);
+    if (answer) return { ...answer, source: "model" };
+  } catch {
+    // Ollama unreachable or timed out: the keyword map still gives an answer.
+  }
+
+  const keyword = matchCategoryKeyword(title);
+  const matched = keyword ? matchCategory(keyword, categories) : null;
+  if (matched) return { category: matched, confidence: KEYWORD_CONFIDENCE, source: "keyword" };
+
+  return {
+    category: matchCategory("Other", categories) ?? categories[0],
+    confidence: DEFAULT_CONFIDENCE,
+    source: "default",
+  };
+}
@@ -0,0 +1,29 @@
+/**
+ * lib/categorization/rules.ts
+ * Pure lookups over learned merchant rules, shared by the categoriser and
+ * the statement importer.
+ */
+
+import { normalizeTitle } from "@/lib/recurring/detect";
+import type { CategoryRule } from "./types";
+
+/** A rule confirmed once is already strong; each further confirmation adds a point, up to 99. */
+export const ruleConfidence = (rule: Pick<CategoryRule, "hits">) => Math.min(99, 90 + rule.hits);
+
+/** Finds `category` in `categories` ignoring case, returning the list's spelling. */
+export function matchCategory(category: string, categories: string[]): string | null {
+  const wanted = category.trim().toLowerCase();
+  return categories.find((c) => c.toLowerCase() === wanted) ?? null;
+}
+
+/**
+ * The rule for `title`'s merchant, if one exists and (when `categories` is
+ * given) its category is still one of them.
+ */
+export function ruleForTitle(rules: CategoryRule[], title: string, categories?: string[]): CategoryRule | null {
+  const merchant = normalizeTitle(title);
+  if (!merchant) return null;
+  const rule = rules.find((r) => r.merchant === merchant);
+  if (!rule || (categories && !matchCategory(rule.category, categories))) return null;
+  return rule;
+}
@@ -0,0 +1,71 @@
+/**
+ * lib/categorization/schema.ts
+ * Validation for categorisation requests and rule corrections. Titles and
+ * categories follow the expense field rules.
+ */
+
+import { CATEGORY_KEYWORDS } from "@/lib/expenses/categorize";
+import { parseExpenseField } from "@/lib/expenses/schema";
+import { isPlainObject, type FieldError, type ValidationResult } from "@/lib/validation";
+
+const MAX_CATEGORIES = 100;
+
+/** Used when a request does not send its own list. */
+export const DEFAULT_SUGGESTION_CATEGORIES = [...Object.keys(CATEGORY_KEYWORDS), "Other"];
+
+export type CategorizeRequest = { title: string; categories: string[]; amount?: number };
+
+export type CategoryRuleInput = { title: string; category: string };
+
+function parseTitle(raw: unknown, errors: FieldError[]): string {
+  const parsed = parseExpenseField("title", raw);
+  if ("error" in parsed) errors.push({ field: "title", message: parsed.error });
+  else if (!parsed.value?.trim()) errors.push({ field: "title", message: "is required" });
+  else return parsed.value.trim();
+  return "";
+}
+
+/** `{ title, categories?, amount? }` */
+export function validateCategorizeRequest(body: unknown): ValidationResult<CategorizeRequest> {
+  if (!isPlainObject(body)) {
+    return { ok: false, errors: [{ field: "body", message: "must be a JSON object" }] };
+  }
+
+  const errors: FieldError[] = [];
+  const title = parseTitle(body.title, errors);
+
+  let categories = DEFAULT_SUGGESTION_CATEGORIES;
+  if (body.categories !== undefined) {
+    const list = Array.isArray(body.categories) ? body.categories : null;
+    const parsed = (list ?? []).map((c) => parseExpenseField("category", c));
+    if (!list || !list.length || list.length > MAX_CATEGORIES || parsed.some((p) => "error" in p)) {
+      errors.push({ field: "categories", message: `must be a list of 1-${MAX_CATEGORIES} category names` });
+    } else {
+      categories = [...new Set(parsed.map((p) => ("value" in p ? p.value : "")))];
+    }
+  }
+
+  let amount: number | undefined;
+  if (body.amount !== undefined && body.amount !== null) {
+    const parsed = parseExpenseField("amount", body.amount);
+    if ("error" in parsed) errors.push({ field: "amount", message: parsed.error });
+    else amount = parsed.value;
+  }
+
+  return errors.length ? { ok: false, errors } : { ok: true, value: { title, categories, amount } };
+}
+
+/** `{ title, category }`: the user filed an expense with this title under this category. */
+export function validateCategoryRule(body: unknown): ValidationResult<CategoryRuleInput> {
+  if (!isPlainObject(body)) {
+    return { ok: false, errors: [{ field: "body", message: "must be a JSON object" }] };
+  }
+
+  const errors: FieldError[] = [];
+  const title = parseTitle(body.title, errors);
+  const category = parseExpenseField("category", body.category);
+  if ("error" in category) errors.push({ field: "category", message: category.error });
+
+  if (errors.length || "error" in category) return { ok: false, errors };
+  return { ok: true, value: { title, category: category.value } };
+}
@@ -0,0 +1,33 @@
+/**
+ * lib/categorization/types.ts
+ * Category suggestions and the merchant rules learned from user corrections.
+ */
+
+/** Where a suggestion came from, most trusted first. */
+export const SUGGESTION_SOURCES = ["rule", "model", "keyword", "default"] as const;
+
+export type SuggestionSource = (typeof SUGGESTION_SOURCES)[number];
+
+export type CategorySuggestion = {
+  category: string;
+  /** 0-100; written to `Expense.confidence` when the suggestion is kept. */
+  confidence: number;
+  source: SuggestionSource;
+};
+
+/** "Expenses from this merchant belong in this category", learned when the user re-categorises one. */
+export type CategoryRule = {
+  id: string;
+  /** Normalised title (see normalizeTitle in lib/recurring). */
+  merchant: string;
+  category: string;
+  /** Times the user has confirmed this mapping; resets when it is corrected to another category. */
+  hits: number;
+  createdAt: string;
+  updatedAt: string;
+};
+
+/** Confidence of a keyword match, as the statement importer has always used. */
+export const KEYWORD_CONFIDENCE = 85;
+/** Confidence when nothing matched and the fallback category was used. */
+export const DEFAULT_CONFIDENCE = 40;
@@ -0,0 +1,18 @@
+/**
+ * lib/chats
+ * Server-side store of assistant conversations.
+ */
+
+export * from "./types";
+export * from "./repository";
+export * from "./tree";
+export * from "./search";
+export * from "./transfer";
+export {
+  CHAT_STORE_LIMITS,
+  validateChatImport,
+  validateChatMessage,
+  validateChatMessagePatch,
+  validateChatPatch,
+  validateNewChat,
+} from "./schema";
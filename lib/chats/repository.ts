@@ -0,0 +1,276 @@
+import { randomUUID } from "crypto";
+
+import type { ConversationSummary } from "@/lib/assistant/types";
+import { getDatabase, type Database, type DatabaseState } from "@/lib/db";
+import type {
+  Chat,
+  ChatImport,
+  ChatImportRequest,
+  ChatImportResult,
+  ChatMessage,
+  ChatMessagePatch,
+  ChatPatch,
+  ChatWithMessages,
+  NewChat,
+  NewChatMessage,
+} from "./types";
+import { newestLeaf } from "./tree";
+
+const messagesOf = (state: DatabaseState, chatId: string) =>
+  state.chatMessages.filter((m) => m.chatId === chatId).sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+
+const withMessages = (state: DatabaseState, chat: Chat): ChatWithMessages => ({
+  ...chat,
+  messages: messagesOf(state, chat.id),
+});
+
+/** Honours a client-generated id unless it would collide with an existing one. */
+const freshId = (wanted: string | undefined, taken: (id: string) => boolean) =>
+  wanted && !taken(wanted) ? wanted : randomUUID();
+
+function buildMessage(
+  state: DatabaseState,
+  chatId: string,
+  input: NewChatMessage,
+  parentId: string | null,
+  now: string
+): ChatMessage {
+  const { id, createdAt, ...fields } = input;
+  return {
+    ...fields,
+    id: freshId(id, (candidate) => state.chatMessages.some((m) => m.id === candidate)),
+    chatId,
+    parentId,
+    createdAt: createdAt ?? now,
+    updatedAt: now,
+  };
+}
+
+const inChat = (state: DatabaseState, chatId: string, id: string | null | undefined) =>
+  !!id && state.chatMessages.some((m) => m.id === id && m.chatId === chatId);
+
+/** Every chat with its messages, most recently active first. */
+export async function listChats(db: Database = getDatabase()): Promise<ChatWithMessages[]> {
+  return db.read((state) =>
+    [...state.chats].sort((a, b) => b.updatedAt.localeCompare(a.updatedAt)).map((c) => withMessages(state, c))
+  );
+}
+
+export async function getChat(id: string, db: Database = getDatabase()): Promise<ChatWithMessages | null> {
+  return db.read((state) => {
+    const chat = state.chats.find((c) => c.id === id);
+    return chat ? withMessages(state, chat) : null;
+  });
+}
+
+/**
+ * Adds a chat and its messages to the state; the chat's updatedAt is its
+ * newest message. Messages without a known `parentId` follow the one before
+ * them, and ids that had to change are followed in parentId and activeLeafId.
+ */
+function insertChat(state: DatabaseState, input: ChatImport, now: string): Chat {
+  const chat: Chat = {
+    id: freshId(input.id, (candidate) => state.chats.some((c) => c.id === candidate)),
+    title: input.title,
+    createdAt: input.createdAt ?? now,
+    updatedAt: input.createdAt ?? now,
+    activeLeafId: null,
+  };
+  if (input.summary) chat.summary = input.summary;
+  state.chats.push(chat);
+  const ids = new Map<string, string>();
+  let previous: string | null = null;
+  for (const m of input.messages) {
+    const parentId = m.parentId === null ? null : ((m.parentId && ids.get(m.parentId)) ?? previous);
+    const message = buildMessage(state, chat.id, m, parentId, now);
+    state.chatMessages.push(message);
+    if (m.id) ids.set(m.id, message.id);
+    if (message.createdAt > chat.updatedAt) chat.updatedAt = message.createdAt;
+    previous = message.id;
+  }
+  chat.activeLeafId = (input.activeLeafId && ids.get(input.activeLeafId)) || previous;
+  return chat;
+}
+
+/** Starts a chat, optionally with opening messages (e.g. the system prompt). */
+export async function createChat(
+  input: NewChat & { messages?: NewChatMessage[] },
+  db: Database = getDatabase()
+): Promise<ChatWithMessages> {
+  return db.write((state) => {
+    const chat = insertChat(state, { ...input, messages: input.messages ?? [] }, new Date().toISOString());
+    return withMessages(state, chat);
+  });
+}
+
+/**
+ * Renames a chat, rewrites its summary by hand (it keeps the messages it
+ * covers) or switches branch. An activeLeafId that is not one of the chat's
+ * messages is ignored; the route checks it first.
+ */
+export async function updateChat(id: string, patch: ChatPatch, db: Database = getDatabase()): Promise<ChatWithMessages | null> {
+  return db.write((state) => {
+    const chat = state.chats.find((c) => c.id === id);
+    if (!chat) return null;
+    const now = new Date().toISOString();
+    if (patch.title !== undefined) chat.title = patch.title;
+    if (patch.summary === null) delete chat.summary;
+    else if (patch.summary !== undefined) {
+      chat.summary = { content: patch.summary, coversUntil: chat.summary?.coversUntil ?? null, updatedAt: now };
+    }
+    if (inChat(state, id, patch.activeLeafId)) chat.activeLeafId = patch.activeLeafId!;
+    chat.updatedAt = now;
+    return withMessages(state, chat);
+  });
+}
+
+/**
+ * Stores a model-written summary covering messages up to `coversUntil`.
+ * Does not touch the chat's updatedAt: summarising is not user activity.
+ */
+export async function saveChatSummary(
+  id: string,
+  content: string,
+  coversUntil: string,
+  db: Database = getDatabase()
+): Promise<ConversationSummary | null> {
+  return db.write((state) => {
+    const chat = state.chats.find((c) => c.id === id);
+    if (!chat) return null;
+    chat.summary = { content, coversUntil, updatedAt: new Date().toISOString() };
+    return chat.summary;
+  });
+}
+
+/** Removes a chat and its messages. */
+export async function deleteChat(id: string, db: Database = getDatabase()): Promise<boolean> {
+  return db.write((state) => {
+    const before = state.chats.length;
+    state.chats = state.chats.filter((c) => c.id !== id);
+    state.chatMessages = state.chatMessages.filter((m) => m.chatId !== id);
+    return state.chats.length !== before;
+  });
+}
+
+/**
+ * Appends messages to a chat in one write and makes the last one the active
+ * leaf. Each message without a parent (or with one not in the chat) follows
+ * the one before it, the first one the active leaf. Returns null when the
+ * chat does not exist.
+ */
+export async function appendMessages(
+  chatId: string,
+  inputs: NewChatMessage[],
+  db: Database = getDatabase()
+): Promise<ChatMessage[] | null> {
+  return db.write((state) => {
+    const chat = state.chats.find((c) => c.id === chatId);
+    if (!chat) return null;
+    const now = new Date().toISOString();
+    let previous = chat.activeLeafId;
+    const added = inputs.map((input) => {
+      const parentId = input.parentId === null ? null : inChat(state, chatId, input.parentId) ? input.parentId! : previous;
+      const message = buildMessage(state, chatId, input, parentId, now);
+      state.chatMessages.push(message);
+      previous = message.id;
+      return message;
+    });
+    chat.activeLeafId = previous;
+    chat.updatedAt = now;
+    return added;
+  });
+}
+
+export async function updateMessage(
+  chatId: string,
+  messageId: string,
+  patch: ChatMessagePatch,
+  db: Database = getDatabase()
+): Promise<ChatMessage | null> {
+  return db.write((state) => {
+    const message = state.chatMessages.find((m) => m.id === messageId && m.chatId === chatId);
+    if (!message) return null;
+    const now = new Date().toISOString();
+    Object.assign(message, patch, { updatedAt: now });
+    if (!message.pinned) delete message.pinned;
+    const chat = state.chats.find((c) => c.id === chatId);
+    if (chat) chat.updatedAt = now;
+    return message;
+  });
+}
+
+/**
+ * Removes one message. Its replies move up to its parent, so deleting a
+ * message mid-chat keeps what followed it. If it was the active leaf, the
+ * newest branch under its parent is shown instead.
+ */
+export async function deleteMessage(chatId: string, messageId: string, db: Database = getDatabase()): Promise<boolean> {
+  return db.write((state) => {
+    const index = state.chatMessages.findIndex((m) => m.id === messageId && m.chatId === chatId);
+    if (index === -1) return false;
+    const [removed] = state.chatMessages.splice(index, 1);
+    for (const m of state.chatMessages) if (m.parentId === messageId) m.parentId = removed.parentId;
+    const chat = state.chats.find((c) => c.id === chatId);
+    if (chat) {
+      if (chat.activeLeafId === messageId) {
+        const messages = messagesOf(state, chatId);
+        const leaf = removed.parentId ? newestLeaf(messages, removed.parentId) : messages[messages.length - 1];
+        chat.activeLeafId = leaf?.id ?? null;
+      }
+      chat.updatedAt = new Date().toISOString();
+    }
+    return true;
+  });
+}
+
+/**
+ * Adds the messages of `input` that `chat` does not have yet, keeping their
+ * place in the tree; returns how many were added. The imported branch is
+ * shown if it gained messages.
+ */
+function mergeChat(state: DatabaseState, chat: Chat, input: ChatImport, now: string): number {
+  const ids = new Map(messagesOf(state, chat.id).map((m) => [m.id, m.id]));
+  let previous: string | null = null;
+  let added = 0;
+  for (const m of input.messages) {
+    if (m.id && ids.has(m.id)) {
+      previous = m.id;
+      continue;
+    }
+    const parentId = m.parentId === null ? null : ((m.parentId && ids.get(m.parentId)) ?? previous);
+    const message = buildMessage(state, chat.id, m, parentId, now);
+    state.chatMessages.push(message);
+    if (m.id) ids.set(m.id, message.id);
+    if (message.createdAt > chat.updatedAt) chat.updatedAt = message.createdAt;
+    previous = message.id;
+    added++;
+  }
+  if (added) chat.activeLeafId = (input.activeLeafId && ids.get(input.activeLeafId)) || previous;
+  if (!chat.summary && input.summary) chat.summary = input.summary;
+  return added;
+}
+
+/**
+ * Stores uploaded chats in a single write. Chats whose id already exists are
+ * skipped whole, so importing the same data twice changes nothing; with
+ * `merge` they gain the messages they are missing instead. Message ids that
+ * are taken elsewhere are replaced, never shared.
+ */
+export async function importChats(
+  { chats, merge }: ChatImportRequest,
+  db: Database = getDatabase()
+): Promise<ChatImportResult> {
+  return db.write((state) => {
+    const now = new Date().toISOString();
+    const result: ChatImportResult = { imported: 0, merged: 0, skipped: 0 };
+    for (const input of chats) {
+      const existing = input.id ? state.chats.find((c) => c.id === input.id) : undefined;
+      if (!existing) {
+        insertChat(state, input, now);
+        result.imported++;
+      } else if (merge && mergeChat(state, existing, input, now)) result.merged++;
+      else result.skipped++;
+    }
+    return result;
+  });
+}
@@ -0,0 +1,252 @@
+/**
+ * lib/chats/schema.ts
+ * Validation for chats, messages and chat imports. Citations, tool calls and
+ * usage metadata are produced by the assistant itself, so they are only
+ * checked for shape.
+ */
+
+import type { Citation, ConversationSummary, ToolCallRecord } from "@/lib/assistant/types";
+import { parseExpenseField } from "@/lib/expenses/schema";
+import { isPlainObject, type FieldError, type ValidationResult } from "@/lib/validation";
+import {
+  CHAT_EXPORT_KIND,
+  CHAT_EXPORT_VERSION,
+  CHAT_ROLES,
+  type ChatImport,
+  type ChatImportRequest,
+  type ChatMessagePatch,
+  type ChatPatch,
+  type ChatRole,
+  type NewChatMessage,
+} from "./types";
+
+export const CHAT_STORE_LIMITS = {
+  titleLength: 200,
+  summaryLength: 8000,
+  idLength: 100,
+  contentLength: 100_000,
+  messagesPerChat: 5000,
+  chatsPerImport: 1000,
+} as const;
+
+const MESSAGE_FIELDS = ["id", "parentId", "role", "content", "pinned", "citations", "toolCalls", "meta", "createdAt", "ts"];
+
+function parseId(raw: unknown, field: string, errors: FieldError[]): string | undefined {
+  if (raw === undefined || raw === null) return undefined;
+  if (typeof raw === "string" && raw.trim() && raw.trim().length <= CHAT_STORE_LIMITS.idLength) return raw.trim();
+  errors.push({ field, message: `must be a non-empty string of at most ${CHAT_STORE_LIMITS.idLength} characters` });
+  return undefined;
+}
+
+function parseTitle(raw: unknown, field: string, errors: FieldError[]): string {
+  if (typeof raw !== "string" || !raw.trim()) errors.push({ field, message: "must be a non-empty string" });
+  else if (raw.trim().length > CHAT_STORE_LIMITS.titleLength) {
+    errors.push({ field, message: `must be at most ${CHAT_STORE_LIMITS.titleLength} characters` });
+  } else return raw.trim();
+  return "";
+}
+
+function parseDate(raw: unknown, field: string, errors: FieldError[]): string | undefined {
+  if (raw === undefined || raw === null) return undefined;
+  const parsed = parseExpenseField("date", raw);
+  if ("error" in parsed) errors.push({ field, message: parsed.error });
+  else return parsed.value;
+  return undefined;
+}
+
+function parseContent(raw: unknown, field: string, errors: FieldError[]): string {
+  if (typeof raw !== "string") errors.push({ field, message: "must be a string" });
+  else if (raw.length > CHAT_STORE_LIMITS.contentLength) {
+    errors.push({ field, message: `must be at most ${CHAT_STORE_LIMITS.contentLength} characters` });
+  } else return raw;
+  return "";
+}
+
+function parseObjects(raw: unknown, field: string, errors: FieldError[]): Record<string, unknown>[] | undefined {
+  if (raw === undefined || raw === null) return undefined;
+  if (Array.isArray(raw) && raw.every(isPlainObject)) return raw;
+  errors.push({ field, message: "must be a list of objects" });
+  return undefined;
+}
+
+/**
+ * One message. `prefix` names the field in errors, e.g. "chats[0].messages[3].".
+ * `ts` is accepted as an alias of `createdAt` (the chat page's old field name).
+ */
+function parseMessage(body: unknown, prefix: string, errors: FieldError[]): NewChatMessage | null {
+  if (!isPlainObject(body)) {
+    errors.push({ field: prefix.replace(/\.$/, "") || "body", message: "must be a JSON object" });
+    return null;
+  }
+  for (const field of Object.keys(body)) {
+    if (!MESSAGE_FIELDS.includes(field)) errors.push({ field: prefix + field, message: "is not a recognised message field" });
+  }
+
+  const message: NewChatMessage = { role: "user", content: parseContent(body.content, `${prefix}content`, errors) };
+  if (CHAT_ROLES.includes(body.role as ChatRole)) message.role = body.role as ChatRole;
+  else errors.push({ field: `${prefix}role`, message: `must be one of ${CHAT_ROLES.join(", ")}` });
+
+  const id = parseId(body.id, `${prefix}id`, errors);
+  if (id) message.id = id;
+  if (body.parentId === null) message.parentId = null;
+  else {
+    const parentId = parseId(body.parentId, `${prefix}parentId`, errors);
+    if (parentId) message.parentId = parentId;
+  }
+  const createdAt = parseDate(body.createdAt ?? body.ts, `${prefix}createdAt`, errors);
+  if (createdAt) message.createdAt = createdAt;
+
+  if (body.pinned !== undefined && body.pinned !== null) {
+    if (typeof body.pinned === "boolean") message.pinned = body.pinned || undefined;
+    else errors.push({ field: `${prefix}pinned`, message: "must be true or false" });
+  }
+  const citations = parseObjects(body.citations, `${prefix}citations`, errors);
+  if (citations?.length) message.citations = citations as Citation[];
+  const toolCalls = parseObjects(body.toolCalls, `${prefix}toolCalls`, errors);
+  if (toolCalls?.length) message.toolCalls = toolCalls as ToolCallRecord[];
+  if (body.meta !== undefined && body.meta !== null) {
+    if (isPlainObject(body.meta)) message.meta = body.meta as NewChatMessage["meta"];
+    else errors.push({ field: `${prefix}meta`, message: "must be an object" });
+  }
+  return message;
+}
+
+function rejectUnknown(body: Record<string, unknown>, allowed: string[], errors: FieldError[], prefix = "") {
+  for (const field of Object.keys(body)) {
+    if (!allowed.includes(field)) errors.push({ field: prefix + field, message: "is not a recognised chat field" });
+  }
+}
+
+/** `{ content, coversUntil?, updatedAt? }` as exported with a chat. */
+function parseSummary(raw: unknown, field: string, errors: FieldError[]): ConversationSummary | undefined {
+  if (raw === undefined || raw === null) return undefined;
+  if (!isPlainObject(raw) || typeof raw.content !== "string") {
+    errors.push({ field, message: "must be an object with the summary's content" });
+    return undefined;
+  }
+  const content = raw.content.trim();
+  if (content.length > CHAT_STORE_LIMITS.summaryLength) {
+    errors.push({ field: `${field}.content`, message: `must be at most ${CHAT_STORE_LIMITS.summaryLength} characters` });
+    return undefined;
+  }
+  const coversUntil = parseDate(raw.coversUntil, `${field}.coversUntil`, errors) ?? null;
+  const updatedAt = parseDate(raw.updatedAt, `${field}.updatedAt`, errors) ?? coversUntil ?? new Date().toISOString();
+  return content ? { content, coversUntil, updatedAt } : undefined;
+}
+
+/** A chat with optional messages; `prefix` names the fields in errors, e.g. "chats[2].". */
+function parseChat(raw: unknown, prefix: string, errors: FieldError[]): ChatImport {
+  if (!isPlainObject(raw)) {
+    errors.push({ field: prefix.replace(/\.$/, "") || "body", message: "must be a JSON object" });
+    return { title: "", messages: [] };
+  }
+  rejectUnknown(raw, ["id", "title", "createdAt", "activeLeafId", "summary", "messages"], errors, prefix);
+  const chat: ChatImport = { title: parseTitle(raw.title, `${prefix}title`, errors), messages: [] };
+  const id = parseId(raw.id, `${prefix}id`, errors);
+  if (id) chat.id = id;
+  const createdAt = parseDate(raw.createdAt, `${prefix}createdAt`, errors);
+  if (createdAt) chat.createdAt = createdAt;
+  const activeLeafId = parseId(raw.activeLeafId, `${prefix}activeLeafId`, errors);
+  if (activeLeafId) chat.activeLeafId = activeLeafId;
+  const summary = parseSummary(raw.summary, `${prefix}summary`, errors);
+  if (summary) chat.summary = summary;
+
+  const messages = raw.messages ?? [];
+  if (!Array.isArray(messages) || messages.length > CHAT_STORE_LIMITS.messagesPerChat) {
+    errors.push({
+      field: `${prefix}messages`,
+      message: `must be a list of at most ${CHAT_STORE_LIMITS.messagesPerChat} messages`,
+    });
+  } else {
+    chat.messages = messages
+      .map((m, i) => parseMessage(m, `${prefix}messages[${i}].`, errors))
+      .filter((m): m is NewChatMessage => m !== null);
+  }
+  return chat;
+}
+
+/** `{ id?, title, createdAt?, activeLeafId?, messages? }`; messages as for validateChatMessage. */
+export function validateNewChat(body: unknown): ValidationResult<ChatImport> {
+  const errors: FieldError[] = [];
+  const chat = parseChat(body, "", errors);
+  return errors.length ? { ok: false, errors } : { ok: true, value: chat };
+}
+
+/** `{ title?, summary?, activeLeafId? }`; `summary: null` removes it. */
+export function validateChatPatch(body: unknown): ValidationResult<ChatPatch> {
+  if (!isPlainObject(body)) {
+    return { ok: false, errors: [{ field: "body", message: "must be a JSON object" }] };
+  }
+
+  const errors: FieldError[] = [];
+  rejectUnknown(body, ["title", "summary", "activeLeafId"], errors);
+  const patch: ChatPatch = {};
+  if (body.title !== undefined) patch.title = parseTitle(body.title, "title", errors);
+  if (body.summary === null) patch.summary = null;
+  else if (body.summary !== undefined) {
+    if (typeof body.summary !== "string") errors.push({ field: "summary", message: "must be a string or null" });
+    else if (body.summary.trim().length > CHAT_STORE_LIMITS.summaryLength) {
+      errors.push({ field: "summary", message: `must be at most ${CHAT_STORE_LIMITS.summaryLength} characters` });
+    } else patch.summary = body.summary.trim() || null;
+  }
+  if (body.activeLeafId !== undefined) {
+    const activeLeafId = parseId(body.activeLeafId, "activeLeafId", errors);
+    if (activeLeafId) patch.activeLeafId = activeLeafId;
+    else if (body.activeLeafId === null) errors.push({ field: "activeLeafId", message: "must be a message id" });
+  }
+  if (!errors.length && !Object.keys(patch).length) {
+    errors.push({ field: "body", message: "must set title, summary or activeLeafId" });
+  }
+  return errors.length ? { ok: false, errors } : { ok: true, value: patch };
+}
+
+/** `{ id?, parentId?, role, content, pinned?, citations?, toolCalls?, meta?, createdAt? }` */
+export function validateChatMessage(body: unknown): ValidationResult<NewChatMessage> {
+  const errors: FieldError[] = [];
+  const message = parseMessage(body, "", errors);
+  return errors.length || !message ? { ok: false, errors } : { ok: true, value: message };
+}
+
+/** `{ content?, pinned? }` */
+export function validateChatMessagePatch(body: unknown): ValidationResult<ChatMessagePatch> {
+  if (!isPlainObject(body)) {
+    return { ok: false, errors: [{ field: "body", message: "must be a JSON object" }] };
+  }
+
+  const errors: FieldError[] = [];
+  rejectUnknown(body, ["content", "pinned"], errors);
+  const patch: ChatMessagePatch = {};
+  if (body.content !== undefined) patch.content = parseContent(body.content, "content", errors);
+  if (body.pinned !== undefined) {
+    if (typeof body.pinned === "boolean") patch.pinned = body.pinned;
+    else errors.push({ field: "pinned", message: "must be true or false" });
+  }
+  return errors.length ? { ok: false, errors } : { ok: true, value: patch };
+}
+
+/**
+ * `{ chats: [{ id?, title, createdAt?, activeLeafId?, summary?, messages: [...] }], merge? }`.
+ * A JSON chat export is accepted as it is; its `kind` and `version` are
+ * checked and its other top-level fields (settings, exportedAt) ignored.
+ */
+export function validateChatImport(body: unknown): ValidationResult<ChatImportRequest> {
+  if (!isPlainObject(body) || !Array.isArray(body.chats)) {
+    return { ok: false, errors: [{ field: "chats", message: "must be a list of chats" }] };
+  }
+  if (body.chats.length > CHAT_STORE_LIMITS.chatsPerImport) {
+    return { ok: false, errors: [{ field: "chats", message: `must have at most ${CHAT_STORE_LIMITS.chatsPerImport} chats` }] };
+  }
+
+  const errors: FieldError[] = [];
+  if (body.kind !== undefined && body.kind !== CHAT_EXPORT_KIND) {
+    errors.push({ field: "kind", message: `must be "${CHAT_EXPORT_KIND}"` });
+  }
+  if (body.version !== undefined && (typeof body.version !== "number" || body.version > CHAT_EXPORT_VERSION)) {
+    errors.push({ field: "version", message: `must be at most ${CHAT_EXPORT_VERSION}; the file is from a newer version of the app` });
+  }
+  if (body.merge !== undefined && typeof body.merge !== "boolean") {
+    errors.push({ field: "merge", message: "must be true or false" });
+  }
+  const chats = body.chats.map((raw, i) => parseChat(raw, `chats[${i}].`, errors));
+  return errors.length ? { ok: false, errors } : { ok: true, value: { chats, merge: body.merge === true } };
+}
@@ -0,0 +1,202 @@
+/**
+ * lib/chats/search.ts
+ * Full-text search over chats. Titles and messages (on every branch) go into
+ * an inverted index of words folded to lower case without accents, so "cafe"
+ * finds "Café"; hits are ranked with BM25 and come with a highlighted snippet.
+ * Pure functions only, so the chat page can index the chats it already holds.
+ */
+
+export type SearchableChat = {
+  id: string;
+  title: string;
+  messages: { id: string; role: string; content: string }[];
+};
+
+export type SearchToken = {
+  term: string;
+  /** Offsets into the original text, so hits can be highlighted there. */
+  start: number;
+  end: number;
+};
+
+type SearchDocument = {
+  chatId: string;
+  /** Null for the chat's title. */
+  messageId: string | null;
+  role: string;
+  text: string;
+  length: number;
+};
+
+export type SearchIndex = {
+  documents: SearchDocument[];
+  /** term -> document number -> occurrences */
+  postings: Map<string, Map<number, number>>;
+  /** Every term, sorted, for prefix lookups. */
+  terms: string[];
+  averageLength: number;
+};
+
+export type SearchHit = {
+  chatId: string;
+  messageId: string | null;
+  role: string;
+  score: number;
+  /** A window of the text around the first match, whitespace flattened. */
+  snippet: string;
+  /** [start, end) ranges of matched words within `snippet`. */
+  highlights: [number, number][];
+};
+
+export const SEARCH_LIMITS = {
+  results: 50,
+  snippetLength: 140,
+  /** Words a partly typed query term may stand for. */
+  prefixExpansions: 50,
+} as const;
+
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+/** A word that only starts with the query term counts for less than the word itself. */
+const PREFIX_WEIGHT = 0.5;
+const TITLE_BOOST = 1.5;
+/** Characters of context kept before the first match in a snippet. */
+const SNIPPET_LEAD = 40;
+
+const WORD = /^[\p{L}\p{N}]+$/u;
+
+/** Splits text into words, lower-cased and with diacritics removed. */
+export function tokenize(text: string): SearchToken[] {
+  const tokens: SearchToken[] = [];
+  let current: SearchToken | null = null;
+  let offset = 0;
+  for (const ch of text) {
+    const folded = ch.normalize("NFKD").replace(/\p{M}/gu, "").toLowerCase();
+    if (WORD.test(folded)) {
+      if (!current) current = { term: "", start: offset, end: offset };
+      current.term += folded;
+      current.end = offset + ch.length;
+    } else if (folded && current) {
+      // A bare combining mark stays part of its word; anything else ends it.
+      tokens.push(current);
+      current = null;
+    }
+    offset += ch.length;
+  }
+  if (current) tokens.push(current);
+  return tokens;
+}
+
+export function buildSearchIndex(chats: SearchableChat[]): SearchIndex {
+  const documents: SearchDocument[] = [];
+  const postings = new Map<string, Map<number, number>>();
+  let totalLength = 0;
+
+  const add = (doc: Omit<SearchDocument, "length">) => {
+    const tokens = tokenize(doc.text);
+    if (!tokens.length) return;
+    const n = documents.push({ ...doc, length: tokens.length }) - 1;
+    totalLength += tokens.length;
+    for (const { term } of tokens) {
+      let docs = postings.get(term);
+      if (!docs) postings.set(term, (docs = new Map()));
+      docs.set(n, (docs.get(n) ?? 0) + 1);
+    }
+  };
+
+  for (const chat of chats) {
+    add({ chatId: chat.id, messageId: null, role: "title", text: chat.title });
+    for (const m of chat.messages) add({ chatId: chat.id, messageId: m.id, role: m.role, text: m.content });
+  }
+
+  return {
+    documents,
+    postings,
+    terms: [...postings.keys()].sort(),
+    averageLength: documents.length ? totalLength / documents.length : 0,
+  };
+}
+
+/** The index's words for one query term: the term itself and the longer words it begins. */
+function expand(index: SearchIndex, term: string): [string, number][] {
+  const out: [string, number][] = [];
+  let lo = 0;
+  let hi = index.terms.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (index.terms[mid] < term) lo = mid + 1;
+    else hi = mid;
+  }
+  for (let i = lo; i < index.terms.length && index.terms[i].startsWith(term); i++) {
+    if (out.length >= SEARCH_LIMITS.prefixExpansions) break;
+    out.push([index.terms[i], index.terms[i] === term ? 1 : PREFIX_WEIGHT]);
+  }
+  return out;
+}
+
+function snippetOf(text: string, matched: Set<string>): Pick<SearchHit, "snippet" | "highlights"> {
+  const ranges = tokenize(text).filter((t) => matched.has(t.term));
+  const first = ranges[0]?.start ?? 0;
+  let start = Math.max(0, first - SNIPPET_LEAD);
+  if (start > 0) start = text.indexOf(" ", start) + 1 || start;
+  if (start > first) start = first;
+  let end = Math.min(text.length, start + SEARCH_LIMITS.snippetLength);
+  if (end < text.length) end = text.lastIndexOf(" ", end) > first ? text.lastIndexOf(" ", end) : end;
+
+  const lead = start > 0 ? "…" : "";
+  const snippet = lead + text.slice(start, end).replace(/\s/g, " ") + (end < text.length ? "…" : "");
+  const highlights = ranges
+    .filter((t) => t.start >= start && t.end <= end)
+    .map((t): [number, number] => [t.start - start + lead.length, t.end - start + lead.length]);
+  return { snippet, highlights };
+}
+
+/**
+ * Chats and messages containing every word of `query`, best first. Words
+ * also match longer words they begin, so a half-typed query already finds hits.
+ */
+export function searchChats(index: SearchIndex, query: string, limit: number = SEARCH_LIMITS.results): SearchHit[] {
+  const queryTerms = [...new Set(tokenize(query).map((t) => t.term))];
+  if (!queryTerms.length) return [];
+
+  const total = index.documents.length;
+  let scores: Map<number, number> | null = null;
+  const matched = new Map<number, Set<string>>();
+
+  for (const queryTerm of queryTerms) {
+    const termScores = new Map<number, number>();
+    for (const [term, weight] of expand(index, queryTerm)) {
+      const docs = index.postings.get(term)!;
+      const idf = Math.log(1 + (total - docs.size + 0.5) / (docs.size + 0.5));
+      for (const [n, tf] of docs) {
+        const norm = 1 - BM25_B + (BM25_B * index.documents[n].length) / index.averageLength;
+        const score = (weight * idf * tf * (BM25_K1 + 1)) / (tf + BM25_K1 * norm);
+        termScores.set(n, Math.max(termScores.get(n) ?? 0, score));
+        if (!matched.has(n)) matched.set(n, new Set());
+        matched.get(n)!.add(term);
+      }
+    }
+    const previous: Map<number, number> | null = scores;
+    scores = new Map();
+    for (const [n, score] of termScores) {
+      if (!previous) scores.set(n, score);
+      else if (previous.has(n)) scores.set(n, previous.get(n)! + score);
+    }
+    if (!scores.size) return [];
+  }
+
+  return [...scores!]
+    .map(([n, score]) => [n, index.documents[n].messageId === null ? score * TITLE_BOOST : score] as const)
+    .sort((a, b) => b[1] - a[1] || b[0] - a[0])
+    .slice(0, limit)
+    .map(([n, score]) => {
+      const doc = index.documents[n];
+      return {
+        chatId: doc.chatId,
+        messageId: doc.messageId,
+        role: doc.role,
+        score,
+        ...snippetOf(doc.text, matched.get(n)!),
+      };
+    });
+}
@@ -0,0 +1,144 @@
+/**
+ * lib/chats/transfer.ts
+ * Chat exports: a Markdown or standalone HTML transcript of the branch each
+ * chat is showing, or JSON with every branch that /api/chats/import takes
+ * back. Pure, so the chat page can build the file in the browser.
+ */
+
+import type { AssistantSettings } from "@/lib/assistant/types";
+import type { ExportFile } from "@/lib/export";
+import { escapeHtml, markdownToHtml } from "@/lib/markdown";
+import { activePath } from "./tree";
+import {
+  CHAT_EXPORT_KIND,
+  CHAT_EXPORT_VERSION,
+  type ChatExport,
+  type ChatExportFormat,
+  type ChatImport,
+  type ChatRole,
+} from "./types";
+
+const ROLE_LABELS: Record<ChatRole, string> = { user: "You", assistant: "Assistant", system: "System" };
+
+/** "2026-10-18 14:03 UTC": the same in every browser, unlike toLocaleString. */
+const stamp = (iso: string | undefined) => (iso ? `${iso.slice(0, 16).replace("T", " ")} UTC` : "");
+
+const messages = (n: number) => `${n} message${n === 1 ? "" : "s"}`;
+
+/** A transcript line such as "Tone: friendly · Temperature: 0.7", or "" with nothing set. */
+function settingsLine(settings: AssistantSettings | undefined): string {
+  if (!settings) return "";
+  const parts = [`Tone: ${settings.tone}`];
+  if (settings.temperature !== undefined) parts.push(`Temperature: ${settings.temperature}`);
+  if (settings.maxTokens !== undefined) parts.push(`Max tokens: ${settings.maxTokens}`);
+  return parts.join(" · ");
+}
+
+/** The messages a transcript shows and how many others sit on branches it leaves out. */
+function transcript(chat: ChatImport) {
+  const shown = activePath(
+    chat.messages.map((m, i) => ({ ...m, id: m.id ?? `#${i}` })),
+    chat.activeLeafId
+  );
+  return { shown, hidden: chat.messages.length - shown.length };
+}
+
+function toMarkdown(chats: ChatImport[], settings: AssistantSettings | undefined, exportedAt: string): string {
+  return chats
+    .map((chat) => {
+      const { shown, hidden } = transcript(chat);
+      const lines = [`# ${chat.title}`, "", `_Exported ${stamp(exportedAt)} · ${messages(shown.length)}_`];
+      const configured = settingsLine(settings);
+      if (configured) lines.push("", `_${configured}_`);
+      if (hidden) lines.push("", `_Not shown: ${messages(hidden)} on other branches, kept in the JSON export._`);
+      if (chat.summary) lines.push("", "> **Summary of earlier turns:**", ...chat.summary.content.split("\n").map((l) => `> ${l}`));
+      for (const m of shown) {
+        const pinned = m.pinned ? " · pinned" : "";
+        lines.push("", `### ${ROLE_LABELS[m.role]} · ${stamp(m.createdAt)}${pinned}`, "", m.content);
+      }
+      return lines.join("\n");
+    })
+    .join("\n\n---\n\n")
+    .concat("\n");
+}
+
+const HTML_STYLES = `
+body{font:15px/1.6 system-ui,-apple-system,"Segoe UI",sans-serif;max-width:760px;margin:2rem auto;padding:0 1rem;color:#1e293b;background:#f8fafc}
+h1{font-size:1.6rem;margin:2.5rem 0 .25rem}.meta{color:#64748b;font-size:.85rem;margin:.25rem 0}
+.summary{border-left:4px solid #a5b4fc;background:#eef2ff;padding:.5rem 1rem;margin:1rem 0;border-radius:.5rem}
+.msg{margin:1rem 0;padding:.75rem 1rem;border-radius:1rem;background:#fff;border:1px solid #e2e8f0}
+.msg.user{background:#eff6ff;border-color:#bfdbfe;margin-left:15%}.msg.system{background:#f1f5f9;font-size:.9rem}
+.who{font-size:.8rem;color:#64748b;margin-bottom:.25rem}.who b{color:#334155}.content>:first-child{margin-top:0}.content>:last-child{margin-bottom:0}
+.user .content{white-space:pre-wrap}
+pre{background:#0f172a;color:#e2e8f0;padding:.75rem;border-radius:.5rem;overflow-x:auto;font-size:.85rem}
+code{font-family:ui-monospace,Menlo,monospace;font-size:.9em}:not(pre)>code{background:#f1f5f9;padding:.1rem .3rem;border-radius:.25rem}
+.tok-keyword{color:#c084fc}.tok-string{color:#6ee7b7}.tok-number{color:#fcd34d}.tok-comment{color:#94a3b8;font-style:italic}.tok-literal{color:#7dd3fc}
+table{border-collapse:collapse;margin:.5rem 0}th,td{border:1px solid #cbd5e1;padding:.25rem .5rem}th{background:#f1f5f9}
+blockquote{border-left:4px solid #cbd5e1;margin:.5rem 0;padding-left:.75rem;color:#475569}
+.math{font-family:"Times New Roman",serif}div.math{text-align:center;margin:.5rem 0;font-size:1.1em}
+.frac{display:inline-flex;flex-direction:column;vertical-align:middle;text-align:center;font-size:.9em}.frac>span+span{border-top:1px solid}
+.sqrt{border-top:1px solid}hr{border:0;border-top:1px solid #e2e8f0;margin:2rem 0}
+`.trim();
+
+function toHtml(chats: ChatImport[], settings: AssistantSettings | undefined, exportedAt: string): string {
+  const configured = settingsLine(settings);
+  const sections = chats.map((chat) => {
+    const { shown, hidden } = transcript(chat);
+    const parts = [
+      `<h1>${escapeHtml(chat.title)}</h1>`,
+      `<p class="meta">Exported ${escapeHtml(stamp(exportedAt))} · ${messages(shown.length)}</p>`,
+    ];
+    if (configured) parts.push(`<p class="meta">${escapeHtml(configured)}</p>`);
+    if (hidden) parts.push(`<p class="meta">Not shown: ${messages(hidden)} on other branches, kept in the JSON export.</p>`);
+    if (chat.summary) {
+      parts.push(`<div class="summary"><b>Summary of earlier turns</b>${markdownToHtml(chat.summary.content)}</div>`);
+    }
+    for (const m of shown) {
+      // Only the assistant writes Markdown; questions are shown as typed.
+      const content = m.role === "assistant" ? markdownToHtml(m.content) : escapeHtml(m.content);
+      parts.push(
+        `<div class="msg ${m.role}"><div class="who"><b>${ROLE_LABELS[m.role]}</b> · ${escapeHtml(stamp(m.createdAt))}${m.pinned ? " · pinned" : ""}</div><div class="content">${content}</div></div>`
+      );
+    }
+    return `<section>\n${parts.join("\n")}\n</section>`;
+  });
+  const title = chats.length === 1 ? chats[0].title : `${chats.length} chats`;
+  return [
+    "<!DOCTYPE html>",
+    '<html lang="en">',
+    "<head>",
+    '<meta charset="utf-8">',
+    '<meta name="viewport" content="width=device-width, initial-scale=1">',
+    // The file runs no script of its own and loads nothing, whatever a message contains.
+    `<meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'unsafe-inline'">`,
+    `<title>${escapeHtml(title)}</title>`,
+    `<style>${HTML_STYLES}</style>`,
+    "</head>",
+    "<body>",
+    sections.join("\n<hr>\n"),
+    "</body>",
+    "</html>",
+    "",
+  ].join("\n");
+}
+
+/** Exports are always text, so the browser can wrap them in a Blob as they are. */
+export type ChatExportFile = ExportFile & { body: string };
+
+export function exportChats(
+  chats: ChatImport[],
+  format: ChatExportFormat,
+  settings?: AssistantSettings,
+  exportedAt: string = new Date().toISOString()
+): ChatExportFile {
+  switch (format) {
+    case "json": {
+      const file: ChatExport = { kind: CHAT_EXPORT_KIND, version: CHAT_EXPORT_VERSION, exportedAt, settings, chats };
+      return { body: JSON.stringify(file, null, 2), contentType: "application/json; charset=utf-8", extension: "json" };
+    }
+    case "html":
+      return { body: toHtml(chats, settings, exportedAt), contentType: "text/html; charset=utf-8", extension: "html" };
+    default:
+      return { body: toMarkdown(chats, settings, exportedAt), contentType: "text/markdown; charset=utf-8", extension: "md" };
+  }
+}
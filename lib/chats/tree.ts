@@ -0,0 +1,54 @@
+/**
+ * lib/chats/tree.ts
+ * A chat is a tree of messages: regenerating an answer or editing a question
+ * adds a sibling, and the chat shows one path from the root to its active
+ * leaf. These helpers take messages oldest first and are shared with the
+ * chat page. A message without a `parentId` key follows the one before it,
+ * which is how chats were stored before they could branch.
+ */
+
+export type TreeMessage = { id: string; parentId?: string | null };
+
+function parentsOf<T extends TreeMessage>(messages: T[]): Map<string, string | null> {
+  return new Map(messages.map((m, i) => [m.id, m.parentId !== undefined ? m.parentId : (messages[i - 1]?.id ?? null)]));
+}
+
+/** The messages from the root down to `leafId` (the newest message when it is missing or unknown). */
+export function activePath<T extends TreeMessage>(messages: T[], leafId?: string | null): T[] {
+  const byId = new Map(messages.map((m) => [m.id, m]));
+  const parents = parentsOf(messages);
+  const path: T[] = [];
+  let current: T | undefined = (leafId && byId.get(leafId)) || messages[messages.length - 1];
+  while (current && path.length <= messages.length) {
+    path.push(current);
+    const parentId = parents.get(current.id);
+    current = parentId ? byId.get(parentId) : undefined;
+  }
+  return path.reverse();
+}
+
+/** `id` and everything below it. */
+export function subtreeIds<T extends TreeMessage>(messages: T[], id: string): Set<string> {
+  const parents = parentsOf(messages);
+  const ids = new Set([id]);
+  // Children are always newer than their parent, so one pass in order finds them all.
+  for (const m of messages) {
+    const parentId = parents.get(m.id);
+    if (parentId && ids.has(parentId)) ids.add(m.id);
+  }
+  return ids;
+}
+
+/** The newest message below `id` (or `id` itself): the leaf to show when switching to that branch. */
+export function newestLeaf<T extends TreeMessage>(messages: T[], id: string): T | undefined {
+  const ids = subtreeIds(messages, id);
+  return messages.filter((m) => ids.has(m.id)).pop();
+}
+
+/** The alternatives for `id`, itself included, oldest first. */
+export function siblingsOf<T extends TreeMessage>(messages: T[], id: string): T[] {
+  const parents = parentsOf(messages);
+  if (!parents.has(id)) return [];
+  const parentId = parents.get(id);
+  return messages.filter((m) => parents.get(m.id) === parentId);
+}
@@ -0,0 +1,113 @@
+/**
+ * lib/chats/types.ts
+ * Conversations with the assistant, stored server-side so the chat route can
+ * load earlier turns by chatId. Messages live in their own collection, like
+ * goal contributions, and are joined onto their chat when read. Each message
+ * names its parent, so regenerated answers and edited questions branch off
+ * (see tree.ts); the chat remembers which branch is showing.
+ */
+
+import type {
+  AssistantMetadata,
+  AssistantSettings,
+  Citation,
+  ConversationSummary,
+  ToolCallRecord,
+} from "@/lib/assistant/types";
+
+export const CHAT_ROLES = ["user", "assistant", "system"] as const;
+
+export type ChatRole = (typeof CHAT_ROLES)[number];
+
+/** Everything a client may set on a message. */
+export type ChatMessageFields = {
+  role: ChatRole;
+  content: string;
+  pinned?: boolean;
+  /** Transactions an assistant answer is based on. */
+  citations?: Citation[];
+  /** Ledger tools the assistant ran while answering. */
+  toolCalls?: ToolCallRecord[];
+  /** Model, token counts and timing reported with the answer. */
+  meta?: Pick<AssistantMetadata, "model" | "usage" | "timing">;
+};
+
+export type ChatMessage = ChatMessageFields & {
+  id: string;
+  chatId: string;
+  /** The message this one answers or follows; null for the first message. */
+  parentId: string | null;
+  /** When the message was sent (kept from the client on import). */
+  createdAt: string;
+  updatedAt: string;
+};
+
+/**
+ * A new message; clients may choose the id so optimistic copies stay in step.
+ * Without a `parentId` it continues the chat's active branch.
+ */
+export type NewChatMessage = ChatMessageFields & { id?: string; parentId?: string | null; createdAt?: string };
+
+export type ChatMessagePatch = Partial<Pick<ChatMessageFields, "content" | "pinned">>;
+
+export type Chat = {
+  id: string;
+  title: string;
+  createdAt: string;
+  /** Last change to the chat or any of its messages. */
+  updatedAt: string;
+  /** The end of the branch being shown and continued; null while the chat is empty. */
+  activeLeafId: string | null;
+  /** Rolling summary of the turns too old to send to the model verbatim; editable by the user. */
+  summary?: ConversationSummary;
+};
+
+export type NewChat = { id?: string; title: string; createdAt?: string };
+
+/**
+ * `summary: null` removes the summary; the next long turn writes a fresh one.
+ * `activeLeafId` switches branch.
+ */
+export type ChatPatch = { title?: string; summary?: string | null; activeLeafId?: string };
+
+/** A chat with its messages (every branch), oldest first. */
+export type ChatWithMessages = Chat & { messages: ChatMessage[] };
+
+/** A chat as uploaded for import, e.g. from the chat page's old localStorage copy or an export file. */
+export type ChatImport = NewChat & { messages: NewChatMessage[]; activeLeafId?: string; summary?: ConversationSummary };
+
+/**
+ * `merge` adds the messages of a chat that is already stored to it rather
+ * than skipping the chat, e.g. when bringing back turns from another browser.
+ */
+export type ChatImportRequest = { chats: ChatImport[]; merge: boolean };
+
+export type ChatImportResult = {
+  /** Chats that did not exist yet. */
+  imported: number;
+  /** Stored chats that gained messages (merge only). */
+  merged: number;
+  /** Chats whose id was already stored and that are left untouched. */
+  skipped: number;
+};
+
+export const CHAT_EXPORT_FORMATS = ["markdown", "json", "html"] as const;
+
+export type ChatExportFormat = (typeof CHAT_EXPORT_FORMATS)[number];
+
+/** Marks a JSON file as a chat export; `version` changes when the layout does. */
+export const CHAT_EXPORT_KIND = "finance-assistant-chats";
+export const CHAT_EXPORT_VERSION = 1;
+
+/**
+ * The JSON export. Its `chats` hold every branch and are exactly what
+ * /api/chats/import accepts, so the file can be uploaded as it is.
+ */
+export type ChatExport = {
+  kind: typeof CHAT_EXPORT_KIND;
+  version: typeof CHAT_EXPORT_VERSION;
+  exportedAt: string;
+  /** The assistant settings in use when exporting, for reference; importing does not apply them. */
+  settings?: AssistantSettings;
+  chats: ChatImport[];
+};
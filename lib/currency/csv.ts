@@ -0,0 +1,50 @@
+import { parseCsv } from "@/lib/import/csv";
+import { parseStatementAmount } from "@/lib/import/parse-values";
+import { CURRENCY_CODE } from "./rates";
+
+export type ParsedRate = { currency: string; rate: number };
+
+/**
+ * Reads a CSV of rates, either `currency,rate` (1 unit of currency = rate
+ * units of base) or `from,to,rate` pairs where one side is the base currency.
+ * A header row is optional.
+ */
+export function parseRatesCsv(text: string, baseCurrency: string): { rates: ParsedRate[]; errors: { line: number; message: string }[] } {
+  const rows = parseCsv(text);
+  const rates: ParsedRate[] = [];
+  const errors: { line: number; message: string }[] = [];
+  if (!rows.length) return { rates, errors: [{ line: 0, message: "The file is empty" }] };
+
+  const header = rows[0].map((h) => h.trim().toLowerCase());
+  const hasHeader = header.some((h) => /currency|code|from|to|rate/.test(h));
+  const pairs = hasHeader ? header.includes("from") && header.includes("to") : rows[0].length >= 3;
+  const col = (name: string, fallback: number) => (hasHeader && header.includes(name) ? header.indexOf(name) : fallback);
+  const idx = pairs
+    ? { from: col("from", 0), to: col("to", 1), rate: col("rate", 2) }
+    : { currency: hasHeader ? header.findIndex((h) => /currency|code/.test(h)) : 0, rate: col("rate", 1) };
+
+  rows.slice(hasHeader ? 1 : 0).forEach((cells, i) => {
+    const line = i + (hasHeader ? 2 : 1);
+    const cell = (c: number | undefined) => (c === undefined || c < 0 ? "" : (cells[c] ?? "").trim());
+    const value = parseStatementAmount(cell(idx.rate));
+    if (value === null || value <= 0) {
+      errors.push({ line, message: `Invalid rate "${cell(idx.rate)}"` });
+      return;
+    }
+
+    if ("from" in idx) {
+      const from = cell(idx.from).toUpperCase();
+      const to = cell(idx.to).toUpperCase();
+      if (to === baseCurrency && CURRENCY_CODE.test(from)) rates.push({ currency: from, rate: value });
+      else if (from === baseCurrency && CURRENCY_CODE.test(to)) rates.push({ currency: to, rate: 1 / value });
+      else errors.push({ line, message: `Neither side of ${from}/${to} is ${baseCurrency}` });
+      return;
+    }
+
+    const currency = cell(idx.currency).toUpperCase();
+    if (!CURRENCY_CODE.test(currency)) errors.push({ line, message: `Invalid currency code "${currency}"` });
+    else if (currency !== baseCurrency) rates.push({ currency, rate: value });
+  });
+
+  return { rates, errors };
+}
@@ -0,0 +1,12 @@
+/**
+ * lib/currency
+ * Multi-currency support: expenses keep their original currency and amount,
+ * while `amount` is always stored in the user's base currency so every total,
+ * chart and budget can add rows up directly.
+ */
+
+export * from "./types";
+export * from "./rates";
+export * from "./repository";
+export { parseRatesCsv, type ParsedRate } from "./csv";
+export { parseCurrencyCode, validateRates } from "./schema";
@@ -0,0 +1,94 @@
+/**
+ * lib/currency/rates.ts
+ * Pure conversion helpers. No server imports, so the dashboard can preview
+ * conversions with the same rules the API applies.
+ */
+
+import type { ExpenseFields, ExpensePatch } from "@/lib/expenses/types";
+import type { FieldError, ValidationResult } from "@/lib/validation";
+import type { CurrencySettings, ExchangeRate } from "./types";
+
+export const CURRENCY_CODE = /^[A-Z]{3}$/;
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+/** Units of base currency per unit of `currency`, or null when the table has no rate. */
+export function rateFor(currency: string, settings: CurrencySettings): number | null {
+  if (currency === settings.baseCurrency) return 1;
+  return settings.rates.find((r) => r.currency === currency)?.rate ?? null;
+}
+
+export function convertToBase(amount: number, currency: string, settings: CurrencySettings): number | null {
+  const rate = rateFor(currency, settings);
+  return rate === null ? null : round2(amount * rate);
+}
+
+/**
+ * Fills in `amount` (base currency) for an expense recorded in another
+ * currency. Rows without `currency` are already in the base currency.
+ */
+export function applyBaseCurrency<T extends Partial<ExpenseFields>>(
+  input: T,
+  settings: CurrencySettings
+): ValidationResult<T> {
+  if (!input.currency || input.originalAmount === undefined) return { ok: true, value: input };
+  if (input.currency === settings.baseCurrency) {
+    return { ok: true, value: { ...input, amount: input.originalAmount, currency: undefined, originalAmount: undefined } };
+  }
+
+  const amount = convertToBase(input.originalAmount, input.currency, settings);
+  if (amount === null) {
+    const error: FieldError = {
+      field: "currency",
+      message: `has no exchange rate to ${settings.baseCurrency}; add one to the rate table first`,
+    };
+    return { ok: false, errors: [error] };
+  }
+  return { ok: true, value: { ...input, amount: Math.max(0.01, amount) } };
+}
+
+/**
+ * Resolves a PATCH against the stored row: changing `currency` or
+ * `originalAmount` re-converts, clearing `currency` keeps the current base
+ * amount, and editing `amount` alone on a foreign row makes it a base-currency
+ * row again.
+ */
+export function applyBaseCurrencyToPatch(
+  current: ExpenseFields,
+  patch: ExpensePatch,
+  settings: CurrencySettings
+): ValidationResult<ExpensePatch> {
+  const touches = (field: keyof ExpenseFields) => Object.prototype.hasOwnProperty.call(patch, field);
+
+  if ((touches("currency") && !patch.currency) || (touches("originalAmount") && patch.originalAmount === undefined)) {
+    return { ok: true, value: { ...patch, currency: undefined, originalAmount: undefined } };
+  }
+  if (patch.currency !== undefined || patch.originalAmount !== undefined) {
+    const currency = patch.currency ?? current.currency;
+    const originalAmount = patch.originalAmount ?? current.originalAmount ?? current.amount;
+    if (!currency) return { ok: false, errors: [{ field: "currency", message: "is required with originalAmount" }] };
+    const converted = applyBaseCurrency({ currency, originalAmount }, settings);
+    return converted.ok ? { ok: true, value: { ...patch, ...converted.value } } : converted;
+  }
+  if (patch.amount !== undefined && current.currency) {
+    return { ok: true, value: { ...patch, currency: undefined, originalAmount: undefined } };
+  }
+  return { ok: true, value: patch };
+}
+
+/**
+ * Re-expresses a rate table against a new base. Needs a rate for `newBase`;
+ * the old base is added so existing rows stay convertible.
+ */
+export function rebaseRates(settings: CurrencySettings, newBase: string, now = new Date().toISOString()): ExchangeRate[] | null {
+  const pivot = rateFor(newBase, settings);
+  if (pivot === null) return null;
+
+  const rates = settings.rates
+    .filter((r) => r.currency !== newBase)
+    .map((r) => ({ ...r, rate: r.rate / pivot, updatedAt: now }));
+  if (settings.baseCurrency !== newBase) {
+    rates.push({ currency: settings.baseCurrency, rate: 1 / pivot, updatedAt: now });
+  }
+  return rates.sort((a, b) => a.currency.localeCompare(b.currency));
+}
@@ -0,0 +1,117 @@
+import { getDatabase, type Database, type DatabaseState } from "@/lib/db";
+import type { ValidationResult } from "@/lib/validation";
+import type { ExpenseFields, ExpensePatch } from "@/lib/expenses/types";
+import type { ParsedRate } from "./csv";
+import { applyBaseCurrency, applyBaseCurrencyToPatch, convertToBase, rateFor, rebaseRates } from "./rates";
+import type { CurrencySettings } from "./types";
+
+function settingsOf(state: DatabaseState): CurrencySettings {
+  return { baseCurrency: state.settings.baseCurrency, rates: state.exchangeRates };
+}
+
+export async function getCurrencySettings(db: Database = getDatabase()): Promise<CurrencySettings> {
+  return db.read((state) => settingsOf(state));
+}
+
+/** Converts a validated expense (or merged patch) to the base currency using the stored table. */
+export async function convertExpenseToBase<T extends Partial<ExpenseFields>>(
+  input: T,
+  db: Database = getDatabase()
+): Promise<ValidationResult<T>> {
+  return applyBaseCurrency(input, await getCurrencySettings(db));
+}
+
+/** Same as convertExpenseToBase for a PATCH; null when the expense does not exist. */
+export async function convertExpensePatchToBase(
+  id: string,
+  patch: ExpensePatch,
+  db: Database = getDatabase()
+): Promise<ValidationResult<ExpensePatch> | null> {
+  return db.read((state) => {
+    const current = state.expenses.find((e) => e.id === id);
+    return current ? applyBaseCurrencyToPatch(current, patch, settingsOf(state)) : null;
+  });
+}
+
+/** Adds or replaces rates. The base currency itself is ignored (it is always 1). */
+export async function upsertRates(rates: ParsedRate[], db: Database = getDatabase()): Promise<CurrencySettings> {
+  return db.write((state) => {
+    const now = new Date().toISOString();
+    for (const { currency, rate } of rates) {
+      if (currency === state.settings.baseCurrency) continue;
+      const existing = state.exchangeRates.find((r) => r.currency === currency);
+      if (existing) Object.assign(existing, { rate, updatedAt: now });
+      else state.exchangeRates.push({ currency, rate, updatedAt: now });
+    }
+    state.exchangeRates.sort((a, b) => a.currency.localeCompare(b.currency));
+    return settingsOf(state);
+  });
+}
+
+export async function deleteRate(currency: string, db: Database = getDatabase()): Promise<boolean> {
+  return db.write((state) => {
+    const before = state.exchangeRates.length;
+    state.exchangeRates = state.exchangeRates.filter((r) => r.currency !== currency);
+    return state.exchangeRates.length !== before;
+  });
+}
+
+/**
+ * Switches the base currency. The rate table is re-expressed against the new
+ * base, rows entered in the old base gain it as their original currency, and
+ * every stored amount (expenses, recurring rules, budgets, goals) is converted.
+ * Nothing changes when the table has no rate for `baseCurrency`, or when some
+ * expense is in a currency the table no longer has a rate for: converting the
+ * rest would mix two bases in the totals.
+ */
+export async function setBaseCurrency(
+  baseCurrency: string,
+  db: Database = getDatabase()
+): Promise<ValidationResult<{ settings: CurrencySettings; factor: number; converted: number }>> {
+  return db.write((state) => {
+    const old = settingsOf(state);
+    if (old.baseCurrency === baseCurrency) return { ok: true, value: { settings: old, factor: 1, converted: 0 } };
+
+    const rates = rebaseRates(old, baseCurrency);
+    if (!rates) {
+      return { ok: false, errors: [{ field: "baseCurrency", message: "has no exchange rate; add one to the rate table first" }] };
+    }
+    const next: CurrencySettings = { baseCurrency, rates };
+    const unconvertible = [
+      ...new Set(state.expenses.map((e) => e.currency ?? old.baseCurrency).filter((c) => rateFor(c, next) === null)),
+    ].sort();
+    if (unconvertible.length) {
+      const pairs = unconvertible.map((c) => `${c}/${old.baseCurrency}`).join(", ");
+      return {
+        ok: false,
+        errors: [{ field: "baseCurrency", message: `cannot convert expenses without a rate for ${pairs}; add those rates first` }],
+      };
+    }
+    // Old-base amounts multiply by this to become new-base amounts.
+    const factor = rateFor(old.baseCurrency, next) ?? 1;
+
+    let converted = 0;
+    for (const e of state.expenses) {
+      const currency = e.currency ?? old.baseCurrency;
+      const original = e.originalAmount ?? e.amount;
+      const amount = convertToBase(original, currency, next);
+      if (amount === null) continue;
+      if (currency === baseCurrency) Object.assign(e, { currency: undefined, originalAmount: undefined, amount: original });
+      else Object.assign(e, { currency, originalAmount: original, amount: Math.max(0.01, amount) });
+      converted++;
+    }
+    const rescale = (n: number) => Math.max(0.01, Math.round(n * factor * 100) / 100);
+    for (const rule of state.recurringRules) rule.amount = rescale(rule.amount);
+    for (const budget of state.budgets) budget.limit = rescale(budget.limit);
+    for (const goal of state.goals) goal.target = rescale(goal.target);
+    for (const c of state.goalContributions) c.amount = rescale(c.amount);
+    for (const alert of state.budgetAlerts) {
+      alert.spent = Math.round(alert.spent * factor * 100) / 100;
+      alert.available = Math.round(alert.available * factor * 100) / 100;
+    }
+
+    state.settings.baseCurrency = baseCurrency;
+    state.exchangeRates = rates;
+    return { ok: true, value: { settings: next, factor, converted } };
+  });
+}
@@ -0,0 +1,36 @@
+import { isPlainObject, type FieldError, type ValidationResult } from "@/lib/validation";
+import type { ParsedRate } from "./csv";
+import { CURRENCY_CODE } from "./rates";
+
+const MAX_RATES = 500;
+
+export function parseCurrencyCode(raw: unknown): string | null {
+  if (typeof raw !== "string") return null;
+  const code = raw.trim().toUpperCase();
+  return CURRENCY_CODE.test(code) ? code : null;
+}
+
+/** `{ rates: [{ currency: "USD", rate: 83.2 }, ...] }` */
+export function validateRates(body: unknown): ValidationResult<ParsedRate[]> {
+  const list = isPlainObject(body) ? body.rates : undefined;
+  if (!Array.isArray(list) || list.length === 0) {
+    return { ok: false, errors: [{ field: "rates", message: "must be a non-empty array" }] };
+  }
+  if (list.length > MAX_RATES) {
+    return { ok: false, errors: [{ field: "rates", message: `must contain at most ${MAX_RATES} entries` }] };
+  }
+
+  const errors: FieldError[] = [];
+  const rates: ParsedRate[] = [];
+  list.forEach((entry, i) => {
+    const currency = isPlainObject(entry) ? parseCurrencyCode(entry.currency) : null;
+    const rate = isPlainObject(entry) ? entry.rate : undefined;
+    if (!currency) errors.push({ field: `rates[${i}].currency`, message: "must be a 3-letter ISO 4217 code" });
+    if (typeof rate !== "number" || !Number.isFinite(rate) || rate <= 0) {
+      errors.push({ field: `rates[${i}].rate`, message: "must be a number greater than 0" });
+    }
+    if (currency && typeof rate === "number" && rate > 0) rates.push({ currency, rate });
+  });
+
+  return errors.length ? { ok: false, errors } : { ok: true, value: rates };
+}
@@ -0,0 +1,21 @@
+/**
+ * lib/currency/types.ts
+ * Base-currency setting and the local exchange-rate table.
+ */
+
+export const DEFAULT_BASE_CURRENCY = "INR";
+
+/** Offered in pickers; any ISO 4217 code with a stored rate also works. */
+export const COMMON_CURRENCIES = ["INR", "USD", "EUR", "GBP", "AED", "SGD", "JPY", "AUD", "CAD", "CHF"];
+
+/** One unit of `currency` is worth `rate` units of the base currency. */
+export type ExchangeRate = {
+  currency: string;
+  rate: number;
+  updatedAt: string;
+};
+
+export type CurrencySettings = {
+  baseCurrency: string;
+  rates: ExchangeRate[];
+};
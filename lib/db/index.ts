@@ -0,0 +1,75 @@
+import path from "path";
+
+import { JsonFileBackend } from "./json-file-backend";
+import { MemoryBackend } from "./memory-backend";
+import { migrate } from "./migrations";
+import type { DatabaseState, StorageBackend } from "./types";
+
+export type { AppSettings, DatabaseState, StorageBackend } from "./types";
+export { JsonFileBackend } from "./json-file-backend";
+export { MemoryBackend } from "./memory-backend";
+
+/**
+ * Serialises access to a storage backend. Every read and write runs in
+ * order on a single promise chain, and the document is migrated to the
+ * latest schema before any caller sees it.
+ */
+export class Database {
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(readonly backend: StorageBackend) {}
+
+  /** Runs `fn` against a snapshot of the current state. */
+  read<T>(fn: (state: DatabaseState) => T | Promise<T>): Promise<T> {
+    return this.enqueue(async () => fn(await this.loadState()));
+  }
+
+  /** Runs `fn` against a mutable copy of the state and persists the result. */
+  write<T>(fn: (state: DatabaseState) => T | Promise<T>): Promise<T> {
+    return this.enqueue(async () => {
+      const state = await this.loadState();
+      const result = await fn(state);
+      await this.backend.save(state);
+      return result;
+    });
+  }
+
+  private async loadState(): Promise<DatabaseState> {
+    const { state, changed } = migrate(await this.backend.load());
+    if (changed) await this.backend.save(state);
+    return state;
+  }
+
+  private enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.queue.then(task, task);
+    // Keep the chain alive even when a task rejects.
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+}
+
+/**
+ * Picks a backend from the environment:
+ * - FINANCE_STORAGE=memory keeps everything in process memory
+ * - otherwise a JSON file at FINANCE_DB_PATH (default .data/finance.json)
+ */
+export function createBackendFromEnv(env: NodeJS.ProcessEnv = process.env): StorageBackend {
+  if (env.FINANCE_STORAGE === "memory") return new MemoryBackend();
+  const file = env.FINANCE_DB_PATH || path.join(process.cwd(), ".data", "finance.json");
+  return new JsonFileBackend(path.resolve(file));
+}
+
+// Cached on globalThis so dev-server hot reloads share one queue per file.
+const globalForDb = globalThis as typeof globalThis & { __financeDb?: Database };
+
+export function getDatabase(): Database {
+  if (!globalForDb.__financeDb) {
+    globalForDb.__financeDb = new Database(createBackendFromEnv());
+  }
+  return globalForDb.__financeDb;
+}
+
+/** Swaps the shared database, e.g. to point tests at a temp file. */
+export function setDatabase(db: Database | undefined) {
+  globalForDb.__financeDb = db;
+}
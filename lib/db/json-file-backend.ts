@@ -0,0 +1,32 @@
+import { promises as fs } from "fs";
+import path from "path";
+
+import type { DatabaseState, StorageBackend } from "./types";
+
+/**
+ * Stores the whole database as a single pretty-printed JSON file. Writes go
+ * to a temp file first and are renamed into place, so a crash mid-write
+ * never leaves a truncated ledger behind.
+ */
+export class JsonFileBackend implements StorageBackend {
+  readonly name = "json-file";
+
+  constructor(readonly filePath: string) {}
+
+  async load(): Promise<unknown | null> {
+    try {
+      const raw = await fs.readFile(this.filePath, "utf8");
+      return raw.trim() ? JSON.parse(raw) : null;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+      throw error;
+    }
+  }
+
+  async save(state: DatabaseState): Promise<void> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    const tmp = `${this.filePath}.${process.pid}.tmp`;
+    await fs.writeFile(tmp, JSON.stringify(state, null, 2), "utf8");
+    await fs.rename(tmp, this.filePath);
+  }
+}
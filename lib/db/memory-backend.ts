@@ -0,0 +1,23 @@
+import type { DatabaseState, StorageBackend } from "./types";
+
+/**
+ * Keeps the database in process memory. Nothing survives a restart; useful
+ * for tests and throwaway demos.
+ */
+export class MemoryBackend implements StorageBackend {
+  readonly name = "memory";
+
+  private snapshot: string | null;
+
+  constructor(initial?: unknown) {
+    this.snapshot = initial === undefined ? null : JSON.stringify(initial);
+  }
+
+  async load(): Promise<unknown | null> {
+    return this.snapshot === null ? null : JSON.parse(this.snapshot);
+  }
+
+  async save(state: DatabaseState): Promise<void> {
+    this.snapshot = JSON.stringify(state);
+  }
+}
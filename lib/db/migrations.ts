@@ -0,0 +1,143 @@
+import type { DatabaseState, Migration } from "./types";
+
+/**
+ * Ordered schema migrations. Append new entries with the next version
+ * number; never edit one that has shipped.
+ */
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: "Create expenses collection",
+    up: (state) => {
+      const legacy = Array.isArray(state.expenses) ? state.expenses : [];
+      const now = new Date().toISOString();
+      // Pre-storage ledgers used numeric ids and had no timestamps.
+      state.expenses = legacy.map((e: Record<string, unknown>) => ({
+        ...e,
+        id: String(e.id),
+        category: typeof e.category === "string" ? e.category : "Other",
+        createdAt: typeof e.createdAt === "string" ? e.createdAt : now,
+        updatedAt: typeof e.updatedAt === "string" ? e.updatedAt : now,
+      }));
+    },
+  },
+  {
+    version: 2,
+    description: "Add transaction type to expenses",
+    up: (state) => {
+      // Everything stored so far was entered as spending.
+      state.expenses = (state.expenses as Record<string, unknown>[]).map((e) => ({
+        ...e,
+        type: typeof e.type === "string" ? e.type : "expense",
+      }));
+    },
+  },
+  {
+    version: 3,
+    description: "Create recurring rules collection",
+    up: (state) => {
+      state.recurringRules = Array.isArray(state.recurringRules) ? state.recurringRules : [];
+    },
+  },
+  {
+    version: 4,
+    description: "Add currency settings and exchange-rate table",
+    up: (state) => {
+      // Amounts so far were entered in rupees, the dashboard's only currency until now.
+      const settings = (state.settings ?? {}) as Record<string, unknown>;
+      state.settings = { ...settings, baseCurrency: typeof settings.baseCurrency === "string" ? settings.baseCurrency : "INR" };
+      state.exchangeRates = Array.isArray(state.exchangeRates) ? state.exchangeRates : [];
+    },
+  },
+  {
+    version: 5,
+    description: "Create budgets and budget alerts collections",
+    up: (state) => {
+      state.budgets = Array.isArray(state.budgets) ? state.budgets : [];
+      state.budgetAlerts = Array.isArray(state.budgetAlerts) ? state.budgetAlerts : [];
+    },
+  },
+  {
+    version: 6,
+    description: "Create goals and goal contributions collections",
+    up: (state) => {
+      state.goals = Array.isArray(state.goals) ? state.goals : [];
+      state.goalContributions = Array.isArray(state.goalContributions) ? state.goalContributions : [];
+    },
+  },
+  {
+    version: 7,
+    description: "Create health score snapshots collection",
+    up: (state) => {
+      state.healthSnapshots = Array.isArray(state.healthSnapshots) ? state.healthSnapshots : [];
+    },
+  },
+  {
+    version: 8,
+    description: "Create learned merchant category rules collection",
+    up: (state) => {
+      state.categoryRules = Array.isArray(state.categoryRules) ? state.categoryRules : [];
+    },
+  },
+  {
+    version: 9,
+    description: "Create assistant chats and chat messages collections",
+    up: (state) => {
+      state.chats = Array.isArray(state.chats) ? state.chats : [];
+      state.chatMessages = Array.isArray(state.chatMessages) ? state.chatMessages : [];
+    },
+  },
+  {
+    version: 10,
+    description: "Link chat messages into a tree and record each chat's active branch",
+    up: (state) => {
+      // Chats so far were linear: every message follows the one before it.
+      const messages = state.chatMessages as Record<string, unknown>[];
+      const lastByChat = new Map<unknown, unknown>();
+      const ordered = [...messages].sort((a, b) => String(a.createdAt).localeCompare(String(b.createdAt)));
+      const parents = new Map<unknown, unknown>();
+      for (const m of ordered) {
+        parents.set(m, lastByChat.get(m.chatId) ?? null);
+        lastByChat.set(m.chatId, m.id);
+      }
+      state.chatMessages = messages.map((m) => ({ ...m, parentId: m.parentId ?? parents.get(m) ?? null }));
+      state.chats = (state.chats as Record<string, unknown>[]).map((c) => ({
+        ...c,
+        activeLeafId: c.activeLeafId ?? lastByChat.get(c.id) ?? null,
+      }));
+    },
+  },
+  {
+    version: 11,
+    description: "Create prompt templates collection",
+    up: (state) => {
+      state.promptTemplates = Array.isArray(state.promptTemplates) ? state.promptTemplates : [];
+    },
+  },
+];
+
+export const LATEST_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+/**
+ * Brings a raw stored document up to the latest schema. Returns the migrated
+ * state and whether anything changed (so callers know to persist it).
+ */
+export function migrate(raw: unknown): { state: DatabaseState; changed: boolean } {
+  const state: Record<string, unknown> =
+    raw && typeof raw === "object" && !Array.isArray(raw) ? { ...(raw as Record<string, unknown>) } : {};
+  const from = typeof state.schemaVersion === "number" ? state.schemaVersion : 0;
+
+  if (from > LATEST_SCHEMA_VERSION) {
+    throw new Error(
+      `Database schema version ${from} is newer than this build supports (${LATEST_SCHEMA_VERSION}).`
+    );
+  }
+
+  for (const migration of MIGRATIONS) {
+    if (migration.version <= from) continue;
+    migration.up(state);
+    state.schemaVersion = migration.version;
+  }
+
+  return { state: state as DatabaseState, changed: from !== LATEST_SCHEMA_VERSION };
+}
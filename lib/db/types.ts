@@ -0,0 +1,56 @@
+import type { Budget, BudgetAlert } from "@/lib/budgets/types";
+import type { CategoryRule } from "@/lib/categorization/types";
+import type { Chat, ChatMessage } from "@/lib/chats/types";
+import type { ExchangeRate } from "@/lib/currency/types";
+import type { Expense } from "@/lib/expenses/types";
+import type { Goal, GoalContribution } from "@/lib/goals/types";
+import type { HealthSnapshot, HealthWeights } from "@/lib/health/types";
+import type { PromptTemplate } from "@/lib/prompts/types";
+import type { RecurringRule } from "@/lib/recurring/types";
+
+/**
+ * Everything the app persists, as one document. Each backend stores this
+ * shape verbatim; `schemaVersion` tracks which migrations have been applied.
+ */
+export type DatabaseState = {
+  schemaVersion: number;
+  expenses: Expense[];
+  recurringRules: RecurringRule[];
+  settings: AppSettings;
+  exchangeRates: ExchangeRate[];
+  budgets: Budget[];
+  budgetAlerts: BudgetAlert[];
+  goals: Goal[];
+  goalContributions: GoalContribution[];
+  healthSnapshots: HealthSnapshot[];
+  categoryRules: CategoryRule[];
+  chats: Chat[];
+  chatMessages: ChatMessage[];
+  promptTemplates: PromptTemplate[];
+};
+
+/** User-level preferences that the server needs to apply. */
+export type AppSettings = {
+  /** ISO 4217 code every stored `amount` is expressed in. */
+  baseCurrency: string;
+  /** Weights of the health sub-scores; the defaults apply when missing. */
+  healthWeights?: HealthWeights;
+};
+
+/**
+ * A storage backend only knows how to load and save the raw document.
+ * Migrations, locking and querying live in `Database` so every backend
+ * behaves the same.
+ */
+export interface StorageBackend {
+  readonly name: string;
+  /** Returns the stored document, or null when nothing has been written yet. */
+  load(): Promise<unknown | null>;
+  save(state: DatabaseState): Promise<void>;
+}
+
+export type Migration = {
+  version: number;
+  description: string;
+  up: (state: Record<string, unknown>) => void;
+};
@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest";
+import { lastMonths, savingsScore, spendAmount, summarizeCashFlow } from "./cashflow";
+import type { Expense } from "./types";
+
+const row = (type: Expense["type"], amount: number, date = "2025-03-10T00:00:00.000Z") =>
+  ({ id: `${type}-${amount}`, type, amount, category: "Food", date }) as Expense;
+
+describe("spendAmount", () => {
+  it("counts expenses, subtracts refunds and ignores income and transfers", () => {
+    expect(spendAmount(row("expense", 100))).toBe(100);
+    expect(spendAmount(row(undefined, 100))).toBe(100);
+    expect(spendAmount(row("refund", 30))).toBe(-30);
+    expect(spendAmount(row("income", 500))).toBe(0);
+    expect(spendAmount(row("transfer", 200))).toBe(0);
+  });
+});
+
+describe("summarizeCashFlow", () => {
+  it("nets refunds against spending and derives the savings rate", () => {
+    const [march] = summarizeCashFlow(
+      [row("income", 1000), row("expense", 300), row("refund", 50), row("transfer", 400)],
+      ["2025-03"]
+    );
+    expect(march).toMatchObject({ income: 1000, spending: 250, refunds: 50, net: 750, savingsRate: 0.75 });
+  });
+
+  it("leaves the savings rate unknown without income", () => {
+    const [march] = summarizeCashFlow([row("expense", 300)], ["2025-03"]);
+    expect(march.savingsRate).toBeNull();
+  });
+});
+
+describe("lastMonths", () => {
+  it("counts back across a year boundary", () => {
+    expect(lastMonths(3, "2025-02")).toEqual(["2024-12", "2025-01", "2025-02"]);
+  });
+});
+
+describe("savingsScore", () => {
+  it("scales the savings rate onto 0–100", () => {
+    expect(savingsScore(null)).toBe(50);
+    expect(savingsScore(-0.1)).toBe(0);
+    expect(savingsScore(0.1)).toBe(50);
+    expect(savingsScore(0.4)).toBe(100);
+  });
+});
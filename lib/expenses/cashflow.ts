@@ -0,0 +1,87 @@
+/**
+ * lib/expenses/cashflow.ts
+ * Income vs. spending per month, and the savings rate derived from it. Shared
+ * by /api/cashflow, the dashboard and the monthly report.
+ */
+
+import type { Expense, TransactionType } from "./types";
+
+export type CashFlowMonth = {
+  /** "YYYY-MM" */
+  month: string;
+  income: number;
+  /** Expenses minus refunds. */
+  spending: number;
+  refunds: number;
+  /** income - spending */
+  net: number;
+  /** net / income, or null when no income was recorded that month. */
+  savingsRate: number | null;
+};
+
+export function transactionType(e: Pick<Expense, "type">): TransactionType {
+  return e.type ?? "expense";
+}
+
+/** How much a row adds to spending: expenses count, refunds subtract, income and transfers are ignored. */
+export function spendAmount(e: Pick<Expense, "type" | "amount">): number {
+  switch (transactionType(e)) {
+    case "expense":
+      return e.amount;
+    case "refund":
+      return -e.amount;
+    default:
+      return 0;
+  }
+}
+
+/** The `count` months ending with `end` ("YYYY-MM"), oldest first. */
+export function lastMonths(count: number, end: string = new Date().toISOString().slice(0, 7)): string[] {
+  const [year, month] = end.split("-").map(Number);
+  return Array.from({ length: count }, (_, i) => {
+    const d = new Date(Date.UTC(year, month - 1 - (count - 1 - i), 1));
+    return d.toISOString().slice(0, 7);
+  });
+}
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+export function summarizeCashFlow(expenses: Expense[], months: string[]): CashFlowMonth[] {
+  const totals = new Map(months.map((m) => [m, { income: 0, expenses: 0, refunds: 0 }]));
+
+  for (const e of expenses) {
+    const bucket = totals.get(e.date.slice(0, 7));
+    if (!bucket) continue;
+    const type = transactionType(e);
+    if (type === "income") bucket.income += e.amount;
+    else if (type === "expense") bucket.expenses += e.amount;
+    else if (type === "refund") bucket.refunds += e.amount;
+  }
+
+  return months.map((month) => {
+    const { income, expenses: spent, refunds } = totals.get(month)!;
+    const spending = Math.max(0, spent - refunds);
+    const net = income - spending;
+    return {
+      month,
+      income: round2(income),
+      spending: round2(spending),
+      refunds: round2(refunds),
+      net: round2(net),
+      savingsRate: income > 0 ? net / income : null,
+    };
+  });
+}
+
+/** Savings rate that earns a full score (the "20" in the 50/30/20 rule). */
+export const TARGET_SAVINGS_RATE = 0.2;
+
+/**
+ * Maps a savings rate onto 0–100: nothing saved (or overspending) scores 0,
+ * saving TARGET_SAVINGS_RATE or more scores 100, linear in between. Without
+ * any recorded income the rate is unknown and scores a neutral 50.
+ */
+export function savingsScore(rate: number | null): number {
+  if (rate === null) return 50;
+  return Math.round(Math.min(1, Math.max(0, rate / TARGET_SAVINGS_RATE)) * 100);
+}
@@ -0,0 +1,56 @@
+/**
+ * lib/expenses/categorize.ts
+ * Keyword-based category suggestions, shared by Quick Add on the dashboard
+ * and the statement importer.
+ */
+
+import type { TransactionType } from "./types";
+
+export const CATEGORY_KEYWORDS: Record<string, string[]> = {
+  Food: ["restaurant", "food", "lunch", "dinner", "cafe", "pizza", "burger"],
+  Transport: ["uber", "taxi", "bus", "train", "fuel", "petrol", "gas"],
+  Shopping: ["amazon", "flipkart", "mall", "store", "buy", "purchase"],
+  Entertainment: ["movie", "cinema", "game", "netflix", "spotify", "concert"],
+  Bills: ["electricity", "water", "rent", "internet", "phone", "utility"],
+  Health: ["doctor", "medicine", "pharmacy", "hospital", "gym", "fitness"],
+};
+
+/** Categories for money coming in; checked only for credits. */
+export const INCOME_KEYWORDS: Record<string, string[]> = {
+  Salary: ["salary", "payroll", "sal cr", "wages"],
+  Freelance: ["freelance", "upwork", "fiverr", "invoice", "consulting"],
+  Investments: ["interest", "dividend", "int.pd", "mutual fund", "redemption"],
+};
+
+/** Credits that give back earlier spending rather than new income. */
+const REFUND_KEYWORDS = ["refund", "reversal", "reversed", "cashback", "chargeback", "returned"];
+
+/** Returns the first category whose keywords appear in `title`, or null. */
+export function matchCategoryKeyword(title: string): string | null {
+  const lowerTitle = title.toLowerCase();
+  for (const [category, words] of Object.entries(CATEGORY_KEYWORDS)) {
+    if (words.some((word) => lowerTitle.includes(word))) {
+      return category;
+    }
+  }
+  return null;
+}
+
+export function suggestCategoryFromTitle(title: string, fallback: string): string {
+  return matchCategoryKeyword(title) ?? fallback;
+}
+
+/**
+ * Classifies money coming in: refunds keep their spending category so they
+ * offset it, everything else is income with a best-guess source.
+ */
+export function classifyCredit(title: string): { type: TransactionType; category: string | null } {
+  const lowerTitle = title.toLowerCase();
+  if (REFUND_KEYWORDS.some((word) => lowerTitle.includes(word))) {
+    return { type: "refund", category: matchCategoryKeyword(title) };
+  }
+  for (const [category, words] of Object.entries(INCOME_KEYWORDS)) {
+    if (words.some((word) => lowerTitle.includes(word))) return { type: "income", category };
+  }
+  return { type: "income", category: null };
+}
@@ -0,0 +1,156 @@
+import { EXPENSE_MOODS, TRANSACTION_TYPES, type Expense, type ExpenseMood, type TransactionType } from "./types";
+
+export type ExpenseSortField = "date" | "amount" | "title" | "category";
+
+export type ExpenseQuery = {
+  /** Transaction types to include; all when omitted. */
+  types?: TransactionType[];
+  category?: string;
+  /** "YYYY-MM" */
+  month?: string;
+  /** Inclusive ISO date bounds. */
+  from?: string;
+  to?: string;
+  minAmount?: number;
+  maxAmount?: number;
+  /** Free text matched against title, category, tags and amount. */
+  q?: string;
+  tag?: string;
+  mood?: ExpenseMood;
+  sort: ExpenseSortField;
+  order: "asc" | "desc";
+  limit?: number;
+  cursor?: string;
+};
+
+export type ExpensePage = {
+  expenses: Expense[];
+  /** Total rows matching the filters, across all pages. */
+  total: number;
+  nextCursor: string | null;
+};
+
+export const MAX_PAGE_SIZE = 500;
+
+const SORT_FIELDS: ExpenseSortField[] = ["date", "amount", "title", "category"];
+
+/**
+ * Reads collection filters from a query string. `sort` takes a field name,
+ * optionally prefixed with "-" for descending order (default "-date").
+ * Unknown or malformed values are ignored rather than rejected.
+ */
+export function parseExpenseQuery(params: URLSearchParams): ExpenseQuery {
+  const text = (key: string) => params.get(key)?.trim() || undefined;
+  const num = (key: string) => {
+    const raw = text(key);
+    const n = raw === undefined ? NaN : Number(raw);
+    return Number.isFinite(n) ? n : undefined;
+  };
+
+  const rawSort = text("sort") ?? "-date";
+  const desc = rawSort.startsWith("-");
+  const field = rawSort.replace(/^[-+]/, "") as ExpenseSortField;
+  const limit = num("limit");
+  const mood = text("mood") as ExpenseMood | undefined;
+  const category = text("category");
+  const types = text("type")
+    ?.split(",")
+    .map((t) => t.trim())
+    .filter((t): t is TransactionType => TRANSACTION_TYPES.includes(t as TransactionType));
+
+  return {
+    types: types?.length ? types : undefined,
+    category: category === "All" ? undefined : category,
+    month: text("month")?.match(/^\d{4}-\d{2}$/) ? text("month") : undefined,
+    from: text("from"),
+    to: text("to"),
+    minAmount: num("minAmount"),
+    maxAmount: num("maxAmount"),
+    q: text("q")?.toLowerCase(),
+    tag: text("tag")?.toLowerCase(),
+    mood: mood && EXPENSE_MOODS.includes(mood) ? mood : undefined,
+    sort: SORT_FIELDS.includes(field) ? field : "date",
+    order: desc ? "desc" : "asc",
+    limit: limit === undefined ? undefined : Math.min(MAX_PAGE_SIZE, Math.max(1, Math.floor(limit))),
+    cursor: text("cursor"),
+  };
+}
+
+function matches(e: Expense, q: ExpenseQuery): boolean {
+  if (q.types && !q.types.includes(e.type ?? "expense")) return false;
+  if (q.category && e.category !== q.category) return false;
+  if (q.month && !e.date.startsWith(q.month)) return false;
+  // Compare on the date prefix so "to=2025-03-31" includes the whole day.
+  if (q.from && e.date.slice(0, q.from.length) < q.from) return false;
+  if (q.to && e.date.slice(0, q.to.length) > q.to) return false;
+  if (q.minAmount !== undefined && e.amount < q.minAmount) return false;
+  if (q.maxAmount !== undefined && e.amount > q.maxAmount) return false;
+  if (q.mood && e.mood !== q.mood) return false;
+  if (q.tag && !e.tags?.some((t) => t.toLowerCase() === q.tag)) return false;
+  if (q.q) {
+    const haystack = [e.title ?? "", e.category, ...(e.tags ?? []), String(e.amount)].join(" ").toLowerCase();
+    if (!haystack.includes(q.q)) return false;
+  }
+  return true;
+}
+
+type SortKey = string | number;
+
+function sortKey(e: Expense, field: ExpenseSortField): SortKey {
+  switch (field) {
+    case "amount":
+      return e.amount;
+    case "title":
+      return (e.title ?? "").toLowerCase();
+    case "category":
+      return e.category.toLowerCase();
+    default:
+      return +new Date(e.date) || 0;
+  }
+}
+
+/** Orders by the sort key, then by id so pages never overlap on ties. */
+function compareKeys(a: [SortKey, string], b: [SortKey, string], order: "asc" | "desc"): number {
+  const dir = order === "asc" ? 1 : -1;
+  if (a[0] < b[0]) return -dir;
+  if (a[0] > b[0]) return dir;
+  return a[1] < b[1] ? -1 : a[1] > b[1] ? 1 : 0;
+}
+
+function encodeCursor(key: [SortKey, string]): string {
+  return Buffer.from(JSON.stringify(key)).toString("base64url");
+}
+
+function decodeCursor(cursor: string): [SortKey, string] | null {
+  try {
+    const parsed = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+    if (Array.isArray(parsed) && parsed.length === 2 && typeof parsed[1] === "string") {
+      return parsed as [SortKey, string];
+    }
+  } catch {}
+  return null;
+}
+
+/**
+ * Filters, sorts and pages an in-memory list of expenses. Cursors encode the
+ * sort key of the last row returned, so rows added or removed between
+ * requests do not shift later pages.
+ */
+export function queryExpenses(all: Expense[], q: ExpenseQuery): ExpensePage {
+  const rows = all
+    .filter((e) => matches(e, q))
+    .map((e) => ({ e, key: [sortKey(e, q.sort), e.id] as [SortKey, string] }))
+    .sort((a, b) => compareKeys(a.key, b.key, q.order));
+
+  const after = q.cursor ? decodeCursor(q.cursor) : null;
+  const start = after ? rows.findIndex((r) => compareKeys(r.key, after, q.order) > 0) : 0;
+  const remaining = start === -1 ? [] : rows.slice(start);
+  const page = q.limit ? remaining.slice(0, q.limit) : remaining;
+  const hasMore = page.length < remaining.length;
+
+  return {
+    expenses: page.map((r) => r.e),
+    total: rows.length,
+    nextCursor: hasMore ? encodeCursor(page[page.length - 1].key) : null,
+  };
+}
@@ -0,0 +1,92 @@
+import { randomUUID } from "crypto";
+
+import { getDatabase, type Database } from "@/lib/db";
+import { queryExpenses, type ExpensePage, type ExpenseQuery } from "./query";
+import type { Expense, ExpensePatch, NewExpense } from "./types";
+
+/** All expenses, newest first. */
+export async function listExpenses(db: Database = getDatabase()): Promise<Expense[]> {
+  return db.read((state) =>
+    [...state.expenses].sort((a, b) => +new Date(b.date) - +new Date(a.date))
+  );
+}
+
+export async function findExpenses(query: ExpenseQuery, db: Database = getDatabase()): Promise<ExpensePage> {
+  return db.read((state) => queryExpenses(state.expenses, query));
+}
+
+export async function getExpense(id: string, db: Database = getDatabase()): Promise<Expense | null> {
+  return db.read((state) => state.expenses.find((e) => e.id === id) ?? null);
+}
+
+export async function createExpense(input: NewExpense, db: Database = getDatabase()): Promise<Expense> {
+  return db.write((state) => {
+    const now = new Date().toISOString();
+    // Honour a client-generated id (the dashboard creates them optimistically)
+    // unless it would collide with an existing row.
+    const id = input.id && !state.expenses.some((e) => e.id === input.id) ? input.id : randomUUID();
+    const expense: Expense = { ...input, id, createdAt: now, updatedAt: now };
+    state.expenses.push(expense);
+    return expense;
+  });
+}
+
+/**
+ * Inserts a batch in a single write, so an import either lands completely or
+ * not at all.
+ */
+export async function createExpenses(inputs: NewExpense[], db: Database = getDatabase()): Promise<Expense[]> {
+  return db.write((state) => {
+    const now = new Date().toISOString();
+    const taken = new Set(state.expenses.map((e) => e.id));
+    const created = inputs.map((input) => {
+      const id = input.id && !taken.has(input.id) ? input.id : randomUUID();
+      taken.add(id);
+      return { ...input, id, createdAt: now, updatedAt: now };
+    });
+    state.expenses.push(...created);
+    return created;
+  });
+}
+
+/** Merges `patch` into an existing expense. Returns null when the id is unknown. */
+export async function updateExpense(
+  id: string,
+  patch: ExpensePatch,
+  db: Database = getDatabase()
+): Promise<Expense | null> {
+  return db.write((state) => {
+    const index = state.expenses.findIndex((e) => e.id === id);
+    if (index === -1) return null;
+    const updated: Expense = { ...state.expenses[index], ...patch, id, updatedAt: new Date().toISOString() };
+    state.expenses[index] = updated;
+    return updated;
+  });
+}
+
+/** Overwrites every field of an existing expense. Returns null when the id is unknown. */
+export async function replaceExpense(
+  id: string,
+  input: NewExpense,
+  db: Database = getDatabase()
+): Promise<Expense | null> {
+  return db.write((state) => {
+    const index = state.expenses.findIndex((e) => e.id === id);
+    if (index === -1) return null;
+    // The user's anomaly review survives a full replacement, like the creation time.
+    const { createdAt, anomalyExpected } = state.expenses[index];
+    const replaced: Expense = { ...input, id, createdAt, anomalyExpected, updatedAt: new Date().toISOString() };
+    if (anomalyExpected === undefined) delete replaced.anomalyExpected;
+    state.expenses[index] = replaced;
+    return replaced;
+  });
+}
+
+/** Returns false when no expense has the given id. */
+export async function deleteExpense(id: string, db: Database = getDatabase()): Promise<boolean> {
+  return db.write((state) => {
+    const before = state.expenses.length;
+    state.expenses = state.expenses.filter((e) => e.id !== id);
+    return state.expenses.length !== before;
+  });
+}
@@ -0,0 +1,194 @@
+/**
+ * lib/expenses/schema.ts
+ * The single source of truth for what a valid expense looks like. The API
+ * routes reject requests that fail these checks, and the dashboard runs the
+ * same checks before sending so users see the error before a round trip.
+ */
+
+import { isPlainObject, type FieldError, type ValidationResult } from "@/lib/validation";
+import {
+  EXPENSE_MOODS,
+  TRANSACTION_TYPES,
+  type ExpenseFields,
+  type ExpenseMood,
+  type ExpensePatch,
+  type NewExpense,
+  type TransactionType,
+} from "./types";
+
+export const EXPENSE_LIMITS = {
+  titleLength: 200,
+  categoryLength: 50,
+  tagLength: 30,
+  maxTags: 20,
+  maxAmount: 1_000_000_000,
+} as const;
+
+export type Parsed<T> = { value: T } | { error: string };
+
+const fail = (error: string): { error: string } => ({ error });
+
+function parseAmount(raw: unknown): Parsed<number> {
+  if (typeof raw !== "number" || !Number.isFinite(raw)) return fail("must be a finite number");
+  if (raw <= 0) return fail("must be greater than 0");
+  if (raw > EXPENSE_LIMITS.maxAmount) return fail(`must be at most ${EXPENSE_LIMITS.maxAmount}`);
+  return { value: Math.round(raw * 100) / 100 };
+}
+
+/** Per-field parsers. Each returns the cleaned value or an error message. */
+const FIELD_PARSERS: { [K in keyof ExpenseFields]-?: (raw: unknown) => Parsed<ExpenseFields[K]> } = {
+  type: (raw) =>
+    TRANSACTION_TYPES.includes(raw as TransactionType)
+      ? { value: raw as TransactionType }
+      : fail(`must be one of ${TRANSACTION_TYPES.join(", ")}`),
+  title: (raw) => {
+    if (typeof raw !== "string") return fail("must be a string");
+    const title = raw.trim();
+    if (title.length > EXPENSE_LIMITS.titleLength) {
+      return fail(`must be at most ${EXPENSE_LIMITS.titleLength} characters`);
+    }
+    return { value: title || undefined };
+  },
+  amount: (raw) => parseAmount(raw),
+  currency: (raw) => {
+    if (typeof raw !== "string" || !/^[A-Za-z]{3}$/.test(raw.trim())) return fail("must be a 3-letter ISO 4217 code");
+    return { value: raw.trim().toUpperCase() };
+  },
+  originalAmount: (raw) => parseAmount(raw),
+  category: (raw) => {
+    if (typeof raw !== "string" || !raw.trim()) return fail("must be a non-empty string");
+    if (raw.trim().length > EXPENSE_LIMITS.categoryLength) {
+      return fail(`must be at most ${EXPENSE_LIMITS.categoryLength} characters`);
+    }
+    return { value: raw.trim() };
+  },
+  date: (raw) => {
+    if (typeof raw !== "string" || !raw.trim()) return fail("must be an ISO 8601 date string");
+    const parsed = new Date(raw);
+    if (Number.isNaN(parsed.getTime())) return fail("must be an ISO 8601 date string");
+    return { value: parsed.toISOString() };
+  },
+  tags: (raw) => {
+    if (!Array.isArray(raw)) return fail("must be an array of strings");
+    if (raw.some((t) => typeof t !== "string")) return fail("must be an array of strings");
+    const tags = [...new Set((raw as string[]).map((t) => t.trim()).filter(Boolean))];
+    if (tags.length > EXPENSE_LIMITS.maxTags) return fail(`must have at most ${EXPENSE_LIMITS.maxTags} tags`);
+    if (tags.some((t) => t.length > EXPENSE_LIMITS.tagLength)) {
+      return fail(`each tag must be at most ${EXPENSE_LIMITS.tagLength} characters`);
+    }
+    return { value: tags };
+  },
+  mood: (raw) =>
+    EXPENSE_MOODS.includes(raw as ExpenseMood)
+      ? { value: raw as ExpenseMood }
+      : fail(`must be one of ${EXPENSE_MOODS.join(", ")}`),
+  confidence: (raw) => {
+    if (typeof raw !== "number" || !Number.isFinite(raw)) return fail("must be a number");
+    if (raw < 0 || raw > 100) return fail("must be between 0 and 100");
+    return { value: raw };
+  },
+  predicted: (raw) => (typeof raw === "boolean" ? { value: raw } : fail("must be a boolean")),
+  anomaly: (raw) => (typeof raw === "boolean" ? { value: raw } : fail("must be a boolean")),
+  recurringId: (raw) => (typeof raw === "string" && raw.trim() ? { value: raw.trim() } : fail("must be a non-empty string")),
+};
+
+/** Runs one field's parser, for schemas that embed expense fields (e.g. recurring rules). */
+export function parseExpenseField<K extends keyof ExpenseFields>(field: K, raw: unknown): Parsed<ExpenseFields[K]> {
+  return FIELD_PARSERS[field](raw) as Parsed<ExpenseFields[K]>;
+}
+
+const EDITABLE_FIELDS = Object.keys(FIELD_PARSERS) as (keyof ExpenseFields)[];
+
+/** Set by the server; accepted in bodies (clients echo records back) but never applied. */
+const READ_ONLY_FIELDS = ["createdAt", "updatedAt", "anomalyExplanation", "anomalyExpected"];
+
+function parseFields(
+  body: Record<string, unknown>,
+  errors: FieldError[],
+  allowed: string[]
+): ExpensePatch {
+  const out: Record<string, unknown> = {};
+  for (const [field, raw] of Object.entries(body)) {
+    if (READ_ONLY_FIELDS.includes(field) || allowed.includes(field)) continue;
+    if (!(EDITABLE_FIELDS as string[]).includes(field)) {
+      errors.push({ field, message: "is not a recognised expense field" });
+      continue;
+    }
+    // `null` clears an optional field on PATCH; treat it like an omitted field elsewhere.
+    if (raw === undefined || raw === null) continue;
+    const parsed = FIELD_PARSERS[field as keyof ExpenseFields](raw);
+    if ("error" in parsed) errors.push({ field, message: parsed.error });
+    else out[field] = parsed.value;
+  }
+  return out as ExpensePatch;
+}
+
+/**
+ * Validates a body for POST (create) or PUT (replace). `amount` is required
+ * unless `currency` and `originalAmount` are given;
+ * `type` defaults to "expense", `category` to "Other" and `date` to now. On create an `id`
+ * (string or number) may be supplied by the client.
+ */
+export function validateExpense(body: unknown, mode: "create" | "replace" = "create"): ValidationResult<NewExpense> {
+  if (!isPlainObject(body)) {
+    return { ok: false, errors: [{ field: "body", message: "must be a JSON object" }] };
+  }
+
+  const errors: FieldError[] = [];
+  const fields = parseFields(body, errors, ["id"]);
+
+  // A foreign-currency row may omit `amount`; the route converts `originalAmount`.
+  const hasOriginal = fields.currency !== undefined && fields.originalAmount !== undefined;
+  if ((body.amount === undefined || body.amount === null) && !hasOriginal) {
+    errors.push({ field: "amount", message: "is required" });
+  }
+  if ((fields.currency === undefined) !== (fields.originalAmount === undefined)) {
+    const field = fields.currency === undefined ? "currency" : "originalAmount";
+    errors.push({ field, message: "is required when the other of currency / originalAmount is set" });
+  }
+
+  let id: string | undefined;
+  if (body.id !== undefined && body.id !== null) {
+    if (typeof body.id === "string" && body.id.trim()) id = body.id.trim();
+    else if (typeof body.id === "number" && Number.isFinite(body.id)) id = String(body.id);
+    else errors.push({ field: "id", message: "must be a non-empty string or a number" });
+  }
+
+  if (errors.length) return { ok: false, errors };
+
+  return {
+    ok: true,
+    value: {
+      type: "expense",
+      category: "Other",
+      date: new Date().toISOString(),
+      ...fields,
+      amount: (fields.amount ?? fields.originalAmount) as number,
+      ...(mode === "create" && id ? { id } : {}),
+    },
+  };
+}
+
+/**
+ * Validates a PATCH body. Every field is optional; `null` clears an optional
+ * field. `type`, `amount`, `category` and `date` cannot be cleared.
+ */
+export function validateExpensePatch(body: unknown): ValidationResult<ExpensePatch> {
+  if (!isPlainObject(body)) {
+    return { ok: false, errors: [{ field: "body", message: "must be a JSON object" }] };
+  }
+
+  const errors: FieldError[] = [];
+  const patch: Record<string, unknown> = parseFields(body, errors, ["id"]);
+
+  for (const field of EDITABLE_FIELDS) {
+    if (body[field] !== null) continue;
+    if (field === "type" || field === "amount" || field === "category" || field === "date") {
+      errors.push({ field, message: "cannot be cleared" });
+    } else {
+      patch[field] = undefined;
+    }
+  }
+
+  return errors.length ? { ok: false, errors } : { ok: true, value: patch as ExpensePatch };
+}
@@ -0,0 +1,60 @@
+/**
+ * lib/expenses/types.ts
+ * Shared expense types, used by the API routes and by the dashboard in
+ * app/page.tsx. Validation rules for these fields live in ./schema.ts.
+ */
+
+export const EXPENSE_MOODS = ["happy", "neutral", "stressed", "regret"] as const;
+
+export type ExpenseMood = (typeof EXPENSE_MOODS)[number];
+
+/**
+ * What a ledger row represents. Only "expense" counts as spending; "refund"
+ * money coming back offsets spending in its category; "income" (salary,
+ * freelance, ...) is money earned; "transfer" moves money between your own
+ * accounts and is left out of every total.
+ */
+export const TRANSACTION_TYPES = ["expense", "income", "refund", "transfer"] as const;
+
+export type TransactionType = (typeof TRANSACTION_TYPES)[number];
+
+/** Suggested categories for income rows; any category string is accepted. */
+export const INCOME_CATEGORIES = ["Salary", "Freelance", "Business", "Investments", "Gifts", "Other Income"];
+
+/** Everything a client may set on an expense. */
+export type ExpenseFields = {
+  /** Missing on rows written before income tracking; treat as "expense". */
+  type?: TransactionType;
+  title?: string;
+  /** Always in the base currency, so rows can be summed directly. */
+  amount: number;
+  /** ISO 4217 code the row was entered in, when different from the base currency. */
+  currency?: string;
+  /** The amount in `currency`; `amount` is derived from it via the rate table. */
+  originalAmount?: number;
+  category: string;
+  date: string;
+  tags?: string[];
+  mood?: ExpenseMood;
+  confidence?: number;
+  predicted?: boolean;
+  /** Set by the anomaly detector (lib/anomalies) on every write; false once the user marks the row as expected. */
+  anomaly?: boolean;
+  /** Set on rows generated from a recurring rule (see lib/recurring). */
+  recurringId?: string;
+};
+
+/** A stored expense. Timestamps and the anomaly review fields are set by the server. */
+export type Expense = ExpenseFields & {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+  /** Why the detector flagged the row, e.g. "4.2× the median Shopping expense". */
+  anomalyExplanation?: string;
+  /** The user reviewed a flag and said this amount is normal for them. */
+  anomalyExpected?: boolean;
+};
+
+export type NewExpense = ExpenseFields & { id?: string };
+
+export type ExpensePatch = Partial<ExpenseFields>;
@@ -0,0 +1,18 @@
+export type CsvCell = string | number | null | undefined;
+
+/**
+ * Quotes a cell when needed. Cells that a spreadsheet would evaluate as a
+ * formula (leading = + - @) are prefixed with an apostrophe; negative numbers
+ * are passed as numbers and left alone.
+ */
+function escapeCell(cell: CsvCell): string {
+  if (cell === null || cell === undefined) return "";
+  if (typeof cell === "number") return String(cell);
+  const text = /^[=+\-@\t\r]/.test(cell) ? `'${cell}` : cell;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** RFC 4180 output with CRLF line endings, as Excel expects. */
+export function toCsv(header: string[], rows: CsvCell[][]): string {
+  return [header, ...rows].map((row) => row.map(escapeCell).join(",")).join("\r\n") + "\r\n";
+}
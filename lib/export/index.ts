@@ -0,0 +1,63 @@
+/**
+ * lib/export
+ * Turns a list of expenses into a downloadable file. Formats share one column
+ * definition so CSV and XLSX always agree.
+ */
+
+import type { Expense } from "@/lib/expenses/types";
+import { toCsv } from "./csv";
+import { toXlsx, type XlsxCell } from "./xlsx";
+
+export { PdfDocument, type PdfColor } from "./pdf";
+
+export const EXPORT_FORMATS = ["csv", "json", "xlsx"] as const;
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+export type ExportFile = { body: string | Uint8Array; contentType: string; extension: string };
+
+type Column = { header: string; value: (e: Expense) => XlsxCell };
+
+const EXPENSE_COLUMNS: Column[] = [
+  { header: "Date", value: (e) => new Date(e.date) },
+  { header: "Type", value: (e) => e.type ?? "expense" },
+  { header: "Title", value: (e) => e.title ?? "" },
+  { header: "Category", value: (e) => e.category },
+  { header: "Amount", value: (e) => e.amount },
+  { header: "Currency", value: (e) => e.currency ?? "" },
+  { header: "Original Amount", value: (e) => e.originalAmount ?? "" },
+  { header: "Tags", value: (e) => (e.tags ?? []).join("; ") },
+  { header: "Mood", value: (e) => e.mood ?? "" },
+  { header: "Id", value: (e) => e.id },
+];
+
+export function isExportFormat(value: unknown): value is ExportFormat {
+  return EXPORT_FORMATS.includes(value as ExportFormat);
+}
+
+export function exportExpenses(expenses: Expense[], format: ExportFormat): ExportFile {
+  const header = EXPENSE_COLUMNS.map((c) => c.header);
+  const rows = expenses.map((e) => EXPENSE_COLUMNS.map((c) => c.value(e)));
+
+  switch (format) {
+    case "json":
+      return {
+        body: JSON.stringify({ exportedAt: new Date().toISOString(), count: expenses.length, expenses }, null, 2),
+        contentType: "application/json; charset=utf-8",
+        extension: "json",
+      };
+    case "xlsx":
+      return {
+        body: toXlsx("Expenses", header, rows),
+        contentType: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+        extension: "xlsx",
+      };
+    default:
+      return {
+        // Dates as plain YYYY-MM-DD so spreadsheets parse them without a locale
+        // guess; the BOM makes Excel read the file as UTF-8.
+        body: "\uFEFF" + toCsv(header, rows.map((row) => row.map((cell) => (cell instanceof Date ? cell.toISOString().slice(0, 10) : cell)))),
+        contentType: "text/csv; charset=utf-8",
+        extension: "csv",
+      };
+  }
+}
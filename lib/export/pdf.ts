@@ -0,0 +1,173 @@
+import { deflateSync } from "zlib";
+
+/** RGB components in 0–1, or a "#rrggbb" string. */
+export type PdfColor = string | [number, number, number];
+
+type TextOptions = { size?: number; bold?: boolean; color?: PdfColor; align?: "left" | "right" | "center" };
+
+const PAGE_WIDTH = 595.28; // A4 in points
+const PAGE_HEIGHT = 841.89;
+
+function rgb(color: PdfColor): string {
+  const [r, g, b] = Array.isArray(color)
+    ? color
+    : [1, 3, 5].map((i) => parseInt(color.slice(i, i + 2), 16) / 255);
+  return [r, g, b].map((c) => c.toFixed(3)).join(" ");
+}
+
+const n = (v: number) => (Math.round(v * 100) / 100).toString();
+
+/**
+ * Text is set in the standard Helvetica fonts with WinAnsi encoding, so
+ * characters outside Latin-1 are replaced rather than embedded.
+ */
+function pdfString(text: string): string {
+  const latin1 = text.replace(/[–—]/g, "-").replace(/[^\x20-\x7e\xa0-\xff]/g, "?");
+  return `(${latin1.replace(/[\\()]/g, (c) => `\\${c}`)})`;
+}
+
+/**
+ * Minimal PDF writer for generated reports: A4 pages, Helvetica text, filled
+ * rectangles, polylines and pie wedges. Coordinates are in points from the
+ * top-left corner of the page.
+ */
+export class PdfDocument {
+  readonly width = PAGE_WIDTH;
+  readonly height = PAGE_HEIGHT;
+  private pages: string[][] = [];
+
+  constructor(private title = "Report") {
+    this.addPage();
+  }
+
+  addPage(): void {
+    this.pages.push([]);
+  }
+
+  private get ops(): string[] {
+    return this.pages[this.pages.length - 1];
+  }
+
+  /** Approximate Helvetica advance width; good enough for alignment. */
+  textWidth(text: string, size = 10, bold = false): number {
+    let units = 0;
+    for (const ch of text) {
+      if (/[il.,:;'|!]/.test(ch)) units += 0.28;
+      else if (/[mwMW@%]/.test(ch)) units += 0.85;
+      else if (/[A-Z0-9]/.test(ch)) units += 0.64;
+      else if (ch === " ") units += 0.28;
+      else units += 0.54;
+    }
+    return units * size * (bold ? 1.05 : 1);
+  }
+
+  text(x: number, y: number, text: string, options: TextOptions = {}): void {
+    const { size = 10, bold = false, color = "#111827", align = "left" } = options;
+    const width = this.textWidth(text, size, bold);
+    const left = align === "right" ? x - width : align === "center" ? x - width / 2 : x;
+    this.ops.push(
+      `BT ${rgb(color)} rg /${bold ? "F2" : "F1"} ${n(size)} Tf ${n(left)} ${n(this.height - y - size)} Td ${pdfString(text)} Tj ET`
+    );
+  }
+
+  rect(x: number, y: number, w: number, h: number, color: PdfColor): void {
+    this.ops.push(`${rgb(color)} rg ${n(x)} ${n(this.height - y - h)} ${n(w)} ${n(h)} re f`);
+  }
+
+  polyline(points: [number, number][], color: PdfColor, width = 1): void {
+    if (points.length < 2) return;
+    const path = points.map(([x, y], i) => `${n(x)} ${n(this.height - y)} ${i ? "l" : "m"}`).join(" ");
+    this.ops.push(`${rgb(color)} RG ${n(width)} w 1 j ${path} S`);
+  }
+
+  /** Filled closed shape, e.g. a confidence band. */
+  polygon(points: [number, number][], color: PdfColor): void {
+    if (points.length < 3) return;
+    const path = points.map(([x, y], i) => `${n(x)} ${n(this.height - y)} ${i ? "l" : "m"}`).join(" ");
+    this.ops.push(`${rgb(color)} rg ${path} h f`);
+  }
+
+  /**
+   * Pie slice from `start` to `end` radians, clockwise from 12 o'clock. Arcs are
+   * drawn as cubic Béziers of at most a quarter turn each.
+   */
+  wedge(cx: number, cy: number, r: number, start: number, end: number, color: PdfColor): void {
+    const point = (a: number): [number, number] => [cx + r * Math.sin(a), this.height - (cy - r * Math.cos(a))];
+    const parts = [`${n(cx)} ${n(this.height - cy)} m`, `${point(start).map(n).join(" ")} l`];
+    const steps = Math.max(1, Math.ceil((end - start) / (Math.PI / 2)));
+    const step = (end - start) / steps;
+    const k = (4 / 3) * Math.tan(step / 4) * r;
+
+    for (let i = 0; i < steps; i++) {
+      const a0 = start + i * step;
+      const a1 = a0 + step;
+      const [x0, y0] = point(a0);
+      const [x1, y1] = point(a1);
+      // Tangent directions at each end, in PDF (y-up) space.
+      const c1 = [x0 + k * Math.cos(a0), y0 - k * Math.sin(a0)];
+      const c2 = [x1 - k * Math.cos(a1), y1 + k * Math.sin(a1)];
+      parts.push(`${[...c1, ...c2, x1, y1].map(n).join(" ")} c`);
+    }
+    this.ops.push(`${rgb(color)} rg ${parts.join(" ")} h f`);
+  }
+
+  toBytes(): Uint8Array {
+    const objects: (string | Buffer)[] = [];
+    // push() returns the new length, which is the 1-based object number.
+    const add = (body: string | Buffer) => objects.push(body);
+
+    const catalog = add("");
+    const pagesRef = add("");
+    const regular = add("<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>");
+    const bold = add("<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>");
+    const info = add(`<< /Title ${pdfString(this.title)} /Producer (Finance Assistant) >>`);
+
+    const pageRefs = this.pages.map((ops) => {
+      const data = deflateSync(Buffer.from(ops.join("\n"), "latin1"));
+      const content = add(
+        Buffer.concat([
+          Buffer.from(`<< /Length ${data.length} /Filter /FlateDecode >>\nstream\n`, "latin1"),
+          data,
+          Buffer.from("\nendstream", "latin1"),
+        ])
+      );
+      return add(
+        `<< /Type /Page /Parent ${pagesRef} 0 R /MediaBox [0 0 ${n(this.width)} ${n(this.height)}] ` +
+          `/Resources << /Font << /F1 ${regular} 0 R /F2 ${bold} 0 R >> >> /Contents ${content} 0 R >>`
+      );
+    });
+
+    objects[catalog - 1] = `<< /Type /Catalog /Pages ${pagesRef} 0 R >>`;
+    objects[pagesRef - 1] = `<< /Type /Pages /Kids [${pageRefs.map((p) => `${p} 0 R`).join(" ")}] /Count ${pageRefs.length} >>`;
+
+    const chunks: Buffer[] = [Buffer.from("%PDF-1.4\n%\xe2\xe3\xcf\xd3\n", "latin1")];
+    let length = chunks[0].length;
+    const offsets: number[] = [];
+
+    objects.forEach((body, i) => {
+      offsets.push(length);
+      const chunk = Buffer.concat([
+        Buffer.from(`${i + 1} 0 obj\n`, "latin1"),
+        typeof body === "string" ? Buffer.from(body, "latin1") : body,
+        Buffer.from("\nendobj\n", "latin1"),
+      ]);
+      chunks.push(chunk);
+      length += chunk.length;
+    });
+
+    const xref = [
+      "xref",
+      `0 ${objects.length + 1}`,
+      "0000000000 65535 f ",
+      ...offsets.map((o) => `${String(o).padStart(10, "0")} 00000 n `),
+      "trailer",
+      `<< /Size ${objects.length + 1} /Root ${catalog} 0 R /Info ${info} 0 R >>`,
+      "startxref",
+      String(length),
+      "%%EOF",
+    ].join("\n");
+    chunks.push(Buffer.from(xref + "\n", "latin1"));
+
+    return new Uint8Array(Buffer.concat(chunks));
+  }
+}
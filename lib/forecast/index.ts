@@ -0,0 +1,55 @@
+/**
+ * lib/forecast
+ * Deterministic spending forecasts from ledger history.
+ */
+
+import type { Expense } from "@/lib/expenses/types";
+import { DEFAULT_HISTORY_DAYS, FORECAST_METHOD, fitSeasonalModel, forecastCategory, forecastDaily } from "./seasonal";
+import type { SpendingForecast } from "./types";
+
+export * from "./types";
+export { dailySeries, fitSeasonalModel, forecastCategory, forecastDaily } from "./seasonal";
+
+export const MAX_FORECAST_DAYS = 90;
+export const MAX_HISTORY_DAYS = 365;
+
+export type ForecastOptions = {
+  /** Days of daily forecast. */
+  days?: number;
+  /** Horizon of the per-category totals. */
+  periodDays?: number;
+  historyDays?: number;
+  /** Restricts the daily forecast to one category. */
+  category?: string;
+  /** Last day of history; defaults to today. */
+  end?: Date;
+};
+
+/**
+ * Fits one model on all spending (or `category`) for the daily forecast and
+ * one per category for the period totals. Categories with no spending in
+ * the history window are left out.
+ */
+export function buildSpendingForecast(expenses: Expense[], options: ForecastOptions = {}): SpendingForecast {
+  const { days = 7, periodDays = 30, historyDays = DEFAULT_HISTORY_DAYS, category, end = new Date() } = options;
+
+  const scoped = category ? expenses.filter((e) => e.category === category) : expenses;
+  const daily = forecastDaily(fitSeasonalModel(scoped, end, historyDays), days);
+
+  const byCategory = new Map<string, Expense[]>();
+  for (const e of expenses) byCategory.set(e.category, [...(byCategory.get(e.category) ?? []), e]);
+  const categories = [...byCategory.entries()]
+    .map(([name, rows]) => ({ name, model: fitSeasonalModel(rows, end, historyDays) }))
+    .filter(({ model }) => model.activeDays > 0)
+    .map(({ name, model }) => forecastCategory(name, model, periodDays))
+    .sort((a, b) => b.expected - a.expected);
+
+  return {
+    generatedAt: new Date().toISOString(),
+    method: FORECAST_METHOD,
+    historyDays,
+    daily,
+    periodDays,
+    categories,
+  };
+}
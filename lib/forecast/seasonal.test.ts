@@ -0,0 +1,71 @@
+import { describe, expect, it } from "vitest";
+import type { Expense } from "@/lib/expenses/types";
+import { buildSpendingForecast } from "./index";
+import { dailySeries, fitSeasonalModel, forecastCategory, forecastDaily } from "./seasonal";
+
+const DAY_MS = 86_400_000;
+const end = new Date("2025-03-30T18:00:00.000Z"); // a Sunday
+
+/** One row per day for the `days` days ending on `end`, amount by UTC weekday. */
+function history(days: number, amount: (weekday: number) => number, category = "Food"): Expense[] {
+  const last = Date.UTC(2025, 2, 30);
+  return Array.from({ length: days }, (_, i) => {
+    const date = new Date(last - i * DAY_MS);
+    return { id: `${category}-${i}`, type: "expense", amount: amount(date.getUTCDay()), category, date: date.toISOString() };
+  }).filter((e) => e.amount > 0) as Expense[];
+}
+
+describe("dailySeries", () => {
+  it("buckets net spending by UTC day", () => {
+    const rows = [
+      { id: "a", type: "expense", amount: 80, category: "Food", date: "2025-03-30T23:59:00.000Z" },
+      { id: "b", type: "refund", amount: 30, category: "Food", date: "2025-03-30T08:00:00.000Z" },
+      { id: "c", type: "income", amount: 999, category: "Salary", date: "2025-03-29T08:00:00.000Z" },
+      { id: "d", type: "expense", amount: 10, category: "Food", date: "2025-03-01T08:00:00.000Z" },
+    ] as Expense[];
+    expect(dailySeries(rows, end, 3)).toEqual([0, 0, 50]);
+  });
+});
+
+describe("seasonal forecast", () => {
+  it("projects steady spending with no spread", () => {
+    const model = fitSeasonalModel(history(56, () => 100), end);
+    const [first] = forecastDaily(model, 7);
+    expect(first).toEqual({ date: "2025-03-31", expected: 100, lower80: 100, upper80: 100, lower95: 100, upper95: 100 });
+    expect(forecastCategory("Food", model, 30)).toMatchObject({ expected: 3000, confidence: 99, pattern: "steady" });
+  });
+
+  it("follows the weekday pattern and widens intervals for noisy history", () => {
+    const model = fitSeasonalModel(history(56, (d) => (d === 0 || d === 6 ? 300 : 50)), end);
+    const week = forecastDaily(model, 7);
+    const saturday = week.find((p) => p.date === "2025-04-05")!;
+    const monday = week.find((p) => p.date === "2025-03-31")!;
+    expect(saturday.expected).toBeGreaterThan(monday.expected * 3);
+    expect(forecastCategory("Food", model, 30).pattern).toBe("weekend-heavy");
+    for (const p of week) {
+      expect(p.lower95).toBeLessThanOrEqual(p.lower80);
+      expect(p.upper95).toBeGreaterThanOrEqual(p.upper80);
+    }
+  });
+
+  it("labels a thin history as sparse", () => {
+    const model = fitSeasonalModel(history(3, () => 40), end);
+    expect(forecastCategory("Food", model, 30).pattern).toBe("sparse");
+  });
+});
+
+describe("buildSpendingForecast", () => {
+  it("is deterministic and ranks categories by expected spending", () => {
+    const expenses = [...history(56, () => 20, "Coffee"), ...history(56, () => 100, "Food")];
+    const a = buildSpendingForecast(expenses, { end, days: 3 });
+    const b = buildSpendingForecast(expenses, { end, days: 3 });
+    expect(a.daily).toEqual(b.daily);
+    expect(a.daily.map((p) => p.expected)).toEqual([120, 120, 120]);
+    expect(a.categories.map((c) => c.category)).toEqual(["Food", "Coffee"]);
+  });
+
+  it("forecasts one category when asked", () => {
+    const expenses = [...history(56, () => 20, "Coffee"), ...history(56, () => 100, "Food")];
+    expect(buildSpendingForecast(expenses, { end, days: 1, category: "Coffee" }).daily[0].expected).toBe(20);
+  });
+});
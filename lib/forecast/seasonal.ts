@@ -0,0 +1,142 @@
+/**
+ * lib/forecast/seasonal.ts
+ * Weekday-seasonal moving average. The level is the mean daily spend over
+ * the last four weeks; each weekday gets a multiplicative index from the
+ * whole history window, shrunk towards 1 when a weekday has few samples.
+ * Intervals come from the in-sample residuals of that fit. Everything is
+ * deterministic: the same ledger always gives the same forecast.
+ */
+
+import { spendAmount } from "@/lib/expenses/cashflow";
+import type { Expense } from "@/lib/expenses/types";
+import type { CategoryForecast, ForecastPattern, ForecastPoint } from "./types";
+
+const DAY_MS = 86_400_000;
+/** Days the level is averaged over. */
+const LEVEL_DAYS = 28;
+/** Pseudo-observations pulling each weekday index towards 1. */
+const INDEX_SHRINKAGE = 2;
+const Z80 = 1.2816;
+const Z95 = 1.96;
+
+export const DEFAULT_HISTORY_DAYS = 56;
+export const FORECAST_METHOD = "weekday-seasonal moving average";
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+const dayKey = (ms: number) => new Date(ms).toISOString().slice(0, 10);
+const startOfUtcDay = (d: Date) => Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate());
+
+export type SeasonalModel = {
+  level: number;
+  /** Multiplier per weekday, indexed like Date#getUTCDay (0 = Sunday). */
+  weekdayIndex: number[];
+  /** Standard deviation of daily residuals. */
+  sigma: number;
+  /** Days with any spending in the window. */
+  activeDays: number;
+  historyDays: number;
+  /** Last day of history (inclusive), epoch ms at UTC midnight. */
+  end: number;
+  series: number[];
+};
+
+/** Daily net spending for the `days` UTC days ending on `end` (inclusive). */
+export function dailySeries(expenses: Expense[], end: Date, days: number): number[] {
+  const last = startOfUtcDay(end);
+  const first = last - (days - 1) * DAY_MS;
+  const series = new Array<number>(days).fill(0);
+  for (const e of expenses) {
+    const t = startOfUtcDay(new Date(e.date));
+    if (t < first || t > last) continue;
+    series[Math.round((t - first) / DAY_MS)] += spendAmount(e);
+  }
+  return series.map((v) => Math.max(0, v));
+}
+
+export function fitSeasonalModel(expenses: Expense[], end: Date, historyDays = DEFAULT_HISTORY_DAYS): SeasonalModel {
+  const series = dailySeries(expenses, end, historyDays);
+  const last = startOfUtcDay(end);
+  const weekdayOf = (i: number) => new Date(last - (historyDays - 1 - i) * DAY_MS).getUTCDay();
+
+  const recent = series.slice(-LEVEL_DAYS);
+  const level = recent.reduce((s, v) => s + v, 0) / recent.length;
+  const mean = series.reduce((s, v) => s + v, 0) / series.length;
+
+  const sums = new Array<number>(7).fill(0);
+  const counts = new Array<number>(7).fill(0);
+  series.forEach((v, i) => {
+    sums[weekdayOf(i)] += v;
+    counts[weekdayOf(i)]++;
+  });
+  const weekdayIndex = sums.map((sum, d) => {
+    const raw = mean > 0 && counts[d] ? sum / counts[d] / mean : 1;
+    return (raw * counts[d] + INDEX_SHRINKAGE) / (counts[d] + INDEX_SHRINKAGE);
+  });
+
+  const residuals = recent.map((v, i) => v - level * weekdayIndex[weekdayOf(series.length - recent.length + i)]);
+  const sigma = Math.sqrt(residuals.reduce((s, r) => s + r * r, 0) / Math.max(1, residuals.length - 1));
+
+  return {
+    level,
+    weekdayIndex,
+    sigma,
+    activeDays: series.filter((v) => v > 0).length,
+    historyDays,
+    end: last,
+    series,
+  };
+}
+
+/** Forecast for each of the `days` days after the model's last history day. */
+export function forecastDaily(model: SeasonalModel, days: number): ForecastPoint[] {
+  const points: ForecastPoint[] = [];
+  for (let h = 1; h <= days; h++) {
+    const t = model.end + h * DAY_MS;
+    const expected = model.level * model.weekdayIndex[new Date(t).getUTCDay()];
+    // The level itself is uncertain, so intervals widen slowly with the horizon.
+    const spread = model.sigma * Math.sqrt(1 + h / LEVEL_DAYS);
+    points.push({
+      date: dayKey(t),
+      expected: round2(expected),
+      lower80: round2(Math.max(0, expected - Z80 * spread)),
+      upper80: round2(expected + Z80 * spread),
+      lower95: round2(Math.max(0, expected - Z95 * spread)),
+      upper95: round2(expected + Z95 * spread),
+    });
+  }
+  return points;
+}
+
+function describePattern(model: SeasonalModel): ForecastPattern {
+  if (model.activeDays < 4) return "sparse";
+  const s = model.series;
+  const lastTwo = s.slice(-14).reduce((a, v) => a + v, 0);
+  const priorTwo = s.slice(-28, -14).reduce((a, v) => a + v, 0);
+  if (priorTwo > 0 && lastTwo > priorTwo * 1.25) return "rising";
+  if (priorTwo > 0 && lastTwo < priorTwo * 0.75) return "falling";
+  const [sun, , , , , , sat] = model.weekdayIndex;
+  const weekend = (sun + sat) / 2;
+  const weekday = model.weekdayIndex.slice(1, 6).reduce((a, v) => a + v, 0) / 5;
+  if (weekend > weekday * 1.2) return "weekend-heavy";
+  if (weekday > weekend * 1.2) return "weekday-heavy";
+  return "steady";
+}
+
+/** Totals for the next `periodDays`, treating daily residuals as independent. */
+export function forecastCategory(category: string, model: SeasonalModel, periodDays: number): CategoryForecast {
+  const expected = forecastDaily(model, periodDays).reduce((s, p) => s + p.expected, 0);
+  const spread = Z80 * model.sigma * Math.sqrt(periodDays);
+  const relative = expected > 0 ? spread / expected : 1;
+  // Fewer than four weeks of activity makes any estimate shaky.
+  const coverage = Math.min(1, model.activeDays / LEVEL_DAYS + 0.3);
+  const confidence = Math.round(Math.min(99, Math.max(5, (1 - relative) * 100 * coverage)));
+
+  return {
+    category,
+    expected: round2(expected),
+    lower80: round2(Math.max(0, expected - spread)),
+    upper80: round2(expected + spread),
+    confidence,
+    pattern: describePattern(model),
+  };
+}
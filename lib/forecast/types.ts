@@ -0,0 +1,41 @@
+/**
+ * lib/forecast/types.ts
+ * Shapes returned by the spending forecast (see ./seasonal.ts).
+ */
+
+/** One forecast day with 80% and 95% prediction intervals. */
+export type ForecastPoint = {
+  /** "YYYY-MM-DD" (UTC) */
+  date: string;
+  expected: number;
+  lower80: number;
+  upper80: number;
+  lower95: number;
+  upper95: number;
+};
+
+/** A label for the shape of the history, shown next to predictions. */
+export type ForecastPattern = "weekend-heavy" | "weekday-heavy" | "rising" | "falling" | "steady" | "sparse";
+
+/** Expected spending over the next `periodDays` for one category. */
+export type CategoryForecast = {
+  category: string;
+  expected: number;
+  lower80: number;
+  upper80: number;
+  /** 0-100: how tight the 80% interval is relative to the estimate, scaled down for short histories. */
+  confidence: number;
+  pattern: ForecastPattern;
+};
+
+export type SpendingForecast = {
+  generatedAt: string;
+  method: string;
+  /** Days of history the model was fitted on. */
+  historyDays: number;
+  /** Daily forecast for the next days, across the requested category (or all spending). */
+  daily: ForecastPoint[];
+  periodDays: number;
+  /** Per-category totals over the next `periodDays`, largest first. */
+  categories: CategoryForecast[];
+};
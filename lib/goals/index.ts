@@ -0,0 +1,9 @@
+/**
+ * lib/goals
+ * Savings goals, their contribution history, and progress projections.
+ */
+
+export * from "./types";
+export * from "./repository";
+export { goalProgress } from "./progress";
+export { validateContribution, validateGoal, validateGoalPatch } from "./schema";
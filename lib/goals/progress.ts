@@ -0,0 +1,84 @@
+/**
+ * lib/goals/progress.ts
+ * Pure progress maths for goals, shared by the API and the dashboard.
+ */
+
+import type { GoalContribution, GoalFields, GoalProgress } from "./types";
+
+const DAY_MS = 86_400_000;
+/** Average days per month, for converting between days and monthly rates. */
+const DAYS_PER_MONTH = 30.44;
+/** Velocity looks at this many recent days (or since the first contribution, if later). */
+export const VELOCITY_WINDOW_DAYS = 180;
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+export const signedAmount = (c: Pick<GoalContribution, "kind" | "amount">) => (c.kind === "withdrawal" ? -c.amount : c.amount);
+
+export function goalBalance(contributions: GoalContribution[]): number {
+  return round2(contributions.reduce((sum, c) => sum + signedAmount(c), 0));
+}
+
+function monthlyHistory(contributions: GoalContribution[], now: Date): GoalProgress["history"] {
+  if (!contributions.length) return [];
+  const sorted = [...contributions].sort((a, b) => a.date.localeCompare(b.date));
+  const first = new Date(sorted[0].date);
+  const history: GoalProgress["history"] = [];
+  let cursor = new Date(Date.UTC(first.getUTCFullYear(), first.getUTCMonth(), 1));
+  let balance = 0;
+  let i = 0;
+
+  while (cursor <= now && history.length < 240) {
+    const month = cursor.toISOString().slice(0, 7);
+    while (i < sorted.length && sorted[i].date.slice(0, 7) <= month) balance += signedAmount(sorted[i++]);
+    history.push({ month, balance: round2(balance) });
+    cursor = new Date(Date.UTC(cursor.getUTCFullYear(), cursor.getUTCMonth() + 1, 1));
+  }
+  return history;
+}
+
+/**
+ * Derives progress from contributions. Velocity is the net amount saved per
+ * month over the last 180 days (at least one month), so one large deposit
+ * does not promise an early finish forever.
+ */
+export function goalProgress(goal: GoalFields, contributions: GoalContribution[], now = new Date()): GoalProgress {
+  const current = goalBalance(contributions);
+  const remaining = round2(Math.max(0, goal.target - current));
+  const reached = remaining === 0;
+
+  const past = contributions.filter((c) => new Date(c.date) <= now);
+  const earliest = past.reduce((min, c) => Math.min(min, new Date(c.date).getTime()), now.getTime());
+  const windowStart = Math.max(earliest, now.getTime() - VELOCITY_WINDOW_DAYS * DAY_MS);
+  const windowMonths = Math.max(1, (now.getTime() - windowStart) / DAY_MS / DAYS_PER_MONTH);
+  const windowNet = past.filter((c) => new Date(c.date).getTime() >= windowStart).reduce((s, c) => s + signedAmount(c), 0);
+  const monthlyVelocity = round2(windowNet / windowMonths);
+
+  let requiredMonthly: number | null = null;
+  if (goal.deadline && !reached) {
+    const monthsLeft = (new Date(goal.deadline).getTime() - now.getTime()) / DAY_MS / DAYS_PER_MONTH;
+    // Past or imminent deadlines need the whole remainder now.
+    requiredMonthly = round2(remaining / Math.max(1, monthsLeft));
+  }
+
+  let projectedCompletion: string | null = null;
+  if (reached) {
+    projectedCompletion = now.toISOString();
+  } else if (monthlyVelocity > 0) {
+    projectedCompletion = new Date(now.getTime() + (remaining / monthlyVelocity) * DAYS_PER_MONTH * DAY_MS).toISOString();
+  }
+
+  const onTrack =
+    projectedCompletion !== null && (!goal.deadline || reached || projectedCompletion.slice(0, 10) <= goal.deadline.slice(0, 10));
+
+  return {
+    current,
+    remaining,
+    percentage: goal.target > 0 ? Math.max(0, Math.min(100, Math.round((current / goal.target) * 100))) : 0,
+    history: monthlyHistory(contributions, now),
+    monthlyVelocity,
+    requiredMonthly,
+    projectedCompletion,
+    onTrack,
+  };
+}
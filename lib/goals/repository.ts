@@ -0,0 +1,108 @@
+import { randomUUID } from "crypto";
+
+import { getDatabase, type Database, type DatabaseState } from "@/lib/db";
+import type { ValidationResult } from "@/lib/validation";
+import { goalBalance, goalProgress, signedAmount } from "./progress";
+import type { ContributionFields, Goal, GoalContribution, GoalPatch, GoalWithProgress, NewGoal } from "./types";
+
+const contributionsOf = (state: DatabaseState, goalId: string) =>
+  state.goalContributions.filter((c) => c.goalId === goalId);
+
+const withProgress = (state: DatabaseState, goal: Goal, now: Date): GoalWithProgress => ({
+  ...goal,
+  progress: goalProgress(goal, contributionsOf(state, goal.id), now),
+});
+
+/** Every goal with its progress, most important first. */
+export async function listGoals(now = new Date(), db: Database = getDatabase()): Promise<GoalWithProgress[]> {
+  return db.read((state) =>
+    state.goals
+      .map((g) => withProgress(state, g, now))
+      .sort((a, b) => a.priority - b.priority || (a.deadline ?? "9999").localeCompare(b.deadline ?? "9999"))
+  );
+}
+
+export async function getGoal(id: string, now = new Date(), db: Database = getDatabase()): Promise<GoalWithProgress | null> {
+  return db.read((state) => {
+    const goal = state.goals.find((g) => g.id === id);
+    return goal ? withProgress(state, goal, now) : null;
+  });
+}
+
+export async function createGoal(input: NewGoal, db: Database = getDatabase()): Promise<GoalWithProgress> {
+  return db.write((state) => {
+    const now = new Date().toISOString();
+    const goal: Goal = { ...input, id: randomUUID(), createdAt: now, updatedAt: now };
+    state.goals.push(goal);
+    return withProgress(state, goal, new Date());
+  });
+}
+
+export async function updateGoal(id: string, patch: GoalPatch, db: Database = getDatabase()): Promise<GoalWithProgress | null> {
+  return db.write((state) => {
+    const goal = state.goals.find((g) => g.id === id);
+    if (!goal) return null;
+    Object.assign(goal, patch, { updatedAt: new Date().toISOString() });
+    for (const key of Object.keys(patch) as (keyof GoalPatch)[]) {
+      if (patch[key] === undefined) delete goal[key];
+    }
+    return withProgress(state, goal, new Date());
+  });
+}
+
+/** Removes a goal and its contribution history. */
+export async function deleteGoal(id: string, db: Database = getDatabase()): Promise<boolean> {
+  return db.write((state) => {
+    const before = state.goals.length;
+    state.goals = state.goals.filter((g) => g.id !== id);
+    state.goalContributions = state.goalContributions.filter((c) => c.goalId !== id);
+    return state.goals.length !== before;
+  });
+}
+
+/** Contributions to a goal, newest first; null when the goal does not exist. */
+export async function listContributions(goalId: string, db: Database = getDatabase()): Promise<GoalContribution[] | null> {
+  return db.read((state) => {
+    if (!state.goals.some((g) => g.id === goalId)) return null;
+    return contributionsOf(state, goalId).sort((a, b) => b.date.localeCompare(a.date));
+  });
+}
+
+/**
+ * Records a deposit or withdrawal. A withdrawal may not take the balance
+ * below zero. Returns null when the goal does not exist.
+ */
+export async function addContribution(
+  goalId: string,
+  input: ContributionFields,
+  db: Database = getDatabase()
+): Promise<ValidationResult<{ contribution: GoalContribution; goal: GoalWithProgress }> | null> {
+  return db.write((state) => {
+    const goal = state.goals.find((g) => g.id === goalId);
+    if (!goal) return null;
+
+    const balance = goalBalance(contributionsOf(state, goalId));
+    if (balance + signedAmount(input) < 0) {
+      return { ok: false, errors: [{ field: "amount", message: `exceeds the saved balance of ${balance}` }] };
+    }
+
+    const contribution: GoalContribution = { ...input, id: randomUUID(), goalId, createdAt: new Date().toISOString() };
+    state.goalContributions.push(contribution);
+    return { ok: true, value: { contribution, goal: withProgress(state, goal, new Date()) } };
+  });
+}
+
+/** Removes one contribution. Returns the goal's new progress, or null when either id is unknown. */
+export async function deleteContribution(
+  goalId: string,
+  contributionId: string,
+  db: Database = getDatabase()
+): Promise<GoalWithProgress | null> {
+  return db.write((state) => {
+    const goal = state.goals.find((g) => g.id === goalId);
+    const index = state.goalContributions.findIndex((c) => c.id === contributionId && c.goalId === goalId);
+    if (!goal || index === -1) return null;
+    state.goalContributions.splice(index, 1);
+    return withProgress(state, goal, new Date());
+  });
+}
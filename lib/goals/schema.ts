@@ -0,0 +1,122 @@
+/**
+ * lib/goals/schema.ts
+ * Validation for goals and contributions. Amounts and dates reuse the
+ * expense parsers.
+ */
+
+import { parseExpenseField } from "@/lib/expenses/schema";
+import { isPlainObject, type FieldError, type ValidationResult } from "@/lib/validation";
+import {
+  CONTRIBUTION_KINDS,
+  type ContributionFields,
+  type ContributionKind,
+  type GoalFields,
+  type GoalPatch,
+  type NewGoal,
+} from "./types";
+
+const NOTE_LENGTH = 200;
+const READ_ONLY_FIELDS = ["id", "progress", "createdAt", "updatedAt"];
+
+type FieldParser = (raw: unknown) => { value: unknown } | { error: string };
+
+const GOAL_PARSERS: { [K in keyof GoalFields]-?: FieldParser } = {
+  title: (raw) => {
+    const parsed = parseExpenseField("title", raw);
+    if ("error" in parsed) return parsed;
+    return parsed.value ? parsed : { error: "must be a non-empty string" };
+  },
+  target: (raw) => parseExpenseField("amount", raw),
+  deadline: (raw) => parseExpenseField("date", raw),
+  category: (raw) => parseExpenseField("category", raw),
+  priority: (raw) =>
+    typeof raw === "number" && Number.isInteger(raw) && raw >= 1 && raw <= 5
+      ? { value: raw }
+      : { error: "must be a whole number from 1 to 5" },
+};
+
+const CONTRIBUTION_PARSERS: { [K in keyof ContributionFields]-?: FieldParser } = {
+  kind: (raw) =>
+    CONTRIBUTION_KINDS.includes(raw as ContributionKind)
+      ? { value: raw }
+      : { error: `must be one of ${CONTRIBUTION_KINDS.join(", ")}` },
+  amount: (raw) => parseExpenseField("amount", raw),
+  date: (raw) => parseExpenseField("date", raw),
+  note: (raw) => {
+    if (typeof raw !== "string") return { error: "must be a string" };
+    if (raw.trim().length > NOTE_LENGTH) return { error: `must be at most ${NOTE_LENGTH} characters` };
+    return { value: raw.trim() || undefined };
+  },
+};
+
+function parseFields(
+  body: Record<string, unknown>,
+  parsers: Record<string, FieldParser>,
+  errors: FieldError[],
+  noun: string
+): Record<string, unknown> {
+  const out: Record<string, unknown> = {};
+  for (const [field, raw] of Object.entries(body)) {
+    if (READ_ONLY_FIELDS.includes(field) || field === "goalId") continue;
+    if (!(field in parsers)) {
+      errors.push({ field, message: `is not a recognised ${noun} field` });
+      continue;
+    }
+    if (raw === undefined || raw === null) continue;
+    const parsed = parsers[field](raw);
+    if ("error" in parsed) errors.push({ field, message: parsed.error });
+    else out[field] = parsed.value;
+  }
+  return out;
+}
+
+function requireFields(body: Record<string, unknown>, fields: string[], errors: FieldError[]) {
+  for (const field of fields) {
+    if (body[field] === undefined || body[field] === null) errors.push({ field, message: "is required" });
+  }
+}
+
+/** Validates a new goal. `title` and `target` are required; `category` defaults to "Savings" and `priority` to 3. */
+export function validateGoal(body: unknown): ValidationResult<NewGoal> {
+  if (!isPlainObject(body)) {
+    return { ok: false, errors: [{ field: "body", message: "must be a JSON object" }] };
+  }
+
+  const errors: FieldError[] = [];
+  const fields = parseFields(body, GOAL_PARSERS, errors, "goal");
+  requireFields(body, ["title", "target"], errors);
+
+  const goal = { category: "Savings", priority: 3, ...fields } as NewGoal;
+  return errors.length ? { ok: false, errors } : { ok: true, value: goal };
+}
+
+/** Validates a PATCH body; `null` clears `deadline`, the rest cannot be cleared. */
+export function validateGoalPatch(body: unknown): ValidationResult<GoalPatch> {
+  if (!isPlainObject(body)) {
+    return { ok: false, errors: [{ field: "body", message: "must be a JSON object" }] };
+  }
+
+  const errors: FieldError[] = [];
+  const patch = parseFields(body, GOAL_PARSERS, errors, "goal");
+  for (const field of Object.keys(GOAL_PARSERS)) {
+    if (body[field] !== null) continue;
+    if (field === "deadline") patch[field] = undefined;
+    else errors.push({ field, message: "cannot be cleared" });
+  }
+
+  return errors.length ? { ok: false, errors } : { ok: true, value: patch as GoalPatch };
+}
+
+/** Validates a contribution. `kind` and `amount` are required; `date` defaults to now. */
+export function validateContribution(body: unknown): ValidationResult<ContributionFields> {
+  if (!isPlainObject(body)) {
+    return { ok: false, errors: [{ field: "body", message: "must be a JSON object" }] };
+  }
+
+  const errors: FieldError[] = [];
+  const fields = parseFields(body, CONTRIBUTION_PARSERS, errors, "contribution");
+  requireFields(body, ["kind", "amount"], errors);
+
+  const contribution = { date: new Date().toISOString(), ...fields } as ContributionFields;
+  return errors.length ? { ok: false, errors } : { ok: true, value: contribution };
+}
@@ -0,0 +1,64 @@
+/**
+ * lib/goals/types.ts
+ * Savings goals and the deposits/withdrawals recorded against them.
+ */
+
+/** Everything a client may set on a goal. */
+export type GoalFields = {
+  title: string;
+  /** Amount to save, in the base currency. */
+  target: number;
+  /** Date the goal should be reached by (ISO); open-ended when missing. */
+  deadline?: string;
+  category: string;
+  /** 1 is the most important. */
+  priority: number;
+};
+
+export type Goal = GoalFields & {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type NewGoal = GoalFields;
+
+export type GoalPatch = Partial<GoalFields>;
+
+export const CONTRIBUTION_KINDS = ["deposit", "withdrawal"] as const;
+
+export type ContributionKind = (typeof CONTRIBUTION_KINDS)[number];
+
+export type ContributionFields = {
+  kind: ContributionKind;
+  /** Always positive; `kind` carries the direction. */
+  amount: number;
+  date: string;
+  note?: string;
+};
+
+export type GoalContribution = ContributionFields & {
+  id: string;
+  goalId: string;
+  createdAt: string;
+};
+
+/** Where a goal stands, derived from its contributions. */
+export type GoalProgress = {
+  /** Deposits minus withdrawals. */
+  current: number;
+  remaining: number;
+  percentage: number;
+  /** Balance at the end of each month since the first contribution, "YYYY-MM". */
+  history: { month: string; balance: number }[];
+  /** Average net contribution per month over the recent window. */
+  monthlyVelocity: number;
+  /** What has to go in each month from now to hit the deadline; null without one or once reached. */
+  requiredMonthly: number | null;
+  /** When the goal will be reached at the current velocity; null if it never will. */
+  projectedCompletion: string | null;
+  /** Projected completion on or before the deadline (true when there is no deadline but it will be reached). */
+  onTrack: boolean;
+};
+
+export type GoalWithProgress = Goal & { progress: GoalProgress };
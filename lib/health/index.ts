@@ -0,0 +1,10 @@
+/**
+ * lib/health
+ * The financial health score engine: documented, weighted sub-scores from
+ * actual behaviour, with daily snapshots to show what moved the score.
+ */
+
+export * from "./types";
+export * from "./repository";
+export { computeHealthScore, normalizeHealthWeights, type HealthInputs } from "./score";
+export { validateHealthWeights } from "./schema";
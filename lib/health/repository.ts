@@ -0,0 +1,94 @@
+import { randomUUID } from "crypto";
+
+import { getDatabase, type Database, type DatabaseState } from "@/lib/db";
+import { computeHealthScore, normalizeHealthWeights } from "./score";
+import {
+  DEFAULT_HEALTH_WEIGHTS,
+  HEALTH_COMPONENTS,
+  HEALTH_COMPONENT_LABELS,
+  type HealthChange,
+  type HealthReport,
+  type HealthScore,
+  type HealthSnapshot,
+  type HealthWeights,
+} from "./types";
+
+/** Snapshots kept; older ones are dropped. */
+const MAX_SNAPSHOTS = 400;
+/** Snapshots returned with a report. */
+const HISTORY_DAYS = 90;
+
+const weightsOf = (state: DatabaseState) => normalizeHealthWeights(state.settings.healthWeights ?? DEFAULT_HEALTH_WEIGHTS);
+
+function changesSince(previous: HealthSnapshot, score: HealthScore): HealthChange[] {
+  return score.components
+    .flatMap((c): HealthChange[] => {
+      const before = previous.components[c.component];
+      if (c.score === null || before === null || before === undefined || c.score === before) return [];
+      const delta = c.score - before;
+      return [{ component: c.component, label: HEALTH_COMPONENT_LABELS[c.component], delta, impact: Math.round(delta * c.weight * 10) / 10 }];
+    })
+    .sort((a, b) => Math.abs(b.impact) - Math.abs(a.impact));
+}
+
+/**
+ * Scores the current ledger, budgets and goals, stores the result as
+ * today's snapshot (replacing an earlier one from the same day) and
+ * reports what moved since the last snapshot from an earlier day.
+ */
+export async function recordHealthReport(now = new Date(), db: Database = getDatabase()): Promise<HealthReport> {
+  return db.write((state) => {
+    const weights = weightsOf(state);
+    const score = computeHealthScore(
+      { expenses: state.expenses, budgets: state.budgets, goals: state.goals, contributions: state.goalContributions },
+      weights,
+      now,
+      state.settings.baseCurrency
+    );
+
+    const date = now.toISOString().slice(0, 10);
+    const snapshot: HealthSnapshot = {
+      id: state.healthSnapshots.find((s) => s.date === date)?.id ?? randomUUID(),
+      date,
+      overall: score.overall,
+      components: Object.fromEntries(score.components.map((c) => [c.component, c.score])) as HealthSnapshot["components"],
+      createdAt: now.toISOString(),
+    };
+    state.healthSnapshots = [...state.healthSnapshots.filter((s) => s.date !== date), snapshot]
+      .sort((a, b) => a.date.localeCompare(b.date))
+      .slice(-MAX_SNAPSHOTS);
+
+    const since = new Date(now.getTime() - HISTORY_DAYS * 86_400_000).toISOString().slice(0, 10);
+    const previous = state.healthSnapshots.filter((s) => s.date < date).at(-1) ?? null;
+    return {
+      score,
+      weights,
+      history: state.healthSnapshots.filter((s) => s.date >= since),
+      previous,
+      changes: previous ? changesSince(previous, score) : [],
+    };
+  });
+}
+
+/**
+ * Merges `patch` into the stored weights and normalises them. Returns null
+ * (and stores nothing) when every weight would be zero.
+ */
+export async function updateHealthWeights(
+  patch: Partial<HealthWeights>,
+  db: Database = getDatabase()
+): Promise<HealthWeights | null> {
+  return db.write((state) => {
+    const merged = { ...weightsOf(state), ...patch };
+    if (!HEALTH_COMPONENTS.some((c) => merged[c] > 0)) return null;
+    state.settings.healthWeights = normalizeHealthWeights(merged);
+    return state.settings.healthWeights;
+  });
+}
+
+export async function resetHealthWeights(db: Database = getDatabase()): Promise<HealthWeights> {
+  return db.write((state) => {
+    delete state.settings.healthWeights;
+    return weightsOf(state);
+  });
+}
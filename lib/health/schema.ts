@@ -0,0 +1,28 @@
+/**
+ * lib/health/schema.ts
+ * Validation for health score weights.
+ */
+
+import { isPlainObject, type FieldError, type ValidationResult } from "@/lib/validation";
+import { HEALTH_COMPONENTS, type HealthComponent, type HealthWeights } from "./types";
+
+/** `{ weights: { savingsRate: 2, emergencyFund: 1 } }`: any subset, each a non-negative number. */
+export function validateHealthWeights(body: unknown): ValidationResult<Partial<HealthWeights>> {
+  const weights = isPlainObject(body) ? body.weights : undefined;
+  if (!isPlainObject(weights) || !Object.keys(weights).length) {
+    return { ok: false, errors: [{ field: "weights", message: "must be an object with at least one weight" }] };
+  }
+
+  const errors: FieldError[] = [];
+  const value: Partial<HealthWeights> = {};
+  for (const [key, raw] of Object.entries(weights)) {
+    if (!HEALTH_COMPONENTS.includes(key as HealthComponent)) {
+      errors.push({ field: `weights.${key}`, message: `is not one of ${HEALTH_COMPONENTS.join(", ")}` });
+    } else if (typeof raw !== "number" || !Number.isFinite(raw) || raw < 0) {
+      errors.push({ field: `weights.${key}`, message: "must be a number of at least 0" });
+    } else {
+      value[key as HealthComponent] = raw;
+    }
+  }
+  return errors.length ? { ok: false, errors } : { ok: true, value };
+}
@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+import type { Expense } from "@/lib/expenses/types";
+import { computeHealthScore, normalizeHealthWeights } from "./score";
+import { DEFAULT_HEALTH_WEIGHTS } from "./types";
+
+const now = new Date("2025-07-15T12:00:00.000Z");
+
+/** Six complete months of 1000 income and `spend(month)` spending. */
+function ledger(spend: (month: number) => number): Expense[] {
+  return [1, 2, 3, 4, 5, 6].flatMap((m) => {
+    const date = `2025-0${m}-05T00:00:00.000Z`;
+    return [
+      { id: `i${m}`, type: "income", amount: 1000, category: "Salary", date },
+      { id: `e${m}`, type: "expense", amount: spend(m), category: "Food", date },
+    ] as Expense[];
+  });
+}
+
+const component = (score: ReturnType<typeof computeHealthScore>, name: string) =>
+  score.components.find((c) => c.component === name)!;
+
+describe("computeHealthScore", () => {
+  it("scores saving the target rate with steady spending", () => {
+    const score = computeHealthScore({ expenses: ledger(() => 800), budgets: [], goals: [], contributions: [] }, undefined, now);
+    expect(component(score, "savingsRate")).toMatchObject({ score: 100, value: 0.2 });
+    expect(component(score, "spendingStability")).toMatchObject({ score: 100, value: 0 });
+    expect(component(score, "emergencyFund").score).toBe(0);
+    // No budgets: their weight is shared out among the other three.
+    expect(component(score, "budgetAdherence")).toMatchObject({ score: null, weight: 0 });
+    expect(score.overall).toBe(64);
+  });
+
+  it("penalises volatile spending", () => {
+    const score = computeHealthScore(
+      { expenses: ledger((m) => (m % 2 ? 200 : 1400)), budgets: [], goals: [], contributions: [] },
+      undefined,
+      now
+    );
+    expect(component(score, "spendingStability").score).toBe(0);
+  });
+
+  it("falls back to a neutral score without data", () => {
+    expect(computeHealthScore({ expenses: [], budgets: [], goals: [], contributions: [] }, undefined, now).overall).toBe(50);
+  });
+});
+
+describe("normalizeHealthWeights", () => {
+  it("scales weights to sum to 1 and rejects all-zero weights", () => {
+    expect(normalizeHealthWeights({ budgetAdherence: 1, savingsRate: 1, emergencyFund: 1, spendingStability: 1 })).toEqual({
+      budgetAdherence: 0.25,
+      savingsRate: 0.25,
+      emergencyFund: 0.25,
+      spendingStability: 0.25,
+    });
+    expect(normalizeHealthWeights({ budgetAdherence: 0, savingsRate: 0, emergencyFund: 0, spendingStability: 0 })).toEqual(
+      normalizeHealthWeights(DEFAULT_HEALTH_WEIGHTS)
+    );
+  });
+});
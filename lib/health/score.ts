@@ -0,0 +1,178 @@
+/**
+ * lib/health/score.ts
+ * The financial health score, from behaviour rather than setup. Four
+ * sub-scores, each 0-100:
+ *
+ * - Budget adherence: share of recent budget periods that ended within
+ *   their limit (plus rollover). The running period counts only once it is
+ *   already over. Up to six periods per budget.
+ * - Savings rate: (income − spending) ÷ income over the last three months,
+ *   scored against the 20% target of the 50/30/20 rule (see savingsScore).
+ * - Emergency fund: balance of goals named like "Emergency fund", in months
+ *   of average spending; six months scores 100.
+ * - Spending stability: coefficient of variation of monthly spending over
+ *   the last six complete months; ±10% or less scores 100, ±60% scores 0.
+ *
+ * The overall score is the weighted mean of the sub-scores that have data,
+ * with the weights of the others shared out proportionally.
+ */
+
+import { budgetStatus, periodContaining, previousPeriod } from "@/lib/budgets/period";
+import type { Budget } from "@/lib/budgets/types";
+import { TARGET_SAVINGS_RATE, lastMonths, savingsScore, summarizeCashFlow } from "@/lib/expenses/cashflow";
+import type { Expense } from "@/lib/expenses/types";
+import { goalBalance } from "@/lib/goals/progress";
+import type { Goal, GoalContribution } from "@/lib/goals/types";
+import {
+  DEFAULT_HEALTH_WEIGHTS,
+  HEALTH_COMPONENTS,
+  HEALTH_COMPONENT_LABELS,
+  type HealthComponent,
+  type HealthComponentScore,
+  type HealthScore,
+  type HealthWeights,
+} from "./types";
+
+/** Finished periods looked at per budget. */
+const ADHERENCE_PERIODS = 6;
+const SAVINGS_MONTHS = 3;
+/** Months of spending a full emergency fund covers. */
+const EMERGENCY_TARGET_MONTHS = 6;
+const EMERGENCY_GOAL = /emergency|rainy.?day/i;
+const STABILITY_MONTHS = 6;
+/** Coefficients of variation that score 100 and 0. */
+const STABLE_CV = 0.1;
+const VOLATILE_CV = 0.6;
+
+export type HealthInputs = {
+  expenses: Expense[];
+  budgets: Budget[];
+  goals: Goal[];
+  contributions: GoalContribution[];
+};
+
+type Measured = { score: number | null; value: number | null; detail: string };
+
+const clamp01 = (n: number) => Math.min(1, Math.max(0, n));
+const percent = (share: number) => Math.round(share * 100);
+
+/** Scales weights to sum to 1; all-zero or invalid weights fall back to the defaults. */
+export function normalizeHealthWeights(weights: HealthWeights): HealthWeights {
+  const total = HEALTH_COMPONENTS.reduce((s, c) => s + Math.max(0, weights[c] ?? 0), 0);
+  if (!(total > 0)) return normalizeHealthWeights(DEFAULT_HEALTH_WEIGHTS);
+  return Object.fromEntries(
+    HEALTH_COMPONENTS.map((c) => [c, Math.round((Math.max(0, weights[c] ?? 0) / total) * 1000) / 1000])
+  ) as HealthWeights;
+}
+
+function budgetAdherence(budgets: Budget[], expenses: Expense[], now: Date): Measured {
+  const firstDay = expenses.reduce((min, e) => (e.date.slice(0, 10) < min ? e.date.slice(0, 10) : min), "9999-12-31");
+  let kept = 0;
+  let judged = 0;
+
+  for (const budget of budgets) {
+    if (budgetStatus(budget, expenses, now).state === "over") judged++;
+    let period = previousPeriod(budget, periodContaining(budget, now));
+    for (let i = 0; i < ADHERENCE_PERIODS; i++) {
+      // Periods before the budget (or before any data) say nothing about behaviour.
+      if (period.end <= budget.startDate.slice(0, 10) || period.end <= firstDay) break;
+      const status = budgetStatus(budget, expenses, period.start);
+      judged++;
+      if (status.spent <= status.available) kept++;
+      period = previousPeriod(budget, period);
+    }
+  }
+
+  if (!judged) {
+    return {
+      score: null,
+      value: null,
+      detail: budgets.length ? "No finished budget periods yet" : "No budgets set",
+    };
+  }
+  const rate = kept / judged;
+  return { score: percent(rate), value: rate, detail: `Within budget in ${kept} of ${judged} recent budget periods` };
+}
+
+function savingsRate(expenses: Expense[], now: Date): Measured {
+  const months = summarizeCashFlow(expenses, lastMonths(SAVINGS_MONTHS, now.toISOString().slice(0, 7)));
+  const income = months.reduce((s, m) => s + m.income, 0);
+  const spending = months.reduce((s, m) => s + m.spending, 0);
+  if (income <= 0) return { score: null, value: null, detail: `No income recorded in the last ${SAVINGS_MONTHS} months` };
+  const rate = (income - spending) / income;
+  return {
+    score: savingsScore(rate),
+    value: rate,
+    detail: `Saved ${percent(rate)}% of income over the last ${SAVINGS_MONTHS} months (target ${percent(TARGET_SAVINGS_RATE)}%)`,
+  };
+}
+
+/** Average monthly spending over the complete months before `now`, ignoring months before any spending. */
+function completedMonthsSpending(expenses: Expense[], now: Date, count: number): number[] {
+  const months = lastMonths(count + 1, now.toISOString().slice(0, 7)).slice(0, -1);
+  const spending = summarizeCashFlow(expenses, months).map((m) => m.spending);
+  const first = spending.findIndex((v) => v > 0);
+  return first === -1 ? [] : spending.slice(first);
+}
+
+function emergencyFund(inputs: HealthInputs, now: Date, money: (n: number) => string): Measured {
+  const funds = inputs.goals.filter((g) => EMERGENCY_GOAL.test(g.title) || EMERGENCY_GOAL.test(g.category));
+  const spending = completedMonthsSpending(inputs.expenses, now, SAVINGS_MONTHS);
+  const monthly = spending.length ? spending.reduce((s, v) => s + v, 0) / spending.length : 0;
+  if (monthly <= 0) return { score: null, value: null, detail: "Needs a full month of spending to measure against" };
+  if (!funds.length) {
+    return { score: 0, value: 0, detail: 'No emergency fund yet: name a goal "Emergency fund" to track one' };
+  }
+
+  const ids = new Set(funds.map((g) => g.id));
+  const balance = goalBalance(inputs.contributions.filter((c) => ids.has(c.goalId)));
+  const months = Math.max(0, balance) / monthly;
+  return {
+    score: percent(clamp01(months / EMERGENCY_TARGET_MONTHS)),
+    value: Math.round(months * 10) / 10,
+    detail: `${money(balance)} set aside covers ${months.toFixed(1)} months of spending (target ${EMERGENCY_TARGET_MONTHS})`,
+  };
+}
+
+function spendingStability(expenses: Expense[], now: Date, money: (n: number) => string): Measured {
+  const spending = completedMonthsSpending(expenses, now, STABILITY_MONTHS);
+  if (spending.length < 3) return { score: null, value: null, detail: "Needs three complete months of spending" };
+  const mean = spending.reduce((s, v) => s + v, 0) / spending.length;
+  const sd = Math.sqrt(spending.reduce((s, v) => s + (v - mean) ** 2, 0) / (spending.length - 1));
+  const cv = sd / mean;
+  return {
+    score: percent(clamp01((VOLATILE_CV - cv) / (VOLATILE_CV - STABLE_CV))),
+    value: Math.round(cv * 100) / 100,
+    detail: `Monthly spending varies by ±${percent(cv)}% around ${money(mean)} over ${spending.length} months`,
+  };
+}
+
+export function computeHealthScore(
+  inputs: HealthInputs,
+  weights: HealthWeights = DEFAULT_HEALTH_WEIGHTS,
+  now = new Date(),
+  currency = "INR"
+): HealthScore {
+  const format = new Intl.NumberFormat("en", { style: "currency", currency, maximumFractionDigits: 0 });
+  const money = (n: number) => format.format(n);
+  const measured: Record<HealthComponent, Measured> = {
+    budgetAdherence: budgetAdherence(inputs.budgets, inputs.expenses, now),
+    savingsRate: savingsRate(inputs.expenses, now),
+    emergencyFund: emergencyFund(inputs, now, money),
+    spendingStability: spendingStability(inputs.expenses, now, money),
+  };
+
+  const normalized = normalizeHealthWeights(weights);
+  const available = HEALTH_COMPONENTS.filter((c) => measured[c].score !== null);
+  const share = available.reduce((s, c) => s + normalized[c], 0);
+
+  const components: HealthComponentScore[] = HEALTH_COMPONENTS.map((component) => ({
+    component,
+    label: HEALTH_COMPONENT_LABELS[component],
+    ...measured[component],
+    weight: measured[component].score !== null && share > 0 ? Math.round((normalized[component] / share) * 1000) / 1000 : 0,
+  }));
+  const overall = share > 0 ? Math.round(components.reduce((s, c) => s + (c.score ?? 0) * c.weight, 0)) : 50;
+
+  return { overall, components, computedAt: now.toISOString() };
+}
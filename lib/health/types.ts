@@ -0,0 +1,77 @@
+/**
+ * lib/health/types.ts
+ * The financial health score: weighted sub-scores computed from the ledger,
+ * budgets and goals (see ./score.ts), and the daily snapshots kept of it.
+ */
+
+export const HEALTH_COMPONENTS = ["budgetAdherence", "savingsRate", "emergencyFund", "spendingStability"] as const;
+
+export type HealthComponent = (typeof HEALTH_COMPONENTS)[number];
+
+export const HEALTH_COMPONENT_LABELS: Record<HealthComponent, string> = {
+  budgetAdherence: "Budget adherence",
+  savingsRate: "Savings rate",
+  emergencyFund: "Emergency fund",
+  spendingStability: "Spending stability",
+};
+
+/** Relative importance of each sub-score. Only the ratios matter; they are normalised to sum to 1. */
+export type HealthWeights = Record<HealthComponent, number>;
+
+export const DEFAULT_HEALTH_WEIGHTS: HealthWeights = {
+  budgetAdherence: 0.3,
+  savingsRate: 0.3,
+  emergencyFund: 0.25,
+  spendingStability: 0.15,
+};
+
+export type HealthComponentScore = {
+  component: HealthComponent;
+  label: string;
+  /** 0-100, or null when there is no data to judge (e.g. no budgets yet). */
+  score: number | null;
+  /** Normalised weight actually applied; 0 when `score` is null. */
+  weight: number;
+  /** The measured quantity behind the score: a rate, a number of months or a coefficient of variation. */
+  value: number | null;
+  /** One sentence on what was measured, e.g. "Within budget in 9 of 12 periods". */
+  detail: string;
+};
+
+export type HealthScore = {
+  /** Weighted mean of the available sub-scores, 0-100. */
+  overall: number;
+  components: HealthComponentScore[];
+  computedAt: string;
+};
+
+/** One stored reading per day, so the dashboard can show how the score moved. */
+export type HealthSnapshot = {
+  id: string;
+  /** "YYYY-MM-DD" (UTC) */
+  date: string;
+  overall: number;
+  components: Record<HealthComponent, number | null>;
+  createdAt: string;
+};
+
+/** How one sub-score moved since an earlier snapshot. */
+export type HealthChange = {
+  component: HealthComponent;
+  label: string;
+  /** Sub-score points gained (+) or lost (−). */
+  delta: number;
+  /** Overall points this change accounts for (delta × weight). */
+  impact: number;
+};
+
+export type HealthReport = {
+  score: HealthScore;
+  weights: HealthWeights;
+  /** Oldest first. */
+  history: HealthSnapshot[];
+  /** The snapshot `changes` compare against; null before a second day of history. */
+  previous: HealthSnapshot | null;
+  /** Largest impact first. */
+  changes: HealthChange[];
+};
@@ -0,0 +1,133 @@
+import { parseStatementAmount, parseStatementDate } from "./parse-values";
+import type { CsvColumnMapping, StatementParseResult, StatementTransaction } from "./types";
+
+/** Picks the delimiter that splits the header line into the most columns. */
+function detectDelimiter(firstLine: string): string {
+  const candidates = [",", ";", "\t", "|"];
+  return candidates.reduce((best, d) => (firstLine.split(d).length > firstLine.split(best).length ? d : best), ",");
+}
+
+/** RFC 4180 parser: quoted fields may contain delimiters, newlines and "" escapes. */
+export function parseCsv(text: string, delimiter?: string): string[][] {
+  const input = text.replace(/^\uFEFF/, "");
+  const sep = delimiter ?? detectDelimiter(input.split(/\r?\n/, 1)[0] ?? "");
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < input.length; i++) {
+    const ch = input[i];
+    if (quoted) {
+      if (ch === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"' && field === "") {
+      quoted = true;
+    } else if (ch === sep) {
+      row.push(field);
+      field = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && input[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += ch;
+    }
+  }
+  if (field !== "" || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((r) => r.some((cell) => cell.trim() !== ""));
+}
+
+const HEADER_HINTS: Record<keyof Pick<CsvColumnMapping, "date" | "description" | "amount" | "debit" | "credit">, RegExp> = {
+  date: /^(txn |transaction |value |posting |booking )?date$/i,
+  description: /(description|narration|particulars|details|payee|merchant|remarks|memo)/i,
+  amount: /^(amount|amt|transaction amount|value)( \(.*\))?$/i,
+  debit: /(debit|withdrawal|paid out|money out|dr\b)/i,
+  credit: /(credit|deposit|paid in|money in|cr\b)/i,
+};
+
+/** Guesses a column mapping from header names; the UI lets the user correct it. */
+export function suggestCsvMapping(headers: string[]): Partial<CsvColumnMapping> {
+  const find = (re: RegExp) => headers.find((h) => re.test(h.trim()));
+  const mapping: Partial<CsvColumnMapping> = {
+    date: find(HEADER_HINTS.date) ?? headers.find((h) => /date/i.test(h)),
+    description: find(HEADER_HINTS.description),
+    amount: find(HEADER_HINTS.amount),
+    debit: find(HEADER_HINTS.debit),
+    credit: find(HEADER_HINTS.credit),
+  };
+  // Prefer split debit/credit columns when a bank provides both styles.
+  if (mapping.debit) delete mapping.amount;
+  return mapping;
+}
+
+export function readCsvHeaders(text: string): { headers: string[]; sample: string[][] } {
+  const [headers = [], ...rest] = parseCsv(text);
+  return { headers: headers.map((h) => h.trim()), sample: rest.slice(0, 5) };
+}
+
+/** Applies a column mapping to a CSV export. The first row must be the header. */
+export function parseCsvStatement(text: string, mapping: CsvColumnMapping): StatementParseResult {
+  const [header = [], ...rows] = parseCsv(text);
+  const headers = header.map((h) => h.trim());
+  const index = (name?: string) => (name ? headers.indexOf(name) : -1);
+  const col = {
+    date: index(mapping.date),
+    description: index(mapping.description),
+    amount: index(mapping.amount),
+    debit: index(mapping.debit),
+    credit: index(mapping.credit),
+  };
+
+  const result: StatementParseResult = { transactions: [], errors: [] };
+  if (col.date === -1 || col.description === -1) {
+    result.errors.push({ line: 1, message: "Map both a date and a description column" });
+    return result;
+  }
+  if (col.amount === -1 && col.debit === -1 && col.credit === -1) {
+    result.errors.push({ line: 1, message: "Map an amount column, or debit/credit columns" });
+    return result;
+  }
+
+  rows.forEach((cells, i) => {
+    const line = i + 2;
+    const cell = (c: number) => (c === -1 ? "" : (cells[c] ?? "").trim());
+
+    const date = parseStatementDate(cell(col.date), mapping.dateOrder);
+    if (!date) {
+      result.errors.push({ line, message: `Unrecognised date "${cell(col.date)}"` });
+      return;
+    }
+
+    let amount: number | null = null;
+    if (col.amount !== -1 && cell(col.amount)) {
+      amount = parseStatementAmount(cell(col.amount));
+      if (amount !== null && mapping.invertAmount) amount = -amount;
+    } else {
+      const debit = parseStatementAmount(cell(col.debit));
+      const credit = parseStatementAmount(cell(col.credit));
+      if (debit) amount = -Math.abs(debit);
+      else if (credit) amount = Math.abs(credit);
+    }
+    if (amount === null || amount === 0) {
+      result.errors.push({ line, message: "Missing or unreadable amount" });
+      return;
+    }
+
+    const tx: StatementTransaction = { line, date, description: cell(col.description), amount };
+    result.transactions.push(tx);
+  });
+
+  return result;
+}
@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+import { validateExpense } from "@/lib/expenses/schema";
+import type { Expense } from "@/lib/expenses/types";
+import { buildImportPreview, type StatementTransaction } from "./index";
+
+const tx = (overrides: Partial<StatementTransaction> = {}): StatementTransaction => ({
+  line: 2,
+  date: "2025-03-04T00:00:00.000Z",
+  description: "SWIGGY ORDER",
+  amount: -250,
+  ...overrides,
+});
+
+describe("buildImportPreview", () => {
+  it("turns debits into expenses and credits into income", () => {
+    const [debit, credit] = buildImportPreview(
+      [tx(), tx({ line: 3, description: "SALARY MARCH", amount: 50000 })],
+      []
+    );
+    expect(debit).toMatchObject({ type: "expense", amount: 250, title: "SWIGGY ORDER" });
+    expect(credit).toMatchObject({ type: "income", amount: 50000 });
+  });
+
+  it("shortens descriptions that are too long to save", () => {
+    const [row] = buildImportPreview([tx({ description: `UPI/${"X".repeat(400)}` })], []);
+    expect(row.title).toHaveLength(200);
+    expect(row.title.endsWith("…")).toBe(true);
+    const { type, title, amount, category, date } = row;
+    const result = validateExpense({ type, title, amount, category, date });
+    expect(result.ok).toBe(true);
+  });
+
+  it("flags rows that repeat the ledger or an earlier line", () => {
+    const existing = [{ id: "e1", type: "expense", amount: 250, date: "2025-03-04T10:00:00.000Z" } as Expense];
+    const [fromLedger] = buildImportPreview([tx()], existing);
+    expect(fromLedger.duplicateOf).toBe("e1");
+
+    const [, repeat] = buildImportPreview([tx(), tx({ line: 5 })], []);
+    expect(repeat.duplicateOf).toBe("line 2");
+  });
+});
@@ -0,0 +1,137 @@
+/**
+ * lib/import
+ * Bank statement import: parse CSV / OFX / QIF exports into transactions,
+ * then turn them into categorised, de-duplicated expense rows for preview.
+ */
+
+import { ruleConfidence, ruleForTitle } from "@/lib/categorization/rules";
+import type { CategoryRule } from "@/lib/categorization/types";
+import { classifyCredit, matchCategoryKeyword } from "@/lib/expenses/categorize";
+import { EXPENSE_LIMITS } from "@/lib/expenses/schema";
+import { INCOME_CATEGORIES, type TransactionType } from "@/lib/expenses/types";
+import type { Expense } from "@/lib/expenses/types";
+import { parseCsvStatement } from "./csv";
+import { parseOfxStatement } from "./ofx";
+import type { DateOrder } from "./parse-values";
+import { parseQifStatement } from "./qif";
+import type {
+  CsvColumnMapping,
+  ImportPreviewRow,
+  StatementFormat,
+  StatementParseResult,
+  StatementTransaction,
+} from "./types";
+
+export * from "./types";
+export { readCsvHeaders, suggestCsvMapping } from "./csv";
+export type { DateOrder } from "./parse-values";
+export { validateImportPreviewRequest } from "./schema";
+
+/** Largest statement accepted, in characters. */
+export const MAX_STATEMENT_SIZE = 2_000_000;
+
+export function detectStatementFormat(fileName: string, content: string): StatementFormat {
+  const ext = fileName.toLowerCase().split(".").pop();
+  if (ext === "ofx" || ext === "qfx" || /<OFX>|OFXHEADER/i.test(content.slice(0, 2000))) return "ofx";
+  if (ext === "qif" || /^\s*!Type:/i.test(content)) return "qif";
+  return "csv";
+}
+
+export function parseStatement(
+  format: StatementFormat,
+  content: string,
+  options: { mapping?: CsvColumnMapping; dateOrder?: DateOrder } = {}
+): StatementParseResult {
+  switch (format) {
+    case "ofx":
+      return parseOfxStatement(content);
+    case "qif":
+      return parseQifStatement(content, options.dateOrder);
+    default:
+      if (!options.mapping) {
+        return { transactions: [], errors: [{ line: 1, message: "CSV imports need a column mapping" }] };
+      }
+      return parseCsvStatement(content, { dateOrder: options.dateOrder, ...options.mapping });
+  }
+}
+
+/** Shortens bank text that would not pass expense validation. */
+function clip(text: string, max: number): string {
+  const value = text.trim();
+  return value.length > max ? `${value.slice(0, max - 1).trimEnd()}…` : value;
+}
+
+const sameDay = (a: string, b: string) => a.slice(0, 10) === b.slice(0, 10);
+const sameAmount = (a: number, b: number) => Math.abs(a - b) < 0.005;
+
+function categorise(
+  tx: StatementTransaction,
+  categories: string[],
+  rules: CategoryRule[]
+): { type: TransactionType; category: string; confidence: number } {
+  const fallback = categories.includes("Other") ? "Other" : categories[0] ?? "Other";
+
+  if (tx.amount > 0) {
+    const credit = classifyCredit(tx.description);
+    if (tx.category) return { type: credit.type, category: tx.category, confidence: 95 };
+    if (credit.category) return { type: credit.type, category: credit.category, confidence: 85 };
+    return {
+      type: credit.type,
+      category: credit.type === "income" ? INCOME_CATEGORIES[INCOME_CATEGORIES.length - 1] : fallback,
+      confidence: 40,
+    };
+  }
+
+  if (tx.category) return { type: "expense", category: tx.category, confidence: 95 };
+  const rule = ruleForTitle(rules, tx.description);
+  if (rule) return { type: "expense", category: rule.category, confidence: ruleConfidence(rule) };
+  const matched = matchCategoryKeyword(tx.description);
+  if (matched) return { type: "expense", category: matched, confidence: 85 };
+  return { type: "expense", category: fallback, confidence: 40 };
+}
+
+/**
+ * Builds preview rows: debits become expenses (categorised by learned
+ * merchant rules, then the keyword map), credits become income or refunds, and anything matching an existing
+ * row or an earlier row in the same file on type, date and amount is flagged
+ * as a duplicate. Descriptions and file categories longer than the expense
+ * limits are shortened so one long bank narration cannot fail the import.
+ */
+export function buildImportPreview(
+  transactions: StatementTransaction[],
+  existing: Expense[],
+  categories: string[] = [],
+  rules: CategoryRule[] = []
+): ImportPreviewRow[] {
+  const rows: ImportPreviewRow[] = [];
+
+  for (const tx of transactions) {
+    const amount = Math.abs(tx.amount);
+    const { type, category, confidence } = categorise(tx, categories, rules);
+    const title = clip(tx.description, EXPENSE_LIMITS.titleLength);
+    const row: ImportPreviewRow = {
+      line: tx.line,
+      type,
+      date: tx.date,
+      title,
+      amount,
+      category: clip(category, EXPENSE_LIMITS.categoryLength),
+      confidence,
+      reference: tx.reference,
+    };
+
+    const sameDirection = (other: TransactionType) => (other === "expense") === (type === "expense");
+    const match = existing.find(
+      (e) => sameDirection(e.type ?? "expense") && sameDay(e.date, tx.date) && sameAmount(e.amount, amount)
+    );
+    const earlier = rows.find(
+      (r) => r.type === type && sameDay(r.date, tx.date) && sameAmount(r.amount, amount) && r.title === title
+    );
+    if (match) row.duplicateOf = match.id;
+    else if (earlier) row.duplicateOf = `line ${earlier.line}`;
+
+    rows.push(row);
+  }
+
+  return rows;
+}
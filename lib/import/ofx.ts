@@ -0,0 +1,59 @@
+import { parseStatementAmount, parseStatementDate } from "./parse-values";
+import type { StatementParseResult } from "./types";
+
+/**
+ * Reads a tag value from an OFX block. Handles both OFX 1.x SGML, where leaf
+ * tags are never closed (`<TRNAMT>-12.50`), and OFX 2.x XML (`<TRNAMT>-12.50</TRNAMT>`).
+ */
+function tagValue(block: string, tag: string): string | undefined {
+  const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, "i"));
+  return match ? decodeEntities(match[1].trim()) : undefined;
+}
+
+function decodeEntities(value: string): string {
+  return value
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&");
+}
+
+/** Parses the <STMTTRN> entries of an OFX/QFX bank or credit-card statement. */
+export function parseOfxStatement(text: string): StatementParseResult {
+  const result: StatementParseResult = { transactions: [], errors: [] };
+  const blocks = text.match(/<STMTTRN>[\s\S]*?(?=<\/STMTTRN>|<STMTTRN>|<\/BANKTRANLIST>|$)/gi) ?? [];
+
+  if (!blocks.length) {
+    result.errors.push({ line: 0, message: "No <STMTTRN> transactions found" });
+    return result;
+  }
+
+  blocks.forEach((block, i) => {
+    const line = i + 1;
+    const rawDate = tagValue(block, "DTPOSTED") ?? tagValue(block, "DTUSER") ?? "";
+    const date = parseStatementDate(rawDate, "ymd");
+    const amount = parseStatementAmount(tagValue(block, "TRNAMT") ?? "");
+
+    if (!date) {
+      result.errors.push({ line, message: `Transaction ${line}: unrecognised date "${rawDate}"` });
+      return;
+    }
+    if (amount === null || amount === 0) {
+      result.errors.push({ line, message: `Transaction ${line}: missing amount` });
+      return;
+    }
+
+    const name = tagValue(block, "NAME") ?? tagValue(block, "PAYEE") ?? "";
+    const memo = tagValue(block, "MEMO") ?? "";
+    result.transactions.push({
+      line,
+      date,
+      description: [name, memo && memo !== name ? memo : ""].filter(Boolean).join(" — ") || "Transaction",
+      amount,
+      reference: tagValue(block, "FITID") ?? tagValue(block, "CHECKNUM"),
+    });
+  });
+
+  return result;
+}
@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest";
+import { parseStatementAmount, parseStatementDate } from "./parse-values";
+
+describe("parseStatementAmount", () => {
+  it.each([
+    ["1,234.50", 1234.5],
+    ["₹1,234.50", 1234.5],
+    ["$42", 42],
+    ["(1,234.50)", -1234.5],
+    ["-1234.5", -1234.5],
+    ["1.234,50", 1234.5],
+    ["1,234.50 Dr", -1234.5],
+    ["1,234.50Dr", -1234.5],
+    ["500.00CR", 500],
+    ["500.00 Credit", 500],
+  ])("parses %s", (raw, expected) => {
+    expect(parseStatementAmount(raw)).toBe(expected);
+  });
+
+  it.each([
+    ["Rs. 100", 100],
+    ["Rs.1,234.50", 1234.5],
+    ["Rs. 1,234.50 Dr", -1234.5],
+    ["INR 2,500", 2500],
+    ["INR 99.99", 99.99],
+    ["USD 12.30 Cr", 12.3],
+    ["€ 1.234,50", 1234.5],
+  ])("strips the currency prefix from %s", (raw, expected) => {
+    expect(parseStatementAmount(raw)).toBe(expected);
+  });
+
+  it.each(["", "   ", "Rs.", "n/a"])("rejects %j", (raw) => {
+    expect(parseStatementAmount(raw)).toBeNull();
+  });
+});
+
+describe("parseStatementDate", () => {
+  it.each([
+    ["2025-01-31", "2025-01-31"],
+    ["31/01/2025", "2025-01-31"],
+    ["31-Jan-2025", "2025-01-31"],
+    ["Jan 31 2025", "2025-01-31"],
+    ["1/31'25", "2025-01-31"],
+    ["20250131120000[-5:EST]", "2025-01-31"],
+  ])("parses %s", (raw, day) => {
+    expect(parseStatementDate(raw)?.slice(0, 10)).toBe(day);
+  });
+
+  it("reads ambiguous numeric dates in the requested order", () => {
+    expect(parseStatementDate("02/03/2025")?.slice(0, 10)).toBe("2025-03-02");
+    expect(parseStatementDate("02/03/2025", "mdy")?.slice(0, 10)).toBe("2025-02-03");
+  });
+
+  it("rejects impossible dates", () => {
+    expect(parseStatementDate("31/02/2025")).toBeNull();
+    expect(parseStatementDate("not a date")).toBeNull();
+  });
+});
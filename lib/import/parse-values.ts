@@ -0,0 +1,102 @@
+/**
+ * Lenient parsers for the dates and amounts found in bank exports.
+ */
+
+export type DateOrder = "auto" | "dmy" | "mdy" | "ymd";
+
+const MONTHS = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+
+function toIso(year: number, month: number, day: number): string | null {
+  if (year < 100) year += year < 70 ? 2000 : 1900;
+  const d = new Date(Date.UTC(year, month - 1, day));
+  // Reject rollovers such as 31/02 becoming 03/03.
+  if (d.getUTCFullYear() !== year || d.getUTCMonth() !== month - 1 || d.getUTCDate() !== day) return null;
+  return d.toISOString();
+}
+
+/**
+ * Parses the date formats banks commonly export: ISO (2025-01-31),
+ * numeric with any separator (31/01/2025, 01-31-25, QIF's 1/31'25),
+ * named months (31-Jan-2025, Jan 31 2025) and OFX timestamps (20250131120000[-5:EST]).
+ * `order` disambiguates numeric day/month; "auto" assumes day-first (as Indian
+ * banks export) unless only month-first gives a valid date.
+ */
+export function parseStatementDate(raw: string, order: DateOrder = "auto"): string | null {
+  const value = raw.trim().replace(/'\s*/g, "/");
+  if (!value) return null;
+
+  const ofx = value.match(/^(\d{4})(\d{2})(\d{2})(\d{2})?(\d{2})?(\d{2})?/);
+  if (ofx && !/[-/.]/.test(value.slice(0, 8))) {
+    return toIso(Number(ofx[1]), Number(ofx[2]), Number(ofx[3]));
+  }
+
+  const iso = value.match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})/);
+  if (iso) return toIso(Number(iso[1]), Number(iso[2]), Number(iso[3]));
+
+  const named = value.match(/^(\d{1,2})[-/ .]([a-z]{3})[a-z]*[-/ .,]+(\d{2,4})/i);
+  if (named) {
+    const month = MONTHS.indexOf(named[2].toLowerCase()) + 1;
+    return month ? toIso(Number(named[3]), month, Number(named[1])) : null;
+  }
+  const namedFirst = value.match(/^([a-z]{3})[a-z]*[-/ .](\d{1,2}),?[-/ .](\d{2,4})/i);
+  if (namedFirst) {
+    const month = MONTHS.indexOf(namedFirst[1].toLowerCase()) + 1;
+    return month ? toIso(Number(namedFirst[3]), month, Number(namedFirst[2])) : null;
+  }
+
+  const numeric = value.match(/^(\d{1,2})[-/.](\d{1,2})[-/.](\d{2,4})/);
+  if (numeric) {
+    const [a, b, year] = [Number(numeric[1]), Number(numeric[2]), Number(numeric[3])];
+    if (order === "mdy") return toIso(year, a, b);
+    if (order === "dmy") return toIso(year, b, a);
+    // auto: day-first unless that is impossible
+    return a > 12 || b <= 12 ? toIso(year, b, a) : toIso(year, a, b);
+  }
+
+  return null;
+}
+
+/**
+ * Parses "₹1,234.50", "Rs. 1,234.50", "(1,234.50)", "-1234.5", "1.234,50", "1,234.50 Dr"
+ * and "500.00CR".
+ * Debit markers (Dr / parentheses / leading minus) yield a negative number.
+ */
+export function parseStatementAmount(raw: string): number | null {
+  let value = raw.trim();
+  if (!value) return null;
+
+  let negative = false;
+  if (/^\(.*\)$/.test(value)) {
+    negative = true;
+    value = value.slice(1, -1);
+  }
+  if (/\s*(dr|debit)\.?$/i.test(value)) {
+    negative = true;
+    value = value.replace(/\s*(dr|debit)\.?$/i, "");
+  } else {
+    value = value.replace(/\s*(cr|credit)\.?$/i, "");
+  }
+
+  // Currency codes and abbreviations ("Rs.", "INR", "USD") go first so their dots
+  // are not read as decimal points; symbols fall to the character filter.
+  value = value.replace(/\p{L}+\.?/gu, "");
+  value = value.replace(/[^\d.,\-]/g, "");
+  if (value.startsWith("-")) {
+    negative = !negative;
+    value = value.slice(1);
+  }
+  value = value.replace(/-/g, "");
+
+  // "1.234,50" (comma decimal) vs "1,234.50" (comma thousands)
+  const lastComma = value.lastIndexOf(",");
+  const lastDot = value.lastIndexOf(".");
+  if (lastComma > lastDot && value.length - lastComma - 1 <= 2) {
+    value = value.replace(/\./g, "").replace(",", ".");
+  } else {
+    value = value.replace(/,/g, "");
+  }
+
+  const n = Number(value);
+  if (!value || !Number.isFinite(n)) return null;
+  return negative ? -n : n;
+}
@@ -0,0 +1,58 @@
+import { parseStatementAmount, parseStatementDate, type DateOrder } from "./parse-values";
+import type { StatementParseResult, StatementTransaction } from "./types";
+
+/**
+ * Parses a Quicken Interchange Format export. Each record is a run of lines
+ * keyed by their first character (D date, T/U amount, P payee, M memo,
+ * L category, N number) and terminated by "^".
+ */
+export function parseQifStatement(text: string, dateOrder: DateOrder = "auto"): StatementParseResult {
+  const result: StatementParseResult = { transactions: [], errors: [] };
+  const lines = text.split(/\r?\n/);
+
+  let record: Record<string, string> = {};
+  let startLine = 1;
+
+  const flush = () => {
+    if (!Object.keys(record).length) return;
+    const date = parseStatementDate(record.D ?? "", dateOrder);
+    const amount = parseStatementAmount(record.T ?? record.U ?? "");
+    if (!date) {
+      result.errors.push({ line: startLine, message: `Unrecognised date "${record.D ?? ""}"` });
+    } else if (amount === null || amount === 0) {
+      result.errors.push({ line: startLine, message: "Missing amount" });
+    } else {
+      const tx: StatementTransaction = {
+        line: startLine,
+        date,
+        description: record.P || record.M || "Transaction",
+        amount,
+        reference: record.N || undefined,
+        // Quicken categories look like "Food:Groceries"; keep the top level.
+        category: record.L && !record.L.startsWith("[") ? record.L.split(":")[0] : undefined,
+      };
+      result.transactions.push(tx);
+    }
+    record = {};
+  };
+
+  lines.forEach((raw, i) => {
+    const line = raw.trim();
+    if (!line || line.startsWith("!")) return;
+    if (line === "^") {
+      flush();
+      startLine = i + 2;
+      return;
+    }
+    if (!Object.keys(record).length) startLine = i + 1;
+    const code = line[0];
+    // Split lines (S/E/$) describe parts of one transaction; the total T is enough here.
+    if (!(code in record)) record[code] = line.slice(1).trim();
+  });
+  flush();
+
+  if (!result.transactions.length && !result.errors.length) {
+    result.errors.push({ line: 0, message: "No QIF transactions found" });
+  }
+  return result;
+}
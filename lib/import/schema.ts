@@ -0,0 +1,81 @@
+import { isPlainObject, type FieldError, type ValidationResult } from "@/lib/validation";
+import type { DateOrder } from "./parse-values";
+import type { CsvColumnMapping, StatementFormat } from "./types";
+
+export type ImportPreviewRequest = {
+  fileName: string;
+  content: string;
+  format?: StatementFormat;
+  mapping?: CsvColumnMapping;
+  dateOrder: DateOrder;
+  categories: string[];
+};
+
+const FORMATS: StatementFormat[] = ["csv", "ofx", "qif"];
+const DATE_ORDERS: DateOrder[] = ["auto", "dmy", "mdy", "ymd"];
+const MAPPING_KEYS = ["date", "description", "amount", "debit", "credit"] as const;
+
+export function validateImportPreviewRequest(body: unknown, maxSize: number): ValidationResult<ImportPreviewRequest> {
+  if (!isPlainObject(body)) {
+    return { ok: false, errors: [{ field: "body", message: "must be a JSON object" }] };
+  }
+
+  const errors: FieldError[] = [];
+  const { fileName = "", content, format, mapping, dateOrder = "auto", categories = [] } = body;
+
+  if (typeof fileName !== "string") errors.push({ field: "fileName", message: "must be a string" });
+  if (typeof content !== "string" || !content.trim()) {
+    errors.push({ field: "content", message: "must be the non-empty text of the statement file" });
+  } else if (content.length > maxSize) {
+    errors.push({ field: "content", message: `must be at most ${maxSize} characters` });
+  }
+  if (format !== undefined && !FORMATS.includes(format as StatementFormat)) {
+    errors.push({ field: "format", message: `must be one of ${FORMATS.join(", ")}` });
+  }
+  if (!DATE_ORDERS.includes(dateOrder as DateOrder)) {
+    errors.push({ field: "dateOrder", message: `must be one of ${DATE_ORDERS.join(", ")}` });
+  }
+  if (!Array.isArray(categories) || categories.some((c) => typeof c !== "string")) {
+    errors.push({ field: "categories", message: "must be an array of strings" });
+  }
+
+  let parsedMapping: CsvColumnMapping | undefined;
+  if (mapping !== undefined && mapping !== null) {
+    if (!isPlainObject(mapping)) {
+      errors.push({ field: "mapping", message: "must be an object" });
+    } else {
+      for (const key of MAPPING_KEYS) {
+        if (mapping[key] !== undefined && typeof mapping[key] !== "string") {
+          errors.push({ field: `mapping.${key}`, message: "must be a column name" });
+        }
+      }
+      if (!mapping.date) errors.push({ field: "mapping.date", message: "is required" });
+      if (!mapping.description) errors.push({ field: "mapping.description", message: "is required" });
+      if (!mapping.amount && !mapping.debit && !mapping.credit) {
+        errors.push({ field: "mapping.amount", message: "map an amount column or debit/credit columns" });
+      }
+      parsedMapping = {
+        date: String(mapping.date ?? ""),
+        description: String(mapping.description ?? ""),
+        amount: (mapping.amount as string) || undefined,
+        debit: (mapping.debit as string) || undefined,
+        credit: (mapping.credit as string) || undefined,
+        invertAmount: mapping.invertAmount === true,
+      };
+    }
+  }
+
+  if (errors.length) return { ok: false, errors };
+
+  return {
+    ok: true,
+    value: {
+      fileName: fileName as string,
+      content: content as string,
+      format: format as StatementFormat | undefined,
+      mapping: parsedMapping,
+      dateOrder: dateOrder as DateOrder,
+      categories: categories as string[],
+    },
+  };
+}
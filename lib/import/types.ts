@@ -0,0 +1,56 @@
+import type { TransactionType } from "@/lib/expenses/types";
+import type { DateOrder } from "./parse-values";
+
+export type StatementFormat = "csv" | "ofx" | "qif";
+
+/** One transaction as read from a statement, before categorisation. */
+export type StatementTransaction = {
+  /** 1-based line (CSV/QIF) or transaction index (OFX), for error messages. */
+  line: number;
+  date: string;
+  description: string;
+  /** Signed: negative means money left the account. */
+  amount: number;
+  /** Bank reference such as an OFX FITID or cheque number. */
+  reference?: string;
+  /** Category supplied by the file itself (QIF "L" lines). */
+  category?: string;
+};
+
+export type StatementParseError = { line: number; message: string };
+
+export type StatementParseResult = {
+  transactions: StatementTransaction[];
+  errors: StatementParseError[];
+};
+
+/**
+ * How to read a CSV export. Either `amount` (signed) or `debit`/`credit`
+ * columns must be mapped; values are header names.
+ */
+export type CsvColumnMapping = {
+  date: string;
+  description: string;
+  amount?: string;
+  debit?: string;
+  credit?: string;
+  /** Some banks export spends as positive numbers in a single amount column. */
+  invertAmount?: boolean;
+  dateOrder?: DateOrder;
+};
+
+export type ImportPreviewRow = {
+  line: number;
+  /** Debits become expenses; credits become income or refunds. */
+  type: TransactionType;
+  date: string;
+  title: string;
+  /** Always positive, as stored; `type` carries the direction. */
+  amount: number;
+  category: string;
+  /** 90+ from a learned merchant rule, 85 when a keyword matched, lower when the category is a fallback. */
+  confidence: number;
+  reference?: string;
+  /** Id of an existing expense (or "line N" within the file) this row repeats. */
+  duplicateOf?: string;
+};
@@ -0,0 +1,144 @@
+/**
+ * lib/markdown/highlight.ts
+ * A lightweight syntax highlighter for the languages finance answers tend to
+ * include: JavaScript/TypeScript, JSON, Python, shell and SQL. It only sorts
+ * the text into token types; unknown languages come back as one plain token.
+ */
+
+import type { HighlightToken, HighlightTokenType } from "./types";
+
+type Grammar = {
+  keywords: Set<string>;
+  literals: Set<string>;
+  lineComment: string[];
+  blockComment?: [string, string];
+  quotes: string[];
+  caseInsensitive?: boolean;
+};
+
+const words = (list: string) => new Set(list.split(" "));
+
+const JS: Grammar = {
+  keywords: words(
+    "const let var function return if else for while do switch case break continue new class extends import export from default async await try catch finally throw typeof instanceof in of type interface enum as implements public private protected readonly static yield delete void"
+  ),
+  literals: words("true false null undefined NaN Infinity this"),
+  lineComment: ["//"],
+  blockComment: ["/*", "*/"],
+  quotes: ['"', "'", "`"],
+};
+
+const GRAMMARS: Record<string, Grammar> = {
+  js: JS,
+  ts: JS,
+  json: { keywords: new Set(), literals: words("true false null"), lineComment: [], quotes: ['"'] },
+  python: {
+    keywords: words(
+      "def return if elif else for while in not and or is import from as class try except finally raise with lambda pass break continue yield global nonlocal async await assert del print"
+    ),
+    literals: words("True False None self"),
+    lineComment: ["#"],
+    quotes: ['"', "'"],
+  },
+  bash: {
+    keywords: words("if then else elif fi for in do done while until case esac function return export local echo cd sudo"),
+    literals: words("true false"),
+    lineComment: ["#"],
+    quotes: ['"', "'"],
+  },
+  sql: {
+    keywords: words(
+      "select from where and or not in is as join left right inner outer on group by order having limit offset insert into values update set delete create table alter drop index distinct union all case when then else end sum count avg min max between like asc desc with"
+    ),
+    literals: words("null true false"),
+    lineComment: ["--"],
+    blockComment: ["/*", "*/"],
+    quotes: ["'", '"'],
+    caseInsensitive: true,
+  },
+};
+
+const ALIASES: Record<string, string> = {
+  javascript: "js",
+  jsx: "js",
+  typescript: "ts",
+  tsx: "ts",
+  py: "python",
+  sh: "bash",
+  shell: "bash",
+  zsh: "bash",
+  console: "bash",
+  postgres: "sql",
+  sqlite: "sql",
+};
+
+export function grammarName(lang: string): string | null {
+  const name = ALIASES[lang.toLowerCase()] ?? lang.toLowerCase();
+  return name in GRAMMARS ? name : null;
+}
+
+const NUMBER = /^(?:0x[\da-f]+|\d[\d_]*(?:\.\d+)?(?:e[+-]?\d+)?)/i;
+const WORD = /^[A-Za-z_$][\w$]*/;
+
+/** Splits `code` into tokens whose texts join back to exactly `code`. */
+export function highlight(code: string, lang: string): HighlightToken[] {
+  const name = grammarName(lang);
+  if (!name) return [{ type: "plain", text: code }];
+  const grammar = GRAMMARS[name];
+  const tokens: HighlightToken[] = [];
+  const push = (type: HighlightTokenType, text: string) => {
+    const last = tokens[tokens.length - 1];
+    if (last && last.type === type) last.text += text;
+    else tokens.push({ type, text });
+  };
+
+  let i = 0;
+  while (i < code.length) {
+    const rest = code.slice(i);
+    const ch = code[i];
+
+    const line = grammar.lineComment.find((marker) => rest.startsWith(marker));
+    if (line && !(name === "bash" && i > 0 && !/\s/.test(code[i - 1]))) {
+      const end = code.indexOf("\n", i);
+      const text = end === -1 ? rest : code.slice(i, end);
+      push("comment", text);
+      i += text.length;
+      continue;
+    }
+
+    if (grammar.blockComment && rest.startsWith(grammar.blockComment[0])) {
+      const end = code.indexOf(grammar.blockComment[1], i + 2);
+      const text = end === -1 ? rest : code.slice(i, end + grammar.blockComment[1].length);
+      push("comment", text);
+      i += text.length;
+      continue;
+    }
+
+    if (grammar.quotes.includes(ch)) {
+      let j = i + 1;
+      while (j < code.length && code[j] !== ch && (ch === "`" || code[j] !== "\n")) j += code[j] === "\\" ? 2 : 1;
+      const text = code.slice(i, Math.min(j + 1, code.length));
+      push("string", text);
+      i += text.length;
+      continue;
+    }
+
+    let m: RegExpExecArray | null;
+    if (/\d/.test(ch) && !/[\w$]/.test(code[i - 1] ?? "") && (m = NUMBER.exec(rest))) {
+      push("number", m[0]);
+      i += m[0].length;
+      continue;
+    }
+
+    if ((m = WORD.exec(rest))) {
+      const word = grammar.caseInsensitive ? m[0].toLowerCase() : m[0];
+      push(grammar.keywords.has(word) ? "keyword" : grammar.literals.has(word) ? "literal" : "plain", m[0]);
+      i += m[0].length;
+      continue;
+    }
+
+    push("plain", ch);
+    i++;
+  }
+  return tokens;
+}
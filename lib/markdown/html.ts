@@ -0,0 +1,109 @@
+/**
+ * lib/markdown/html.ts
+ * Renders Markdown to an HTML string for files that leave the app, such as
+ * chat transcripts. Every piece of text is escaped and only parsed links
+ * (already checked by isSafeUrl) become anchors, as in the React renderer.
+ */
+
+import { highlight } from "./highlight";
+import { parseTex } from "./math";
+import { parseMarkdown } from "./parse";
+import type { Block, Inline, MathNode } from "./types";
+
+const ESCAPES: Record<string, string> = { "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;", "'": "&#39;" };
+
+export function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, (ch) => ESCAPES[ch]);
+}
+
+function mathHtml(nodes: MathNode[]): string {
+  return nodes
+    .map((node) => {
+      switch (node.type) {
+        case "text":
+          return node.variable ? `<i>${escapeHtml(node.text)}</i>` : escapeHtml(node.text);
+        case "sup":
+        case "sub":
+          return `<${node.type}>${mathHtml(node.children)}</${node.type}>`;
+        case "sqrt":
+          return `√<span class="sqrt">${mathHtml(node.children)}</span>`;
+        case "frac":
+          return `<span class="frac"><span>${mathHtml(node.num)}</span><span>${mathHtml(node.den)}</span></span>`;
+      }
+    })
+    .join("");
+}
+
+const formula = (tex: string, tag: "span" | "div") =>
+  `<${tag} class="math" title="${escapeHtml(tex)}">${mathHtml(parseTex(tex))}</${tag}>`;
+
+function inlineHtml(nodes: Inline[]): string {
+  return nodes
+    .map((node) => {
+      switch (node.type) {
+        case "text":
+          return escapeHtml(node.text);
+        case "strong":
+        case "em":
+          return `<${node.type}>${inlineHtml(node.children)}</${node.type}>`;
+        case "strike":
+          return `<s>${inlineHtml(node.children)}</s>`;
+        case "code":
+          return `<code>${escapeHtml(node.text)}</code>`;
+        case "math":
+          return formula(node.tex, "span");
+        case "link":
+          return `<a href="${escapeHtml(node.href)}" rel="noopener noreferrer nofollow">${inlineHtml(node.children)}</a>`;
+        case "break":
+          return "<br>";
+      }
+    })
+    .join("");
+}
+
+function blocksHtml(blocks: Block[], tight = false): string {
+  return blocks
+    .map((block) => {
+      switch (block.type) {
+        case "paragraph":
+          return tight ? inlineHtml(block.children) : `<p>${inlineHtml(block.children)}</p>`;
+        case "heading":
+          return `<h${block.level}>${inlineHtml(block.children)}</h${block.level}>`;
+        case "code": {
+          const code = highlight(block.text, block.lang)
+            .map((t) => (t.type === "plain" ? escapeHtml(t.text) : `<span class="tok-${t.type}">${escapeHtml(t.text)}</span>`))
+            .join("");
+          return `<pre><code>${code}</code></pre>`;
+        }
+        case "math":
+          return formula(block.tex, "div");
+        case "list": {
+          const tag = block.ordered ? "ol" : "ul";
+          const start = block.ordered && block.start !== 1 ? ` start="${block.start}"` : "";
+          const items = block.items
+            .map((item) => {
+              const box = item.checked === null ? "" : `<input type="checkbox" disabled${item.checked ? " checked" : ""}> `;
+              return `<li>${box}${blocksHtml(item.children, block.tight)}</li>`;
+            })
+            .join("");
+          return `<${tag}${start}>${items}</${tag}>`;
+        }
+        case "blockquote":
+          return `<blockquote>${blocksHtml(block.children)}</blockquote>`;
+        case "table": {
+          const cell = (tag: "th" | "td", content: Inline[], c: number) =>
+            `<${tag}${block.align[c] ? ` style="text-align:${block.align[c]}"` : ""}>${inlineHtml(content)}</${tag}>`;
+          const head = `<tr>${block.header.map((c, i) => cell("th", c, i)).join("")}</tr>`;
+          const rows = block.rows.map((row) => `<tr>${row.map((c, i) => cell("td", c, i)).join("")}</tr>`).join("");
+          return `<table><thead>${head}</thead><tbody>${rows}</tbody></table>`;
+        }
+        case "hr":
+          return "<hr>";
+      }
+    })
+    .join("\n");
+}
+
+export function markdownToHtml(src: string): string {
+  return blocksHtml(parseMarkdown(src));
+}
@@ -0,0 +1,11 @@
+/**
+ * lib/markdown
+ * Safe Markdown for model output: parsing, code highlighting, TeX math and
+ * HTML for exported files.
+ */
+
+export * from "./types";
+export { isSafeUrl, parseInline, parseMarkdown } from "./parse";
+export { grammarName, highlight } from "./highlight";
+export { parseTex } from "./math";
+export { escapeHtml, markdownToHtml } from "./html";
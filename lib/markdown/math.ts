@@ -0,0 +1,146 @@
+/**
+ * lib/markdown/math.ts
+ * Reads the TeX subset models use for interest and budgeting formulas:
+ * fractions, roots, super- and subscripts, Greek letters and the common
+ * operators. Anything it does not know is shown as written rather than lost.
+ */
+
+import type { MathNode } from "./types";
+
+/** Set in italics like other variables. */
+const GREEK: Record<string, string> = {
+  alpha: "α", beta: "β", gamma: "γ", delta: "δ", Delta: "Δ", epsilon: "ε", theta: "θ",
+  lambda: "λ", mu: "μ", pi: "π", rho: "ρ", sigma: "σ", Sigma: "Σ", tau: "τ", phi: "φ", omega: "ω",
+};
+
+const SYMBOLS: Record<string, string> = {
+  sum: "∑", prod: "∏", infty: "∞", partial: "∂", ldots: "…", cdots: "⋯", dots: "…",
+  "%": "%", $: "$", "&": "&", "#": "#", "{": "{", "}": "}", _: "_",
+};
+
+/** Binary operators and relations, set with space on both sides. */
+const OPERATORS: Record<string, string> = {
+  times: "×", cdot: "·", div: "÷", pm: "±", mp: "∓", le: "≤", leq: "≤", ge: "≥", geq: "≥",
+  neq: "≠", ne: "≠", approx: "≈", equiv: "≡", to: "→", rightarrow: "→", Rightarrow: "⇒", "+": "+",
+  "-": "−", "=": "=", "<": "<", ">": ">",
+};
+
+const SPACES: Record<string, string> = { ",": " ", ";": " ", ":": " ", " ": " ", quad: "  ", qquad: "   " };
+
+/** Commands whose argument is shown upright, as written. */
+const TEXT_COMMANDS = new Set(["text", "textrm", "mathrm", "mathbf", "textbf", "operatorname", "mbox"]);
+
+/** Accepted but not rendered: sizing and style commands. */
+const IGNORED = new Set(["left", "right", "big", "Big", "bigg", "Bigg", "displaystyle", "limits", "nolimits"]);
+
+class TexReader {
+  private i = 0;
+
+  constructor(private readonly src: string) {}
+
+  /** Nodes up to the end of the source or the closing brace of the current group. */
+  list(): MathNode[] {
+    const out: MathNode[] = [];
+    while (this.i < this.src.length && this.src[this.i] !== "}") out.push(...this.atom(out));
+    return out;
+  }
+
+  private group(): MathNode[] {
+    this.skipSpace();
+    if (this.src[this.i] !== "{") return this.i < this.src.length ? this.atom([]) : [];
+    this.i++;
+    const children = this.list();
+    this.i++;
+    return children;
+  }
+
+  private rawGroup(): string {
+    this.skipSpace();
+    if (this.src[this.i] !== "{") return this.src[this.i++] ?? "";
+    let depth = 0;
+    const start = this.i + 1;
+    for (; this.i < this.src.length; this.i++) {
+      if (this.src[this.i] === "{") depth++;
+      else if (this.src[this.i] === "}" && --depth === 0) break;
+    }
+    return this.src.slice(start, this.i++);
+  }
+
+  private skipSpace() {
+    while (/\s/.test(this.src[this.i] ?? "")) this.i++;
+  }
+
+  private atom(before: MathNode[]): MathNode[] {
+    const ch = this.src[this.i];
+    if (/\s/.test(ch)) {
+      this.i++;
+      return [];
+    }
+    if (ch === "{") return this.group();
+    if (ch === "^" || ch === "_") {
+      this.i++;
+      return [{ type: ch === "^" ? "sup" : "sub", children: this.group() }];
+    }
+    if (ch === "\\") return this.command();
+    this.i++;
+    if (ch in OPERATORS) {
+      // A minus with nothing to subtract from is a sign.
+      const last = before[before.length - 1];
+      const unary = ch === "-" && (!last || (last.type === "text" && /[\s(]$/.test(last.text)));
+      return [{ type: "text", text: unary ? OPERATORS[ch] : ` ${OPERATORS[ch]} ` }];
+    }
+    return [{ type: "text", text: ch, variable: /\p{L}/u.test(ch) }];
+  }
+
+  private command(): MathNode[] {
+    this.i++;
+    const name = /^(?:[A-Za-z]+|.)/.exec(this.src.slice(this.i))?.[0] ?? "";
+    this.i += name.length;
+    if (name === "frac" || name === "dfrac" || name === "tfrac") {
+      const num = this.group();
+      return [{ type: "frac", num, den: this.group() }];
+    }
+    if (name === "sqrt") {
+      if (this.src[this.i] === "[") this.i = Math.max(this.src.indexOf("]", this.i) + 1, this.i);
+      return [{ type: "sqrt", children: this.group() }];
+    }
+    if (TEXT_COMMANDS.has(name)) return [{ type: "text", text: this.rawGroup() }];
+    if (IGNORED.has(name)) {
+      if (name === "left" || name === "right") {
+        this.skipSpace();
+        const delimiter = this.src[this.i] === "\\" ? (this.i++, this.src[this.i++]) : this.src[this.i++];
+        return delimiter && delimiter !== "." ? [{ type: "text", text: delimiter }] : [];
+      }
+      return [];
+    }
+    if (name in SPACES) return [{ type: "text", text: SPACES[name] }];
+    if (name in OPERATORS) return [{ type: "text", text: ` ${OPERATORS[name]} ` }];
+    if (name in GREEK) return [{ type: "text", text: GREEK[name], variable: true }];
+    if (name in SYMBOLS) return [{ type: "text", text: SYMBOLS[name] }];
+    return [{ type: "text", text: `\\${name}` }];
+  }
+}
+
+/** Drops closing braces with no opening one, which would otherwise end the formula early. */
+function balance(tex: string): string {
+  let depth = 0;
+  let out = "";
+  for (let i = 0; i < tex.length; i++) {
+    const ch = tex[i];
+    if (ch === "\\") {
+      out += tex.slice(i, i + 2);
+      i++;
+      continue;
+    }
+    if (ch === "{") depth++;
+    if (ch === "}" && depth === 0) continue;
+    if (ch === "}") depth--;
+    out += ch;
+  }
+  return out;
+}
+
+/** Parses a formula; unbalanced braces are tolerated so half-streamed math still shows. */
+export function parseTex(tex: string): MathNode[] {
+  return new TexReader(balance(tex)).list();
+}
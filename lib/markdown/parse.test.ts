@@ -0,0 +1,119 @@
+import { describe, expect, it } from "vitest";
+import { isSafeUrl, parseInline, parseMarkdown } from "./parse";
+import type { Block, Inline } from "./types";
+
+const text = (t: string): Inline => ({ type: "text", text: t });
+
+/** How many blockquotes and lists deep the tree goes. */
+function nesting(blocks: Block[]): number {
+  let deepest = 0;
+  for (const block of blocks) {
+    if (block.type === "blockquote") deepest = Math.max(deepest, 1 + nesting(block.children));
+    if (block.type === "list") {
+      for (const item of block.items) deepest = Math.max(deepest, 1 + nesting(item.children));
+    }
+  }
+  return deepest;
+}
+
+describe("parseInline", () => {
+  it("parses strong, em and strike", () => {
+    expect(parseInline("a **b** _c_ ~~d~~")).toEqual([
+      text("a "),
+      { type: "strong", children: [text("b")] },
+      text(" "),
+      { type: "em", children: [text("c")] },
+      text(" "),
+      { type: "strike", children: [text("d")] },
+    ]);
+  });
+
+  it("nests emphasis", () => {
+    expect(parseInline("**bold *and italic***")).toEqual([
+      { type: "strong", children: [text("bold "), { type: "em", children: [text("and italic")] }] },
+    ]);
+    expect(parseInline("*a **b** c*")).toEqual([
+      { type: "em", children: [text("a "), { type: "strong", children: [text("b")] }, text(" c")] },
+    ]);
+  });
+
+  it("keeps unmatched and misplaced markers as text", () => {
+    expect(parseInline("2 * 3 * 4")).toEqual([text("2 * 3 * 4")]);
+    expect(parseInline("**open only")).toEqual([text("**open only")]);
+    expect(parseInline("****")).toEqual([text("****")]);
+    expect(parseInline("snake_case_name")).toEqual([text("snake_case_name")]);
+    expect(parseInline("**a *b** c*")).toEqual([
+      { type: "strong", children: [text("a *b")] },
+      text(" c*"),
+    ]);
+  });
+
+  it("does not close emphasis inside code spans or links", () => {
+    expect(parseInline("*a `b*` c*")).toEqual([
+      { type: "em", children: [text("a "), { type: "code", text: "b*" }, text(" c")] },
+    ]);
+  });
+
+  it("reads money as text and TeX as math", () => {
+    expect(parseInline("$100 and $200")).toEqual([text("$100 and $200")]);
+    expect(parseInline("$x^2$ and $5")).toEqual([{ type: "math", tex: "x^2" }, text(" and $5")]);
+  });
+
+  it("keeps unsafe links as their label", () => {
+    expect(parseInline("[ok](https://example.com) [bad](javascript:alert(1))")).toEqual([
+      { type: "link", href: "https://example.com", children: [text("ok")] },
+      text(" bad"),
+    ]);
+  });
+
+  it("caps emphasis nesting", () => {
+    const deep = "*a **".repeat(50) + "x" + "** a*".repeat(50);
+    let depth = 0;
+    for (let nodes = parseInline(deep); nodes.length; depth++) {
+      nodes = nodes.flatMap((n) => ("children" in n ? n.children : []));
+    }
+    expect(depth).toBeLessThanOrEqual(17);
+  });
+
+  it("stays linear on long runs of unmatched markers", () => {
+    const src = "**a ".repeat(50_000) + "_a ".repeat(50_000) + "$5 ".repeat(50_000) + "[a ".repeat(20_000);
+    const started = Date.now();
+    expect(parseInline(src)).toEqual([text(src)]);
+    expect(Date.now() - started).toBeLessThan(2000);
+  });
+});
+
+describe("parseMarkdown", () => {
+  it("parses nested quotes and lists", () => {
+    const blocks = parseMarkdown("> quote\n>> inner\n\n- a\n  - b\n- [x] done");
+    expect(blocks.map((b) => b.type)).toEqual(["blockquote", "list"]);
+    expect(nesting(blocks)).toBe(2);
+  });
+
+  it("renders very deep quotes and lists as plain text instead of overflowing", () => {
+    const quotes = parseMarkdown(">".repeat(10_000) + " deep");
+    expect(nesting(quotes)).toBeLessThanOrEqual(16);
+    expect(JSON.stringify(quotes)).toContain("deep");
+
+    const list = Array.from({ length: 1_000 }, (_, i) => `${" ".repeat(i * 2)}- item ${i}`).join("\n");
+    expect(nesting(parseMarkdown(list))).toBeLessThanOrEqual(16);
+  });
+
+  it("parses tables with alignment", () => {
+    const [table] = parseMarkdown("| a | b |\n|:--|--:|\n| 1 | 2 |");
+    expect(table).toMatchObject({ type: "table", align: ["left", "right"], rows: [[[text("1")], [text("2")]]] });
+  });
+});
+
+describe("isSafeUrl", () => {
+  it.each(["https://example.com", "http://x.y/z", "mailto:a@b.c", "/budgets", "#top"])("allows %s", (url) => {
+    expect(isSafeUrl(url)).toBe(true);
+  });
+
+  it.each(["javascript:alert(1)", "java\nscript:alert(1)", "data:text/html,x", "//evil.com", "/\\evil.com", "vbscript:x"])(
+    "refuses %j",
+    (url) => {
+      expect(isSafeUrl(url)).toBe(false);
+    }
+  );
+});
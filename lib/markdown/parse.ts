@@ -0,0 +1,448 @@
+/**
+ * lib/markdown/parse.ts
+ * A small GitHub-flavoured Markdown parser for model output: headings,
+ * paragraphs, lists (nested, task items), block quotes, fenced code, tables,
+ * rules, emphasis, code spans, links and TeX math in `$...$`, `\(...\)`,
+ * `$$...$$` and `\[...\]`.
+ *
+ * It is deliberately forgiving rather than CommonMark-exact, and it is the
+ * sanitiser: HTML in the source is kept as text (only `<br>` becomes a line
+ * break) and links survive only with a safe URL, so whatever the model
+ * writes, the renderer never emits markup of its own.
+ */
+
+import type { Block, Inline, ListItem, TableAlignment } from "./types";
+
+const SAFE_PROTOCOLS = ["http:", "https:", "mailto:"];
+
+/**
+ * Quotes, lists and emphasis nested deeper than this render as plain text, so
+ * hostile input cannot overflow the stack of the parser or the renderer.
+ */
+const MAX_NESTING = 16;
+
+/** Web and mail links and in-app paths; javascript:, data: and every other scheme are refused. */
+export function isSafeUrl(url: string): boolean {
+  // Browsers ignore whitespace and control characters inside a scheme ("java\nscript:").
+  const compact = url.replace(/[\u0000- ]/g, "");
+  // "//host" and "/\host" are both protocol-relative links to another site.
+  if (/^(\/(?![/\\])|#)/.test(compact)) return true;
+  const scheme = /^([a-z][a-z0-9+.-]*):/i.exec(compact);
+  return !!scheme && SAFE_PROTOCOLS.includes(`${scheme[1].toLowerCase()}:`);
+}
+
+/* ----------------------------- inline ----------------------------- */
+
+const ESCAPABLE = /[!-/:-@[-`{-~]/;
+/** Longest `[label](url)` looked for, so unclosed brackets cost a bounded scan each. */
+const MAX_LINK_LENGTH = 2000;
+const LINK = /^(!?)\[((?:[^[\]]|\[[^\]]*\])*)\]\(\s*<?([^\s<>()]+(?:\([^\s()]*\))?)>?(?:\s+"[^"]*")?\s*\)/;
+const AUTOLINK = /^<((?:https?:\/\/|mailto:)[^\s<>]+)>/i;
+const BARE_URL = /^https?:\/\/[^\s<>]*[^\s<>.,:;"'!?)\]]/;
+const LINE_BREAK_TAG = /^<br\s*\/?>/i;
+/** Spans between single dollars that read like prose ("$100 and 20$") are money, not math. */
+const TEX_HINT = /[\\^_={}]/;
+
+const isSpace = (ch: string | undefined) => ch === undefined || /\s/.test(ch);
+const isWordChar = (ch: string | undefined) => ch !== undefined && /[\p{L}\p{N}]/u.test(ch);
+
+/**
+ * Finds the end of `$...$` math opened at `from` (the first character after
+ * the dollar). The first dollar that can close does not depend on `from`, so
+ * the last scan is reused: a line of "$5 $6 $7" stays linear.
+ */
+function mathCloser(src: string) {
+  let scannedFrom = Infinity;
+  let found = -1;
+  return (from: number): number => {
+    if (isSpace(src[from])) return -1;
+    if (from < scannedFrom || (found !== -1 && found < from)) {
+      scannedFrom = from;
+      found = -1;
+      for (let j = src.indexOf("$", from); j !== -1; j = src.indexOf("$", j + 1)) {
+        if (src[j - 1] === "\\" || isSpace(src[j - 1]) || /\d/.test(src[j + 1] ?? "")) continue;
+        found = j;
+        break;
+      }
+    }
+    if (found === -1) return -1;
+    const tex = src.slice(from, found);
+    return /\s/.test(tex) && !TEX_HINT.test(tex) ? -1 : found;
+  };
+}
+
+/** `src.indexOf(token, from)`, remembering tokens that never occur again. */
+function closerFinder(src: string) {
+  const last = new Map<string, number>();
+  return (token: string, from: number): number => {
+    if (!last.has(token)) last.set(token, src.lastIndexOf(token));
+    return last.get(token)! < from ? -1 : src.indexOf(token, from);
+  };
+}
+
+/** Joins neighbouring text nodes left behind by unmatched emphasis markers. */
+function mergeText(nodes: Inline[]): Inline[] {
+  const out: Inline[] = [];
+  for (const node of nodes) {
+    const prev = out[out.length - 1];
+    if (node.type === "text" && prev?.type === "text") out[out.length - 1] = { type: "text", text: prev.text + node.text };
+    else out.push(node);
+  }
+  return out;
+}
+
+type Opener = { marker: string; index: number };
+
+/**
+ * Inline content of a block. Newlines are kept as line breaks, which suits chat answers better than folding them.
+ *
+ * Emphasis is matched in the same single pass: an opening `*`, `**`, `_`,
+ * `__` or `~~` goes on a stack as literal text, and a closer wraps everything
+ * after the nearest matching opener. Openers left on the stack stay text.
+ */
+export function parseInline(src: string): Inline[] {
+  const out: Inline[] = [];
+  const openers: Opener[] = [];
+  const findCloser = closerFinder(src);
+  const findMathCloser = mathCloser(src);
+  let text = "";
+  const flush = () => {
+    if (text) out.push({ type: "text", text });
+    text = "";
+  };
+  const push = (node: Inline) => {
+    flush();
+    out.push(node);
+  };
+
+  let i = 0;
+  while (i < src.length) {
+    const ch = src[i];
+    const rest = src.slice(i);
+    let m: RegExpExecArray | null;
+
+    if (ch === "\\") {
+      const next = src[i + 1];
+      if (next === "(" || next === "[") {
+        const closer = next === "(" ? "\\)" : "\\]";
+        const end = findCloser(closer, i + 2);
+        if (end !== -1) {
+          push({ type: "math", tex: src.slice(i + 2, end).trim() });
+          i = end + 2;
+          continue;
+        }
+      }
+      if (next === "\n") {
+        push({ type: "break" });
+        i += 2;
+        continue;
+      }
+      if (next !== undefined && ESCAPABLE.test(next)) {
+        text += next;
+        i += 2;
+        continue;
+      }
+    }
+
+    if (ch === "`") {
+      const run = /^`+/.exec(rest)![0];
+      const end = findCloser(run, i + run.length);
+      if (end !== -1 && src[end + run.length] !== "`") {
+        const code = src.slice(i + run.length, end).replace(/\n/g, " ");
+        push({ type: "code", text: /^ .* $/.test(code) && code.trim() ? code.slice(1, -1) : code });
+        i = end + run.length;
+        continue;
+      }
+      text += run;
+      i += run.length;
+      continue;
+    }
+
+    if (ch === "$") {
+      if (src[i + 1] === "$") {
+        const end = findCloser("$$", i + 2);
+        if (end > i + 2) {
+          push({ type: "math", tex: src.slice(i + 2, end).trim() });
+          i = end + 2;
+          continue;
+        }
+      } else {
+        const end = findMathCloser(i + 1);
+        if (end !== -1) {
+          push({ type: "math", tex: src.slice(i + 1, end) });
+          i = end + 1;
+          continue;
+        }
+      }
+    }
+
+    if (ch === "*" || ch === "_" || ch === "~") {
+      // In a run of three ("***") the single marker closes first when a single one is open.
+      const double = src[i + 1] === ch && !(src[i + 2] === ch && openers[openers.length - 1]?.marker === ch);
+      const marker = double ? ch + ch : ch;
+      // Underscores only open and close at word edges ("snake_case_name" stays text).
+      const canOpen =
+        (ch !== "~" || double) && !(ch === "_" && isWordChar(src[i - 1])) && !isSpace(src[i + marker.length]);
+      const canClose = !isSpace(src[i - 1]) && !(ch === "_" && isWordChar(src[i + marker.length]));
+      i += marker.length;
+
+      flush();
+      let depth = canClose ? openers.length - 1 : -1;
+      while (depth >= 0 && openers[depth].marker !== marker) depth--;
+      // A closer right after its opener ("****") wraps nothing and stays text.
+      if (depth >= 0 && openers[depth].index < out.length - 1) {
+        const [, ...children] = out.splice(openers[depth].index);
+        openers.length = depth;
+        out.push({ type: ch === "~" ? "strike" : double ? "strong" : "em", children: mergeText(children) });
+        continue;
+      }
+      if (canOpen && openers.length < MAX_NESTING) openers.push({ marker, index: out.length });
+      out.push({ type: "text", text: marker });
+      continue;
+    }
+
+    if ((ch === "[" || (ch === "!" && src[i + 1] === "[")) && (m = LINK.exec(rest.slice(0, MAX_LINK_LENGTH)))) {
+      const label = parseInline(m[2]);
+      // Images are shown as links: a model's answer should not load remote content by itself.
+      if (isSafeUrl(m[3])) push({ type: "link", href: m[3], children: label.length ? label : [{ type: "text", text: m[3] }] });
+      else label.forEach(push);
+      i += m[0].length;
+      continue;
+    }
+
+    if (ch === "<") {
+      if ((m = AUTOLINK.exec(rest))) {
+        push({ type: "link", href: m[1], children: [{ type: "text", text: m[1].replace(/^mailto:/i, "") }] });
+        i += m[0].length;
+        continue;
+      }
+      if ((m = LINE_BREAK_TAG.exec(rest))) {
+        push({ type: "break" });
+        i += m[0].length;
+        continue;
+      }
+    }
+
+    if (ch === "h" && !isWordChar(src[i - 1]) && (m = BARE_URL.exec(rest))) {
+      push({ type: "link", href: m[0], children: [{ type: "text", text: m[0] }] });
+      i += m[0].length;
+      continue;
+    }
+
+    if (ch === "\n") {
+      text = text.replace(/ +$/, "");
+      push({ type: "break" });
+      i++;
+      continue;
+    }
+
+    text += ch;
+    i++;
+  }
+  flush();
+  return mergeText(out);
+}
+
+/* ----------------------------- blocks ----------------------------- */
+
+const FENCE = /^( {0,3})(`{3,}|~{3,})\s*([^\s`]*)[^`]*$/;
+const HEADING = /^ {0,3}(#{1,6})(?:[ \t]+(.*?))?(?:[ \t]+#+)?[ \t]*$/;
+const RULE = /^ {0,3}([-*_])(?:[ \t]*\1){2,}[ \t]*$/;
+const SETEXT = /^ {0,3}(=+|-+)[ \t]*$/;
+const QUOTE = /^ {0,3}> ?/;
+const LIST_ITEM = /^( {0,3})([-*+]|\d{1,9}[.)])(?:( +)(.*))?$/;
+const TABLE_DELIMITER = /^ {0,3}\|?(?:\s*:?-+:?\s*\|)+\s*(?::?-+:?\s*)?$|^ {0,3}\|?\s*:?-+:?\s*(?:\|\s*:?-+:?\s*)+\|?\s*$/;
+const MATH_FENCES: [string, string][] = [
+  ["$$", "$$"],
+  ["\\[", "\\]"],
+];
+
+const mathFence = (line: string) => MATH_FENCES.find(([open]) => line.trimStart().startsWith(open));
+
+function splitRow(line: string): string[] {
+  const trimmed = line.trim().replace(/^\|/, "").replace(/(?<!\\)\|$/, "");
+  return trimmed.split(/(?<!\\)\|/).map((cell) => cell.trim().replace(/\\\|/g, "|"));
+}
+
+function isTableStart(lines: string[], i: number): boolean {
+  const next = lines[i + 1];
+  return lines[i].includes("|") && next !== undefined && next.includes("|") && TABLE_DELIMITER.test(next);
+}
+
+function startsBlock(lines: string[], i: number): boolean {
+  const line = lines[i];
+  return (
+    FENCE.test(line) ||
+    HEADING.test(line) ||
+    RULE.test(line) ||
+    QUOTE.test(line) ||
+    LIST_ITEM.test(line) ||
+    !!mathFence(line) ||
+    isTableStart(lines, i)
+  );
+}
+
+/** Splits "[x] rest" off a list item's first line. */
+function taskState(first: string): { checked: boolean | null; text: string } {
+  const m = /^\[([ xX])\][ \t]+/.exec(first);
+  return m ? { checked: m[1] !== " ", text: first.slice(m[0].length) } : { checked: null, text: first };
+}
+
+function parseList(lines: string[], start: number, depth: number): { block: Block; next: number } {
+  const first = LIST_ITEM.exec(lines[start])!;
+  const ordered = /\d/.test(first[2]);
+  const kind = (marker: string) => (/\d/.test(marker) ? `1${marker.slice(-1)}` : marker);
+  const items: ListItem[] = [];
+  let tight = true;
+  let i = start;
+
+  for (let m = LIST_ITEM.exec(lines[i] ?? ""); m && kind(m[2]) === kind(first[2]); m = LIST_ITEM.exec(lines[i] ?? "")) {
+    const gap = m[3]?.length ?? 1;
+    const contentIndent = m[1].length + m[2].length + (gap > 4 || !m[4] ? 1 : gap);
+    const task = taskState(m[4] ?? "");
+    const body = [task.text];
+    let blankBefore = false;
+    i++;
+    while (i < lines.length) {
+      const line = lines[i];
+      if (!line.trim()) {
+        body.push("");
+        blankBefore = true;
+        i++;
+        continue;
+      }
+      const indent = /^ */.exec(line)![0].length;
+      if (indent >= contentIndent) {
+        if (blankBefore && body.some((l) => l.trim())) tight = false;
+        body.push(line.slice(contentIndent));
+        blankBefore = false;
+        i++;
+        continue;
+      }
+      if (blankBefore || startsBlock(lines, i)) break;
+      body.push(line.trim());
+      i++;
+    }
+    while (body.length > 1 && !body[body.length - 1].trim()) body.pop();
+    if (blankBefore && LIST_ITEM.test(lines[i] ?? "")) tight = false;
+    items.push({ checked: task.checked, children: parseBlocks(body, depth + 1) });
+  }
+
+  return { block: { type: "list", ordered, start: ordered ? parseInt(first[2], 10) : 1, tight, items }, next: i };
+}
+
+/** Source as one paragraph of literal text, for content nested past MAX_NESTING. */
+function plainParagraph(src: string): Block[] {
+  const children: Inline[] = [];
+  src.split("\n").forEach((line, i) => {
+    if (i) children.push({ type: "break" });
+    if (line) children.push({ type: "text", text: line });
+  });
+  return children.length ? [{ type: "paragraph", children }] : [];
+}
+
+function parseBlocks(lines: string[], depth = 0): Block[] {
+  if (depth >= MAX_NESTING) return plainParagraph(lines.join("\n").trim());
+  const blocks: Block[] = [];
+  let i = 0;
+  while (i < lines.length) {
+    const line = lines[i];
+    let m: RegExpExecArray | null;
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    if ((m = FENCE.exec(line))) {
+      const [, indent, fence, lang] = m;
+      const body: string[] = [];
+      const closes = (l: string) => new RegExp(`^ {0,3}${fence[0] === "`" ? "`" : "~"}{${fence.length},}\\s*$`).test(l);
+      for (i++; i < lines.length && !closes(lines[i]); i++) {
+        body.push(lines[i].replace(new RegExp(`^ {0,${indent.length}}`), ""));
+      }
+      if (i++ >= lines.length) while (body.length && !body[body.length - 1].trim()) body.pop();
+      blocks.push({ type: "code", lang: lang.toLowerCase(), text: body.join("\n") });
+      continue;
+    }
+
+    const math = mathFence(line);
+    if (math) {
+      const [open, close] = math;
+      const after = line.trimStart().slice(open.length);
+      const end = after.indexOf(close);
+      if (end !== -1) {
+        blocks.push({ type: "math", tex: after.slice(0, end).trim() });
+        i++;
+        continue;
+      }
+      const body = [after];
+      for (i++; i < lines.length && !lines[i].includes(close); i++) body.push(lines[i]);
+      if (i < lines.length) body.push(lines[i].slice(0, lines[i].indexOf(close)));
+      i++;
+      blocks.push({ type: "math", tex: body.join("\n").trim() });
+      continue;
+    }
+
+    if ((m = HEADING.exec(line))) {
+      const level = m[1].length as 1 | 2 | 3 | 4 | 5 | 6;
+      blocks.push({ type: "heading", level, children: parseInline(m[2] ?? "") });
+      i++;
+      continue;
+    }
+
+    if (RULE.test(line)) {
+      blocks.push({ type: "hr" });
+      i++;
+      continue;
+    }
+
+    if (QUOTE.test(line)) {
+      const body: string[] = [];
+      for (; i < lines.length && QUOTE.test(lines[i]); i++) body.push(lines[i].replace(QUOTE, ""));
+      blocks.push({ type: "blockquote", children: parseBlocks(body, depth + 1) });
+      continue;
+    }
+
+    if (isTableStart(lines, i)) {
+      const header = splitRow(line);
+      const align = splitRow(lines[i + 1]).map((cell): TableAlignment | null => {
+        const left = cell.startsWith(":");
+        const right = cell.endsWith(":");
+        return left && right ? "center" : right ? "right" : left ? "left" : null;
+      });
+      const rows: string[][] = [];
+      for (i += 2; i < lines.length && lines[i].trim() && lines[i].includes("|"); i++) rows.push(splitRow(lines[i]));
+      const width = header.length;
+      const fit = (cells: string[]) => Array.from({ length: width }, (_, c) => parseInline(cells[c] ?? ""));
+      blocks.push({ type: "table", align: align.slice(0, width), header: fit(header), rows: rows.map(fit) });
+      continue;
+    }
+
+    if (LIST_ITEM.test(line)) {
+      const { block, next } = parseList(lines, i, depth);
+      blocks.push(block);
+      i = next;
+      continue;
+    }
+
+    const paragraph = [line.trimStart()];
+    for (i++; i < lines.length && lines[i].trim(); i++) {
+      const setext = SETEXT.exec(lines[i]);
+      if (setext) {
+        blocks.push({ type: "heading", level: setext[1][0] === "=" ? 1 : 2, children: parseInline(paragraph.join("\n")) });
+        paragraph.length = 0;
+        i++;
+        break;
+      }
+      if (startsBlock(lines, i)) break;
+      paragraph.push(lines[i].trimStart());
+    }
+    if (paragraph.length) blocks.push({ type: "paragraph", children: parseInline(paragraph.join("\n").trimEnd()) });
+  }
+  return blocks;
+}
+
+/** Parses a whole document. Unclosed fences run to the end, so half-streamed answers render sensibly. */
+export function parseMarkdown(src: string): Block[] {
+  return parseBlocks(src.replace(/\r\n?/g, "\n").replace(/\t/g, "    ").split("\n"));
+}
@@ -0,0 +1,48 @@
+/**
+ * lib/markdown/types.ts
+ * The document tree the Markdown parser produces. There is no raw-HTML node:
+ * tags in the source stay text, so rendering the tree can never inject markup.
+ */
+
+export type Inline =
+  | { type: "text"; text: string }
+  | { type: "strong" | "em" | "strike"; children: Inline[] }
+  | { type: "code"; text: string }
+  | { type: "math"; tex: string }
+  /** `href` has passed isSafeUrl. */
+  | { type: "link"; href: string; children: Inline[] }
+  | { type: "break" };
+
+export const TABLE_ALIGNMENTS = ["left", "center", "right"] as const;
+
+export type TableAlignment = (typeof TABLE_ALIGNMENTS)[number];
+
+export type ListItem = {
+  /** For task list items ("- [x] ..."); null otherwise. */
+  checked: boolean | null;
+  children: Block[];
+};
+
+export type Block =
+  | { type: "paragraph"; children: Inline[] }
+  | { type: "heading"; level: 1 | 2 | 3 | 4 | 5 | 6; children: Inline[] }
+  | { type: "code"; lang: string; text: string }
+  | { type: "math"; tex: string }
+  /** Tight lists (no blank lines between items) render their paragraphs without spacing. */
+  | { type: "list"; ordered: boolean; start: number; tight: boolean; items: ListItem[] }
+  | { type: "blockquote"; children: Block[] }
+  | { type: "table"; align: (TableAlignment | null)[]; header: Inline[][]; rows: Inline[][][] }
+  | { type: "hr" };
+
+export const HIGHLIGHT_TOKENS = ["plain", "keyword", "string", "number", "comment", "literal"] as const;
+
+export type HighlightTokenType = (typeof HIGHLIGHT_TOKENS)[number];
+
+export type HighlightToken = { type: HighlightTokenType; text: string };
+
+/** A TeX formula as nested pieces; letters are `variable` text so they can be set in italics. */
+export type MathNode =
+  | { type: "text"; text: string; variable?: boolean }
+  | { type: "frac"; num: MathNode[]; den: MathNode[] }
+  | { type: "sqrt"; children: MathNode[] }
+  | { type: "sup" | "sub"; children: MathNode[] };
@@ -0,0 +1,186 @@
+/**
+ * lib/ollama/client.ts
+ * Minimal client for a local Ollama server's /api/chat endpoint, shared by
+ * the chat assistant and the categoriser. Configured from the environment:
+ * - FINANCE_OLLAMA_URL (default http://localhost:11434)
+ * - FINANCE_OLLAMA_MODEL: the model to chat with (default llama3.1). The
+ *   assistant offers it ledger tools, so pick one that supports tool calling;
+ *   with one that does not, the assistant answers without looking anything up.
+ * - FINANCE_OLLAMA_CONTEXT: the context window to load the model with, in
+ *   tokens (default 8192; larger windows need more memory)
+ */
+
+export type OllamaRole = "system" | "user" | "assistant" | "tool";
+
+/** A function call requested by the model; `arguments` is already parsed. */
+export type OllamaToolCall = { function: { name: string; arguments: Record<string, unknown> } };
+
+export type OllamaMessage = {
+  role: OllamaRole;
+  content: string;
+  /** On assistant messages that ask for tools to be run. */
+  tool_calls?: OllamaToolCall[];
+  /** On "tool" messages: the function whose result `content` carries. */
+  tool_name?: string;
+};
+
+/** A function the model may call, described by a JSON schema for its arguments. */
+export type OllamaTool = {
+  type: "function";
+  function: { name: string; description: string; parameters: Record<string, unknown> };
+};
+
+/** Sampling options passed through to the model (see Ollama's Modelfile parameters). */
+export type OllamaOptions = {
+  temperature?: number;
+  num_predict?: number;
+  top_p?: number;
+  /** Context window to load the model with; Ollama's own default is smaller than most models allow. */
+  num_ctx?: number;
+};
+
+export type OllamaChatRequest = {
+  messages: OllamaMessage[];
+  /** "json", or a JSON schema the answer must follow. */
+  format?: "json" | Record<string, unknown>;
+  options?: OllamaOptions;
+  /** Functions the model may call instead of answering (needs a tool-capable model such as llama3.1). */
+  tools?: OllamaTool[];
+  model?: string;
+  signal?: AbortSignal;
+};
+
+/** Thrown when Ollama is unreachable or answers with an error status. */
+export class OllamaError extends Error {
+  constructor(message: string, readonly status?: number) {
+    super(message);
+    this.name = "OllamaError";
+  }
+}
+
+export function ollamaConfig(env: NodeJS.ProcessEnv = process.env) {
+  return {
+    url: (env.FINANCE_OLLAMA_URL || "http://localhost:11434").replace(/\/+$/, ""),
+    model: env.FINANCE_OLLAMA_MODEL || "llama3.1",
+    contextWindow: Number(env.FINANCE_OLLAMA_CONTEXT) > 0 ? Math.floor(Number(env.FINANCE_OLLAMA_CONTEXT)) : 8192,
+  };
+}
+
+/** Token counts and model time Ollama reports with its last response chunk. */
+export type OllamaStats = { promptTokens: number; completionTokens: number; durationMs: number };
+
+/** One piece of a streamed answer. Tool calls arrive whole, usually in a chunk of their own. */
+export type OllamaChunk = {
+  content: string;
+  tool_calls?: OllamaToolCall[];
+  done: boolean;
+  /** Only on the final chunk. */
+  stats?: OllamaStats;
+};
+
+async function postChat(request: OllamaChatRequest, stream: boolean): Promise<Response> {
+  const { url, model } = ollamaConfig();
+  let response: Response;
+  try {
+    response = await fetch(`${url}/api/chat`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        model: request.model ?? model,
+        messages: request.messages,
+        format: request.format,
+        options: request.options,
+        tools: request.tools,
+        stream,
+      }),
+      signal: request.signal,
+    });
+  } catch (error) {
+    if (request.signal?.aborted) throw error;
+    throw new OllamaError(`Ollama is not reachable at ${url}`);
+  }
+
+  if (!response.ok) {
+    const detail = await response.text().catch(() => "");
+    // Models without tool support reject the whole request; ask again without the tools.
+    if (response.status === 400 && request.tools?.length && /does not support tools/i.test(detail)) {
+      return postChat({ ...request, tools: undefined }, stream);
+    }
+    throw new OllamaError(`Ollama answered ${response.status}: ${detail}`, response.status);
+  }
+  return response;
+}
+
+/** The parts of Ollama's /api/chat response (or stream line) read here. */
+type ChatResponseBody = {
+  message?: { content?: string; tool_calls?: unknown };
+  done?: boolean;
+  error?: string;
+  prompt_eval_count?: number;
+  eval_count?: number;
+  total_duration?: number;
+};
+
+function toolCallsOf(data: ChatResponseBody): OllamaToolCall[] | undefined {
+  const calls = data.message?.tool_calls;
+  return Array.isArray(calls) && calls.length ? (calls as OllamaToolCall[]) : undefined;
+}
+
+/** Sends one non-streaming chat request and returns the assistant's message, with any tool calls. */
+export async function ollamaChat(request: OllamaChatRequest): Promise<OllamaMessage> {
+  const data: ChatResponseBody = await (await postChat(request, false)).json();
+  const toolCalls = toolCallsOf(data);
+  return {
+    role: "assistant",
+    content: data.message?.content ?? "",
+    ...(toolCalls ? { tool_calls: toolCalls } : {}),
+  };
+}
+
+/**
+ * Streams a chat answer from Ollama's NDJSON response. Aborting
+ * `request.signal`, or returning from the loop early, cancels the upstream
+ * request.
+ */
+export async function* ollamaChatStream(request: OllamaChatRequest): AsyncGenerator<OllamaChunk> {
+  const response = await postChat(request, true);
+  if (!response.body) throw new OllamaError("Ollama sent an empty response");
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let finished = false;
+  try {
+    while (!finished) {
+      const { value, done } = await reader.read();
+      buffer += decoder.decode(value, { stream: !done });
+      const lines = done ? [buffer] : buffer.split("\n");
+      buffer = done ? "" : (lines.pop() ?? "");
+
+      for (const line of lines) {
+        if (!line.trim()) continue;
+        const data: ChatResponseBody = JSON.parse(line);
+        if (data.error) throw new OllamaError(`Ollama failed mid-answer: ${data.error}`);
+        const toolCalls = toolCallsOf(data);
+        const chunk: OllamaChunk = {
+          content: data.message?.content ?? "",
+          ...(toolCalls ? { tool_calls: toolCalls } : {}),
+          done: !!data.done,
+        };
+        if (data.done) {
+          chunk.stats = {
+            promptTokens: data.prompt_eval_count ?? 0,
+            completionTokens: data.eval_count ?? 0,
+            // Ollama reports durations in nanoseconds.
+            durationMs: Math.round((data.total_duration ?? 0) / 1e6),
+          };
+          finished = true;
+        }
+        yield chunk;
+      }
+      if (done) finished = true;
+    }
+  } finally {
+    await reader.cancel().catch(() => {});
+  }
+}
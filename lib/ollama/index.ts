@@ -0,0 +1,6 @@
+/**
+ * lib/ollama
+ * Client for the local Ollama model server.
+ */
+
+export * from "./client";
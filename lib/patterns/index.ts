@@ -0,0 +1,8 @@
+/**
+ * lib/patterns
+ * Spending habits mined from the ledger, each with the confidence of the
+ * test behind it and a suggestion.
+ */
+
+export * from "./types";
+export { mineSpendingPatterns } from "./mine";
@@ -0,0 +1,310 @@
+/**
+ * lib/patterns/mine.ts
+ * Mines the ledger for habits worth pointing out: a weekend/weekday split,
+ * a spike in one part of the month, categories bought in a bad mood more
+ * often than the rest, and categories that grew last month. Each finding
+ * carries the statistic it rests on, so the dashboard only shows what the
+ * data actually supports.
+ */
+
+import { lastMonths, spendAmount, transactionType } from "@/lib/expenses/cashflow";
+import type { Expense, ExpenseMood } from "@/lib/expenses/types";
+import { dailySeries } from "@/lib/forecast/seasonal";
+import { DEFAULT_PATTERN_OPTIONS, type PatternOptions, type SpendingPattern } from "./types";
+
+const DAY_MS = 86_400_000;
+/** A split or spike must differ from the rest by at least this factor. */
+const MIN_RATIO = 1.25;
+/** Share of a category's purchases in a bad mood, above the rest of spending. */
+const MIN_MOOD_GAP = 0.2;
+/** Last month must be this much above the months before it. */
+const MIN_GROWTH = 0.25;
+const NEGATIVE_MOODS: ExpenseMood[] = ["stressed", "regret"];
+
+type Money = (n: number) => string;
+
+const startOfUtcDay = (ms: number) => {
+  const d = new Date(ms);
+  return Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate());
+};
+const mean = (xs: number[]) => (xs.length ? xs.reduce((s, x) => s + x, 0) / xs.length : 0);
+const variance = (xs: number[]) => {
+  const m = mean(xs);
+  return xs.length > 1 ? xs.reduce((s, x) => s + (x - m) ** 2, 0) / (xs.length - 1) : 0;
+};
+const percent = (share: number) => Math.round(share * 100);
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+/** Standard normal CDF (Abramowitz & Stegun 7.1.26, error below 1.5e-7). */
+function normalCdf(z: number): number {
+  const t = 1 / (1 + (0.3275911 * Math.abs(z)) / Math.SQRT2);
+  const poly = t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+  const erf = 1 - poly * Math.exp(-(z * z) / 2);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+/** 100 × (1 − p) for a two-sided test, capped at 99. */
+const confidenceFromZ = (z: number) => Math.min(99, Math.round(100 * (2 * normalCdf(Math.abs(z)) - 1)));
+
+/**
+ * Welch's t statistic for a difference in means. The samples here are tens
+ * of days, so its p-value is read off the normal distribution.
+ */
+function welch(a: number[], b: number[]): number {
+  const se = Math.sqrt(variance(a) / a.length + variance(b) / b.length);
+  return se > 0 ? (mean(a) - mean(b)) / se : 0;
+}
+
+/** Slope and R² of a least-squares line through `ys` at x = 0, 1, 2, ... */
+function trendFit(ys: number[]): { slope: number; r2: number } {
+  const xs = ys.map((_, i) => i);
+  const mx = mean(xs);
+  const my = mean(ys);
+  const sxy = xs.reduce((s, x, i) => s + (x - mx) * (ys[i] - my), 0);
+  const sxx = xs.reduce((s, x) => s + (x - mx) ** 2, 0);
+  const syy = ys.reduce((s, y) => s + (y - my) ** 2, 0);
+  return { slope: sxx ? sxy / sxx : 0, r2: sxx && syy ? (sxy * sxy) / (sxx * syy) : 0 };
+}
+
+/** Days of history actually covered: from the first spending in the window to `end`. */
+function coveredDays(expenses: Expense[], end: Date, historyDays: number): number {
+  const last = startOfUtcDay(+end);
+  const first = expenses.reduce((min, e) => {
+    const t = startOfUtcDay(+new Date(e.date));
+    return spendAmount(e) > 0 && t <= last && t < min ? t : min;
+  }, last + DAY_MS);
+  return Math.min(historyDays, Math.max(0, Math.round((last - first) / DAY_MS) + 1));
+}
+
+/**
+ * Categories ranked by how much more they cost per day inside `inGroup`
+ * days than outside them. Only positive gaps are kept.
+ */
+function driverCategories(expenses: Expense[], end: Date, days: number, inGroup: (t: number) => boolean): string[] {
+  const last = startOfUtcDay(+end);
+  const first = last - (days - 1) * DAY_MS;
+  let groupDays = 0;
+  for (let t = first; t <= last; t += DAY_MS) if (inGroup(t)) groupDays++;
+  if (!groupDays || groupDays === days) return [];
+
+  const gaps = new Map<string, number>();
+  for (const e of expenses) {
+    const t = startOfUtcDay(+new Date(e.date));
+    if (t < first || t > last) continue;
+    const perDay = inGroup(t) ? spendAmount(e) / groupDays : -spendAmount(e) / (days - groupDays);
+    gaps.set(e.category, (gaps.get(e.category) ?? 0) + perDay);
+  }
+  return [...gaps].filter(([, gap]) => gap > 0).sort((a, b) => b[1] - a[1]).map(([c]) => c);
+}
+
+const listOf = (items: string[]) => (items.length > 1 ? `${items.slice(0, -1).join(", ")} and ${items.at(-1)}` : items[0] ?? "");
+
+function weekendSplit(expenses: Expense[], opts: Required<PatternOptions>, money: Money): SpendingPattern | null {
+  const days = coveredDays(expenses, opts.end, opts.historyDays);
+  if (days < 14) return null;
+  const last = startOfUtcDay(+opts.end);
+  const isWeekend = (t: number) => [0, 6].includes(new Date(t).getUTCDay());
+  const series = dailySeries(expenses, opts.end, days);
+  const dayOf = (i: number) => last - (days - 1 - i) * DAY_MS;
+  const weekend = series.filter((_, i) => isWeekend(dayOf(i)));
+  const weekday = series.filter((_, i) => !isWeekend(dayOf(i)));
+  const weekendAvg = mean(weekend);
+  const weekdayAvg = mean(weekday);
+  if (weekendAvg <= 0 || weekdayAvg <= 0) return null;
+
+  const ratio = weekendAvg / weekdayAvg;
+  if (ratio < MIN_RATIO && ratio > 1 / MIN_RATIO) return null;
+  const weekendHeavy = ratio > 1;
+  const drivers = driverCategories(expenses, opts.end, days, weekendHeavy ? isWeekend : (t) => !isWeekend(t)).slice(0, 2);
+  const mostly = drivers.length ? `, mostly on ${listOf(drivers)}` : "";
+  const confidence = confidenceFromZ(welch(weekend, weekday));
+
+  if (weekendHeavy) {
+    return {
+      id: "weekend-split",
+      kind: "weekend-split",
+      pattern: "Weekend splurging",
+      description: `You spend ${percent(ratio - 1)}% more per day on weekends (${money(weekendAvg)} vs ${money(weekdayAvg)} on weekdays)${mostly}.`,
+      suggestion: `Set a weekend allowance of about ${money(weekdayAvg * 2.2)} (two weekday-sized days plus 10%) and plan ${drivers[0] ?? "outings"} ahead rather than on the day.`,
+      confidence,
+      effect: round2(ratio),
+    };
+  }
+  return {
+    id: "weekend-split",
+    kind: "weekend-split",
+    pattern: "Weekday-driven spending",
+    description: `You spend ${percent(1 / ratio - 1)}% more per day on weekdays (${money(weekdayAvg)} vs ${money(weekendAvg)} at weekends)${mostly}.`,
+    suggestion: `Routine weekday costs add up: look for a cheaper default for ${drivers[0] ?? "daily purchases"} that you can repeat every day.`,
+    confidence,
+    effect: round2(ratio),
+  };
+}
+
+const MONTH_PARTS = [
+  {
+    key: "start",
+    label: "1st–10th",
+    title: "Start-of-month spike",
+    contains: (day: number) => day <= 10,
+    suggestion: "Bills and payday purchases land together. Move flexible purchases later in the month, or split the month's budget into weekly amounts.",
+  },
+  {
+    key: "mid",
+    label: "11th–20th",
+    title: "Mid-month spike",
+    contains: (day: number) => day > 10 && day <= 20,
+    suggestion: "Spending peaks between paydays. Set a mid-month buffer aside on payday, or hold non-essential purchases until the 21st.",
+  },
+  {
+    key: "end",
+    label: "21st onwards",
+    title: "End-of-month spike",
+    contains: (day: number) => day > 20,
+    suggestion: "Month-end spending runs hot. Check what is left of your budgets around the 20th and postpone what can wait.",
+  },
+] as const;
+
+function monthTiming(expenses: Expense[], opts: Required<PatternOptions>, money: Money): SpendingPattern | null {
+  const days = coveredDays(expenses, opts.end, opts.historyDays);
+  if (days < 28) return null;
+  const last = startOfUtcDay(+opts.end);
+  const series = dailySeries(expenses, opts.end, days);
+  const dayOfMonth = (i: number) => new Date(last - (days - 1 - i) * DAY_MS).getUTCDate();
+
+  const candidates = MONTH_PARTS.map((part) => {
+    const inside = series.filter((_, i) => part.contains(dayOfMonth(i)));
+    const outside = series.filter((_, i) => !part.contains(dayOfMonth(i)));
+    return { part, inside, outside, ratio: mean(outside) > 0 ? mean(inside) / mean(outside) : 0 };
+  });
+  const best = candidates.sort((a, b) => b.ratio - a.ratio)[0];
+  if (best.ratio < MIN_RATIO) return null;
+
+  const drivers = driverCategories(expenses, opts.end, days, (t) => best.part.contains(new Date(t).getUTCDate())).slice(0, 2);
+  return {
+    id: `month-timing:${best.part.key}`,
+    kind: "month-timing",
+    pattern: best.part.title,
+    description:
+      `Days ${best.part.label} average ${money(mean(best.inside))} of spending, ` +
+      `${percent(best.ratio - 1)}% more than the rest of the month (${money(mean(best.outside))})` +
+      `${drivers.length ? `, led by ${listOf(drivers)}` : ""}.`,
+    suggestion: best.part.suggestion,
+    confidence: confidenceFromZ(welch(best.inside, best.outside)),
+    effect: round2(best.ratio),
+  };
+}
+
+/**
+ * Categories where purchases tagged "stressed" or "regret" are more common
+ * than in the rest of spending, by a two-proportion z-test.
+ */
+function moodCategories(expenses: Expense[], opts: Required<PatternOptions>): SpendingPattern[] {
+  const last = +opts.end;
+  const since = last - opts.historyDays * DAY_MS;
+  const tagged = expenses.filter((e) => {
+    const t = +new Date(e.date);
+    return transactionType(e) === "expense" && e.mood && t >= since && t <= last;
+  });
+  if (tagged.length < 10) return [];
+
+  const isNegative = (e: Expense) => NEGATIVE_MOODS.includes(e.mood as ExpenseMood);
+  const categories = [...new Set(tagged.map((e) => e.category))];
+  const findings: SpendingPattern[] = [];
+
+  for (const category of categories) {
+    const inside = tagged.filter((e) => e.category === category);
+    const outside = tagged.filter((e) => e.category !== category);
+    const negativeInside = inside.filter(isNegative);
+    const negativeOutside = outside.filter(isNegative).length;
+    if (inside.length < 5 || outside.length < 5 || negativeInside.length < 3) continue;
+
+    const p1 = negativeInside.length / inside.length;
+    const p2 = negativeOutside / outside.length;
+    if (p1 - p2 < MIN_MOOD_GAP) continue;
+    const pooled = (negativeInside.length + negativeOutside) / tagged.length;
+    const se = Math.sqrt(pooled * (1 - pooled) * (1 / inside.length + 1 / outside.length));
+    const stressed = negativeInside.filter((e) => e.mood === "stressed").length;
+    const mostlyStress = stressed * 2 >= negativeInside.length;
+
+    findings.push({
+      id: `mood-category:${category}`,
+      kind: "mood-category",
+      category,
+      pattern: mostlyStress ? `Stress-linked ${category}` : `Regretted ${category} purchases`,
+      description:
+        `${percent(p1)}% of your ${category} purchases are tagged stressed or regret, ` +
+        `against ${percent(p2)}% of your other spending (${inside.length} mood-tagged ${category} purchases).`,
+      suggestion: mostlyStress
+        ? `When you feel stressed, wait a day before a ${category} purchase or pick a cheaper way to unwind.`
+        : `Before a ${category} purchase, check it against your budget and sleep on it: these are the ones you regret most.`,
+      confidence: se > 0 ? confidenceFromZ((p1 - p2) / se) : 0,
+      effect: round2(p1 - p2),
+    });
+  }
+  return findings;
+}
+
+function categoryGrowth(expenses: Expense[], opts: Required<PatternOptions>, money: Money): SpendingPattern[] {
+  // Complete months only: the current one is still filling up.
+  const months = lastMonths(opts.growthMonths + 1, opts.end.toISOString().slice(0, 7)).slice(0, -1);
+  const totals = new Map<string, number[]>();
+  for (const e of expenses) {
+    const index = months.indexOf(e.date.slice(0, 7));
+    if (index === -1) continue;
+    const series = totals.get(e.category) ?? new Array<number>(months.length).fill(0);
+    series[index] += spendAmount(e);
+    totals.set(e.category, series);
+  }
+  const lastMonthTotal = [...totals.values()].reduce((s, series) => s + Math.max(0, series.at(-1)!), 0);
+  const monthName = new Date(`${months.at(-1)}-01T00:00:00Z`).toLocaleString("en", { month: "long", timeZone: "UTC" });
+  const findings: SpendingPattern[] = [];
+
+  for (const [category, series] of totals) {
+    if (series.filter((v) => v > 0).length < 3) continue;
+    const latest = series.at(-1)!;
+    const before = mean(series.slice(-3, -1));
+    if (before <= 0) continue;
+    const growth = latest / before - 1;
+    // Ignore big percentages on small amounts.
+    if (growth < MIN_GROWTH || latest - before < lastMonthTotal * 0.05) continue;
+
+    const { slope, r2 } = trendFit(series);
+    if (slope <= 0) continue;
+    let streak = 0;
+    for (let i = series.length - 1; i > 0 && series[i] > series[i - 1]; i--) streak++;
+
+    findings.push({
+      id: `category-growth:${category}`,
+      kind: "category-growth",
+      category,
+      pattern: `${category} is growing`,
+      description:
+        `${category} rose ${percent(growth)}% in ${monthName} to ${money(latest)}, against an average of ${money(before)} in the two months before` +
+        `${streak >= 2 ? `; it has grown ${streak} months running` : ""}.`,
+      suggestion: `Set a ${category} budget of about ${money(before)} for next month to bring it back to your earlier level.`,
+      confidence: Math.min(99, Math.round(r2 * 100)),
+      effect: round2(growth),
+    });
+  }
+  return findings;
+}
+
+/**
+ * Every finding at or above `minConfidence`, most confident first. The same
+ * ledger always gives the same findings.
+ */
+export function mineSpendingPatterns(expenses: Expense[], options: Partial<PatternOptions> = {}): SpendingPattern[] {
+  const opts: Required<PatternOptions> = { ...DEFAULT_PATTERN_OPTIONS, ...options, end: options.end ?? new Date() };
+  const format = new Intl.NumberFormat("en", { style: "currency", currency: opts.currency, maximumFractionDigits: 0 });
+  const money: Money = (n) => format.format(n);
+
+  return [
+    weekendSplit(expenses, opts, money),
+    monthTiming(expenses, opts, money),
+    ...moodCategories(expenses, opts),
+    ...categoryGrowth(expenses, opts, money),
+  ]
+    .filter((p): p is SpendingPattern => p !== null && p.confidence >= opts.minConfidence)
+    .sort((a, b) => b.confidence - a.confidence);
+}
@@ -0,0 +1,45 @@
+/**
+ * lib/patterns/types.ts
+ * Findings mined from the ledger (see ./mine.ts), as returned by
+ * /api/patterns and shown in the dashboard's Spending Insights card.
+ */
+
+export const PATTERN_KINDS = ["weekend-split", "month-timing", "mood-category", "category-growth"] as const;
+
+export type PatternKind = (typeof PATTERN_KINDS)[number];
+
+export type SpendingPattern = {
+  /** Stable across refreshes, e.g. "mood-category:Shopping". */
+  id: string;
+  kind: PatternKind;
+  /** Short title, e.g. "Weekend splurging". */
+  pattern: string;
+  /** What was measured, with the numbers behind it. */
+  description: string;
+  suggestion: string;
+  /** 0-100: one minus the p-value of the test behind the finding (R² for growth trends). */
+  confidence: number;
+  /** The headline effect: a ratio for splits and timing, a share difference for moods, a growth rate for categories. */
+  effect: number;
+  category?: string;
+};
+
+export type PatternOptions = {
+  /** Days of history for the weekday, timing and mood findings. */
+  historyDays: number;
+  /** Complete months compared for category growth. */
+  growthMonths: number;
+  /** Findings below this confidence are dropped. */
+  minConfidence: number;
+  /** ISO 4217 code used in descriptions. */
+  currency: string;
+  /** Last day of history; defaults to now. */
+  end?: Date;
+};
+
+export const DEFAULT_PATTERN_OPTIONS: PatternOptions = {
+  historyDays: 90,
+  growthMonths: 4,
+  minConfidence: 60,
+  currency: "INR",
+};
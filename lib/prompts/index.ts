@@ -0,0 +1,10 @@
+/**
+ * lib/prompts
+ * The user's library of prompt templates for the assistant.
+ */
+
+export * from "./types";
+export * from "./repository";
+export { fillTemplate, matchTemplates, promptFolders, resolveAutoVariables, templateVariables } from "./template";
+export { exportPromptTemplates } from "./transfer";
+export { PROMPT_LIMITS, validatePromptImport, validatePromptTemplate, validatePromptTemplatePatch } from "./schema";
@@ -0,0 +1,99 @@
+import { randomUUID } from "crypto";
+
+import { getDatabase, type Database, type DatabaseState } from "@/lib/db";
+import type { ValidationResult } from "@/lib/validation";
+import type {
+  NewPromptTemplate,
+  PromptImportResult,
+  PromptTemplate,
+  PromptTemplateImport,
+  PromptTemplatePatch,
+} from "./types";
+
+const commandTaken = (state: DatabaseState, command: string | undefined, exceptId?: string) =>
+  !!command && state.promptTemplates.some((t) => t.command === command && t.id !== exceptId);
+
+const commandConflict = (command: string): ValidationResult<never> => ({
+  ok: false,
+  errors: [{ field: "command", message: `/${command} is already used by another template` }],
+});
+
+/** Every template, by folder then title. */
+export async function listPromptTemplates(db: Database = getDatabase()): Promise<PromptTemplate[]> {
+  return db.read((state) =>
+    [...state.promptTemplates].sort((a, b) => a.folder.localeCompare(b.folder) || a.title.localeCompare(b.title))
+  );
+}
+
+export async function getPromptTemplate(id: string, db: Database = getDatabase()): Promise<PromptTemplate | null> {
+  return db.read((state) => state.promptTemplates.find((t) => t.id === id) ?? null);
+}
+
+export async function createPromptTemplate(
+  input: NewPromptTemplate,
+  db: Database = getDatabase()
+): Promise<ValidationResult<PromptTemplate>> {
+  return db.write((state) => {
+    if (commandTaken(state, input.command)) return commandConflict(input.command!);
+    const now = new Date().toISOString();
+    const template: PromptTemplate = { ...input, id: randomUUID(), createdAt: now, updatedAt: now };
+    state.promptTemplates.push(template);
+    return { ok: true, value: template };
+  });
+}
+
+/** Null when the template does not exist; a validation failure when the new command is taken. */
+export async function updatePromptTemplate(
+  id: string,
+  patch: PromptTemplatePatch,
+  db: Database = getDatabase()
+): Promise<ValidationResult<PromptTemplate> | null> {
+  return db.write((state) => {
+    const template = state.promptTemplates.find((t) => t.id === id);
+    if (!template) return null;
+    if (commandTaken(state, patch.command, id)) return commandConflict(patch.command!);
+    Object.assign(template, patch, { updatedAt: new Date().toISOString() });
+    for (const key of Object.keys(patch) as (keyof PromptTemplatePatch)[]) {
+      if (patch[key] === undefined) delete template[key];
+    }
+    return { ok: true, value: template };
+  });
+}
+
+export async function deletePromptTemplate(id: string, db: Database = getDatabase()): Promise<boolean> {
+  return db.write((state) => {
+    const before = state.promptTemplates.length;
+    state.promptTemplates = state.promptTemplates.filter((t) => t.id !== id);
+    return state.promptTemplates.length !== before;
+  });
+}
+
+/**
+ * Adds uploaded templates in a single write. Templates already in the
+ * library (same id, or same title and body) are skipped, so importing a file
+ * twice changes nothing; a command that is taken gets a numbered suffix.
+ */
+export async function importPromptTemplates(
+  templates: PromptTemplateImport[],
+  db: Database = getDatabase()
+): Promise<PromptImportResult> {
+  return db.write((state) => {
+    const now = new Date().toISOString();
+    let imported = 0;
+    let skipped = 0;
+    for (const { id, ...fields } of templates) {
+      const duplicate = state.promptTemplates.some(
+        (t) => t.id === id || (t.title === fields.title && t.body === fields.body)
+      );
+      if (duplicate) {
+        skipped++;
+        continue;
+      }
+      let command = fields.command;
+      for (let n = 2; command && commandTaken(state, command); n++) command = `${fields.command}-${n}`;
+      state.promptTemplates.push({ ...fields, command, id: id ?? randomUUID(), createdAt: now, updatedAt: now });
+      imported++;
+    }
+    return { imported, skipped };
+  });
+}
@@ -0,0 +1,155 @@
+/**
+ * lib/prompts/schema.ts
+ * Validation for prompt templates and library imports.
+ */
+
+import { parseExpenseField } from "@/lib/expenses/schema";
+import { isPlainObject, type FieldError, type ValidationResult } from "@/lib/validation";
+import {
+  PROMPT_EXPORT_KIND,
+  PROMPT_EXPORT_VERSION,
+  type NewPromptTemplate,
+  type PromptTemplateFields,
+  type PromptTemplateImport,
+  type PromptTemplatePatch,
+} from "./types";
+
+export const PROMPT_LIMITS = {
+  titleLength: 120,
+  bodyLength: 8000,
+  folderLength: 120,
+  commandLength: 32,
+  idLength: 100,
+  templatesPerImport: 500,
+} as const;
+
+const READ_ONLY_FIELDS = ["id", "createdAt", "updatedAt"];
+/** Lower-case letters, digits and dashes, so it can be typed straight after "/". */
+const COMMAND = /^[a-z0-9][a-z0-9-]*$/;
+
+type FieldParser = (raw: unknown) => { value: unknown } | { error: string };
+
+const nonEmpty = (raw: unknown, max: number): { value: unknown } | { error: string } => {
+  if (typeof raw !== "string" || !raw.trim()) return { error: "must be a non-empty string" };
+  if (raw.trim().length > max) return { error: `must be at most ${max} characters` };
+  return { value: raw.trim() };
+};
+
+const TEMPLATE_PARSERS: { [K in keyof PromptTemplateFields]-?: FieldParser } = {
+  title: (raw) => nonEmpty(raw, PROMPT_LIMITS.titleLength),
+  body: (raw) => nonEmpty(raw, PROMPT_LIMITS.bodyLength),
+  folder: (raw) => {
+    if (typeof raw !== "string") return { error: "must be a string" };
+    const folder = raw
+      .split("/")
+      .map((part) => part.trim())
+      .filter(Boolean)
+      .join("/");
+    if (folder.length > PROMPT_LIMITS.folderLength) return { error: `must be at most ${PROMPT_LIMITS.folderLength} characters` };
+    return { value: folder };
+  },
+  tags: (raw) => parseExpenseField("tags", raw),
+  command: (raw) => {
+    if (typeof raw !== "string") return { error: "must be a string" };
+    const command = raw.trim().replace(/^\//, "").toLowerCase();
+    if (!command) return { value: undefined };
+    if (command.length > PROMPT_LIMITS.commandLength || !COMMAND.test(command)) {
+      return { error: `must be up to ${PROMPT_LIMITS.commandLength} lower-case letters, digits or dashes` };
+    }
+    return { value: command };
+  },
+  favorite: (raw) => (typeof raw === "boolean" ? { value: raw || undefined } : { error: "must be true or false" }),
+};
+
+/** `prefix` names the fields in errors, e.g. "templates[2].". */
+function parseFields(body: Record<string, unknown>, errors: FieldError[], prefix = ""): Record<string, unknown> {
+  const out: Record<string, unknown> = {};
+  for (const [field, raw] of Object.entries(body)) {
+    if (READ_ONLY_FIELDS.includes(field)) continue;
+    if (!(field in TEMPLATE_PARSERS)) {
+      errors.push({ field: prefix + field, message: "is not a recognised template field" });
+      continue;
+    }
+    if (raw === undefined || raw === null) continue;
+    const parsed = TEMPLATE_PARSERS[field as keyof PromptTemplateFields](raw);
+    if ("error" in parsed) errors.push({ field: prefix + field, message: parsed.error });
+    else out[field] = parsed.value;
+  }
+  return out;
+}
+
+function parseTemplate(body: Record<string, unknown>, errors: FieldError[], prefix = ""): NewPromptTemplate {
+  const fields = parseFields(body, errors, prefix) as Partial<NewPromptTemplate>;
+  for (const field of ["title", "body"]) {
+    if (body[field] === undefined || body[field] === null) errors.push({ field: prefix + field, message: "is required" });
+  }
+  return { folder: "", tags: [], ...fields } as NewPromptTemplate;
+}
+
+/** Validates a new template. `title` and `body` are required; `folder` defaults to the top level. */
+export function validatePromptTemplate(body: unknown): ValidationResult<NewPromptTemplate> {
+  if (!isPlainObject(body)) {
+    return { ok: false, errors: [{ field: "body", message: "must be a JSON object" }] };
+  }
+
+  const errors: FieldError[] = [];
+  const template = parseTemplate(body, errors);
+  return errors.length ? { ok: false, errors } : { ok: true, value: template };
+}
+
+/** Validates a PATCH body; `null` clears `command` and `favorite`, the rest cannot be cleared. */
+export function validatePromptTemplatePatch(body: unknown): ValidationResult<PromptTemplatePatch> {
+  if (!isPlainObject(body)) {
+    return { ok: false, errors: [{ field: "body", message: "must be a JSON object" }] };
+  }
+
+  const errors: FieldError[] = [];
+  const patch = parseFields(body, errors);
+  for (const field of Object.keys(TEMPLATE_PARSERS)) {
+    if (body[field] !== null) continue;
+    if (field === "command" || field === "favorite") patch[field] = undefined;
+    else errors.push({ field, message: "cannot be cleared" });
+  }
+  if (!errors.length && !Object.keys(patch).length) {
+    errors.push({ field: "body", message: "must set at least one template field" });
+  }
+  return errors.length ? { ok: false, errors } : { ok: true, value: patch as PromptTemplatePatch };
+}
+
+/**
+ * `{ templates: [{ id?, title, body, folder?, tags?, command?, favorite? }] }`.
+ * A prompt library export is accepted as it is; its `kind` and `version` are checked.
+ */
+export function validatePromptImport(body: unknown): ValidationResult<PromptTemplateImport[]> {
+  if (!isPlainObject(body) || !Array.isArray(body.templates)) {
+    return { ok: false, errors: [{ field: "templates", message: "must be a list of templates" }] };
+  }
+  if (body.templates.length > PROMPT_LIMITS.templatesPerImport) {
+    return {
+      ok: false,
+      errors: [{ field: "templates", message: `must have at most ${PROMPT_LIMITS.templatesPerImport} templates` }],
+    };
+  }
+
+  const errors: FieldError[] = [];
+  if (body.kind !== undefined && body.kind !== PROMPT_EXPORT_KIND) {
+    errors.push({ field: "kind", message: `must be "${PROMPT_EXPORT_KIND}"` });
+  }
+  if (body.version !== undefined && (typeof body.version !== "number" || body.version > PROMPT_EXPORT_VERSION)) {
+    errors.push({ field: "version", message: `must be at most ${PROMPT_EXPORT_VERSION}; the file is from a newer version of the app` });
+  }
+  const templates = body.templates.map((raw, i): PromptTemplateImport => {
+    const prefix = `templates[${i}].`;
+    if (!isPlainObject(raw)) {
+      errors.push({ field: `templates[${i}]`, message: "must be a JSON object" });
+      return { title: "", body: "", folder: "", tags: [] };
+    }
+    const template: PromptTemplateImport = parseTemplate(raw, errors, prefix);
+    if (raw.id !== undefined && raw.id !== null) {
+      if (typeof raw.id === "string" && raw.id.trim() && raw.id.trim().length <= PROMPT_LIMITS.idLength) template.id = raw.id.trim();
+      else errors.push({ field: `${prefix}id`, message: `must be a non-empty string of at most ${PROMPT_LIMITS.idLength} characters` });
+    }
+    return template;
+  });
+  return errors.length ? { ok: false, errors } : { ok: true, value: templates };
+}
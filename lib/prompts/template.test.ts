@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import { fillTemplate, matchTemplates, resolveAutoVariables, templateVariables, type LedgerEntry } from "./template";
+import type { PromptTemplate } from "./types";
+
+describe("fillTemplate", () => {
+  it("fills variables case-insensitively and lists the missing ones", () => {
+    const body = "Spent {{ Total_Spend }} on {{category}} in {{month}}";
+    expect(templateVariables(body)).toEqual(["total_spend", "category", "month"]);
+    expect(fillTemplate(body, { total_spend: "$120", category: " " })).toEqual({
+      text: "Spent $120 on {{category}} in {{month}}",
+      missing: ["category", "month"],
+    });
+  });
+});
+
+describe("resolveAutoVariables", () => {
+  const entries: LedgerEntry[] = [
+    { type: "expense", amount: 100, category: "Food", date: "2025-03-31T23:30:00.000Z" },
+    { type: "expense", amount: 60, category: "Travel", date: "2025-04-02T10:00:00.000Z" },
+    { type: "expense", amount: 40, category: "Food", date: "2025-04-03T10:00:00.000Z" },
+    { type: "refund", amount: 20, category: "Food", date: "2025-04-04T10:00:00.000Z" },
+    { type: "transfer", amount: 500, category: "Savings", date: "2025-04-05T10:00:00.000Z" },
+    { type: "income", amount: 3000, category: "Salary", date: "2025-04-01T00:00:00.000Z" },
+  ];
+
+  it("reads the ledger month by month in UTC", () => {
+    // 00:15 on 1 May in UTC+2 is still April in UTC; the first row is March in UTC.
+    const values = resolveAutoVariables(entries, new Date("2025-04-30T22:15:00.000Z"));
+    expect(values).toMatchObject({
+      month: "April 2025",
+      last_month: "March 2025",
+      today: "2025-04-30",
+      total_spend: "80",
+      last_month_spend: "100",
+      income: "3,000",
+      top_category: "Travel",
+      transaction_count: "5",
+    });
+  });
+
+  it("wraps back into the previous year", () => {
+    expect(resolveAutoVariables([], new Date("2025-01-10T00:00:00.000Z")).last_month).toBe("December 2024");
+  });
+});
+
+describe("matchTemplates", () => {
+  it("puts command matches before other matches", () => {
+    const template = (command: string, title: string) => ({ command, title, folder: "", body: "" }) as PromptTemplate;
+    const templates = [template("summary", "Budget review"), template("budget", "Budget check")];
+    expect(matchTemplates(templates, "bud").map((t) => t.command)).toEqual(["budget", "summary"]);
+  });
+});
@@ -0,0 +1,117 @@
+/**
+ * lib/prompts/template.ts
+ * Filling `{{variables}}` in prompt templates, the values the ledger can
+ * supply by itself, and the lookups behind the composer's slash picker.
+ * Pure functions only, so the chat page can use them directly.
+ */
+
+import { lastMonths, spendAmount, transactionType } from "@/lib/expenses/cashflow";
+import type { Expense } from "@/lib/expenses/types";
+import type { AutoPromptVariable, PromptTemplate } from "./types";
+
+/** `{{ name }}`; names are letters, digits and underscores and match case-insensitively. */
+const VARIABLE = /\{\{\s*([A-Za-z_][A-Za-z0-9_]*)\s*\}\}/g;
+
+/** The variables a template uses, lower-cased, in order of first use. */
+export function templateVariables(body: string): string[] {
+  return [...new Set([...body.matchAll(VARIABLE)].map((m) => m[1].toLowerCase()))];
+}
+
+/**
+ * Replaces each variable with its value. Variables without a (non-blank)
+ * value stay as written and are listed in `missing`.
+ */
+export function fillTemplate(body: string, values: Record<string, string>): { text: string; missing: string[] } {
+  const missing = new Set<string>();
+  const text = body.replace(VARIABLE, (placeholder, raw: string) => {
+    const value = values[raw.toLowerCase()]?.trim();
+    if (value) return value;
+    missing.add(raw.toLowerCase());
+    return placeholder;
+  });
+  return { text, missing: [...missing] };
+}
+
+/** What the ledger needs to provide for the automatic variables. */
+export type LedgerEntry = Pick<Expense, "amount" | "date" | "category" | "type">;
+
+const monthLabel = (month: string) =>
+  new Date(`${month}-01T00:00:00.000Z`).toLocaleString("en-US", { month: "long", year: "numeric", timeZone: "UTC" });
+const plainAmount = (n: number) => n.toLocaleString("en-US", { maximumFractionDigits: 2 });
+
+/**
+ * Values for AUTO_PROMPT_VARIABLES from the ledger as of `now`: this
+ * month's spending, income and biggest category, and last month's spending.
+ * Spending is counted as on the dashboard: refunds subtract, transfers are left out.
+ * Months and `today` are read in UTC, like the ledger's ISO timestamps, so a
+ * row near midnight falls in the same month here as everywhere else.
+ * `category` defaults to the biggest category; the form lets the user change it.
+ */
+export function resolveAutoVariables(
+  entries: LedgerEntry[],
+  now: Date = new Date(),
+  formatAmount: (amount: number) => string = plainAmount
+): Record<AutoPromptVariable, string> {
+  const today = now.toISOString().slice(0, 10);
+  const [lastMonth, thisMonth] = lastMonths(2, today.slice(0, 7));
+
+  let spend = 0;
+  let lastSpend = 0;
+  let income = 0;
+  let count = 0;
+  const byCategory = new Map<string, number>();
+  for (const e of entries) {
+    const key = e.date.slice(0, 7);
+    const spent = spendAmount(e);
+    if (key === thisMonth) {
+      count++;
+      if (transactionType(e) === "income") income += e.amount;
+      spend += spent;
+      if (spent) byCategory.set(e.category, (byCategory.get(e.category) ?? 0) + spent);
+    } else if (key === lastMonth) lastSpend += spent;
+  }
+  const top = [...byCategory].filter(([, amount]) => amount > 0).sort((a, b) => b[1] - a[1])[0]?.[0] ?? "";
+
+  return {
+    month: monthLabel(thisMonth),
+    last_month: monthLabel(lastMonth),
+    today,
+    total_spend: formatAmount(spend),
+    last_month_spend: formatAmount(lastSpend),
+    income: formatAmount(income),
+    top_category: top,
+    category: top,
+    transaction_count: String(count),
+  };
+}
+
+/** Every folder that holds templates, parents included ("A/B" also lists "A"), sorted. */
+export function promptFolders(templates: Pick<PromptTemplate, "folder">[]): string[] {
+  const folders = new Set<string>();
+  for (const { folder } of templates) {
+    const parts = folder.split("/").filter(Boolean);
+    parts.forEach((_, i) => folders.add(parts.slice(0, i + 1).join("/")));
+  }
+  return [...folders].sort((a, b) => a.localeCompare(b));
+}
+
+/**
+ * Templates for the slash picker: `query` is what follows the "/". Commands
+ * starting with it come first, then templates whose command, title, folder or
+ * tags contain it.
+ */
+export function matchTemplates<T extends PromptTemplate>(templates: T[], query: string): T[] {
+  const q = query.trim().toLowerCase();
+  if (!q) return [...templates].sort((a, b) => (a.command ?? a.title).localeCompare(b.command ?? b.title));
+  const rank = (t: T) => {
+    if (t.command?.startsWith(q)) return 0;
+    if (t.title.toLowerCase().startsWith(q)) return 1;
+    const haystack = [t.command ?? "", t.title, t.folder, ...t.tags].join(" ").toLowerCase();
+    return haystack.includes(q) ? 2 : -1;
+  };
+  return templates
+    .map((t) => [t, rank(t)] as const)
+    .filter(([, r]) => r >= 0)
+    .sort((a, b) => a[1] - b[1] || a[0].title.localeCompare(b[0].title))
+    .map(([t]) => t);
+}
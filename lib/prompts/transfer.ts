@@ -0,0 +1,28 @@
+/**
+ * lib/prompts/transfer.ts
+ * The prompt library as a JSON file that /api/prompts/import takes back.
+ */
+
+import type { ExportFile } from "@/lib/export";
+import { PROMPT_EXPORT_KIND, PROMPT_EXPORT_VERSION, type PromptExport, type PromptTemplate } from "./types";
+
+export function exportPromptTemplates(
+  templates: PromptTemplate[],
+  exportedAt: string = new Date().toISOString()
+): ExportFile & { body: string } {
+  const file: PromptExport = {
+    kind: PROMPT_EXPORT_KIND,
+    version: PROMPT_EXPORT_VERSION,
+    exportedAt,
+    templates: templates.map(({ id, title, body, folder, tags, command, favorite }) => ({
+      id,
+      title,
+      body,
+      folder,
+      tags,
+      command,
+      favorite,
+    })),
+  };
+  return { body: JSON.stringify(file, null, 2), contentType: "application/json; charset=utf-8", extension: "json" };
+}
@@ -0,0 +1,66 @@
+/**
+ * lib/prompts/types.ts
+ * The user's prompt library: reusable questions for the assistant with
+ * `{{variables}}` that are filled in from a form or from the ledger before
+ * sending (see template.ts).
+ */
+
+/** Everything a client may set on a template. */
+export type PromptTemplateFields = {
+  title: string;
+  /** The prompt, with `{{variable}}` placeholders. */
+  body: string;
+  /** Slash path such as "Budgeting/Monthly"; "" keeps the template at the top level. */
+  folder: string;
+  tags: string[];
+  /** Name for the composer's slash picker ("budget" is typed as /budget); unique when set. */
+  command?: string;
+  /** Shown as a quick prompt under the composer. */
+  favorite?: boolean;
+};
+
+export type PromptTemplate = PromptTemplateFields & {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type NewPromptTemplate = PromptTemplateFields;
+
+export type PromptTemplatePatch = Partial<PromptTemplateFields>;
+
+/** A template as uploaded for import; the id is kept when it is free. */
+export type PromptTemplateImport = NewPromptTemplate & { id?: string };
+
+export type PromptImportResult = {
+  imported: number;
+  /** Templates already in the library (same id, or same title and body). */
+  skipped: number;
+};
+
+/** Marks a JSON file as a prompt library export; `version` changes when the layout does. */
+export const PROMPT_EXPORT_KIND = "finance-assistant-prompts";
+export const PROMPT_EXPORT_VERSION = 1;
+
+/** The JSON export, which /api/prompts/import accepts as it is. */
+export type PromptExport = {
+  kind: typeof PROMPT_EXPORT_KIND;
+  version: typeof PROMPT_EXPORT_VERSION;
+  exportedAt: string;
+  templates: PromptTemplateImport[];
+};
+
+/** Variables the page can fill from the ledger without asking. */
+export const AUTO_PROMPT_VARIABLES = [
+  "month",
+  "last_month",
+  "today",
+  "total_spend",
+  "last_month_spend",
+  "income",
+  "top_category",
+  "category",
+  "transaction_count",
+] as const;
+
+export type AutoPromptVariable = (typeof AUTO_PROMPT_VARIABLES)[number];
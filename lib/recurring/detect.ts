@@ -0,0 +1,135 @@
+/**
+ * lib/recurring/detect.ts
+ * Finds subscriptions in expense history: rows with the same normalised
+ * title, near-constant amounts and regular gaps between dates.
+ */
+
+import { transactionType } from "@/lib/expenses/cashflow";
+import type { Expense } from "@/lib/expenses/types";
+import { monthlyEquivalent, occurrenceDate } from "./schedule";
+import type { RecurrenceFrequency, RecurringRule, SubscriptionCandidate } from "./types";
+
+const DAY_MS = 86_400_000;
+
+/** Accepted gap (in days) around each frequency's period. */
+const PERIODS: { frequency: RecurrenceFrequency; days: number; min: number; max: number; minOccurrences: number }[] = [
+  { frequency: "daily", days: 1, min: 0.5, max: 1.5, minOccurrences: 5 },
+  { frequency: "weekly", days: 7, min: 5, max: 9, minOccurrences: 3 },
+  { frequency: "monthly", days: 30.44, min: 26, max: 35, minOccurrences: 3 },
+  { frequency: "yearly", days: 365.25, min: 350, max: 380, minOccurrences: 2 },
+];
+
+/** Amounts within this fraction of the median count as "the same price". */
+const AMOUNT_TOLERANCE = 0.15;
+
+/** Share of gaps and amounts that must be regular for a pattern to qualify. */
+const MIN_REGULARITY = 0.75;
+
+const MONTH_WORDS =
+  /\b(jan(uary)?|feb(ruary)?|mar(ch)?|apr(il)?|may|june?|july?|aug(ust)?|sep(t(ember)?)?|oct(ober)?|nov(ember)?|dec(ember)?)\b/g;
+
+/** "Netflix - March 2025 #4411" and "NETFLIX april" both become "netflix". */
+export function normalizeTitle(title: string): string {
+  return title
+    .toLowerCase()
+    .replace(MONTH_WORDS, " ")
+    .replace(/[^a-z\s]/g, " ")
+    .split(/\s+/)
+    .filter((w) => w.length > 1)
+    .join(" ");
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+function classify(gaps: number[]) {
+  const typical = median(gaps);
+  const period = PERIODS.find((p) => typical >= p.min && typical <= p.max);
+  if (!period) return null;
+  const regular = gaps.filter((g) => g >= period.min && g <= period.max).length / gaps.length;
+  return { period, regular };
+}
+
+/**
+ * Proposes subscriptions from expense history. Rows generated by a rule are
+ * ignored; a candidate whose title matches an existing rule carries its
+ * `ruleId` so callers can hide it. Patterns whose last payment is more than
+ * two periods old are treated as cancelled.
+ */
+export function detectSubscriptions(
+  expenses: Expense[],
+  rules: RecurringRule[] = [],
+  now = new Date()
+): SubscriptionCandidate[] {
+  const groups = new Map<string, Expense[]>();
+  for (const e of expenses) {
+    if (transactionType(e) !== "expense" || e.recurringId || !e.title) continue;
+    const key = normalizeTitle(e.title);
+    if (!key) continue;
+    groups.set(key, [...(groups.get(key) ?? []), e]);
+  }
+
+  const ruleByKey = new Map(rules.map((r) => [normalizeTitle(r.title), r.id]));
+  const candidates: SubscriptionCandidate[] = [];
+
+  for (const [key, rows] of groups) {
+    if (rows.length < 2) continue;
+    const sorted = [...rows].sort((a, b) => +new Date(a.date) - +new Date(b.date));
+    const gaps = sorted.slice(1).map((e, i) => (+new Date(e.date) - +new Date(sorted[i].date)) / DAY_MS);
+    const shape = classify(gaps);
+    if (!shape || sorted.length < shape.period.minOccurrences || shape.regular < MIN_REGULARITY) continue;
+
+    const amounts = sorted.map((e) => e.amount);
+    const amount = median(amounts);
+    const steady = amounts.filter((a) => Math.abs(a - amount) <= amount * AMOUNT_TOLERANCE).length / amounts.length;
+    if (steady < MIN_REGULARITY) continue;
+
+    const last = sorted[sorted.length - 1];
+    const sinceLast = (now.getTime() - +new Date(last.date)) / DAY_MS;
+    if (sinceLast > shape.period.max * 2) continue;
+
+    // More occurrences make a pattern more believable, up to a point.
+    const evidence = Math.min(1, sorted.length / (shape.period.minOccurrences + 3));
+    const confidence = Math.round(100 * (0.45 * shape.regular + 0.35 * steady + 0.2 * evidence));
+
+    // Keep the title when every row shares it; otherwise "netflix" → "Netflix".
+    const title = sorted.every((e) => e.title === last.title)
+      ? last.title!
+      : key.replace(/\b\w/g, (c) => c.toUpperCase());
+
+    candidates.push({
+      key,
+      title,
+      category: last.category,
+      amount: Math.round(amount * 100) / 100,
+      frequency: shape.period.frequency,
+      occurrences: sorted.length,
+      lastDate: last.date,
+      nextExpectedDate: occurrenceDate({ startDate: last.date, frequency: shape.period.frequency, interval: 1 }, 1).toISOString(),
+      monthlyCost: Math.round(monthlyEquivalent(amount, shape.period.frequency) * 100) / 100,
+      confidence,
+      ruleId: ruleByKey.get(key),
+    });
+  }
+
+  return candidates.sort((a, b) => b.monthlyCost - a.monthlyCost);
+}
+
+export type CommittedSpend = {
+  /** Per-month total of active expense rules plus untracked subscriptions. */
+  monthly: number;
+  fromRules: number;
+  fromSubscriptions: number;
+};
+
+export function committedMonthlySpend(rules: RecurringRule[], candidates: SubscriptionCandidate[]): CommittedSpend {
+  const fromRules = rules
+    .filter((r) => r.active && r.nextDate !== null && (r.type ?? "expense") === "expense")
+    .reduce((s, r) => s + monthlyEquivalent(r.amount, r.frequency, r.interval), 0);
+  const fromSubscriptions = candidates.filter((c) => !c.ruleId).reduce((s, c) => s + c.monthlyCost, 0);
+  const round = (n: number) => Math.round(n * 100) / 100;
+  return { monthly: round(fromRules + fromSubscriptions), fromRules: round(fromRules), fromSubscriptions: round(fromSubscriptions) };
+}
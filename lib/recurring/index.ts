@@ -0,0 +1,10 @@
+/**
+ * lib/recurring
+ * Recurring rules that write expenses on schedule, and subscription detection.
+ */
+
+export * from "./types";
+export * from "./repository";
+export { committedMonthlySpend, detectSubscriptions, normalizeTitle, type CommittedSpend } from "./detect";
+export { monthlyEquivalent, occurrenceDate } from "./schedule";
+export { validateRecurringRule, validateRecurringRulePatch } from "./schema";
@@ -0,0 +1,119 @@
+import { randomUUID } from "crypto";
+
+import { getDatabase, type Database, type DatabaseState } from "@/lib/db";
+import type { Expense } from "@/lib/expenses/types";
+import { MAX_CATCH_UP, dueOccurrences, nextOccurrence, occurrenceDate } from "./schedule";
+import type { NewRecurringRule, RecurringRule, RecurringRulePatch } from "./types";
+
+/** Writes every due occurrence of `rules` into `state`, returning the new rows. */
+function materialize(state: DatabaseState, rules: RecurringRule[], now: Date): Expense[] {
+  const stamp = new Date().toISOString();
+  const created: Expense[] = [];
+
+  for (const rule of rules) {
+    const due = dueOccurrences(rule, now);
+    if (!due.expenses.length && due.nextDate === rule.nextDate) continue;
+    for (const input of due.expenses) {
+      const expense: Expense = { ...input, id: randomUUID(), createdAt: stamp, updatedAt: stamp };
+      state.expenses.push(expense);
+      created.push(expense);
+    }
+    rule.generated = due.generated;
+    rule.nextDate = due.nextDate;
+    rule.updatedAt = stamp;
+  }
+  return created;
+}
+
+export async function listRecurringRules(db: Database = getDatabase()): Promise<RecurringRule[]> {
+  return db.read((state) =>
+    [...state.recurringRules].sort((a, b) => (a.nextDate ?? "9999").localeCompare(b.nextDate ?? "9999"))
+  );
+}
+
+export async function getRecurringRule(id: string, db: Database = getDatabase()): Promise<RecurringRule | null> {
+  return db.read((state) => state.recurringRules.find((r) => r.id === id) ?? null);
+}
+
+/**
+ * Stores a rule and immediately writes any occurrences already due, so a rule
+ * for rent "since January" back-fills the ledger.
+ */
+export async function createRecurringRule(
+  input: NewRecurringRule,
+  now = new Date(),
+  db: Database = getDatabase()
+): Promise<{ rule: RecurringRule; expenses: Expense[] }> {
+  return db.write((state) => {
+    const stamp = new Date().toISOString();
+    const rule: RecurringRule = {
+      ...input,
+      id: randomUUID(),
+      generated: 0,
+      nextDate: null,
+      source: input.source ?? "manual",
+      createdAt: stamp,
+      updatedAt: stamp,
+    };
+    rule.nextDate = nextOccurrence(rule);
+    state.recurringRules.push(rule);
+    return { rule, expenses: materialize(state, [rule], now) };
+  });
+}
+
+/**
+ * Applies a patch. Schedule changes take effect from the next unwritten
+ * occurrence: occurrences of the new schedule before that point count as
+ * already written, so nothing is generated twice.
+ */
+export async function updateRecurringRule(
+  id: string,
+  patch: RecurringRulePatch,
+  now = new Date(),
+  db: Database = getDatabase()
+): Promise<{ rule: RecurringRule; expenses: Expense[] } | null> {
+  return db.write((state) => {
+    const rule = state.recurringRules.find((r) => r.id === id);
+    if (!rule) return null;
+
+    // Resuming a paused rule skips what fell due while it was paused.
+    const resumed = patch.active === true && !rule.active;
+    const resumeFrom = resumed ? now : new Date(rule.nextDate ?? now);
+    const rescheduled = resumed || ["startDate", "frequency", "interval"].some((f) => f in patch);
+    Object.assign(rule, patch);
+    for (const key of Object.keys(patch) as (keyof RecurringRulePatch)[]) {
+      if (patch[key] === undefined) delete rule[key];
+    }
+
+    if (rescheduled) {
+      let generated = 0;
+      while (generated < MAX_CATCH_UP && occurrenceDate(rule, generated) < resumeFrom) generated++;
+      rule.generated = generated;
+    }
+    rule.nextDate = nextOccurrence(rule);
+    rule.updatedAt = new Date().toISOString();
+    return { rule, expenses: materialize(state, [rule], now) };
+  });
+}
+
+/** Removes a rule. Expenses it already generated stay in the ledger. */
+export async function deleteRecurringRule(id: string, db: Database = getDatabase()): Promise<boolean> {
+  return db.write((state) => {
+    const before = state.recurringRules.length;
+    state.recurringRules = state.recurringRules.filter((r) => r.id !== id);
+    return state.recurringRules.length !== before;
+  });
+}
+
+/**
+ * Writes every occurrence that has come due across all active rules. Runs
+ * before expenses are listed, and from POST /api/recurring/run for schedulers.
+ */
+export async function materializeDueRules(now = new Date(), db: Database = getDatabase()): Promise<Expense[]> {
+  // Cheap check first so ordinary reads do not rewrite the database.
+  const due = await db.read((state) =>
+    state.recurringRules.some((r) => r.active && r.nextDate !== null && new Date(r.nextDate) <= now)
+  );
+  if (!due) return [];
+  return db.write((state) => materialize(state, state.recurringRules.filter((r) => r.active), now));
+}
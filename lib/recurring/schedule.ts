@@ -0,0 +1,85 @@
+import type { NewExpense } from "@/lib/expenses/types";
+import type { RecurrenceFrequency, RecurringRule } from "./types";
+
+const DAY_MS = 86_400_000;
+
+/** Most occurrences written for one rule in one pass, so a bad start date cannot flood the ledger. */
+export const MAX_CATCH_UP = 400;
+
+/**
+ * The n-th occurrence (0-based) of a schedule, counted from the start date
+ * rather than from the previous occurrence, so a rule starting on the 31st
+ * lands on the 28th/29th/30th in short months and returns to the 31st after.
+ */
+export function occurrenceDate(
+  rule: Pick<RecurringRule, "startDate" | "frequency" | "interval">,
+  n: number
+): Date {
+  const start = new Date(rule.startDate);
+  const step = n * rule.interval;
+
+  if (rule.frequency === "daily") return new Date(start.getTime() + step * DAY_MS);
+  if (rule.frequency === "weekly") return new Date(start.getTime() + step * 7 * DAY_MS);
+
+  const months = rule.frequency === "monthly" ? step : step * 12;
+  const year = start.getUTCFullYear();
+  const month = start.getUTCMonth() + months;
+  const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  const d = new Date(start);
+  d.setUTCFullYear(year, month, Math.min(start.getUTCDate(), lastDay));
+  return d;
+}
+
+/** An occurrence is allowed on any part of the end date's day. */
+function withinEnd(date: Date, endDate?: string): boolean {
+  return !endDate || date.toISOString().slice(0, 10) <= endDate.slice(0, 10);
+}
+
+/** The next occurrence at or after index `generated`, or null once past the end date. */
+export function nextOccurrence(rule: Pick<RecurringRule, "startDate" | "frequency" | "interval" | "endDate" | "generated">): string | null {
+  const next = occurrenceDate(rule, rule.generated);
+  return withinEnd(next, rule.endDate) ? next.toISOString() : null;
+}
+
+/**
+ * Occurrences of `rule` due by `now` that have not been written yet, as
+ * ready-to-insert expenses, plus the rule's updated counters.
+ */
+export function dueOccurrences(
+  rule: RecurringRule,
+  now: Date
+): { expenses: NewExpense[]; generated: number; nextDate: string | null } {
+  const expenses: NewExpense[] = [];
+  let generated = rule.generated;
+
+  if (rule.active) {
+    while (expenses.length < MAX_CATCH_UP) {
+      const date = occurrenceDate(rule, generated);
+      if (date > now || !withinEnd(date, rule.endDate)) break;
+      expenses.push({
+        type: rule.type ?? "expense",
+        title: rule.title,
+        amount: rule.amount,
+        category: rule.category,
+        date: date.toISOString(),
+        tags: rule.tags?.length ? rule.tags : undefined,
+        recurringId: rule.id,
+      });
+      generated++;
+    }
+  }
+
+  return { expenses, generated, nextDate: nextOccurrence({ ...rule, generated }) };
+}
+
+const PER_MONTH: Record<RecurrenceFrequency, number> = {
+  daily: 365.25 / 12,
+  weekly: 52.18 / 12,
+  monthly: 1,
+  yearly: 1 / 12,
+};
+
+/** What a schedule costs per month on average. */
+export function monthlyEquivalent(amount: number, frequency: RecurrenceFrequency, interval = 1): number {
+  return (amount * PER_MONTH[frequency]) / Math.max(1, interval);
+}
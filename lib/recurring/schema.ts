@@ -0,0 +1,115 @@
+/**
+ * lib/recurring/schema.ts
+ * Validation for recurring rules. Amount, category, type and tags reuse the
+ * expense parsers so a rule can never describe an expense the API would reject.
+ */
+
+import { parseExpenseField } from "@/lib/expenses/schema";
+import { isPlainObject, type FieldError, type ValidationResult } from "@/lib/validation";
+import {
+  RECURRENCE_FREQUENCIES,
+  type NewRecurringRule,
+  type RecurrenceFrequency,
+  type RecurringRuleFields,
+  type RecurringRulePatch,
+} from "./types";
+
+const MAX_INTERVAL = 365;
+const READ_ONLY_FIELDS = ["id", "generated", "nextDate", "createdAt", "updatedAt"];
+
+type FieldParser = (raw: unknown) => { value: unknown } | { error: string };
+
+const PARSERS: { [K in keyof RecurringRuleFields]-?: FieldParser } = {
+  title: (raw) => {
+    const parsed = parseExpenseField("title", raw);
+    if ("error" in parsed) return parsed;
+    return parsed.value ? parsed : { error: "must be a non-empty string" };
+  },
+  amount: (raw) => parseExpenseField("amount", raw),
+  category: (raw) => parseExpenseField("category", raw),
+  type: (raw) => parseExpenseField("type", raw),
+  tags: (raw) => parseExpenseField("tags", raw),
+  frequency: (raw) =>
+    RECURRENCE_FREQUENCIES.includes(raw as RecurrenceFrequency)
+      ? { value: raw }
+      : { error: `must be one of ${RECURRENCE_FREQUENCIES.join(", ")}` },
+  interval: (raw) =>
+    typeof raw === "number" && Number.isInteger(raw) && raw >= 1 && raw <= MAX_INTERVAL
+      ? { value: raw }
+      : { error: `must be a whole number from 1 to ${MAX_INTERVAL}` },
+  startDate: (raw) => parseExpenseField("date", raw),
+  endDate: (raw) => parseExpenseField("date", raw),
+  active: (raw) => (typeof raw === "boolean" ? { value: raw } : { error: "must be a boolean" }),
+};
+
+const FIELDS = Object.keys(PARSERS) as (keyof RecurringRuleFields)[];
+
+function parseFields(body: Record<string, unknown>, errors: FieldError[]): Record<string, unknown> {
+  const out: Record<string, unknown> = {};
+  for (const [field, raw] of Object.entries(body)) {
+    if (READ_ONLY_FIELDS.includes(field) || field === "source") continue;
+    if (!(FIELDS as string[]).includes(field)) {
+      errors.push({ field, message: "is not a recognised recurring rule field" });
+      continue;
+    }
+    if (raw === undefined || raw === null) continue;
+    const parsed = PARSERS[field as keyof RecurringRuleFields](raw);
+    if ("error" in parsed) errors.push({ field, message: parsed.error });
+    else out[field] = parsed.value;
+  }
+  return out;
+}
+
+function checkEndDate(rule: { startDate?: string; endDate?: string }, errors: FieldError[]) {
+  if (rule.startDate && rule.endDate && rule.endDate.slice(0, 10) < rule.startDate.slice(0, 10)) {
+    errors.push({ field: "endDate", message: "must not be before startDate" });
+  }
+}
+
+/**
+ * Validates a new rule. `title`, `amount` and `frequency` are required;
+ * `interval` defaults to 1, `startDate` to now, `category` to "Other",
+ * `type` to "expense" and `active` to true.
+ */
+export function validateRecurringRule(body: unknown): ValidationResult<NewRecurringRule> {
+  if (!isPlainObject(body)) {
+    return { ok: false, errors: [{ field: "body", message: "must be a JSON object" }] };
+  }
+
+  const errors: FieldError[] = [];
+  const fields = parseFields(body, errors);
+  for (const field of ["title", "amount", "frequency"] as const) {
+    if (body[field] === undefined || body[field] === null) errors.push({ field, message: "is required" });
+  }
+
+  const rule = {
+    type: "expense",
+    category: "Other",
+    interval: 1,
+    startDate: new Date().toISOString(),
+    active: true,
+    ...fields,
+    source: body.source === "detected" ? "detected" : "manual",
+  } as NewRecurringRule;
+  checkEndDate(rule, errors);
+
+  return errors.length ? { ok: false, errors } : { ok: true, value: rule };
+}
+
+/** Validates a PATCH body; `null` clears `endDate` or `tags`, the rest cannot be cleared. */
+export function validateRecurringRulePatch(body: unknown, current?: RecurringRuleFields): ValidationResult<RecurringRulePatch> {
+  if (!isPlainObject(body)) {
+    return { ok: false, errors: [{ field: "body", message: "must be a JSON object" }] };
+  }
+
+  const errors: FieldError[] = [];
+  const patch = parseFields(body, errors);
+  for (const field of FIELDS) {
+    if (body[field] !== null) continue;
+    if (field === "endDate" || field === "tags") patch[field] = undefined;
+    else errors.push({ field, message: "cannot be cleared" });
+  }
+  if (current) checkEndDate({ ...current, ...patch }, errors);
+
+  return errors.length ? { ok: false, errors } : { ok: true, value: patch as RecurringRulePatch };
+}
@@ -0,0 +1,65 @@
+/**
+ * lib/recurring/types.ts
+ * Recurring rules (rent, subscriptions, SIPs) and the subscription candidates
+ * the analyzer proposes from expense history.
+ */
+
+import type { TransactionType } from "@/lib/expenses/types";
+
+export const RECURRENCE_FREQUENCIES = ["daily", "weekly", "monthly", "yearly"] as const;
+
+export type RecurrenceFrequency = (typeof RECURRENCE_FREQUENCIES)[number];
+
+/** Everything a client may set on a rule. */
+export type RecurringRuleFields = {
+  title: string;
+  amount: number;
+  category: string;
+  type?: TransactionType;
+  tags?: string[];
+  frequency: RecurrenceFrequency;
+  /** Every `interval` days/weeks/months/years; 1 unless set. */
+  interval: number;
+  /** First occurrence (ISO). Later occurrences keep its time of day. */
+  startDate: string;
+  /** Last day an occurrence may fall on (ISO); open-ended when missing. */
+  endDate?: string;
+  /** Paused rules keep their schedule but generate nothing. */
+  active: boolean;
+};
+
+export type RecurringRule = RecurringRuleFields & {
+  id: string;
+  /** Occurrences already written to the ledger; the next one is occurrence #generated. */
+  generated: number;
+  /** Next occurrence not yet written (ISO), or null once the rule has ended. */
+  nextDate: string | null;
+  /** "detected" when created from a subscription suggestion. */
+  source: "manual" | "detected";
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type NewRecurringRule = RecurringRuleFields & { source?: RecurringRule["source"] };
+
+export type RecurringRulePatch = Partial<RecurringRuleFields>;
+
+/** A repeating title/amount pattern found in expense history. */
+export type SubscriptionCandidate = {
+  /** Normalised title the rows were grouped by. */
+  key: string;
+  title: string;
+  category: string;
+  /** Median amount across occurrences. */
+  amount: number;
+  frequency: RecurrenceFrequency;
+  occurrences: number;
+  lastDate: string;
+  nextExpectedDate: string;
+  /** `amount` expressed per month, for the committed-spend total. */
+  monthlyCost: number;
+  /** 0–100, from how regular the gaps and amounts are. */
+  confidence: number;
+  /** Id of an existing rule that already covers this pattern. */
+  ruleId?: string;
+};
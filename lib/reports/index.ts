@@ -0,0 +1,8 @@
+/**
+ * lib/reports
+ * Generated statements built from stored expenses.
+ */
+
+export * from "./monthly";
+export { renderMonthlyReportPdf } from "./monthly-pdf";
+export { validateMonthlyReportRequest, type MonthlyReportRequest } from "./schema";
@@ -0,0 +1,202 @@
+import { PdfDocument, type PdfColor } from "@/lib/export";
+import type { MonthlyReport } from "./monthly";
+
+const MARGIN = 40;
+const SLICE_COLORS = ["#6366f1", "#10b981", "#f59e0b", "#ef4444", "#3b82f6", "#ec4899", "#14b8a6", "#8b5cf6", "#84cc16"];
+const STATUS_COLORS: Record<MonthlyReport["budgets"][number]["status"], PdfColor> = {
+  ok: "#10b981",
+  warning: "#f59e0b",
+  over: "#ef4444",
+};
+
+// Standard fonts cannot draw the rupee sign, so rupee amounts use "Rs." and
+// other currencies their ISO code.
+const money = (n: number, currency: string) =>
+  currency === "INR"
+    ? `Rs. ${Math.round(n).toLocaleString("en-IN")}`
+    : `${currency} ${Math.round(n).toLocaleString("en-US")}`;
+
+function monthLabel(month: string): string {
+  const [year, m] = month.split("-").map(Number);
+  return new Date(Date.UTC(year, m - 1, 1)).toLocaleDateString("en-IN", { month: "long", year: "numeric", timeZone: "UTC" });
+}
+
+function truncate(pdf: PdfDocument, text: string, width: number, size: number): string {
+  if (pdf.textWidth(text, size) <= width) return text;
+  let out = text;
+  while (out.length > 1 && pdf.textWidth(`${out}...`, size) > width) out = out.slice(0, -1);
+  return `${out}...`;
+}
+
+function sectionTitle(pdf: PdfDocument, y: number, title: string): number {
+  pdf.text(MARGIN, y, title, { size: 13, bold: true });
+  pdf.rect(MARGIN, y + 18, pdf.width - MARGIN * 2, 0.8, "#e5e7eb");
+  return y + 28;
+}
+
+function drawHeader(pdf: PdfDocument, report: MonthlyReport): number {
+  pdf.rect(0, 0, pdf.width, 86, "#4f46e5");
+  pdf.text(MARGIN, 24, `Monthly Statement - ${monthLabel(report.month)}`, { size: 20, bold: true, color: "#ffffff" });
+  const scope = [
+    report.filters.category ? `Category: ${report.filters.category}` : "All categories",
+    report.filters.q ? `Search: "${report.filters.q}"` : "",
+    `Generated ${new Date(report.generatedAt).toLocaleString("en-IN", { timeZone: "UTC" })} UTC`,
+  ].filter(Boolean);
+  pdf.text(MARGIN, 54, scope.join("   |   "), { size: 9, color: "#e0e7ff" });
+  return 110;
+}
+
+function drawKpis(pdf: PdfDocument, report: MonthlyReport, y: number): number {
+  const kpis = [
+    ["Total spent", money(report.total, report.currency)],
+    ["Income", money(report.income, report.currency)],
+    [
+      report.savingsRate === null ? "Net cash flow" : `Net (${Math.round(report.savingsRate * 100)}% saved)`,
+      `${report.net < 0 ? "-" : ""}${money(Math.abs(report.net), report.currency)}`,
+    ],
+    ["Daily average", money(report.dailyAverage, report.currency)],
+  ];
+  const gap = 10;
+  const w = (pdf.width - MARGIN * 2 - gap * (kpis.length - 1)) / kpis.length;
+  kpis.forEach(([label, value], i) => {
+    const x = MARGIN + i * (w + gap);
+    pdf.rect(x, y, w, 52, "#f3f4f6");
+    pdf.text(x + 10, y + 10, label, { size: 8, color: "#6b7280" });
+    pdf.text(x + 10, y + 26, truncate(pdf, value, w - 20, 14), { size: 14, bold: true });
+  });
+  return y + 72;
+}
+
+function drawCategoryPie(pdf: PdfDocument, report: MonthlyReport, y: number): number {
+  y = sectionTitle(pdf, y, "Spending by category");
+  if (!report.byCategory.length) {
+    pdf.text(MARGIN, y, "No expenses recorded for this month.", { color: "#6b7280" });
+    return y + 30;
+  }
+
+  const r = 70;
+  const cx = MARGIN + r + 10;
+  const cy = y + r + 5;
+  let angle = 0;
+  report.byCategory.forEach((c, i) => {
+    const sweep = c.share * Math.PI * 2;
+    // A lone category is a full circle; split it so the arc stays well-formed.
+    if (sweep >= Math.PI * 2 - 1e-6) {
+      pdf.wedge(cx, cy, r, 0, Math.PI, SLICE_COLORS[i % SLICE_COLORS.length]);
+      pdf.wedge(cx, cy, r, Math.PI, Math.PI * 2, SLICE_COLORS[i % SLICE_COLORS.length]);
+    } else if (sweep > 0) {
+      pdf.wedge(cx, cy, r, angle, angle + sweep, SLICE_COLORS[i % SLICE_COLORS.length]);
+    }
+    angle += sweep;
+  });
+
+  const legendX = cx + r + 40;
+  const rightX = pdf.width - MARGIN;
+  report.byCategory.slice(0, 9).forEach((c, i) => {
+    const ly = y + i * 16;
+    pdf.rect(legendX, ly + 1, 9, 9, SLICE_COLORS[i % SLICE_COLORS.length]);
+    pdf.text(legendX + 16, ly, c.category, { size: 10 });
+    pdf.text(rightX - 60, ly, money(c.amount, report.currency), { size: 10, align: "right" });
+    pdf.text(rightX, ly, `${(c.share * 100).toFixed(1)}%`, { size: 10, align: "right", color: "#6b7280" });
+  });
+  if (report.byCategory.length > 9) {
+    pdf.text(legendX + 16, y + 9 * 16, `+ ${report.byCategory.length - 9} more`, { size: 9, color: "#6b7280" });
+  }
+
+  return y + Math.max(r * 2 + 20, Math.min(report.byCategory.length, 10) * 16 + 10);
+}
+
+function drawTrend(pdf: PdfDocument, report: MonthlyReport, y: number): number {
+  y = sectionTitle(pdf, y, "Daily spending trend");
+  const left = MARGIN + 50;
+  const width = pdf.width - MARGIN - left;
+  const height = 120;
+  const max = Math.max(...report.daily.map((d) => d.amount), 1);
+  const step = width / Math.max(report.daily.length - 1, 1);
+
+  pdf.rect(left, y, width, height, "#f9fafb");
+  [0, 0.5, 1].forEach((f) => {
+    const gy = y + height - f * height;
+    pdf.polyline([[left, gy], [left + width, gy]], "#e5e7eb", 0.5);
+    pdf.text(left - 6, gy - 4, money(max * f, report.currency), { size: 7, align: "right", color: "#6b7280" });
+  });
+
+  const points = report.daily.map((d, i): [number, number] => [left + i * step, y + height - (d.amount / max) * height]);
+  pdf.polygon([[left, y + height], ...points, [left + width, y + height]], "#e0e7ff");
+  pdf.polyline(points, "#4f46e5", 1.5);
+
+  const avgY = y + height - (report.dailyAverage / max) * height;
+  pdf.polyline([[left, avgY], [left + width, avgY]], "#f59e0b", 0.75);
+  pdf.text(left + width, avgY - 12, `avg ${money(report.dailyAverage, report.currency)}`, { size: 7, align: "right", color: "#b45309" });
+
+  report.daily.forEach((d, i) => {
+    const day = i + 1;
+    if (day === 1 || day % 7 === 0 || day === report.daily.length) {
+      pdf.text(left + i * step, y + height + 4, String(day), { size: 7, align: "center", color: "#6b7280" });
+    }
+  });
+  return y + height + 26;
+}
+
+function drawBudgets(pdf: PdfDocument, report: MonthlyReport, y: number): number {
+  y = sectionTitle(pdf, y, "Budget status");
+  if (!report.budgets.length) {
+    pdf.text(MARGIN, y, "No budgets set.", { color: "#6b7280" });
+    return y + 26;
+  }
+
+  const barX = MARGIN + 110;
+  const barW = 220;
+  for (const b of report.budgets) {
+    if (y > pdf.height - MARGIN - 18) {
+      pdf.addPage();
+      y = MARGIN;
+    }
+    pdf.text(MARGIN, y, truncate(pdf, b.category, 100, 10), { size: 10 });
+    pdf.rect(barX, y + 2, barW, 8, "#e5e7eb");
+    pdf.rect(barX, y + 2, (barW * Math.min(100, b.percentage)) / 100, 8, STATUS_COLORS[b.status]);
+    pdf.text(barX + barW + 10, y, `${money(b.spent, report.currency)} of ${money(b.limit, report.currency)}`, { size: 9 });
+    pdf.text(pdf.width - MARGIN, y, b.status === "over" ? `${b.percentage}% - over` : `${b.percentage}%`, {
+      size: 9,
+      bold: b.status === "over",
+      align: "right",
+      color: STATUS_COLORS[b.status],
+    });
+    y += 18;
+  }
+  return y + 10;
+}
+
+function drawLargest(pdf: PdfDocument, report: MonthlyReport, y: number): number {
+  if (!report.largest.length) return y;
+  if (y > pdf.height - 120) {
+    pdf.addPage();
+    y = MARGIN;
+  }
+  y = sectionTitle(pdf, y, "Largest expenses");
+  const right = pdf.width - MARGIN;
+  for (const e of report.largest) {
+    if (y > pdf.height - MARGIN - 14) {
+      pdf.addPage();
+      y = MARGIN;
+    }
+    pdf.text(MARGIN, y, e.date.slice(0, 10), { size: 9, color: "#6b7280" });
+    pdf.text(MARGIN + 70, y, truncate(pdf, e.title || e.category, 250, 9), { size: 9 });
+    pdf.text(MARGIN + 330, y, e.category, { size: 9, color: "#6b7280" });
+    pdf.text(right, y, money(e.amount, report.currency), { size: 9, align: "right" });
+    y += 15;
+  }
+  return y;
+}
+
+/** Lays out the monthly statement: KPIs, category pie, daily trend, budgets and largest items. */
+export function renderMonthlyReportPdf(report: MonthlyReport): Uint8Array {
+  const pdf = new PdfDocument(`Monthly Statement ${report.month}`);
+  let y = drawHeader(pdf, report);
+  y = drawKpis(pdf, report, y);
+  y = drawCategoryPie(pdf, report, y);
+  y = drawTrend(pdf, report, y);
+  y = drawBudgets(pdf, report, y);
+  drawLargest(pdf, report, y);
+  return pdf.toBytes();
+}
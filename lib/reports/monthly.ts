@@ -0,0 +1,102 @@
+import { DEFAULT_BASE_CURRENCY } from "@/lib/currency/types";
+import { spendAmount, summarizeCashFlow, transactionType } from "@/lib/expenses/cashflow";
+import type { Expense } from "@/lib/expenses/types";
+
+export type ReportBudget = { category: string; limit: number };
+
+export type BudgetStatus = ReportBudget & {
+  spent: number;
+  /** Share of the limit used, as a percentage. */
+  percentage: number;
+  /** Same thresholds as the dashboard budget cards: warning above 80%, over above 100%. */
+  status: "ok" | "warning" | "over";
+};
+
+export type MonthlyReport = {
+  /** "YYYY-MM" */
+  month: string;
+  generatedAt: string;
+  filters: { category?: string; q?: string };
+  /** Base currency every amount is expressed in. */
+  currency: string;
+  /** Spending: expenses net of refunds. */
+  total: number;
+  income: number;
+  net: number;
+  savingsRate: number | null;
+  count: number;
+  dailyAverage: number;
+  byCategory: { category: string; amount: number; share: number }[];
+  /** One entry per calendar day of the month, zero-filled. */
+  daily: { date: string; amount: number }[];
+  budgets: BudgetStatus[];
+  largest: Expense[];
+};
+
+export function daysInMonth(month: string): number {
+  const [year, m] = month.split("-").map(Number);
+  return new Date(Date.UTC(year, m, 0)).getUTCDate();
+}
+
+/**
+ * Summarises one month of (already filtered) transactions for the PDF
+ * statement. Spending figures are net of refunds; income only feeds the
+ * cash-flow numbers.
+ * Budget spend is measured against the same rows, so a category filter also
+ * narrows the budget table.
+ */
+export function buildMonthlyReport(
+  expenses: Expense[],
+  month: string,
+  budgets: ReportBudget[] = [],
+  filters: MonthlyReport["filters"] = {},
+  currency = DEFAULT_BASE_CURRENCY
+): MonthlyReport {
+  const inMonth = expenses.filter((e) => e.date.startsWith(month));
+  const rows = inMonth.filter((e) => spendAmount(e) !== 0);
+  const [flow] = summarizeCashFlow(inMonth, [month]);
+  const total = flow.spending;
+
+  const perCategory = new Map<string, number>();
+  const perDay = new Map<string, number>();
+  for (const e of rows) {
+    perCategory.set(e.category, (perCategory.get(e.category) ?? 0) + spendAmount(e));
+    const day = e.date.slice(0, 10);
+    perDay.set(day, (perDay.get(day) ?? 0) + spendAmount(e));
+  }
+
+  const days = daysInMonth(month);
+  const daily = Array.from({ length: days }, (_, i) => {
+    const date = `${month}-${String(i + 1).padStart(2, "0")}`;
+    return { date, amount: perDay.get(date) ?? 0 };
+  });
+
+  return {
+    month,
+    generatedAt: new Date().toISOString(),
+    filters,
+    currency,
+    total,
+    income: flow.income,
+    net: flow.net,
+    savingsRate: flow.savingsRate,
+    count: rows.length,
+    dailyAverage: days ? total / days : 0,
+    byCategory: [...perCategory.entries()]
+      .filter(([, amount]) => amount > 0)
+      .map(([category, amount]) => ({ category, amount, share: total ? amount / total : 0 }))
+      .sort((a, b) => b.amount - a.amount),
+    daily: daily.map((d) => ({ ...d, amount: Math.max(0, d.amount) })),
+    budgets: budgets
+      .filter((b) => !filters.category || b.category === filters.category)
+      .map((b): BudgetStatus => {
+        const spent = Math.max(0, perCategory.get(b.category) ?? 0);
+        const percentage = b.limit ? Math.round((spent / b.limit) * 100) : 0;
+        return { ...b, spent, percentage, status: percentage > 100 ? "over" : percentage > 80 ? "warning" : "ok" };
+      }),
+    largest: rows
+      .filter((e) => transactionType(e) === "expense")
+      .sort((a, b) => b.amount - a.amount)
+      .slice(0, 10),
+  };
+}
@@ -0,0 +1,37 @@
+import { isPlainObject, type FieldError, type ValidationResult } from "@/lib/validation";
+
+export type MonthlyReportRequest = {
+  month: string;
+  category?: string;
+  q?: string;
+};
+
+export function validateMonthlyReportRequest(body: unknown): ValidationResult<MonthlyReportRequest> {
+  if (!isPlainObject(body)) {
+    return { ok: false, errors: [{ field: "body", message: "must be a JSON object" }] };
+  }
+
+  const errors: FieldError[] = [];
+  const { month, category, q } = body;
+
+  if (typeof month !== "string" || !/^\d{4}-(0[1-9]|1[0-2])$/.test(month)) {
+    errors.push({ field: "month", message: "must be a month in YYYY-MM format" });
+  }
+  if (category !== undefined && typeof category !== "string") {
+    errors.push({ field: "category", message: "must be a string" });
+  }
+  if (q !== undefined && typeof q !== "string") {
+    errors.push({ field: "q", message: "must be a string" });
+  }
+
+  if (errors.length) return { ok: false, errors };
+
+  return {
+    ok: true,
+    value: {
+      month: month as string,
+      category: category && category !== "All" ? (category as string) : undefined,
+      q: (q as string | undefined)?.trim() || undefined,
+    },
+  };
+}
@@ -0,0 +1,18 @@
+/**
+ * lib/validation.ts
+ * Result types shared by the request validators (see lib/expenses/schema.ts).
+ * Kept free of server imports so client components can run the same checks.
+ */
+
+export type FieldError = { field: string; message: string };
+
+export type ValidationResult<T> = { ok: true; value: T } | { ok: false; errors: FieldError[] };
+
+export function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+/** "amount must be greater than 0; date is required" */
+export function describeErrors(errors: FieldError[]): string {
+  return errors.map((e) => `${e.field} ${e.message}`).join("; ");
+}